@@ -1,106 +1,328 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { RosterMember, RosterPattern, mentionedStudents, redactText, rosterPatterns } from './redaction.js';
+
+// Read CANVAS_PSEUDONYM_DIR: where pseudonym mappings are persisted; undefined keeps them in memory only
+export function loadPseudonymDirectory(env: NodeJS.ProcessEnv = process.env): string | undefined {
+  const setting = env.CANVAS_PSEUDONYM_DIR ?? '.canvas-pseudonyms';
+  return /^(off|false|0|none)?$/i.test(setting) ? undefined : setting;
+}
+
+// CANVAS_ANONYMIZE_IDS=true also replaces student Canvas ids with pseudonym ids
+export function isIdAnonymization(env: NodeJS.ProcessEnv = process.env): boolean {
+  return /^(1|true|yes)$/i.test(env.CANVAS_ANONYMIZE_IDS || '');
+}
+
+export interface DataAnonymizerOptions {
+  // Persist the mappings here; without a file they only live as long as the instance
+  file?: string;
+  // Mappings to start from while `file` doesn't exist yet, e.g. ones saved under an earlier tenant key
+  previousFile?: string;
+  // Replace student ids and every other identifying field with pseudonym ids like "student-3"
+  replaceIds?: boolean;
+}
+
+// Course ID -> user ID -> pseudonym number
+type PseudonymMappings = Record<string, Record<string, number>>;
+
+const PSEUDONYM_ID = /^student-(\d+)$/;
+// User fields that identify a student besides the name and id
+const IDENTIFYING_FIELDS = ['sortable_name', 'short_name', 'login_id', 'sis_user_id', 'integration_id', 'avatar_url', 'avatar_image_url', 'pronouns'];
+
+/**
+ * Replaces student names and emails with per-course pseudonyms ("Student 3"). Numbers are
+ * assigned per course in the order students are first seen and persisted to a mapping file,
+ * so a pseudonym keeps meaning the same student after a restart. Every tenant (Canvas identity)
+ * has its own anonymizer and mapping file, so sessions never share or interleave numbering.
+ *
+ * With `replaceIds` student ids become pseudonym ids ("student-3") too, and resolveUserId turns
+ * them back into Canvas ids, so a model can grade without ever seeing who it is grading.
+ */
 export class DataAnonymizer {
-  private static userNameMap = new Map<string, string>();
-  private static userCounter = 1;
+  private mappings?: Promise<PseudonymMappings>;
+  // Saves are chained so an older snapshot never overwrites a newer one
+  private saving: Promise<void> = Promise.resolve();
+
+  private readonly file?: string;
+  private readonly previousFile?: string;
+  readonly replaceIds: boolean;
+
+  constructor(options: DataAnonymizerOptions = {}) {
+    this.file = options.file;
+    this.previousFile = options.previousFile;
+    this.replaceIds = options.replaceIds === true;
+  }
+
+  private load(): Promise<PseudonymMappings> {
+    this.mappings ??= this.read();
+    return this.mappings;
+  }
+
+  private async read(): Promise<PseudonymMappings> {
+    for (const file of [this.file, this.previousFile]) {
+      if (!file) continue;
+      try {
+        return JSON.parse(await fs.readFile(file, 'utf-8'));
+      } catch (error: any) {
+        if (error.code !== 'ENOENT') throw error;
+      }
+    }
+    return {};
+  }
+
+  private save(mappings: PseudonymMappings): Promise<void> {
+    const file = this.file;
+    if (!file) return Promise.resolve();
+    this.saving = this.saving.then(async () => {
+      await fs.mkdir(path.dirname(file), { recursive: true });
+      // Write then rename, so a crash mid-write can't leave a truncated mapping behind
+      const temporary = `${file}.${process.pid}.tmp`;
+      await fs.writeFile(temporary, JSON.stringify(mappings), { mode: 0o600 });
+      await fs.rename(temporary, file);
+    }).catch(error => console.error('Failed to save pseudonym mappings:', error));
+    return this.saving;
+  }
+
+  /**
+   * Pseudonym numbers for a course, assigning the next free numbers to users seen for the first time
+   */
+  private async pseudonyms(courseId: string, userIds: string[]): Promise<Record<string, number>> {
+    const mappings = await this.load();
+    const course = (mappings[courseId] ??= {});
+    let next = Math.max(0, ...Object.values(course)) + 1;
+    let added = false;
+    for (const userId of userIds) {
+      if (course[userId] === undefined) {
+        course[userId] = next++;
+        added = true;
+      }
+    }
+    if (added) await this.save(mappings);
+    return course;
+  }
 
   /**
    * Anonymize a user object (student only, preserves teacher/admin data)
    */
-  static anonymizeUser(user: any): any {
+  private anonymizeUser(user: any, pseudonyms: Record<string, number>): any {
     if (!user || !user.id) return user;
-    
-    // Only anonymize if this is a student (no role specified means student context)
-    // Teachers/admins typically have explicit roles in the data
+
     const userId = user.id.toString();
-    
-    if (!this.userNameMap.has(userId)) {
-      this.userNameMap.set(userId, `Student ${this.userCounter++}`);
-    }
+    const number = pseudonyms[userId];
+    const anonymizedName = `Student ${number}`;
 
-    const anonymizedName = this.userNameMap.get(userId);
+    if (this.replaceIds) {
+      const anonymized = { ...user, id: pseudonymId(number), name: anonymizedName, display_name: anonymizedName };
+      for (const field of IDENTIFYING_FIELDS) delete anonymized[field];
+      if (user.email) anonymized.email = `student${number}@example.com`;
+      return anonymized;
+    }
 
-    return {
+    const anonymized = {
       ...user,
       name: anonymizedName,
       display_name: anonymizedName,
-      email: user.email ? `student${userId}@example.com` : undefined
+      // The same address redacted free text uses, and no Canvas id in it
+      email: user.email ? `student${number}@example.com` : undefined
     };
-  }
-
-  /**
-   * Anonymize an array of users
-   */
-  static anonymizeUsers(users: any[]): any[] {
-    if (!Array.isArray(users)) return users;
-    return users.map(user => this.anonymizeUser(user));
+    for (const field of IDENTIFYING_FIELDS) delete anonymized[field];
+    return anonymized;
   }
 
   /**
    * Anonymize submission data including user and comment authors
    */
-  static anonymizeSubmission(submission: any): any {
+  private anonymizeSubmission(submission: any, pseudonyms: Record<string, number>, patterns: RosterPattern[]): any {
     if (!submission) return submission;
 
     const anonymized = { ...submission };
+    const redact = (text: unknown, style: 'text' | 'filename' = 'text') =>
+      typeof text === 'string' ? this.redact(text, pseudonyms, patterns, style) : text;
+
+    // Students name themselves and each other in what they write and upload
+    if (typeof submission.body === 'string') {
+      anonymized.body = redact(submission.body);
+    }
+    if (Array.isArray(submission.attachments)) {
+      anonymized.attachments = submission.attachments.map((attachment: any) => ({
+        ...attachment,
+        filename: redact(attachment.filename, 'filename'),
+        display_name: redact(attachment.display_name, 'filename')
+      }));
+    }
 
     // Anonymize the main user
     if (submission.user) {
-      anonymized.user = this.anonymizeUser(submission.user);
+      anonymized.user = this.anonymizeUser(submission.user, pseudonyms);
     }
 
     // Anonymize comment authors (only students, preserve teacher comments)
     if (submission.submission_comments && Array.isArray(submission.submission_comments)) {
       anonymized.submission_comments = submission.submission_comments.map((comment: any) => {
         const commentCopy = { ...comment };
-        
+        for (const field of ['comment', 'author_name']) {
+          if (typeof comment[field] === 'string') commentCopy[field] = redact(comment[field]);
+        }
+
         // Only anonymize if the author is a student (not teacher/admin)
         if (comment.author && comment.author.role === 'student') {
-          commentCopy.author = this.anonymizeUser(comment.author);
+          commentCopy.author = this.anonymizeUser(comment.author, pseudonyms);
+          if (this.replaceIds) {
+            commentCopy.author_id = commentCopy.author.id;
+            commentCopy.author_name = commentCopy.author.display_name;
+          }
         }
-        
+
         return commentCopy;
       });
     }
 
+    // The submission's own user id also shows up in its URLs
+    const userId = submission.user_id?.toString();
+    if (this.replaceIds && userId && pseudonyms[userId] !== undefined) {
+      const replacement = pseudonymId(pseudonyms[userId]);
+      anonymized.user_id = replacement;
+      for (const field of ['preview_url', 'html_url', 'url']) {
+        if (typeof anonymized[field] === 'string') {
+          anonymized[field] = anonymized[field].replace(new RegExp(`/(submissions|users)/${userId}(?=[/?#]|$)`, 'g'), `/$1/${replacement}`);
+        }
+      }
+    }
+
     return anonymized;
   }
 
+  // Students a submission names, in the order they appear, including roster students its text mentions
+  private submissionUserIds(submission: any, patterns: RosterPattern[]): string[] {
+    if (!submission) return [];
+    const ids = submission.user?.id ? [submission.user.id.toString()] : [];
+    if (this.replaceIds && submission.user_id) ids.push(submission.user_id.toString());
+    const comments = Array.isArray(submission.submission_comments) ? submission.submission_comments : [];
+    for (const comment of comments) {
+      if (comment.author?.role === 'student' && comment.author.id) ids.push(comment.author.id.toString());
+    }
+    const texts = [
+      submission.body,
+      ...comments.flatMap((comment: any) => [comment.comment, comment.author_name]),
+      ...(Array.isArray(submission.attachments) ? submission.attachments : []).flatMap((attachment: any) => [attachment.filename, attachment.display_name])
+    ];
+    for (const text of texts) {
+      if (typeof text === 'string') ids.push(...mentionedStudents(text, patterns));
+    }
+    return ids;
+  }
+
+  private redact(text: string, pseudonyms: Record<string, number>, patterns: RosterPattern[], style: 'text' | 'filename'): string {
+    return redactText(text, patterns, ({ userId, kind }) => {
+      if (userId === undefined) return style === 'filename' ? 'student' : '[student]';
+      const number = pseudonyms[userId];
+      if (kind === 'email') return `student${number}@example.com`;
+      if (kind === 'id') return pseudonymId(number);
+      return style === 'filename' ? `Student_${number}` : `Student ${number}`;
+    });
+  }
+
+  /**
+   * Anonymize an array of users from one course
+   */
+  async anonymizeUsers(courseId: string, users: any[]): Promise<any[]> {
+    if (!Array.isArray(users)) return users;
+    const pseudonyms = await this.pseudonyms(courseId, users.filter(user => user?.id).map(user => user.id.toString()));
+    return users.map(user => this.anonymizeUser(user, pseudonyms));
+  }
+
   /**
-   * Anonymize an array of submissions
+   * Anonymize an array of submissions from one course. Names, emails and ids of the course
+   * roster's students are also replaced wherever they appear in bodies, comments and filenames.
    */
-  static anonymizeSubmissions(submissions: any[]): any[] {
+  async anonymizeSubmissions(courseId: string, submissions: any[], roster: RosterMember[] = []): Promise<any[]> {
     if (!Array.isArray(submissions)) return submissions;
-    return submissions.map(submission => this.anonymizeSubmission(submission));
+    const patterns = rosterPatterns(roster);
+    const pseudonyms = await this.pseudonyms(courseId, submissions.flatMap(submission => this.submissionUserIds(submission, patterns)));
+    return submissions.map(submission => this.anonymizeSubmission(submission, pseudonyms, patterns));
   }
 
   /**
-   * Anonymize assignment data that may include submission info
+   * Anonymize an array of assignments from one course, which may include submission info
    */
-  static anonymizeAssignment(assignment: any): any {
-    if (!assignment) return assignment;
+  async anonymizeAssignments(courseId: string, assignments: any[], roster: RosterMember[] = []): Promise<any[]> {
+    if (!Array.isArray(assignments)) return assignments;
+    const patterns = rosterPatterns(roster);
+    const pseudonyms = await this.pseudonyms(courseId, assignments.flatMap(assignment => this.submissionUserIds(assignment?.submission, patterns)));
+    return assignments.map(assignment =>
+      assignment?.submission ? { ...assignment, submission: this.anonymizeSubmission(assignment.submission, pseudonyms, patterns) } : assignment
+    );
+  }
 
-    const anonymized = { ...assignment };
+  /**
+   * Replace the roster students a text mentions with their pseudonyms, e.g. in a downloaded document
+   */
+  async redactText(courseId: string, text: string, roster: RosterMember[], style: 'text' | 'filename' = 'text'): Promise<string> {
+    const patterns = rosterPatterns(roster);
+    const pseudonyms = await this.pseudonyms(courseId, mentionedStudents(text, patterns));
+    return this.redact(text, pseudonyms, patterns, style);
+  }
 
-    // If assignment includes submission data
-    if (assignment.submission) {
-      anonymized.submission = this.anonymizeSubmission(assignment.submission);
+  /**
+   * Canvas user id behind a pseudonym id ("student-3") in a course. Anything else is taken to
+   * be a Canvas id already and returned unchanged.
+   */
+  async resolveUserId(courseId: string, userId: string): Promise<string> {
+    const match = userId.match(PSEUDONYM_ID);
+    if (!match) return userId;
+    const course = (await this.load())[courseId] || {};
+    const found = Object.entries(course).find(([, number]) => number === Number(match[1]));
+    if (!found) {
+      throw new Error(`Unknown student ${userId} in course ${courseId}; list the course's students or submissions first`);
     }
+    return found[0];
+  }
 
-    return anonymized;
+  // Replace a student's Canvas id in a course API path with their pseudonym id, when they have one
+  async pseudonymizePath(path: string): Promise<string> {
+    const match = path.match(/\/courses\/([^/]+)\/.*\/(?:submissions|users)\/(\d+)(?=\/|$)/);
+    if (!match) return path;
+    const number = (await this.load())[match[1]]?.[match[2]];
+    return number === undefined ? path : path.replace(new RegExp(`/(submissions|users)/${match[2]}(?=/|$)`), `/$1/${pseudonymId(number)}`);
   }
 
   /**
-   * Anonymize an array of assignments
+   * Forget the pseudonyms of one course, or of every course of this tenant. Students get new
+   * numbers the next time they are seen.
    */
-  static anonymizeAssignments(assignments: any[]): any[] {
-    if (!Array.isArray(assignments)) return assignments;
-    return assignments.map(assignment => this.anonymizeAssignment(assignment));
+  async reset(courseId?: string): Promise<void> {
+    const mappings = await this.load();
+    for (const course of courseId !== undefined ? [courseId] : Object.keys(mappings)) {
+      delete mappings[course];
+    }
+    await this.save(mappings);
   }
+}
 
-  /**
-   * Reset the anonymization state (useful for testing)
-   */
-  static reset(): void {
-    this.userNameMap.clear();
-    this.userCounter = 1;
+function pseudonymId(number: number): string {
+  return `student-${number}`;
+}
+
+export function isPseudonymId(userId: string): boolean {
+  return PSEUDONYM_ID.test(userId);
+}
+
+const tenantAnonymizers = new Map<string, DataAnonymizer>();
+
+/**
+ * The anonymizer of one tenant (Canvas user), shared by every session acting as that user.
+ * `previousTenant` names mappings saved under an older key, picked up until the tenant saves its own.
+ */
+export function getTenantAnonymizer(tenant: string, env: NodeJS.ProcessEnv = process.env, previousTenant?: string): DataAnonymizer {
+  let anonymizer = tenantAnonymizers.get(tenant);
+  if (!anonymizer) {
+    const directory = loadPseudonymDirectory(env);
+    anonymizer = new DataAnonymizer({
+      file: directory ? path.join(directory, `${tenant}.json`) : undefined,
+      previousFile: directory && previousTenant ? path.join(directory, `${previousTenant}.json`) : undefined,
+      replaceIds: isIdAnonymization(env)
+    });
+    tenantAnonymizers.set(tenant, anonymizer);
   }
-} 
\ No newline at end of file
+  return anonymizer;
+}
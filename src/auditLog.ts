@@ -0,0 +1,119 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+
+// What a write changed on one resource, as it was before the write
+export interface AuditedPrevious {
+  path: string;
+  action: 'create' | 'update' | 'delete';
+  // Previous values of the fields the write set; the whole resource for deletes
+  values: Record<string, unknown>;
+}
+
+// One Canvas write, as stored in the audit log
+export interface AuditEntry {
+  timestamp: string;
+  sessionId?: string;
+  clientId?: string;
+  tool?: string;
+  // Tool arguments with comment text and email addresses redacted
+  arguments?: Record<string, unknown>;
+  method: string;
+  // Canvas path, without the host or query string
+  endpoint: string;
+  // HTTP status Canvas answered with; missing when no response arrived
+  status?: number;
+  error?: string;
+  // Missing when the previous state could not be fetched
+  previous?: AuditedPrevious[];
+}
+
+export interface AuditLogFilter {
+  sessionId?: string;
+  clientId?: string;
+  tool?: string;
+  // Most recent entries to return
+  limit?: number;
+}
+
+// Read CANVAS_AUDIT_LOG: a JSONL file path, or "off"; undefined when auditing is disabled
+export function loadAuditLogPath(env: NodeJS.ProcessEnv = process.env): string | undefined {
+  const setting = env.CANVAS_AUDIT_LOG ?? '.canvas-audit.jsonl';
+  return /^(off|false|0|none)?$/i.test(setting) ? undefined : setting;
+}
+
+// Arguments holding free text written to or about students
+const TEXT_ARGUMENTS = ['comment', 'comments', 'text_comment'];
+const EMAIL = /[\w.+-]+@[\w-]+(\.[\w-]+)+/g;
+
+// Keep the shape of the arguments for review, but not what was said to or about a student
+export function redactArguments(value: any, key?: string): any {
+  if (typeof value === 'string') {
+    return key && TEXT_ARGUMENTS.includes(key) ? `[redacted, ${value.length} chars]` : value.replace(EMAIL, '[email]');
+  }
+  if (Array.isArray(value)) return value.map(item => redactArguments(item, key));
+  if (!value || typeof value !== 'object') return value;
+  return Object.fromEntries(Object.entries(value).map(([field, fieldValue]) => [field, redactArguments(fieldValue, field)]));
+}
+
+/**
+ * Append-only JSONL log of every write the server sent to Canvas. Entries are only ever
+ * appended, one JSON object per line, so the file can be shipped to log tooling as it grows.
+ */
+export class AuditLog {
+  // Appends are chained so concurrent writes never interleave within a line
+  private pending: Promise<void> = Promise.resolve();
+  private directoryReady?: Promise<unknown>;
+
+  constructor(readonly file: string) {}
+
+  append(entry: AuditEntry): Promise<void> {
+    this.directoryReady ??= fs.mkdir(path.dirname(path.resolve(this.file)), { recursive: true });
+    const line = `${JSON.stringify(entry)}\n`;
+    const appended = this.pending.then(async () => {
+      await this.directoryReady;
+      await fs.appendFile(this.file, line, { encoding: 'utf-8', mode: 0o600 });
+    });
+    this.pending = appended.catch(() => undefined);
+    return appended;
+  }
+
+  // Entries matching the filter, oldest first
+  async read(filter: AuditLogFilter = {}): Promise<AuditEntry[]> {
+    await this.pending;
+    let text: string;
+    try {
+      text = await fs.readFile(this.file, 'utf-8');
+    } catch (error: any) {
+      if (error.code === 'ENOENT') return [];
+      throw error;
+    }
+
+    const entries: AuditEntry[] = [];
+    for (const line of text.split('\n')) {
+      if (!line.trim()) continue;
+      let entry: AuditEntry;
+      try {
+        entry = JSON.parse(line);
+      } catch {
+        // A line cut short by a crash shouldn't hide the rest of the log
+        continue;
+      }
+      if (filter.sessionId && entry.sessionId !== filter.sessionId) continue;
+      if (filter.clientId && entry.clientId !== filter.clientId) continue;
+      if (filter.tool && entry.tool !== filter.tool) continue;
+      entries.push(entry);
+    }
+    return filter.limit !== undefined ? entries.slice(Math.max(0, entries.length - filter.limit)) : entries;
+  }
+}
+
+let sharedAuditLog: AuditLog | null | undefined;
+
+// Process-wide audit log configured from CANVAS_AUDIT_LOG; null when auditing is off
+export function getSharedAuditLog(env: NodeJS.ProcessEnv = process.env): AuditLog | null {
+  if (sharedAuditLog === undefined) {
+    const file = loadAuditLogPath(env);
+    sharedAuditLog = file ? new AuditLog(file) : null;
+  }
+  return sharedAuditLog;
+}
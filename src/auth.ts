@@ -0,0 +1,189 @@
+import { createHmac, createPublicKey, timingSafeEqual, verify as verifySignature, createHash } from "crypto";
+import type { NextFunction, Request, RequestHandler, Response } from "express";
+import type { AuthInfo } from "@modelcontextprotocol/sdk/server/auth/types.js";
+
+declare module "express-serve-static-core" {
+  interface Request {
+    auth?: AuthInfo;
+  }
+}
+
+export interface JwtConfig {
+  secret?: string;     // HS256 shared secret
+  publicKey?: string;  // PEM public key for RS256/ES256
+  issuer?: string;
+  audience?: string;
+}
+
+export interface AuthConfig {
+  apiKeys: string[];
+  jwt?: JwtConfig;
+  disabled: boolean;
+}
+
+// Read HTTP auth settings from environment variables
+export function loadAuthConfig(env: NodeJS.ProcessEnv = process.env): AuthConfig {
+  const apiKeys = (env.MCP_API_KEYS || "")
+    .split(",")
+    .map(key => key.trim())
+    .filter(Boolean);
+
+  let jwt: JwtConfig | undefined;
+  if (env.MCP_JWT_SECRET || env.MCP_JWT_PUBLIC_KEY) {
+    jwt = {
+      secret: env.MCP_JWT_SECRET || undefined,
+      // Allow PEM keys with escaped newlines, as most hosting dashboards store them on one line
+      publicKey: env.MCP_JWT_PUBLIC_KEY ? env.MCP_JWT_PUBLIC_KEY.replace(/\\n/g, "\n") : undefined,
+      issuer: env.MCP_JWT_ISSUER || undefined,
+      audience: env.MCP_JWT_AUDIENCE || undefined
+    };
+  }
+
+  return {
+    apiKeys,
+    jwt,
+    disabled: env.MCP_AUTH === "none"
+  };
+}
+
+export function isAuthConfigured(config: AuthConfig): boolean {
+  return config.apiKeys.length > 0 || !!config.jwt;
+}
+
+// Constant-time string comparison (hash first so lengths always match)
+function safeEqual(a: string, b: string): boolean {
+  const hashA = createHash("sha256").update(a).digest();
+  const hashB = createHash("sha256").update(b).digest();
+  return timingSafeEqual(hashA, hashB);
+}
+
+function base64UrlDecode(segment: string): Buffer {
+  return Buffer.from(segment.replace(/-/g, "+").replace(/_/g, "/"), "base64");
+}
+
+// Validate a compact JWT and return its claims, or throw with a reason
+export function verifyJwt(token: string, config: JwtConfig, now: number = Date.now()): Record<string, any> {
+  const parts = token.split(".");
+  if (parts.length !== 3) {
+    throw new Error("Malformed token");
+  }
+  const [encodedHeader, encodedPayload, encodedSignature] = parts;
+
+  let header: any;
+  let payload: any;
+  try {
+    header = JSON.parse(base64UrlDecode(encodedHeader).toString("utf-8"));
+    payload = JSON.parse(base64UrlDecode(encodedPayload).toString("utf-8"));
+  } catch {
+    throw new Error("Malformed token");
+  }
+
+  const signingInput = `${encodedHeader}.${encodedPayload}`;
+  const signature = base64UrlDecode(encodedSignature);
+
+  switch (header.alg) {
+    case "HS256": {
+      if (!config.secret) throw new Error("HS256 tokens are not accepted");
+      const expected = createHmac("sha256", config.secret).update(signingInput).digest();
+      if (expected.length !== signature.length || !timingSafeEqual(expected, signature)) {
+        throw new Error("Invalid token signature");
+      }
+      break;
+    }
+    case "RS256":
+    case "ES256": {
+      if (!config.publicKey) throw new Error(`${header.alg} tokens are not accepted`);
+      const key = createPublicKey(config.publicKey);
+      const valid = verifySignature(
+        "sha256",
+        Buffer.from(signingInput),
+        header.alg === "ES256" ? { key, dsaEncoding: "ieee-p1363" } : key,
+        signature
+      );
+      if (!valid) throw new Error("Invalid token signature");
+      break;
+    }
+    default:
+      throw new Error(`Unsupported token algorithm: ${header.alg}`);
+  }
+
+  const nowSeconds = Math.floor(now / 1000);
+  if (typeof payload.exp === "number" && payload.exp <= nowSeconds) {
+    throw new Error("Token has expired");
+  }
+  if (typeof payload.nbf === "number" && payload.nbf > nowSeconds) {
+    throw new Error("Token is not yet valid");
+  }
+  if (config.issuer && payload.iss !== config.issuer) {
+    throw new Error("Unexpected token issuer");
+  }
+  if (config.audience) {
+    const audiences = Array.isArray(payload.aud) ? payload.aud : [payload.aud];
+    if (!audiences.includes(config.audience)) {
+      throw new Error("Unexpected token audience");
+    }
+  }
+
+  return payload;
+}
+
+// Resolve a bearer token to auth info using the configured API keys or JWT settings
+export function authenticateToken(token: string, config: AuthConfig): AuthInfo {
+  if (config.apiKeys.some(key => safeEqual(key, token))) {
+    return {
+      token,
+      // Identify API-key clients by a fingerprint so the key itself never ends up in logs
+      clientId: `key-${createHash("sha256").update(token).digest("hex").slice(0, 12)}`,
+      scopes: []
+    };
+  }
+
+  if (config.jwt) {
+    const claims = verifyJwt(token, config.jwt);
+    return {
+      token,
+      clientId: String(claims.sub || claims.client_id || claims.azp || "jwt-client"),
+      scopes: typeof claims.scope === "string" ? claims.scope.split(" ").filter(Boolean) : [],
+      expiresAt: typeof claims.exp === "number" ? claims.exp : undefined,
+      extra: { claims }
+    };
+  }
+
+  throw new Error("Invalid API key");
+}
+
+function sendUnauthorized(res: Response, description: string) {
+  res.set("WWW-Authenticate", `Bearer realm="canvas-mcp", error="invalid_token", error_description="${description.replace(/"/g, "'")}"`);
+  res.status(401).json({
+    jsonrpc: "2.0",
+    error: {
+      code: -32001,
+      message: `Unauthorized: ${description}`
+    },
+    id: null
+  });
+}
+
+// Express middleware that rejects requests without a valid bearer credential
+export function requireAuth(config: AuthConfig): RequestHandler {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (config.disabled) {
+      next();
+      return;
+    }
+
+    const header = req.headers.authorization;
+    const match = header?.match(/^Bearer\s+(.+)$/i);
+    if (!match) {
+      sendUnauthorized(res, "Missing bearer token");
+      return;
+    }
+
+    try {
+      req.auth = authenticateToken(match[1].trim(), config);
+      next();
+    } catch (error) {
+      sendUnauthorized(res, error instanceof Error ? error.message : "Invalid token");
+    }
+  };
+}
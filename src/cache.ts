@@ -0,0 +1,227 @@
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+
+export interface CacheEntry {
+  data: any;
+  // Response headers worth keeping, e.g. the pagination Link header
+  headers: Record<string, string>;
+  etag?: string;
+  expiresAt: number;
+  // Invalidation scope, e.g. "https://canvas.example.com|course:123"
+  scope: string;
+  // Holds students' names or emails (see holdsRoster), so it's never written to disk
+  roster?: boolean;
+}
+
+// Storage for cached Canvas responses. Implementations must tolerate concurrent use.
+export interface CacheBackend {
+  get(key: string, scope: string): Promise<CacheEntry | undefined>;
+  set(key: string, entry: CacheEntry): Promise<void>;
+  // Drop every entry stored under the given scope
+  invalidateScope(scope: string): Promise<void>;
+}
+
+// In-memory LRU: Map iteration order is insertion order, so re-inserting on read keeps recent entries last
+export class MemoryLruCache implements CacheBackend {
+  private entries = new Map<string, CacheEntry>();
+
+  constructor(private maxEntries: number = 500) {}
+
+  async get(key: string, _scope: string): Promise<CacheEntry | undefined> {
+    const entry = this.entries.get(key);
+    if (entry) {
+      this.entries.delete(key);
+      this.entries.set(key, entry);
+    }
+    // Hand out copies so callers mutating a response can't corrupt the cache
+    return entry && structuredClone(entry);
+  }
+
+  async set(key: string, entry: CacheEntry): Promise<void> {
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value as string;
+      this.entries.delete(oldest);
+    }
+  }
+
+  async invalidateScope(scope: string): Promise<void> {
+    for (const [key, entry] of this.entries) {
+      if (entry.scope === scope) this.entries.delete(key);
+    }
+  }
+}
+
+const hash = (value: string) => createHash('sha256').update(value).digest('hex');
+
+/**
+ * On-disk cache that survives restarts: one directory per scope, one JSON file per entry.
+ * Roster responses stay out of it, so the disk only ever holds course content. Expired entries
+ * are kept for `keepExpiredMs` to be revalidated with their ETag, then pruned when read or by prune().
+ */
+export class DiskCache implements CacheBackend {
+  constructor(private directory: string, private keepExpiredMs: number = 24 * 60 * 60 * 1000) {}
+
+  private scopeDir(scope: string): string {
+    return path.join(this.directory, hash(scope).slice(0, 32));
+  }
+
+  private filePath(key: string, scope: string): string {
+    return path.join(this.scopeDir(scope), `${hash(key)}.json`);
+  }
+
+  // Whether an entry is no use any more: expired with nothing to revalidate, or expired too long ago
+  private isStale(entry: CacheEntry, now: number): boolean {
+    return entry.expiresAt <= now && (!entry.etag || entry.expiresAt + this.keepExpiredMs <= now);
+  }
+
+  async get(key: string, scope: string): Promise<CacheEntry | undefined> {
+    const file = this.filePath(key, scope);
+    let entry: CacheEntry;
+    try {
+      entry = JSON.parse(await fs.readFile(file, 'utf-8'));
+    } catch {
+      // Missing, corrupt or concurrently removed entry
+      return undefined;
+    }
+    if (this.isStale(entry, Date.now())) {
+      await fs.rm(file, { force: true });
+      return undefined;
+    }
+    return entry;
+  }
+
+  async set(key: string, entry: CacheEntry): Promise<void> {
+    if (entry.roster) return;
+    await fs.mkdir(this.scopeDir(entry.scope), { recursive: true, mode: 0o700 });
+    const file = this.filePath(key, entry.scope);
+    const temp = `${file}.${process.pid}.tmp`;
+    await fs.writeFile(temp, JSON.stringify(entry), { mode: 0o600 });
+    await fs.rename(temp, file);
+  }
+
+  async invalidateScope(scope: string): Promise<void> {
+    await fs.rm(this.scopeDir(scope), { recursive: true, force: true });
+  }
+
+  // Remove stale and unreadable entries, left-over temp files and emptied scope directories
+  async prune(now: number = Date.now()): Promise<void> {
+    let scopes: string[];
+    try {
+      scopes = await fs.readdir(this.directory);
+    } catch {
+      return;
+    }
+    for (const scope of scopes) {
+      const dir = path.join(this.directory, scope);
+      let files: string[];
+      try {
+        files = await fs.readdir(dir);
+      } catch {
+        continue;
+      }
+      let kept = 0;
+      for (const name of files) {
+        const file = path.join(dir, name);
+        try {
+          if (name.endsWith('.json') && !this.isStale(JSON.parse(await fs.readFile(file, 'utf-8')), now)) {
+            kept++;
+            continue;
+          }
+        } catch {
+          // Unreadable, so of no use either
+        }
+        await fs.rm(file, { force: true });
+      }
+      if (kept === 0) await fs.rm(dir, { recursive: true, force: true });
+    }
+  }
+}
+
+export interface TtlRule {
+  pattern: RegExp;
+  ttlMs: number;
+}
+
+// Per-endpoint TTLs, first match wins. Submissions and files are never cached: grades change
+// underneath us and files are large.
+export const DEFAULT_TTL_RULES: TtlRule[] = [
+  { pattern: /\/submissions(\/|$)/, ttlMs: 0 },
+  { pattern: /\/files(\/|$)/, ttlMs: 0 },
+  { pattern: /\/revisions(\/|$)/, ttlMs: 0 },
+  { pattern: /^\/api\/v1\/courses\/?$/, ttlMs: 5 * 60 * 1000 },
+  { pattern: /\/(users|sections|rubrics|assignment_groups)(\/|$)/, ttlMs: 5 * 60 * 1000 },
+  { pattern: /\/(assignments|modules|pages|quizzes)(\/|$)/, ttlMs: 60 * 1000 },
+];
+
+/**
+ * Response cache for CanvasClient GET requests. Entries are keyed per credential namespace so
+ * tenants never share data, but invalidated per course across namespaces, since a write by one
+ * teacher makes everyone's copy of that course stale.
+ */
+export class ResponseCache {
+  constructor(
+    private backend: CacheBackend,
+    private rules: TtlRule[] = DEFAULT_TTL_RULES,
+    private defaultTtlMs: number = 0
+  ) {}
+
+  ttlFor(urlPath: string): number {
+    const rule = this.rules.find(candidate => candidate.pattern.test(urlPath));
+    return rule ? rule.ttlMs : this.defaultTtlMs;
+  }
+
+  key(namespace: string, url: string, params: any): string {
+    return `${namespace}|${url}|${JSON.stringify(params ?? {})}`;
+  }
+
+  get(key: string, scope: string) {
+    return this.backend.get(key, scope);
+  }
+
+  set(key: string, entry: CacheEntry) {
+    return this.backend.set(key, entry);
+  }
+
+  invalidateScope(scope: string) {
+    return this.backend.invalidateScope(scope);
+  }
+}
+
+const ROSTER_PATH = /\/(users|enrollments|search\/recipients)(\/|$)/;
+const ROSTER_INCLUDES = ['students', 'user', 'users', 'email', 'enrollments'];
+
+// Whether a GET returns students' names or emails: user and enrollment lists, or anything asked to include them
+export function holdsRoster(urlPath: string, params: any): boolean {
+  const include = params?.include ?? params?.['include[]'];
+  const includes = (Array.isArray(include) ? include : [include]).map(String);
+  return ROSTER_PATH.test(urlPath) || includes.some(value => ROSTER_INCLUDES.includes(value));
+}
+
+// Course a Canvas API path belongs to, used as the invalidation scope
+export function courseScope(baseUrl: string, urlPath: string): string {
+  const match = urlPath.match(/\/api\/v1\/courses\/([^/?]+)/);
+  return `${baseUrl}|${match ? `course:${decodeURIComponent(match[1])}` : 'global'}`;
+}
+
+let sharedCache: ResponseCache | null | undefined;
+
+// Process-wide cache configured from CANVAS_CACHE (memory, disk or off); null when disabled
+export function getSharedResponseCache(env: NodeJS.ProcessEnv = process.env): ResponseCache | null {
+  if (sharedCache !== undefined) return sharedCache;
+
+  const mode = (env.CANVAS_CACHE || 'memory').toLowerCase();
+  if (mode === 'off' || mode === 'none' || mode === 'false') {
+    sharedCache = null;
+  } else if (mode === 'disk') {
+    const disk = new DiskCache(env.CANVAS_CACHE_DIR || '.canvas-cache');
+    // Clear out what earlier runs left behind; entries are read lazily, so this needn't finish first
+    void disk.prune().catch(() => undefined);
+    sharedCache = new ResponseCache(disk);
+  } else {
+    sharedCache = new ResponseCache(new MemoryLruCache(Number(env.CANVAS_CACHE_MAX_ENTRIES) || 500));
+  }
+  return sharedCache;
+}
@@ -1,20 +1,355 @@
-import axios, { AxiosInstance, AxiosRequestConfig } from 'axios';
-import { DataAnonymizer } from './anonymizer.js';
+import axios, { AxiosInstance, AxiosRequestConfig, AxiosResponse } from 'axios';
+import { createHash, randomUUID } from 'crypto';
+import { EventEmitter } from 'events';
+import { DataAnonymizer, getTenantAnonymizer, isIdAnonymization, isPseudonymId } from './anonymizer.js';
+import { RosterMember } from './redaction.js';
+import { CanvasCredentials, DownloadedContent, DownloadedFile, Page } from './types.js';
+import { RateLimiter, getTokenRateLimiter, isThrottled, loadRateLimiterOptions } from './rateLimiter.js';
+import { CanvasApiError, CanvasRequestCancelledError, toCanvasApiError } from './errors.js';
+import { CacheEntry, ResponseCache, courseScope, getSharedResponseCache, holdsRoster } from './cache.js';
+import { TrafficRecorder, getSharedTrafficRecorder } from './recorder.js';
+import { PlannedChange, isDryRun, planWrite, recordPlannedChanges } from './dryRun.js';
+import { AuditLog, AuditedPrevious, getSharedAuditLog, redactArguments } from './auditLog.js';
+import { currentToolCall, reportProgress } from './toolContext.js';
+import { UndoJournal, UndoResult, UndoConflict, findConflicts, restorePayload } from './undoJournal.js';
+import { PageEditResult, PageEditStore, checkPageEdit, findPageEditConflict } from './pageEdits.js';
+import { ExtractedText, TextExtractionOptions, detectFormat, extractDocumentText, isTextContentType, loadTextExtractionOptions } from './textExtraction.js';
+import { DownloadBudget, DownloadLimitError, DownloadOptions, isAllowedContentType, loadDownloadOptions, mapWithConcurrency, readLimited } from './downloads.js';
+
+export interface CanvasClientOptions {
+  // Response cache for GET requests; defaults to the process-wide cache, false disables caching
+  cache?: ResponseCache | false;
+  // Record or replay Canvas traffic; defaults to CANVAS_RECORD / CANVAS_REPLAY, false disables it
+  recorder?: TrafficRecorder | false;
+  // Append-only log of writes; defaults to CANVAS_AUDIT_LOG, false disables it
+  auditLog?: AuditLog | false;
+  // Student pseudonyms; defaults to the anonymizer shared by every login of the same Canvas user
+  anonymizer?: DataAnonymizer;
+  // Size limits for reading text out of files; defaults to CANVAS_EXTRACT_MAX_BYTES / CANVAS_EXTRACT_MAX_CHARS
+  textExtraction?: TextExtractionOptions;
+  // Download caps, content type allowlist and parallelism; defaults to the CANVAS_DOWNLOAD_* variables
+  downloads?: DownloadOptions;
+  // Concurrency cap and retries; defaults to the limiter shared by every client with the same Canvas token
+  rateLimiter?: RateLimiter;
+}
+
+// Writes sent by every client in the process, as events named by course scope (see courseScope),
+// so a session hears about changes other sessions make to the same Canvas course
+const courseWrites = new EventEmitter().setMaxListeners(0);
+
+// Parse an RFC 8288 Link header into a map of rel -> URL
+function parseLinkHeader(header: string | undefined): Record<string, string> | undefined {
+  if (!header) return undefined;
+  const links: Record<string, string> = {};
+  for (const part of header.split(',')) {
+    const match = part.match(/<([^>]+)>\s*;\s*rel="?([^";]+)"?/);
+    if (match) {
+      links[match[2]] = match[1];
+    }
+  }
+  return links;
+}
+
+// Whether sending a request twice does the same as sending it once. POSTs create things, and a
+// submission PUT carrying comment[text_comment] appends a new comment each time it's sent.
+function isIdempotent(method: string, config: AxiosRequestConfig): boolean {
+  return method !== 'post' && config.data?.comment?.text_comment === undefined;
+}
+
+// Decide whether a failed request may be sent again. Non-idempotent requests are only retried when
+// Canvas throttled them, since a 5xx or dropped connection may hide a write that did happen.
+function retryDecision(error: any, idempotent: boolean): { retry: boolean; throttled: boolean } {
+  // Already classified before reaching Canvas, e.g. a missing OAuth login
+  if (error instanceof CanvasApiError) {
+    return { retry: false, throttled: false };
+  }
+  const status: number | undefined = error.response?.status;
+  if (isThrottled(status, error.response?.data)) {
+    return { retry: true, throttled: true };
+  }
+  if (status !== undefined) {
+    return { retry: idempotent && status >= 500, throttled: false };
+  }
+  // No response at all: connection reset, timeout, DNS hiccup
+  return { retry: idempotent && !axios.isCancel(error), throttled: false };
+}
+
+// Text formats whose first bytes are still worth reading when the whole file is too large
+function isReadableInPart(contentType: string, filename: string): boolean {
+  const format = detectFormat(contentType, filename);
+  return format === 'text' || format === 'markdown' || format === 'html';
+}
+
+// Audit log view of a planned write: previous values of the changed fields, or the whole resource for deletes
+function auditedPrevious(plan: { changes: PlannedChange[]; response: any }): AuditedPrevious[] {
+  return plan.changes.map(change => ({
+    path: change.path,
+    action: change.action,
+    values: change.action === 'delete'
+      ? plan.response ?? {}
+      : Object.fromEntries(change.fields.filter(field => field.before !== undefined).map(field => [field.field, field.before]))
+  }));
+}
 
 export class CanvasClient {
   private axios: AxiosInstance;
+  // Shared with every other client using the same token, since Canvas rate limits per token
+  private limiter: RateLimiter;
+  private cache: ResponseCache | null;
+  // Cache entries are only shared between clients acting with the same Canvas identity
+  private cacheNamespace: string;
+  readonly auditLog: AuditLog | null;
+  // Snapshots for undo-change, private to this client and so to one HTTP session
+  readonly undoJournal = new UndoJournal();
+  // Page rewrites patch-page-content staged for apply-page-changes, likewise per session
+  readonly pageEdits = new PageEditStore();
+  // Resolved on first use, since finding the Canvas user behind the credentials takes a request
+  private anonymizer?: Promise<DataAnonymizer>;
+  private readonly replaceIds: boolean;
+  private textExtraction: TextExtractionOptions;
+  private downloads: DownloadOptions;
+
+  constructor(private baseUrl: string, credentials: string | CanvasCredentials, options: CanvasClientOptions = {}) {
+    this.cache = options.cache === false ? null : options.cache || getSharedResponseCache();
+    this.auditLog = options.auditLog === false ? null : options.auditLog || getSharedAuditLog();
+    const identity = typeof credentials === 'string' ? credentials : credentials.id;
+    this.cacheNamespace = identity
+      ? createHash('sha256').update(`${baseUrl}|${identity}`).digest('hex').slice(0, 32)
+      : randomUUID();
+    this.limiter = options.rateLimiter || (identity ? getTokenRateLimiter(this.cacheNamespace) : new RateLimiter(loadRateLimiterOptions()));
+    // Pseudonyms persist per Canvas user (see students()); clients without credentials keep theirs in memory
+    if (options.anonymizer || !identity) {
+      this.anonymizer = Promise.resolve(options.anonymizer || new DataAnonymizer());
+    }
+    this.replaceIds = options.anonymizer ? options.anonymizer.replaceIds : !!identity && isIdAnonymization();
+    this.textExtraction = options.textExtraction || loadTextExtractionOptions();
+    this.downloads = options.downloads || loadDownloadOptions();
+
+    const recorder = options.recorder === false ? null : options.recorder || getSharedTrafficRecorder();
+    const adapter = recorder ? recorder.adapter(axios.getAdapter(axios.defaults.adapter)) : undefined;
+
+    if (typeof credentials === 'string') {
+      this.axios = axios.create({
+        baseURL: baseUrl,
+        headers: { Authorization: `Bearer ${credentials}` },
+        adapter
+      });
+      return;
+    }
+
+    this.axios = axios.create({ baseURL: baseUrl, adapter });
+
+    // Resolve the token per request so refreshed tokens are picked up immediately
+    this.axios.interceptors.request.use(async (requestConfig) => {
+      requestConfig.headers.Authorization = `Bearer ${await credentials.getAccessToken()}`;
+      return requestConfig;
+    });
 
-  constructor(baseUrl: string, apiToken: string) {
-    this.axios = axios.create({
-      baseURL: baseUrl,
-      headers: { Authorization: `Bearer ${apiToken}` }
+    // Refresh once and retry when Canvas rejects an expired access token
+    this.axios.interceptors.response.use(undefined, async (error) => {
+      const original = error.config as (AxiosRequestConfig & { _tokenRefreshed?: boolean }) | undefined;
+      if (error.response?.status === 401 && credentials.refreshAccessToken && original && !original._tokenRefreshed) {
+        original._tokenRefreshed = true;
+        await credentials.refreshAccessToken();
+        return this.axios.request(original);
+      }
+      throw error;
     });
   }
 
+  // Send a request through the rate limiter, retrying throttled and transient failures.
+  // Requests of a cancelled tool call are aborted, and ones still waiting stop waiting and are never sent.
+  private async send<T = any>(config: AxiosRequestConfig): Promise<AxiosResponse<T>> {
+    const method = (config.method || 'get').toLowerCase();
+    const signal = currentToolCall()?.signal;
+    const cancelled = () => new CanvasRequestCancelledError('Request cancelled by the client', { method, path: this.pathOf(config.url) });
+    return this.limiter.schedule(
+      () => {
+        if (signal?.aborted) {
+          throw cancelled();
+        }
+        return this.axios.request<T>({ ...config, signal });
+      },
+      (error) => retryDecision(error, isIdempotent(method, config)),
+      signal && { signal, error: cancelled }
+    );
+  }
+
+  private pathOf(url: string | undefined): string {
+    return new URL(url || '/', this.baseUrl).pathname;
+  }
+
+  // Route GETs through the response cache and writes through write().
+  // During a dry run writes are planned against the current Canvas state instead of sent.
+  private async request<T = any>(config: AxiosRequestConfig): Promise<AxiosResponse<T>> {
+    const method = (config.method || 'get').toLowerCase();
+    if (method === 'get') {
+      return this.cache ? this.cachedGet<T>(this.cache, config) : this.send<T>(config);
+    }
+    if (isDryRun()) {
+      return this.planWrite<T>(method, config);
+    }
+    return this.write<T>(method, config);
+  }
+
+  // Every write sent to Canvas passes here: it is recorded in the audit log, snapshotted for
+  // undo-change when the tool is undoable, and the touched course's cached responses are invalidated
+  private async write<T>(method: string, config: AxiosRequestConfig): Promise<AxiosResponse<T>> {
+    const call = currentToolCall();
+    const plan = this.auditLog || call?.undoable ? await this.planQuietly(method, config) : undefined;
+    let status: number | undefined;
+    let failure: string | undefined;
+    try {
+      const response = await this.send<T>(config);
+      status = response.status;
+      if (call?.undoable && plan) {
+        this.undoJournal.record(call, plan.changes, response.data);
+      }
+      return response;
+    } catch (error: any) {
+      status = error.response?.status;
+      failure = toCanvasApiError(error).message;
+      throw error;
+    } finally {
+      // Invalidate even when the write failed, since Canvas may have applied part of it
+      const scope = courseScope(this.baseUrl, this.pathOf(config.url));
+      await this.cache?.invalidateScope(scope);
+      courseWrites.emit(scope, this.pathOf(config.url));
+      if (this.auditLog) {
+        const auditLog = this.auditLog;
+        // list-audit-log shows entries to the model, so they name students like the tools do
+        await (async () => auditLog.append({
+          timestamp: new Date().toISOString(),
+          sessionId: call?.sessionId,
+          clientId: call?.clientId,
+          tool: call?.tool,
+          arguments: call ? redactArguments(call.arguments) : undefined,
+          method: method.toUpperCase(),
+          endpoint: await this.pseudonymizePath(this.pathOf(config.url)),
+          status,
+          error: failure,
+          previous: plan && await Promise.all(auditedPrevious(plan).map(async previous => ({
+            ...previous,
+            path: await this.pseudonymizePath(previous.path)
+          })))
+        }))().catch(error => console.error('Failed to write audit log entry:', error));
+      }
+    }
+  }
+
+  // Be told the path of every write to a course on this client's Canvas, from any session in the
+  // process, e.g. to notify resource subscribers. Returns a function that removes the listener again.
+  onCourseWrite(courseId: string, listener: (path: string) => void): () => void {
+    const scope = courseScope(this.baseUrl, `/api/v1/courses/${encodeURIComponent(courseId)}`);
+    courseWrites.on(scope, listener);
+    return () => { courseWrites.off(scope, listener); };
+  }
+
+  // What a write is about to change, or undefined when the current state can't be fetched
+  private async planQuietly(method: string, config: AxiosRequestConfig): Promise<{ changes: PlannedChange[]; response: any } | undefined> {
+    try {
+      return await planWrite(method, config.url || '', config.data, config.params, (path) => this.fetchCurrent(path));
+    } catch {
+      return undefined;
+    }
+  }
+
+  private async planWrite<T>(method: string, config: AxiosRequestConfig): Promise<AxiosResponse<T>> {
+    const { changes, response } = await planWrite(method, config.url || '', config.data, config.params, (path) => this.fetchCurrent(path));
+    // The preview goes to the model, which only knows students by pseudonym id
+    for (const change of changes) change.path = await this.pseudonymizePath(change.path);
+    recordPlannedChanges(changes);
+    return { data: response, status: 200, statusText: 'OK', headers: {}, config } as AxiosResponse<T>;
+  }
+
+  // Current state of a resource straight from Canvas (bypassing the cache), or undefined if it doesn't exist
+  private async fetchCurrent(path: string): Promise<any | undefined> {
+    try {
+      return (await this.send({ method: 'get', url: path })).data;
+    } catch (error: any) {
+      if (error.response?.status === 404) return undefined;
+      throw error;
+    }
+  }
+
+  // Put back what an undoable change overwrote. Refuses with the conflicting fields when
+  // Canvas no longer holds what the change left there, e.g. after a teacher edited it.
+  async undoChange(id: string): Promise<UndoResult> {
+    const change = this.undoJournal.get(id);
+    if (!change) {
+      throw new Error(`No undoable change with id ${id}; list-undoable-changes shows the available ones`);
+    }
+    if (change.undoneAt) {
+      throw new Error(`${id} was already undone at ${change.undoneAt}`);
+    }
+
+    try {
+      const conflicts: UndoConflict[] = [];
+      for (const snapshot of change.resources) {
+        conflicts.push(...findConflicts(snapshot, await this.fetchCurrent(snapshot.path)));
+      }
+      if (conflicts.length > 0) {
+        return { status: 'conflict', change, conflicts };
+      }
+      // Newest first, in case one change touched the same resource twice
+      for (const snapshot of [...change.resources].reverse()) {
+        await this.put(snapshot.path, restorePayload(snapshot));
+      }
+    } catch (error: any) {
+      this.handleError(error);
+    }
+    if (!isDryRun()) {
+      this.undoJournal.markUndone(change);
+    }
+    return { status: 'undone', change };
+  }
+
+  private async cachedGet<T>(cache: ResponseCache, config: AxiosRequestConfig): Promise<AxiosResponse<T>> {
+    const urlPath = this.pathOf(config.url);
+    const ttl = cache.ttlFor(urlPath);
+    // Binary downloads and endpoints without a TTL always go to Canvas
+    if (ttl <= 0 || config.responseType) {
+      return this.send<T>(config);
+    }
+
+    const scope = courseScope(this.baseUrl, urlPath);
+    const key = cache.key(this.cacheNamespace, config.url || '', config.params);
+    const cached = await cache.get(key, scope);
+    const fromEntry = (entry: CacheEntry) => ({ data: entry.data, headers: entry.headers, status: 200, statusText: 'OK', config }) as AxiosResponse<T>;
+    if (cached && cached.expiresAt > Date.now()) {
+      return fromEntry(cached);
+    }
+
+    // Expired entries with an ETag are revalidated instead of downloaded again
+    const response = await this.send<T>({
+      ...config,
+      headers: cached?.etag ? { ...config.headers, 'If-None-Match': cached.etag } : config.headers,
+      validateStatus: status => (status >= 200 && status < 300) || (!!cached?.etag && status === 304)
+    });
+
+    if (response.status === 304 && cached) {
+      const refreshed = { ...cached, expiresAt: Date.now() + ttl };
+      await cache.set(key, refreshed);
+      return fromEntry(refreshed);
+    }
+
+    const headers: Record<string, string> = {};
+    if (response.headers['link']) headers['link'] = String(response.headers['link']);
+    await cache.set(key, {
+      data: response.data,
+      headers,
+      etag: response.headers['etag'] ? String(response.headers['etag']) : undefined,
+      expiresAt: Date.now() + ttl,
+      scope,
+      roster: holdsRoster(urlPath, config.params)
+    });
+    return response;
+  }
+
   // Generic GET with error handling
   async get<T>(url: string, params: any = {}): Promise<T> {
     try {
-      const response = await this.axios.get(url, { params });
+      const response = await this.request({ method: 'get', url, params });
       return response.data;
     } catch (error: any) {
       this.handleError(error);
@@ -24,7 +359,7 @@ export class CanvasClient {
   // Generic POST with error handling
   async post<T>(url: string, data: any = {}, params: any = {}): Promise<T> {
     try {
-      const response = await this.axios.post(url, data, { params });
+      const response = await this.request({ method: 'post', url, data, params });
       return response.data;
     } catch (error: any) {
       this.handleError(error);
@@ -34,7 +369,7 @@ export class CanvasClient {
   // Generic PUT with error handling
   async put<T>(url: string, data: any = {}, params: any = {}): Promise<T> {
     try {
-      const response = await this.axios.put(url, data, { params });
+      const response = await this.request({ method: 'put', url, data, params });
       return response.data;
     } catch (error: any) {
       this.handleError(error);
@@ -44,52 +379,131 @@ export class CanvasClient {
   // Generic DELETE with error handling
   async delete<T>(url: string, params: any = {}): Promise<T> {
     try {
-      const response = await this.axios.delete(url, { params });
+      const response = await this.request({ method: 'delete', url, params });
       return response.data;
     } catch (error: any) {
       this.handleError(error);
     }
   }
 
+  // GET one page of a list endpoint along with the URLs from its Link header
+  private async getListPage<T>(url: string, params?: any): Promise<{ data: T[]; links: Record<string, string> | undefined }> {
+    try {
+      const response = await this.request({ method: 'get', url, params });
+      if (!Array.isArray(response.data)) {
+        throw new CanvasApiError(`Expected a list response from ${url}`, { status: response.status, method: 'get', path: url });
+      }
+      return { data: response.data, links: parseLinkHeader(response.headers['link']) };
+    } catch (error: any) {
+      this.handleError(error);
+    }
+  }
+
+  // Iterate over every item of a paginated endpoint, following Canvas' Link rel="next" URLs
+  async *paginate<T>(url: string, params: any = {}): AsyncGenerator<T> {
+    const per_page = params.per_page || 100;
+    let nextUrl: string | undefined = url;
+    let nextParams: any = { ...params, per_page };
+    let pages = 0;
+
+    while (nextUrl) {
+      const { data, links }: { data: T[]; links: Record<string, string> | undefined } = await this.getListPage<T>(nextUrl, nextParams);
+      pages += 1;
+      // Canvas only sends rel="last" where counting the pages is cheap
+      const lastPage = links?.last ? new URL(links.last, this.baseUrl).searchParams.get('page') : null;
+      reportProgress(`Fetched page ${pages}${lastPage && /^\d+$/.test(lastPage) ? ` of ${lastPage}` : ''} of ${this.pathOf(url)}`);
+      yield* data;
+
+      if (links?.next) {
+        // The next URL already carries every query parameter, including the page cursor
+        nextUrl = links.next;
+        nextParams = undefined;
+      } else if (!links && data.length === per_page && nextParams && /^\d*$/.test(String(nextParams.page ?? ''))) {
+        // Some proxies strip the Link header; fall back to numbered pages until a short page
+        nextParams = { ...nextParams, page: Number(nextParams.page || 1) + 1 };
+      } else {
+        nextUrl = undefined;
+      }
+    }
+  }
+
   // Fetch all pages for paginated endpoints
   async fetchAllPages<T>(url: string, params: any = {}): Promise<T[]> {
-    let results: T[] = [];
-    let page = 1;
-    let hasMore = true;
-    const per_page = params.per_page || 100;
-    while (hasMore) {
-      const pageParams = { ...params, page, per_page };
-      const data: T[] = await this.get<T[]>(url, pageParams);
-      results.push(...data);
-      hasMore = data.length === per_page;
-      page += 1;
+    const results: T[] = [];
+    for await (const item of this.paginate<T>(url, params)) {
+      results.push(item);
     }
     return results;
   }
 
-  // Centralized error handler
+  // Centralized error handler: every failure leaves the client as a CanvasApiError subclass
   private handleError(error: any): never {
-    if (error.response?.data?.errors) {
-      throw new Error(JSON.stringify(error.response.data.errors));
-    }
-    if (error instanceof Error) {
-      throw new Error(error.message);
-    }
-    throw new Error('Unknown error occurred in CanvasClient');
+    throw toCanvasApiError(error);
   }
 
   // --- Courses ---
   async listCourses(params: any = {}) {
-    return this.get('/api/v1/courses', params);
+    return this.fetchAllPages('/api/v1/courses', params);
   }
   async postAnnouncement(courseId: string, data: any) {
     return this.post(`/api/v1/courses/${courseId}/discussion_topics`, data);
   }
 
+  // --- Anonymization ---
+  /**
+   * The pseudonyms of the Canvas user behind this client's credentials. They're keyed by that
+   * user rather than the token, so a regenerated token or a new OAuth login keeps the same
+   * pseudonyms; mappings saved under the old token-based key are carried over.
+   */
+  private students(): Promise<DataAnonymizer> {
+    if (!this.anonymizer) {
+      this.anonymizer = this.get<{ id: number | string }>('/api/v1/users/self').then(self => {
+        const tenant = createHash('sha256').update(`${this.baseUrl}|user:${self.id}`).digest('hex').slice(0, 32);
+        return getTenantAnonymizer(tenant, process.env, this.cacheNamespace);
+      });
+      // Ask again next time rather than remembering a failed lookup
+      this.anonymizer.catch(() => { this.anonymizer = undefined; });
+    }
+    return this.anonymizer;
+  }
+  // A Canvas API path as the model may see it: with pseudonym ids in place of student ids, when those are on
+  private async pseudonymizePath(path: string): Promise<string> {
+    return this.replaceIds ? (await this.students()).pseudonymizePath(path) : path;
+  }
+  // The Canvas id of a student named by Canvas id or pseudonym id
+  private async resolveUserId(courseId: string, userId: string): Promise<string> {
+    return isPseudonymId(userId) ? (await this.students()).resolveUserId(courseId, userId) : userId;
+  }
+  // A course's students as Canvas knows them, to find their names in free text. Empty when the
+  // token may not list them, which leaves free text unredacted but everything else working.
+  async courseRoster(courseId: string): Promise<RosterMember[]> {
+    try {
+      return await this.fetchAllPages<RosterMember>(`/api/v1/courses/${courseId}/users`, { enrollment_type: ['student'], include: ['email'] });
+    } catch {
+      return [];
+    }
+  }
+  private async anonymizeSubmissions(courseId: string, submissions: any[]) {
+    return (await this.students()).anonymizeSubmissions(courseId, submissions, await this.courseRoster(courseId));
+  }
+  // Replace the course's students with their pseudonyms in text a tool is about to return
+  async redactStudentText(courseId: string, text: string, style: 'text' | 'filename' = 'text'): Promise<string> {
+    return (await this.students()).redactText(courseId, text, await this.courseRoster(courseId), style);
+  }
+
+  // Whether results are anonymized: always while student ids are replaced by pseudonym ids, so
+  // callers can't opt out, and otherwise unless they pass anonymous: false
+  anonymizes(options: { anonymous?: boolean }): boolean {
+    return this.replaceIds || options.anonymous !== false;
+  }
+
   // --- Assignments ---
   async listCourseAssignments(courseId: string, params: any = {}, options: { anonymous?: boolean } = {}) {
-    const data = await this.get(`/api/v1/courses/${courseId}/assignments`, params) as any[];
-    return options.anonymous !== false ? DataAnonymizer.anonymizeAssignments(data) : data;
+    const data = await this.fetchAllPages<any>(`/api/v1/courses/${courseId}/assignments`, params);
+    if (!this.anonymizes(options)) return data;
+    // Only submissions carry free text worth fetching the roster for
+    const roster = data.some(assignment => assignment?.submission) ? await this.courseRoster(courseId) : [];
+    return (await this.students()).anonymizeAssignments(courseId, data, roster);
   }
   async getAssignment(courseId: string, assignmentId: string) {
     return this.get(`/api/v1/courses/${courseId}/assignments/${assignmentId}`);
@@ -103,7 +517,7 @@ export class CanvasClient {
 
   // --- Assignment Groups ---
   async listAssignmentGroups(courseId: string) {
-    return this.get(`/api/v1/courses/${courseId}/assignment_groups`);
+    return this.fetchAllPages(`/api/v1/courses/${courseId}/assignment_groups`);
   }
   async createAssignmentGroup(courseId: string, data: any) {
     return this.post(`/api/v1/courses/${courseId}/assignment_groups`, data);
@@ -111,10 +525,10 @@ export class CanvasClient {
 
   // --- Modules ---
   async listModules(courseId: string, params: any = {}) {
-    return this.get(`/api/v1/courses/${courseId}/modules`, params);
+    return this.fetchAllPages(`/api/v1/courses/${courseId}/modules`, params);
   }
   async listModuleItems(courseId: string, moduleId: string, params: any = {}) {
-    return this.get(`/api/v1/courses/${courseId}/modules/${moduleId}/items`, params);
+    return this.fetchAllPages(`/api/v1/courses/${courseId}/modules/${moduleId}/items`, params);
   }
   async getModule(courseId: string, moduleId: string) {
     return this.get(`/api/v1/courses/${courseId}/modules/${moduleId}`);
@@ -125,13 +539,16 @@ export class CanvasClient {
 
   // --- Pages ---
   async listPages(courseId: string, params: any = {}) {
-    return this.get(`/api/v1/courses/${courseId}/pages`, params);
+    return this.fetchAllPages(`/api/v1/courses/${courseId}/pages`, params);
   }
   async getPage(courseId: string, pageUrl: string) {
     return this.get(`/api/v1/courses/${courseId}/pages/${encodeURIComponent(pageUrl)}`);
   }
   async listPageRevisions(courseId: string, pageUrl: string) {
-    return this.get(`/api/v1/courses/${courseId}/pages/${encodeURIComponent(pageUrl)}/revisions`);
+    return this.fetchAllPages(`/api/v1/courses/${courseId}/pages/${encodeURIComponent(pageUrl)}/revisions`);
+  }
+  async getPageRevision(courseId: string, pageUrl: string, revisionId: string) {
+    return this.get(`/api/v1/courses/${courseId}/pages/${encodeURIComponent(pageUrl)}/revisions/${revisionId}`);
   }
   async revertPageRevision(courseId: string, pageUrl: string, revisionId: string) {
     return this.post(`/api/v1/courses/${courseId}/pages/${encodeURIComponent(pageUrl)}/revisions/${revisionId}/revert`);
@@ -139,17 +556,67 @@ export class CanvasClient {
   async updateOrCreatePage(courseId: string, pageUrl: string, data: any) {
     return this.put(`/api/v1/courses/${courseId}/pages/${encodeURIComponent(pageUrl)}`, data);
   }
+  // The page as Canvas has it now, bypassing the response cache, so page edits start from
+  // (and are checked against) the latest save, whoever made it
+  async getCurrentPage(courseId: string, pageUrl: string): Promise<Page> {
+    try {
+      return (await this.send({ method: 'get', url: `/api/v1/courses/${courseId}/pages/${encodeURIComponent(pageUrl)}` })).data;
+    } catch (error: any) {
+      this.handleError(error);
+    }
+  }
+
+  // Save a page edit patch-page-content staged. Refuses with both sides' changes when someone
+  // else saved the page since it was read. Canvas pages have no conditional PUT, so a save
+  // landing between the check and ours can still be lost; the window is one request.
+  async applyPageEdit(id: string, courseId: string, pageUrl: string, changes: { body?: string; title?: string; editingRoles?: string } = {}): Promise<PageEditResult> {
+    const edit = this.pageEdits.get(id);
+    if (!edit) {
+      throw new Error(`No staged change ${id}; it was already applied, or patch-page-content needs to run again`);
+    }
+    if (edit.courseId !== courseId || edit.pageUrl !== pageUrl) {
+      throw new Error(`${id} is an edit of page '${edit.pageUrl}' in course ${edit.courseId}`);
+    }
+    const body = changes.body ?? edit.after;
+    if (body === undefined) {
+      throw new Error(`${id} has no rewrite staged; pass the rewritten HTML as newContent`);
+    }
+    // A staged rewrite was checked when it was staged; a body passed in here is checked now.
+    // The edit stays staged, so a fixed body can be applied with the same id.
+    if (changes.body !== undefined) {
+      const problems = checkPageEdit(edit.before, changes.body, { allowRemovals: edit.allowRemovals });
+      if (problems.length > 0) {
+        return { status: 'rejected', edit, problems };
+      }
+    }
+
+    const conflict = findPageEditConflict(edit, await this.getCurrentPage(courseId, pageUrl), body);
+    if (conflict) {
+      return { status: 'conflict', edit, conflict };
+    }
+    const wiki_page: any = { body };
+    const title = changes.title ?? edit.title;
+    const editingRoles = changes.editingRoles ?? edit.editingRoles;
+    if (title !== undefined) wiki_page.title = title;
+    if (editingRoles !== undefined) wiki_page.editing_roles = editingRoles;
+    const page = await this.updateOrCreatePage(courseId, pageUrl, { wiki_page }) as Page;
+    // A dry run only previews the save, so the edit stays staged
+    if (!isDryRun()) {
+      this.pageEdits.remove(id);
+    }
+    return { status: 'applied', edit, page };
+  }
 
   // --- Rubrics ---
   async listRubrics(courseId: string) {
-    return this.get(`/api/v1/courses/${courseId}/rubrics`);
+    return this.fetchAllPages(`/api/v1/courses/${courseId}/rubrics`);
   }
   async getRubricStatistics(courseId: string, assignmentId: string, params: any = {}) {
     return this.get(`/api/v1/courses/${courseId}/assignments/${assignmentId}`, params);
   }
   async listRubricAssessments(courseId: string, assignmentId: string, params: any = {}, options: { anonymous?: boolean } = {}) {
-    const data = await this.get(`/api/v1/courses/${courseId}/assignments/${assignmentId}/submissions`, params) as any[];
-    return options.anonymous !== false ? DataAnonymizer.anonymizeSubmissions(data) : data;
+    const data = await this.fetchAllPages<any>(`/api/v1/courses/${courseId}/assignments/${assignmentId}/submissions`, params);
+    return this.anonymizes(options) ? this.anonymizeSubmissions(courseId, data) : data;
   }
   async attachRubricToAssignment(courseId: string, assignmentId: string, rubricId: string) {
     return this.put(`/api/v1/courses/${courseId}/assignments/${assignmentId}?rubric_id=${encodeURIComponent(rubricId)}`);
@@ -157,70 +624,125 @@ export class CanvasClient {
 
   // --- Students ---
   async listStudents(courseId: string, params: any = {}, options: { anonymous?: boolean } = {}) {
-    const data = await this.get(`/api/v1/courses/${courseId}/users`, params) as any[];
-    return options.anonymous !== false ? DataAnonymizer.anonymizeUsers(data) : data;
+    const data = await this.fetchAllPages<any>(`/api/v1/courses/${courseId}/users`, params);
+    return this.anonymizes(options) ? (await this.students()).anonymizeUsers(courseId, data) : data;
   }
 
   // --- Sections ---
   async listSections(courseId: string, params: any = {}) {
-    return this.get(`/api/v1/courses/${courseId}/sections`, params);
+    return this.fetchAllPages(`/api/v1/courses/${courseId}/sections`, params);
   }
   async getSection(courseId: string, sectionId: string) {
     return this.get(`/api/v1/courses/${courseId}/sections/${sectionId}`);
   }
-  async listSectionAssignmentSubmissions(sectionId: string, assignmentId: string, params: any = {}, options: { anonymous?: boolean } = {}) {
-    const data = await this.get(`/api/v1/sections/${sectionId}/assignments/${assignmentId}/submissions`, params) as any[];
-    return options.anonymous !== false ? DataAnonymizer.anonymizeSubmissions(data) : data;
+  async listSectionAssignmentSubmissions(courseId: string, sectionId: string, assignmentId: string, params: any = {}, options: { anonymous?: boolean } = {}) {
+    const data = await this.fetchAllPages<any>(`/api/v1/sections/${sectionId}/assignments/${assignmentId}/submissions`, params);
+    return this.anonymizes(options) ? this.anonymizeSubmissions(courseId, data) : data;
   }
 
   // --- Submissions ---
   async listAssignmentSubmissions(courseId: string, assignmentId: string, params: any = {}, options: { anonymous?: boolean } = {}) {
-    const data = await this.get(`/api/v1/courses/${courseId}/assignments/${assignmentId}/submissions`, params) as any[];
-    return options.anonymous !== false ? DataAnonymizer.anonymizeSubmissions(data) : data;
+    const data = await this.fetchAllPages<any>(`/api/v1/courses/${courseId}/assignments/${assignmentId}/submissions`, params);
+    return this.anonymizes(options) ? this.anonymizeSubmissions(courseId, data) : data;
   }
   async gradeSubmission(courseId: string, assignmentId: string, userId: string, data: any) {
-    return this.put(`/api/v1/courses/${courseId}/assignments/${assignmentId}/submissions/${userId}`, data);
+    const canvasUserId = await this.resolveUserId(courseId, userId);
+    const submission = await this.put(`/api/v1/courses/${courseId}/assignments/${assignmentId}/submissions/${canvasUserId}`, data);
+    return this.answerInKind(courseId, userId, submission);
+  }
+  async postSubmissionComment(courseId: string, assignmentId: string, userId: string, comment: string) {
+    const canvasUserId = await this.resolveUserId(courseId, userId);
+    const submission = await this.put(
+      `/api/v1/courses/${courseId}/assignments/${assignmentId}/submissions/${canvasUserId}/comments`,
+      { comment: { text_comment: comment } }
+    );
+    return this.answerInKind(courseId, userId, submission);
+  }
+
+  // Callers that name a student by pseudonym id get the submission back anonymized as well
+  private async answerInKind(courseId: string, userId: string, submission: any) {
+    return isPseudonymId(userId) ? (await this.anonymizeSubmissions(courseId, [submission]))[0] : submission;
   }
 
   // --- Submission Documents ---
   async getSubmission(courseId: string, assignmentId: string, userId: string, params: any = {}) {
-    return this.get(`/api/v1/courses/${courseId}/assignments/${assignmentId}/submissions/${userId}`, params);
+    const canvasUserId = await this.resolveUserId(courseId, userId);
+    return this.get(`/api/v1/courses/${courseId}/assignments/${assignmentId}/submissions/${canvasUserId}`, params);
   }
 
   async getSubmissionWithAttachments(courseId: string, assignmentId: string, userId: string, options: { anonymous?: boolean } = {}) {
     const params = { include: ['attachments', 'submission_comments'] };
-    const data = await this.get(`/api/v1/courses/${courseId}/assignments/${assignmentId}/submissions/${userId}`, params);
-    return options.anonymous !== false ? DataAnonymizer.anonymizeSubmissions([data])[0] : data;
+    const canvasUserId = await this.resolveUserId(courseId, userId);
+    const data = await this.get(`/api/v1/courses/${courseId}/assignments/${assignmentId}/submissions/${canvasUserId}`, params);
+    return this.anonymizes(options) || isPseudonymId(userId)
+      ? (await this.anonymizeSubmissions(courseId, [data]))[0]
+      : data;
   }
 
   async getFileInfo(fileId: string): Promise<any> {
     return this.get(`/api/v1/files/${fileId}`);
   }
 
-  // Download file content (returns the file data as binary or text depending on type)
-  async downloadFile(fileId: string): Promise<{ data: any; contentType: string; filename: string }> {
+  // Stream a file's content from Canvas. Text files over the per-file limit (or the rest of the
+  // calling tool's budget) come back cut off; other files over it, and content types outside
+  // CANVAS_DOWNLOAD_TYPES, are refused with a DownloadLimitError before anything is downloaded.
+  async downloadFile(fileId: string, budget?: DownloadBudget): Promise<DownloadedContent> {
+    const fileInfo = await this.getFileInfo(fileId);
+    const filename: string = fileInfo.filename || `file_${fileId}`;
+    const declaredType: string = fileInfo['content-type'] || 'application/octet-stream';
+    if (!isAllowedContentType(declaredType, this.downloads.allowedContentTypes)) {
+      throw new DownloadLimitError(`${filename} is ${declaredType}, which CANVAS_DOWNLOAD_TYPES does not allow downloading`);
+    }
+
+    const { maxFileBytes } = this.downloads;
+    const remaining = budget?.remaining ?? Infinity;
+    const partial = isReadableInPart(declaredType, filename);
+    if (!partial && fileInfo.size > maxFileBytes) {
+      throw new DownloadLimitError(`${filename} is ${fileInfo.size} bytes, over the CANVAS_DOWNLOAD_MAX_BYTES limit (${maxFileBytes} bytes)`);
+    }
+    if (remaining === 0 || (!partial && fileInfo.size > remaining)) {
+      throw new DownloadLimitError(`${filename} is ${fileInfo.size} bytes, over the ${remaining} bytes left of this call's CANVAS_DOWNLOAD_MAX_TOTAL_BYTES`);
+    }
+    const maxBytes = Math.min(maxFileBytes, remaining);
+
     try {
-      // First get the file metadata to get the download URL
-      const fileInfo = await this.getFileInfo(fileId);
-      
-      // Download the actual file content
-      const response = await this.axios.get(fileInfo.url, { 
-        responseType: 'arraybuffer',
+      const response = await this.request({
+        method: 'get',
+        url: fileInfo.url,
+        responseType: 'stream',
         // Follow redirects as Canvas often returns redirect URLs
         maxRedirects: 5
       });
-      
+      const body = await readLimited(response.data, maxBytes, budget);
+      if (body.truncated && !partial) {
+        // Canvas reported a smaller size than it sent; half a binary file is of no use
+        throw new DownloadLimitError(`${filename} is larger than Canvas reported, over the ${maxBytes} byte download limit`);
+      }
       return {
-        data: response.data,
-        contentType: response.headers['content-type'] || fileInfo['content-type'] || 'application/octet-stream',
-        filename: fileInfo.filename || `file_${fileId}`
+        data: body.data,
+        contentType: response.headers['content-type'] || declaredType,
+        filename,
+        size: body.truncated ? fileInfo.size ?? body.data.length : body.data.length,
+        truncated: body.truncated
       };
     } catch (error: any) {
+      if (error instanceof DownloadLimitError) throw error;
       this.handleError(error);
     }
   }
 
-  // Get submission documents with file download capability
+  // Readable text of a downloaded file, with the course's students redacted when a course is given.
+  // Undefined for formats there is no extractor for; throws TextExtractionError for unreadable files.
+  async extractFileText(file: { data: any; contentType: string; filename: string }, courseId?: string): Promise<ExtractedText | undefined> {
+    const extracted = await extractDocumentText(Buffer.from(file.data), file.contentType, file.filename, this.textExtraction);
+    if (extracted && courseId) {
+      extracted.text = await this.redactStudentText(courseId, extracted.text);
+    }
+    return extracted;
+  }
+
+  // Get submission documents with file download capability. Attachments are downloaded a few at
+  // a time and share one byte budget; those over the limits are listed with the reason instead.
   async getSubmissionDocuments(courseId: string, assignmentId: string, userId: string, options: { 
     downloadFiles?: boolean; 
     anonymous?: boolean 
@@ -238,27 +760,58 @@ export class CanvasClient {
 
       // If downloadFiles is true, download all attached files
       if (options.downloadFiles && submission.attachments && submission.attachments.length > 0) {
-        for (const attachment of submission.attachments) {
+        const budget = new DownloadBudget(this.downloads.maxTotalBytes);
+        let finished = 0;
+        const downloaded = (file: DownloadedFile) => {
+          reportProgress(`Read ${++finished} of ${submission.attachments.length} submitted files`);
+          return file;
+        };
+        result.downloadedFiles = await mapWithConcurrency(submission.attachments, this.downloads.concurrency, async (attachment: any): Promise<DownloadedFile> => {
+          const filename = attachment.filename || attachment.display_name;
           try {
-            const fileData = await this.downloadFile(attachment.id);
-            result.downloadedFiles.push({
+            const fileData = await this.downloadFile(attachment.id, budget);
+            let extracted: ExtractedText | undefined;
+            let extractionError: string | undefined;
+            try {
+              extracted = await this.extractFileText(fileData, this.anonymizes(options) ? courseId : undefined);
+            } catch (error) {
+              extractionError = error instanceof Error ? error.message : String(error);
+            }
+            const isText = isTextContentType(fileData.contentType);
+            if (this.anonymizes(options) && isText) {
+              fileData.data = Buffer.from(await this.redactStudentText(courseId, fileData.data.toString('utf-8')), 'utf-8');
+            }
+            return downloaded({
               id: attachment.id,
-              filename: attachment.filename || attachment.display_name,
+              filename,
               contentType: fileData.contentType,
               size: attachment.size,
-              data: fileData.data,
-              // Convert binary data to base64 for JSON serialization if needed
-              dataBase64: Buffer.from(fileData.data).toString('base64')
+              // Base64 for JSON serialization; documents read as text don't need a second copy
+              dataBase64: isText || !extracted ? fileData.data.toString('base64') : undefined,
+              truncated: fileData.truncated,
+              text: extracted?.text,
+              textFormat: extracted?.format,
+              textTruncated: extracted?.truncated,
+              extractionError
             });
           } catch (error) {
+            // A cancelled call stops altogether instead of failing file by file
+            if (toCanvasApiError(error) instanceof CanvasRequestCancelledError) {
+              throw error;
+            }
+            if (error instanceof DownloadLimitError) {
+              return downloaded({ id: attachment.id, filename, contentType: attachment['content-type'], size: attachment.size, skipped: error.message });
+            }
             console.warn(`Failed to download file ${attachment.id}:`, error);
-            result.downloadedFiles.push({
+            return downloaded({
               id: attachment.id,
-              filename: attachment.filename || attachment.display_name,
+              filename,
+              contentType: attachment['content-type'],
+              size: attachment.size,
               error: `Failed to download: ${error instanceof Error ? error.message : 'Unknown error'}`
             });
           }
-        }
+        });
       }
 
       return result;
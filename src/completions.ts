@@ -0,0 +1,92 @@
+import { CanvasClient } from './canvasClient.js';
+
+// The arguments of the prompt or resource template the client has filled in so far
+interface CompletionContext {
+  arguments?: Record<string, string>;
+}
+
+export type Completer = (value: string, context?: CompletionContext) => Promise<string[]>;
+
+// A value an argument can complete to, and the name it can also be found by
+export interface CompletionCandidate {
+  value: string;
+  name: string;
+}
+
+// How well what was typed matches a candidate, from 0 (not at all) up. Values match by prefix;
+// names by prefix, word start, substring, or as a subsequence ("webdes" → "Web Design").
+function matchScore(typed: string, candidate: CompletionCandidate): number {
+  const query = typed.trim().toLowerCase();
+  if (!query) return 1;
+  const value = candidate.value.toLowerCase();
+  const name = candidate.name.toLowerCase();
+  if (value === query) return 7;
+  if (value.startsWith(query)) return 6;
+  if (name.startsWith(query)) return 5;
+  if (name.split(/[^\p{L}\p{N}]+/u).some(word => word.startsWith(query))) return 4;
+  if (name.includes(query)) return 3;
+  let position = 0;
+  for (const char of query.replace(/\s+/g, '')) {
+    position = name.indexOf(char, position) + 1;
+    if (position === 0) return 0;
+  }
+  return 2;
+}
+
+// The candidates' values, best match first and otherwise in Canvas' order
+export function rankCompletions(typed: string, candidates: CompletionCandidate[]): string[] {
+  const ranked = candidates
+    .map((candidate, index) => ({ value: candidate.value, index, score: matchScore(typed, candidate) }))
+    .filter(match => match.score > 0)
+    .sort((a, b) => b.score - a.score || a.index - b.index)
+    .map(match => match.value);
+  return [...new Set(ranked)];
+}
+
+/**
+ * Completion callbacks for prompt and resource template arguments. Candidates come from the
+ * same list calls the tools make, so they're served from the response cache while it's fresh.
+ * Completion is a convenience: when Canvas fails, the client just gets no suggestions.
+ */
+export function createCompleters(canvas: CanvasClient) {
+  const completer = (load: (context?: CompletionContext) => Promise<CompletionCandidate[]>): Completer =>
+    async (value, context) => {
+      try {
+        return rankCompletions(value ?? '', await load(context));
+      } catch {
+        return [];
+      }
+    };
+  // Things inside a course only complete once the course id is filled in
+  const inCourse = (load: (courseId: string) => Promise<CompletionCandidate[]>): Completer =>
+    completer(async context => context?.arguments?.courseId ? load(context.arguments.courseId) : []);
+  const courses = async () => await canvas.listCourses() as any[];
+
+  return {
+    courseId: completer(async () => (await courses()).map(course => ({
+      value: String(course.id),
+      name: `${course.name} ${course.course_code ?? ''}`
+    }))),
+    courseName: completer(async () => (await courses()).map(course => ({
+      value: course.name,
+      name: `${course.name} ${course.course_code ?? ''}`
+    }))),
+    // Only names and ids are used, so there's nothing to anonymize
+    assignmentId: inCourse(async courseId => (await canvas.listCourseAssignments(courseId, {}, { anonymous: false }) as any[]).map(assignment => ({
+      value: String(assignment.id),
+      name: assignment.name ?? ''
+    }))),
+    pageUrl: inCourse(async courseId => (await canvas.listPages(courseId) as any[]).map(page => ({
+      value: page.url,
+      name: page.title ?? ''
+    }))),
+    moduleId: inCourse(async courseId => (await canvas.listModules(courseId) as any[]).map(module => ({
+      value: String(module.id),
+      name: module.name ?? ''
+    }))),
+    quizId: inCourse(async courseId => (await canvas.fetchAllPages<any>(`/api/v1/courses/${courseId}/quizzes`)).map(quiz => ({
+      value: String(quiz.id),
+      name: quiz.title ?? ''
+    })))
+  };
+}
@@ -0,0 +1,29 @@
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { ElicitResultSchema } from "@modelcontextprotocol/sdk/types.js";
+
+// 'unsupported' when the client can't ask its user; it then confirms by the tool's destructiveHint
+export type ConfirmationResult = 'confirmed' | 'declined' | 'unsupported';
+
+/**
+ * Ask the user, through MCP elicitation, to confirm what a destructive tool is about to do.
+ * The request goes out as part of the tool call, so HTTP clients get it on the call's stream.
+ */
+export async function requestConfirmation(server: Server, extra: any, message: string): Promise<ConfirmationResult> {
+  if (!server.getClientCapabilities()?.elicitation) {
+    return 'unsupported';
+  }
+  const result = await extra.sendRequest({
+    method: 'elicitation/create',
+    params: {
+      message,
+      requestedSchema: {
+        type: 'object',
+        properties: {
+          confirm: { type: 'boolean', title: 'Go ahead', description: 'Make this change in Canvas' }
+        },
+        required: ['confirm']
+      }
+    }
+  }, ElicitResultSchema);
+  return result.action === 'accept' && result.content?.confirm === true ? 'confirmed' : 'declined';
+}
@@ -0,0 +1,124 @@
+import { Readable } from 'stream';
+
+export interface DownloadOptions {
+  // Largest file downloaded in full; longer text files are cut off here, other files are skipped
+  maxFileBytes: number;
+  // Bytes one tool call may download across all of its files
+  maxTotalBytes: number;
+  // Content types that may be downloaded, with "type/*" wildcards; ["*"] allows everything
+  allowedContentTypes: string[];
+  // Files downloaded at once by tools that fetch several
+  concurrency: number;
+}
+
+// Documents, code, archives and images; video and audio submissions have to be opened in Canvas
+const DEFAULT_CONTENT_TYPES = [
+  'text/*',
+  'image/*',
+  'application/pdf',
+  'application/json',
+  'application/xml',
+  'application/rtf',
+  'application/msword',
+  'application/vnd.ms-*',
+  'application/vnd.openxmlformats-officedocument.*',
+  'application/vnd.oasis.opendocument.*',
+  'application/zip',
+  'application/x-zip-compressed',
+  'application/x-ipynb+json',
+  'application/octet-stream'
+];
+
+function positiveInt(value: string | undefined, fallback: number): number {
+  const parsed = Number(value);
+  return Number.isFinite(parsed) && parsed > 0 ? Math.floor(parsed) : fallback;
+}
+
+// Read CANVAS_DOWNLOAD_MAX_BYTES, CANVAS_DOWNLOAD_MAX_TOTAL_BYTES, CANVAS_DOWNLOAD_TYPES and CANVAS_DOWNLOAD_CONCURRENCY
+export function loadDownloadOptions(env: NodeJS.ProcessEnv = process.env): DownloadOptions {
+  const types = (env.CANVAS_DOWNLOAD_TYPES || '').split(',').map(type => type.trim().toLowerCase()).filter(Boolean);
+  return {
+    maxFileBytes: positiveInt(env.CANVAS_DOWNLOAD_MAX_BYTES, 25 * 1024 * 1024),
+    maxTotalBytes: positiveInt(env.CANVAS_DOWNLOAD_MAX_TOTAL_BYTES, 100 * 1024 * 1024),
+    allowedContentTypes: types.length > 0 ? types : DEFAULT_CONTENT_TYPES,
+    concurrency: positiveInt(env.CANVAS_DOWNLOAD_CONCURRENCY, 3)
+  };
+}
+
+export function isAllowedContentType(contentType: string | undefined, allowed: string[]): boolean {
+  const type = (contentType || 'application/octet-stream').split(';')[0].trim().toLowerCase();
+  return allowed.some(pattern => pattern === '*' || pattern === type || (pattern.endsWith('*') && type.startsWith(pattern.slice(0, -1))));
+}
+
+// A file the download limits don't allow: a blocked content type, too large, or over the call's budget
+export class DownloadLimitError extends Error {}
+
+/**
+ * Bytes left for one tool call. Shared by its parallel downloads and charged as chunks arrive,
+ * so together they never read past the limit.
+ */
+export class DownloadBudget {
+  private used = 0;
+
+  constructor(readonly maxBytes: number) {}
+
+  get remaining(): number {
+    return Math.max(0, this.maxBytes - this.used);
+  }
+
+  // Charge up to `bytes`, returning how many were still allowed
+  take(bytes: number): number {
+    const granted = Math.min(bytes, this.remaining);
+    this.used += granted;
+    return granted;
+  }
+}
+
+export interface LimitedBody {
+  data: Buffer;
+  // Whether the body went on past the limit and was cut off
+  truncated: boolean;
+}
+
+/**
+ * Read a response body up to `maxBytes` (and the budget), then stop the download. Accepts a
+ * stream, or a buffer from a replayed recording.
+ */
+export async function readLimited(body: Readable | Buffer | ArrayBuffer, maxBytes: number, budget?: DownloadBudget): Promise<LimitedBody> {
+  const chunks: Buffer[] = [];
+  let length = 0;
+  let truncated = false;
+  const stream = body instanceof Readable ? body : Readable.from([Buffer.from(body as ArrayBuffer)]);
+  try {
+    for await (const chunk of stream) {
+      const buffer = Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk);
+      const allowed = budget ? budget.take(Math.min(buffer.length, maxBytes - length)) : Math.min(buffer.length, maxBytes - length);
+      if (allowed > 0) {
+        chunks.push(allowed < buffer.length ? buffer.subarray(0, allowed) : buffer);
+        length += allowed;
+      }
+      if (allowed < buffer.length) {
+        truncated = true;
+        break;
+      }
+    }
+  } finally {
+    // Closes the connection instead of draining the rest of a large file
+    stream.destroy();
+  }
+  return { data: Buffer.concat(chunks, length), truncated };
+}
+
+// Run `task` over every item with at most `limit` running at once, keeping the results in order
+export async function mapWithConcurrency<T, R>(items: T[], limit: number, task: (item: T) => Promise<R>): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await task(items[index]);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(Math.max(1, limit), items.length) }, worker));
+  return results;
+}
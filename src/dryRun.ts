@@ -0,0 +1,181 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { CanvasNotFoundError } from './errors.js';
+
+export interface FieldChange {
+  field: string;
+  before: unknown;
+  after: unknown;
+}
+
+// A write a tool would have sent to Canvas
+export interface PlannedChange {
+  method: string;
+  path: string;
+  action: 'create' | 'update' | 'delete';
+  fields: FieldChange[];
+}
+
+interface DryRunContext {
+  changes: PlannedChange[];
+}
+
+const dryRunStorage = new AsyncLocalStorage<DryRunContext>();
+
+// CANVAS_DRY_RUN=true turns every write tool into a dry run, whatever the caller asks for
+export function isGlobalDryRun(env: NodeJS.ProcessEnv = process.env): boolean {
+  return /^(1|true|yes)$/i.test(env.CANVAS_DRY_RUN || '');
+}
+
+// Run `fn` with every Canvas write planned instead of sent, and collect the planned changes
+export async function withDryRun<T>(fn: () => Promise<T>): Promise<{ result: T; changes: PlannedChange[] }> {
+  const context: DryRunContext = { changes: [] };
+  const result = await dryRunStorage.run(context, fn);
+  return { result, changes: context.changes };
+}
+
+export function isDryRun(): boolean {
+  return dryRunStorage.getStore() !== undefined;
+}
+
+// Canvas nests write payloads under the resource name, e.g. { assignment: { name } }
+const PAYLOAD_WRAPPERS = ['assignment', 'assignment_group', 'quiz', 'question', 'quiz_group', 'wiki_page', 'module'];
+// Request fields stored under a different name on the resource
+const FIELD_ALIASES: Record<string, string> = { posted_grade: 'grade' };
+
+const isPlainObject = (value: unknown): value is Record<string, any> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+function unwrap(payload: unknown): Record<string, any> {
+  if (!isPlainObject(payload)) return {};
+  const keys = Object.keys(payload);
+  if (keys.length === 1 && PAYLOAD_WRAPPERS.includes(keys[0]) && isPlainObject(payload[keys[0]])) {
+    return payload[keys[0]];
+  }
+  return payload;
+}
+
+const same = (a: unknown, b: unknown) => JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+
+// Field-level diff between the current resource and the fields a write would set
+function diffFields(before: Record<string, any> | undefined, fields: Record<string, any>): FieldChange[] {
+  const changes: FieldChange[] = [];
+  for (const [field, after] of Object.entries(fields)) {
+    if (after === undefined) continue;
+    if (field === 'comment' && isPlainObject(after)) {
+      // Comments are appended, never replace anything
+      changes.push({ field: 'new comment', before: undefined, after: after.text_comment ?? after });
+      continue;
+    }
+    const target = FIELD_ALIASES[field] ?? field;
+    if (!same(before?.[target], after)) {
+      changes.push({ field: target, before: before?.[target], after });
+    }
+  }
+  return changes;
+}
+
+/**
+ * Work out what a Canvas write would change, using `fetchCurrent` to read the resource's current
+ * state (undefined when it does not exist). Returns the planned changes and a stand-in response
+ * shaped like the one Canvas would send, so tool handlers can format it as usual.
+ */
+export async function planWrite(
+  method: string,
+  url: string,
+  data: unknown,
+  params: Record<string, any> | undefined,
+  fetchCurrent: (path: string) => Promise<any | undefined>
+): Promise<{ changes: PlannedChange[]; response: any }> {
+  const parsed = new URL(url, 'http://canvas');
+  const path = parsed.pathname;
+  // Some writes pass their fields in the query string, e.g. attaching a rubric
+  const fields: Record<string, any> = { ...Object.fromEntries(parsed.searchParams), ...params, ...unwrap(data) };
+
+  // Bulk date updates touch one assignment per entry
+  const bulk = path.match(/^(.*\/assignments)\/bulk_update$/);
+  if (bulk && isPlainObject(data) && Array.isArray(data.assignment_dates)) {
+    const changes: PlannedChange[] = [];
+    for (const { assignment_id, ...dates } of data.assignment_dates) {
+      const assignmentPath = `${bulk[1]}/${assignment_id}`;
+      const before = await fetchCurrent(assignmentPath);
+      changes.push({ method: 'PUT', path: assignmentPath, action: before ? 'update' : 'create', fields: diffFields(before, dates) });
+    }
+    return { changes, response: { workflow_state: 'dry_run', assignment_dates: data.assignment_dates } };
+  }
+
+  // Reverting a page restores the revision's title and body
+  const revert = path.match(/^(.*\/pages\/[^/]+)\/revisions\/([^/]+)\/revert$/);
+  if (revert) {
+    const before = await fetchCurrent(revert[1]);
+    const revision = await fetchCurrent(`${revert[1]}/revisions/${revert[2]}`);
+    const restored = { title: revision?.title, body: revision?.body };
+    return {
+      changes: [{ method: 'POST', path: revert[1], action: 'update', fields: diffFields(before, restored) }],
+      response: { ...before, ...restored }
+    };
+  }
+
+  const upperMethod = method.toUpperCase();
+  // Commenting appends to the submission; there's no comments resource to read
+  const comment = path.match(/^(.*\/submissions\/[^/]+)\/comments$/);
+  if (comment) {
+    const before = await fetchCurrent(comment[1]);
+    if (!before) {
+      throw new CanvasNotFoundError('Not found in Canvas: The specified resource does not exist.', { status: 404, method, path: comment[1] });
+    }
+    return {
+      changes: [{ method: upperMethod, path: comment[1], action: 'update', fields: diffFields(before, fields) }],
+      response: before
+    };
+  }
+
+  if (upperMethod === 'POST') {
+    return {
+      changes: [{ method: upperMethod, path, action: 'create', fields: diffFields(undefined, fields) }],
+      response: { id: 'dry-run', ...fields }
+    };
+  }
+
+  const before = await fetchCurrent(path);
+  // Only pages are created by a PUT; anywhere else Canvas would answer 404
+  if (!before && !/\/pages\/[^/]+$/.test(path)) {
+    throw new CanvasNotFoundError('Not found in Canvas: The specified resource does not exist.', { status: 404, method, path });
+  }
+  if (upperMethod === 'DELETE') {
+    return { changes: [{ method: upperMethod, path, action: 'delete', fields: [] }], response: before };
+  }
+  return {
+    changes: [{ method: upperMethod, path, action: before ? 'update' : 'create', fields: diffFields(before, fields) }],
+    response: { ...before, ...fields }
+  };
+}
+
+// Remember planned changes for the surrounding withDryRun call
+export function recordPlannedChanges(changes: PlannedChange[]) {
+  dryRunStorage.getStore()?.changes.push(...changes);
+}
+
+function formatValue(value: unknown): string {
+  if (value === undefined || value === null) return '(none)';
+  const text = JSON.stringify(value);
+  return text.length > 500 ? `${text.slice(0, 500)}… (${text.length} chars)` : text;
+}
+
+// Human-readable summary of what a dry run would have done
+export function formatPlannedChanges(toolName: string, changes: PlannedChange[]): string {
+  const lines = [
+    `Dry run: ${toolName} would make ${changes.length} change${changes.length === 1 ? '' : 's'}. Nothing was sent to Canvas.`
+  ];
+  for (const change of changes) {
+    lines.push('', `${change.action.toUpperCase()} ${change.path}`);
+    if (change.action === 'delete') {
+      lines.push('  (resource would be deleted)');
+    } else if (change.fields.length === 0) {
+      lines.push('  (no field changes)');
+    }
+    for (const field of change.fields) {
+      lines.push(`  ${field.field}: ${formatValue(field.before)} → ${formatValue(field.after)}`);
+    }
+  }
+  return lines.join('\n');
+}
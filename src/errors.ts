@@ -0,0 +1,176 @@
+import { isThrottled } from './rateLimiter.js';
+
+export interface CanvasErrorDetails {
+  status?: number;
+  method?: string;
+  path?: string;
+  // Canvas error codes and error report ids, when Canvas sends any
+  errorIds?: string[];
+  // Field-level messages from validation failures, e.g. { name: ["is too long"] }
+  fieldErrors?: Record<string, string[]>;
+  cause?: unknown;
+}
+
+/**
+ * Base class for failures talking to Canvas. Keeps the HTTP status, the Canvas error ids
+ * and the request path so tools can report what went wrong and where.
+ */
+export class CanvasApiError extends Error {
+  readonly status?: number;
+  readonly method?: string;
+  readonly path?: string;
+  readonly errorIds: string[];
+  readonly fieldErrors?: Record<string, string[]>;
+
+  constructor(message: string, details: CanvasErrorDetails = {}) {
+    super(message, { cause: details.cause });
+    this.name = new.target.name;
+    this.status = details.status;
+    this.method = details.method;
+    this.path = details.path;
+    this.errorIds = details.errorIds || [];
+    this.fieldErrors = details.fieldErrors;
+  }
+
+  // Where the request went, e.g. "GET /api/v1/courses/1"
+  get request(): string | undefined {
+    if (!this.path) return undefined;
+    return this.method ? `${this.method.toUpperCase()} ${this.path}` : this.path;
+  }
+}
+
+// 404: the course, assignment, page etc. does not exist or is not visible
+export class CanvasNotFoundError extends CanvasApiError {}
+// 401: missing, invalid or expired Canvas token
+export class CanvasUnauthorizedError extends CanvasApiError {}
+// 403: the token's user lacks permission for this action
+export class CanvasForbiddenError extends CanvasApiError {}
+// 429 or 403 "Rate Limit Exceeded" after retries ran out
+export class CanvasRateLimitedError extends CanvasApiError {}
+// 400/422: Canvas rejected the submitted data
+export class CanvasValidationError extends CanvasApiError {}
+// No response: DNS, connection or timeout failures
+export class CanvasNetworkError extends CanvasApiError {}
+// The MCP client cancelled the tool call, so its Canvas requests were stopped
+export class CanvasRequestCancelledError extends CanvasApiError {}
+
+// Pull readable messages, error ids and field errors out of the shapes Canvas uses for error bodies
+function parseErrorBody(data: any): { messages: string[]; errorIds: string[]; fieldErrors?: Record<string, string[]> } {
+  const messages: string[] = [];
+  const errorIds: string[] = [];
+  let fieldErrors: Record<string, string[]> | undefined;
+
+  if (typeof data === 'string') {
+    const text = data.trim();
+    if (text && !text.startsWith('<')) messages.push(text.slice(0, 300));
+  } else if (data && typeof data === 'object') {
+    if (Array.isArray(data.errors)) {
+      // { errors: [{ message, error_code }] }
+      for (const entry of data.errors) {
+        if (entry?.message) messages.push(String(entry.message));
+        if (entry?.error_code) errorIds.push(String(entry.error_code));
+      }
+    } else if (data.errors && typeof data.errors === 'object') {
+      // { errors: { field: [{ attribute, type, message }] } }
+      fieldErrors = {};
+      for (const [field, entries] of Object.entries<any>(data.errors)) {
+        const list = (Array.isArray(entries) ? entries : [entries])
+          .map((entry: any) => typeof entry === 'string' ? entry : entry?.message || entry?.type)
+          .filter(Boolean);
+        fieldErrors[field] = list;
+        messages.push(`${field}: ${list.join(', ')}`);
+      }
+    } else if (typeof data.errors === 'string') {
+      messages.push(data.errors);
+    }
+    if (typeof data.message === 'string' && !messages.includes(data.message)) messages.push(data.message);
+    if (data.error_report_id !== undefined) errorIds.push(`error_report_id:${data.error_report_id}`);
+  }
+
+  return { messages, errorIds, fieldErrors };
+}
+
+// Convert an axios (or other) failure into the matching CanvasApiError subclass
+export function toCanvasApiError(error: any): CanvasApiError {
+  if (error instanceof CanvasApiError) return error;
+
+  const config = error?.config;
+  const method: string | undefined = config?.method;
+  let path: string | undefined = config?.url;
+  if (path) {
+    try {
+      path = new URL(path, config.baseURL || 'http://canvas').pathname;
+    } catch {
+      // Keep the raw url
+    }
+  }
+
+  if (error?.code === 'ERR_CANCELED') {
+    return new CanvasRequestCancelledError('Request cancelled by the client', { method, path, cause: error });
+  }
+
+  const response = error?.response;
+  if (!response) {
+    const reason = error instanceof Error ? error.message : 'Unknown error occurred in CanvasClient';
+    return new CanvasNetworkError(`Could not reach Canvas: ${reason}`, { method, path, cause: error });
+  }
+
+  const status: number = response.status;
+  const { messages, errorIds, fieldErrors } = parseErrorBody(response.data);
+  const summary = messages.length > 0 ? messages.join('; ') : response.statusText || `HTTP ${status}`;
+  const details: CanvasErrorDetails = { status, method, path, errorIds, fieldErrors, cause: error };
+
+  if (isThrottled(status, response.data)) return new CanvasRateLimitedError(`Canvas rate limit exceeded: ${summary}`, details);
+  switch (status) {
+    case 400:
+    case 422:
+      return new CanvasValidationError(`Canvas rejected the request: ${summary}`, details);
+    case 401:
+      return new CanvasUnauthorizedError(`Canvas token is invalid or expired: ${summary}`, details);
+    case 403:
+      return new CanvasForbiddenError(`Not permitted by Canvas: ${summary}`, details);
+    case 404:
+      return new CanvasNotFoundError(`Not found in Canvas: ${summary}`, details);
+    default:
+      return new CanvasApiError(`Canvas returned ${status}: ${summary}`, details);
+  }
+}
+
+// Guidance appended to tool errors so the model knows what to do next
+function hintFor(error: CanvasApiError): string | undefined {
+  if (error instanceof CanvasNotFoundError) return 'Check that the IDs are correct and visible to this Canvas user.';
+  if (error instanceof CanvasUnauthorizedError) return 'The Canvas token must be renewed before retrying.';
+  if (error instanceof CanvasForbiddenError) return 'The Canvas user lacks permission for this action; retrying will not help.';
+  if (error instanceof CanvasRateLimitedError) return 'Wait a minute before retrying.';
+  if (error instanceof CanvasValidationError) return 'Fix the listed fields and retry.';
+  if (error instanceof CanvasNetworkError) return 'Canvas may be temporarily unreachable; retry shortly.';
+  return undefined;
+}
+
+// MCP tool result reporting a failure, instead of throwing out of the tool handler
+export function toolError(action: string, error: unknown) {
+  const lines: string[] = [];
+  if (error instanceof CanvasApiError) {
+    lines.push(`${action}: ${error.message}`);
+    const context = [
+      error.status !== undefined ? `status ${error.status}` : undefined,
+      error.request,
+      error.errorIds.length > 0 ? `Canvas error ids: ${error.errorIds.join(', ')}` : undefined
+    ].filter(Boolean);
+    if (context.length > 0) lines.push(`(${context.join(', ')})`);
+    const hint = hintFor(error);
+    if (hint) lines.push(hint);
+  } else {
+    lines.push(`${action}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+
+  return {
+    content: [
+      {
+        type: "text" as const,
+        text: lines.join('\n')
+      }
+    ],
+    isError: true
+  };
+}
@@ -1,26 +1,18 @@
 #!/usr/bin/env node
 
-import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
 import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
 import express from "express";
 import cors from "cors";
 import { randomUUID } from "crypto";
-import { z } from "zod";
 import * as dotenv from "dotenv";
-import { CanvasConfig, Course, Rubric } from './types.js';
+import { CanvasConfig } from './types.js';
 import { CanvasClient } from './canvasClient.js';
-import { registerCourseTools } from './tools/courses.js';
-import { registerStudentTools } from './tools/students.js';
-import { registerAssignmentTools } from './tools/assignments.js';
-import { registerAssignmentGroupTools } from './tools/assignmentGroups.js';
-import { registerModuleTools } from './tools/modules.js';
-import { registerPageTools } from './tools/pages.js';
-import { registerSectionTools } from './tools/sections.js';
-import { registerSubmissionTools } from './tools/submissions.js';
-import { registerRubricTools } from './tools/rubrics.js';
-import { registerPrompts } from "./tools/prompts.js";
-import { registerQuizTools } from "./tools/quizzes.js";
+import { createServer } from './server.js';
+import { loadAuthConfig, isAuthConfigured, requireAuth } from './auth.js';
+import { CanvasOAuth, loadOAuthConfig } from './oauth.js';
+import { ToolPolicy, loadToolPolicy } from './toolCatalog.js';
 // Load environment variables
 dotenv.config();
 
@@ -30,50 +22,97 @@ const config: CanvasConfig = {
   baseUrl: process.env.CANVAS_BASE_URL || "https://fhict.instructure.com",
 };
 
-// Validate configuration
-if (!config.apiToken) {
-  console.error("Error: CANVAS_API_TOKEN environment variable is required");
-  process.exit(1);
+// Header through which HTTP clients supply their own Canvas token at session initialization
+const CANVAS_TOKEN_HEADER = 'x-canvas-token';
+
+interface Session {
+  transport: StreamableHTTPServerTransport;
+  // Authenticated MCP client that created the session; other clients may not reuse it
+  clientId?: string;
 }
 
-// Create the CanvasClient instance
-const canvas = new CanvasClient(config.baseUrl, config.apiToken);
+// Build the Canvas client for a new HTTP session. A token sent by the client wins,
+// then the principal's OAuth login, then the shared CANVAS_API_TOKEN.
+function createSessionClient(req: express.Request, oauth: CanvasOAuth | undefined): CanvasClient | undefined {
+  const headerValue = req.headers[CANVAS_TOKEN_HEADER];
+  const value = Array.isArray(headerValue) ? headerValue[0] : headerValue;
+  const headerToken = value?.replace(/^Bearer\s+/i, '').trim();
+  if (headerToken) {
+    return new CanvasClient(config.baseUrl, headerToken);
+  }
+  if (oauth && req.auth?.clientId) {
+    return new CanvasClient(config.baseUrl, oauth.credentialsFor(req.auth.clientId));
+  }
+  if (config.apiToken) {
+    return new CanvasClient(config.baseUrl, config.apiToken);
+  }
+  return undefined;
+}
 
-// Function to create and configure a new MCP server instance
-function createServer(): McpServer {
-  const server = new McpServer({
-    name: "Canvas MCP Server",
-    version: "1.0.0"
+function sendJsonRpcError(res: express.Response, status: number, code: number, message: string) {
+  res.status(status).json({
+    jsonrpc: '2.0',
+    error: { code, message },
+    id: null,
   });
-
-  // Register all tools
-  registerCourseTools(server, canvas);
-  registerStudentTools(server, canvas);
-  registerAssignmentTools(server, canvas);
-  registerAssignmentGroupTools(server, canvas);
-  registerModuleTools(server, canvas);
-  registerPageTools(server, canvas);
-  registerSectionTools(server, canvas);
-  registerSubmissionTools(server, canvas);
-  registerRubricTools(server, canvas);
-  registerPrompts(server, canvas);
-  registerQuizTools(server, canvas);
-
-  return server;
 }
+
 // Start the server
 async function startServer() {
   const PORT = process.env.PORT;
 
+  // Validate the tool configuration once at startup instead of failing every session
+  let toolPolicy: ToolPolicy;
+  try {
+    toolPolicy = loadToolPolicy();
+  } catch (error) {
+    console.error(`Error: ${error instanceof Error ? error.message : error}`);
+    process.exit(1);
+  }
+  if (toolPolicy.readOnly) {
+    console.error("Read-only mode: tools that change Canvas are not registered");
+  }
+
   if (PORT) {
     // HTTP mode for cloud deployment (using Streamable HTTP transport)
     console.error("Starting Canvas MCP Server in HTTP mode...");
+
+    // Refuse to expose Canvas over HTTP without client authentication
+    const authConfig = loadAuthConfig();
+    if (authConfig.disabled) {
+      console.error("Warning: MCP_AUTH=none, the /mcp endpoint is open to anyone who can reach it");
+    } else if (!isAuthConfigured(authConfig)) {
+      console.error("Error: HTTP mode requires MCP_API_KEYS, MCP_JWT_SECRET or MCP_JWT_PUBLIC_KEY (or MCP_AUTH=none to disable authentication)");
+      process.exit(1);
+    }
+
+    let oauth: CanvasOAuth | undefined;
+    try {
+      const oauthConfig = loadOAuthConfig(config.baseUrl);
+      oauth = oauthConfig ? new CanvasOAuth(oauthConfig) : undefined;
+    } catch (error) {
+      console.error(`Error: ${error instanceof Error ? error.message : error}`);
+      process.exit(1);
+    }
+
+    // OAuth logins are stored per authenticated client; without client auth every session would share one
+    if (oauth && authConfig.disabled) {
+      console.error("Error: Canvas OAuth login needs MCP client authentication, since logins are kept per client; MCP_AUTH=none would let every session use the same teacher's login");
+      process.exit(1);
+    }
+
+    if (oauth) {
+      console.error("Canvas OAuth login enabled: sessions without their own token use the teacher's Canvas login");
+    } else if (!config.apiToken) {
+      console.error(`No CANVAS_API_TOKEN set: each session must provide its own Canvas token via the ${CANVAS_TOKEN_HEADER} header`);
+    }
+
     const app = express();
 
-    // Store transports by session ID
-    const transports = new Map<string, StreamableHTTPServerTransport>();
+    // Store sessions by session ID
+    const sessions = new Map<string, Session>();
 
-    app.use(cors());
+    app.use(cors({ exposedHeaders: ['mcp-session-id'] }));
     app.use(express.json());
 
     // Health check endpoint
@@ -81,34 +120,55 @@ async function startServer() {
       res.json({ status: 'ok', server: 'Canvas MCP Server' });
     });
 
+    // Canvas OAuth2 login routes (opened in the teacher's browser, so not behind MCP client auth)
+    oauth?.registerRoutes(app);
+
     // MCP endpoint (handles GET, POST, DELETE for Streamable HTTP)
-    app.all('/mcp', async (req, res) => {
+    app.all('/mcp', requireAuth(authConfig), async (req, res) => {
       const sessionId = req.headers['mcp-session-id'] as string | undefined;
 
       console.error(`MCP request: ${req.method} ${req.url}, session: ${sessionId || 'none'}`);
 
-      // Get or create transport for this session
-      let transport = sessionId ? transports.get(sessionId) : undefined;
+      let transport: StreamableHTTPServerTransport;
+      const session = sessionId ? sessions.get(sessionId) : undefined;
+
+      if (session) {
+        // A session is only usable by the client that created it
+        if (session.clientId !== req.auth?.clientId) {
+          sendJsonRpcError(res, 404, -32001, 'Session not found');
+          return;
+        }
+        transport = session.transport;
+      } else if (!sessionId && req.method === 'POST' && isInitializeRequest(req.body)) {
+        // Create a Canvas client, server instance and transport for the new session
+        const canvas = createSessionClient(req, oauth);
+        if (!canvas) {
+          sendJsonRpcError(res, 401, -32001, `Unauthorized: a Canvas token is required in the ${CANVAS_TOKEN_HEADER} header`);
+          return;
+        }
 
-      if (!transport) {
-        // Create new server instance and transport for new session
-        const server = createServer();
-        transport = new StreamableHTTPServerTransport({
+        const server = createServer(canvas, { toolPolicy });
+        const clientId = req.auth?.clientId;
+        const newTransport = new StreamableHTTPServerTransport({
           sessionIdGenerator: () => randomUUID(),
           onsessioninitialized: (newSessionId) => {
             console.error(`New session initialized: ${newSessionId}`);
-            transports.set(newSessionId, transport!);
+            sessions.set(newSessionId, { transport: newTransport, clientId });
           }
         });
 
-        transport.onclose = () => {
-          if (transport!.sessionId) {
-            console.error(`Session closed: ${transport!.sessionId}`);
-            transports.delete(transport!.sessionId);
+        newTransport.onclose = () => {
+          if (newTransport.sessionId) {
+            console.error(`Session closed: ${newTransport.sessionId}`);
+            sessions.delete(newTransport.sessionId);
           }
         };
 
-        await server.connect(transport);
+        await server.connect(newTransport);
+        transport = newTransport;
+      } else {
+        sendJsonRpcError(res, sessionId ? 404 : 400, -32000, sessionId ? 'Session not found' : 'Bad Request: No valid session ID provided');
+        return;
       }
 
       // Handle the request
@@ -117,14 +177,7 @@ async function startServer() {
       } catch (error) {
         console.error('Error handling MCP request:', error);
         if (!res.headersSent) {
-          res.status(500).json({
-            jsonrpc: '2.0',
-            error: {
-              code: -32603,
-              message: 'Internal server error',
-            },
-            id: null,
-          });
+          sendJsonRpcError(res, 500, -32603, 'Internal server error');
         }
       }
     });
@@ -135,9 +188,16 @@ async function startServer() {
     });
   } else {
     // Stdio mode for local usage
+    // Replaying recorded traffic never talks to Canvas, so no token is needed
+    const replaying = !!process.env.CANVAS_REPLAY;
+    if (!config.apiToken && !replaying) {
+      console.error("Error: CANVAS_API_TOKEN environment variable is required");
+      process.exit(1);
+    }
+
     try {
       console.error("Starting Canvas MCP Server in stdio mode...");
-      const server = createServer();
+      const server = createServer(new CanvasClient(config.baseUrl, config.apiToken || 'replay'), { toolPolicy });
       const transport = new StdioServerTransport();
       await server.connect(transport);
       console.error("Canvas MCP Server running on stdio");
@@ -148,4 +208,4 @@ async function startServer() {
   }
 }
 
-startServer();
\ No newline at end of file
+startServer();
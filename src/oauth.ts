@@ -0,0 +1,290 @@
+import axios from "axios";
+import { createHmac, randomBytes, timingSafeEqual } from "crypto";
+import express from "express";
+import type { Express, Request, Response } from "express";
+import { CanvasCredentials } from "./types.js";
+import { EncryptedTokenStore, StoredTokens } from "./tokenStore.js";
+import { CanvasUnauthorizedError } from "./errors.js";
+
+export interface OAuthConfig {
+  clientId: string;
+  clientSecret: string;
+  // Public base URL of this server, used to build login links and the default redirect URI
+  publicUrl: string;
+  redirectUri: string;
+  canvasBaseUrl: string;
+  tokenDir: string;
+  encryptionKey: string;
+  scopes?: string;
+}
+
+// How long a login link and an in-flight authorization stay valid
+const LOGIN_TTL_MS = 10 * 60 * 1000;
+// Refresh access tokens this long before Canvas says they expire
+const REFRESH_MARGIN_MS = 60 * 1000;
+
+// Read OAuth settings from environment variables; returns undefined when OAuth is not configured
+export function loadOAuthConfig(canvasBaseUrl: string, env: NodeJS.ProcessEnv = process.env): OAuthConfig | undefined {
+  if (!env.CANVAS_OAUTH_CLIENT_ID) return undefined;
+
+  const missing = ["CANVAS_OAUTH_CLIENT_SECRET", "CANVAS_OAUTH_ENCRYPTION_KEY", "MCP_PUBLIC_URL"].filter(name => !env[name]);
+  if (missing.length > 0) {
+    throw new Error(`CANVAS_OAUTH_CLIENT_ID is set but ${missing.join(", ")} ${missing.length > 1 ? "are" : "is"} missing`);
+  }
+
+  const publicUrl = env.MCP_PUBLIC_URL!.replace(/\/+$/, "");
+  return {
+    clientId: env.CANVAS_OAUTH_CLIENT_ID,
+    clientSecret: env.CANVAS_OAUTH_CLIENT_SECRET!,
+    publicUrl,
+    redirectUri: env.CANVAS_OAUTH_REDIRECT_URI || `${publicUrl}/oauth/callback`,
+    canvasBaseUrl: canvasBaseUrl.replace(/\/+$/, ""),
+    tokenDir: env.CANVAS_OAUTH_TOKEN_DIR || ".canvas-tokens",
+    encryptionKey: env.CANVAS_OAUTH_ENCRYPTION_KEY!,
+    scopes: env.CANVAS_OAUTH_SCOPES || undefined
+  };
+}
+
+function escapeHtml(value: string): string {
+  return value.replace(/[&<>"']/g, char => `&#${char.charCodeAt(0)};`);
+}
+
+// `form` is trusted markup; everything else is escaped. No page may be framed, so nobody can
+// overlay the confirm button with something else.
+function renderPage(res: Response, status: number, title: string, message: string, form = "") {
+  res.status(status).type("html").set("Content-Security-Policy", "frame-ancestors 'none'").set("X-Frame-Options", "DENY").send(
+    `<!DOCTYPE html><html><head><meta charset="utf-8"><title>${escapeHtml(title)}</title></head>` +
+    `<body><h1>${escapeHtml(title)}</h1><p>${escapeHtml(message)}</p>${form}</body></html>`
+  );
+}
+
+/**
+ * Runs the Canvas OAuth2 authorization-code flow for HTTP mode.
+ * Tokens are stored per MCP principal (the authenticated client id), so every teacher's
+ * sessions act with that teacher's own Canvas login.
+ *
+ * Whoever opens a login link connects their Canvas account to the link's principal, so a link
+ * someone else sent would hand them your account. Tokens are therefore only stored after the
+ * callback page has named the client being connected and the user has confirmed.
+ */
+export class CanvasOAuth {
+  private store: EncryptedTokenStore;
+  // Authorizations started at /oauth/authorize and waiting for the Canvas callback, keyed by state
+  private pending = new Map<string, { principal: string; expiresAt: number }>();
+  // Tokens from the callback waiting for the user to confirm on the callback page, keyed by a one-time id
+  private unconfirmed = new Map<string, { principal: string; tokens: StoredTokens; expiresAt: number }>();
+  // In-flight refreshes per principal, so concurrent requests share one refresh call
+  private refreshing = new Map<string, Promise<StoredTokens>>();
+
+  constructor(private config: OAuthConfig) {
+    this.store = new EncryptedTokenStore(config.tokenDir, config.encryptionKey);
+  }
+
+  private sign(value: string): string {
+    return createHmac("sha256", this.config.encryptionKey).update(value).digest("base64url");
+  }
+
+  // Build a short-lived, signed link a user opens in the browser to connect their Canvas account
+  loginUrl(principal: string): string {
+    const expiresAt = Date.now() + LOGIN_TTL_MS;
+    const payload = `${Buffer.from(principal).toString("base64url")}.${expiresAt}`;
+    return `${this.config.publicUrl}/oauth/authorize?login=${payload}.${this.sign(payload)}`;
+  }
+
+  private verifyLogin(login: string): string | undefined {
+    const parts = login.split(".");
+    if (parts.length !== 3) return undefined;
+    const payload = `${parts[0]}.${parts[1]}`;
+    const expected = Buffer.from(this.sign(payload));
+    const actual = Buffer.from(parts[2]);
+    if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) return undefined;
+    if (Number(parts[1]) < Date.now()) return undefined;
+    return Buffer.from(parts[0], "base64url").toString("utf-8");
+  }
+
+  private async requestToken(params: Record<string, string>): Promise<any> {
+    const response = await axios.post(
+      `${this.config.canvasBaseUrl}/login/oauth2/token`,
+      new URLSearchParams({
+        client_id: this.config.clientId,
+        client_secret: this.config.clientSecret,
+        redirect_uri: this.config.redirectUri,
+        ...params
+      }).toString(),
+      { headers: { "Content-Type": "application/x-www-form-urlencoded" } }
+    );
+    return response.data;
+  }
+
+  private toStoredTokens(data: any, previous?: StoredTokens): StoredTokens {
+    return {
+      accessToken: data.access_token,
+      // Canvas does not rotate refresh tokens, so keep the original when none is returned
+      refreshToken: data.refresh_token || previous?.refreshToken,
+      expiresAt: typeof data.expires_in === "number" ? Date.now() + data.expires_in * 1000 : undefined,
+      canvasUserId: data.user?.id !== undefined ? String(data.user.id) : previous?.canvasUserId,
+      canvasUserName: data.user?.name || previous?.canvasUserName
+    };
+  }
+
+  async refresh(principal: string): Promise<StoredTokens> {
+    const inFlight = this.refreshing.get(principal);
+    if (inFlight) return inFlight;
+
+    const refresh = (async () => {
+      const current = await this.store.get(principal);
+      if (!current?.refreshToken) {
+        throw new CanvasUnauthorizedError(`Canvas login expired. Open ${this.loginUrl(principal)} to sign in again.`);
+      }
+      try {
+        const data = await this.requestToken({ grant_type: "refresh_token", refresh_token: current.refreshToken });
+        const tokens = this.toStoredTokens(data, current);
+        await this.store.set(principal, tokens);
+        return tokens;
+      } catch (error: any) {
+        // A rejected refresh token means the user revoked access or the developer key changed
+        if (error.response?.status === 400 || error.response?.status === 401) {
+          await this.store.delete(principal);
+          throw new CanvasUnauthorizedError(`Canvas login expired. Open ${this.loginUrl(principal)} to sign in again.`);
+        }
+        throw error;
+      }
+    })();
+
+    this.refreshing.set(principal, refresh);
+    try {
+      return await refresh;
+    } finally {
+      this.refreshing.delete(principal);
+    }
+  }
+
+  // Give up tokens that were never confirmed, so Canvas doesn't keep an unused login around
+  private async revoke(tokens: StoredTokens) {
+    try {
+      await axios.delete(`${this.config.canvasBaseUrl}/login/oauth2/token`, { headers: { Authorization: `Bearer ${tokens.accessToken}` } });
+    } catch (error: any) {
+      console.error("Could not revoke an unconfirmed Canvas login:", error.response?.status ?? error.message);
+    }
+  }
+
+  private dropExpired(now: number) {
+    for (const [key, entry] of this.pending) {
+      if (entry.expiresAt < now) this.pending.delete(key);
+    }
+    for (const [key, entry] of this.unconfirmed) {
+      if (entry.expiresAt < now) {
+        this.unconfirmed.delete(key);
+        void this.revoke(entry.tokens);
+      }
+    }
+  }
+
+  // Credentials for a CanvasClient acting on behalf of one principal
+  credentialsFor(principal: string): CanvasCredentials {
+    return {
+      id: `oauth:${principal}`,
+      getAccessToken: async () => {
+        let tokens = await this.store.get(principal);
+        if (!tokens) {
+          throw new CanvasUnauthorizedError(`Canvas login required. Open ${this.loginUrl(principal)} in your browser to connect your Canvas account, then retry.`);
+        }
+        if (tokens.expiresAt && tokens.expiresAt - REFRESH_MARGIN_MS <= Date.now()) {
+          tokens = await this.refresh(principal);
+        }
+        return tokens.accessToken;
+      },
+      refreshAccessToken: async () => (await this.refresh(principal)).accessToken
+    };
+  }
+
+  registerRoutes(app: Express) {
+    // Step 1: validate the signed login link and send the browser to Canvas
+    app.get("/oauth/authorize", (req: Request, res: Response) => {
+      const principal = typeof req.query.login === "string" ? this.verifyLogin(req.query.login) : undefined;
+      if (!principal) {
+        renderPage(res, 400, "Invalid login link", "This login link is invalid or has expired. Ask your assistant for a new one.");
+        return;
+      }
+
+      // Drop abandoned authorizations
+      const now = Date.now();
+      this.dropExpired(now);
+
+      const state = randomBytes(24).toString("base64url");
+      this.pending.set(state, { principal, expiresAt: now + LOGIN_TTL_MS });
+
+      const authorizeUrl = new URL(`${this.config.canvasBaseUrl}/login/oauth2/auth`);
+      authorizeUrl.searchParams.set("client_id", this.config.clientId);
+      authorizeUrl.searchParams.set("response_type", "code");
+      authorizeUrl.searchParams.set("redirect_uri", this.config.redirectUri);
+      authorizeUrl.searchParams.set("state", state);
+      if (this.config.scopes) authorizeUrl.searchParams.set("scope", this.config.scopes);
+      res.redirect(authorizeUrl.toString());
+    });
+
+    // Step 2: Canvas redirects back with an authorization code to exchange for tokens
+    app.get("/oauth/callback", async (req: Request, res: Response) => {
+      const state = typeof req.query.state === "string" ? req.query.state : "";
+      const pending = this.pending.get(state);
+      this.pending.delete(state);
+
+      if (!pending || pending.expiresAt < Date.now()) {
+        renderPage(res, 400, "Login failed", "This login attempt is unknown or has expired. Please start again.");
+        return;
+      }
+      if (typeof req.query.error === "string") {
+        renderPage(res, 400, "Login cancelled", `Canvas reported: ${req.query.error}`);
+        return;
+      }
+      if (typeof req.query.code !== "string") {
+        renderPage(res, 400, "Login failed", "Canvas did not return an authorization code.");
+        return;
+      }
+
+      let tokens: StoredTokens;
+      try {
+        tokens = this.toStoredTokens(await this.requestToken({ grant_type: "authorization_code", code: req.query.code }));
+      } catch (error: any) {
+        console.error("Canvas OAuth token exchange failed:", error.response?.data || error.message);
+        renderPage(res, 502, "Login failed", "Canvas rejected the authorization code. Please start again.");
+        return;
+      }
+
+      // Step 3: nothing is stored until the user confirms which client gets their account
+      const confirmation = randomBytes(24).toString("base64url");
+      this.unconfirmed.set(confirmation, { principal: pending.principal, tokens, expiresAt: Date.now() + LOGIN_TTL_MS });
+      renderPage(
+        res,
+        200,
+        `Connect Canvas to ${pending.principal}?`,
+        `You are signed in to Canvas${tokens.canvasUserName ? ` as ${tokens.canvasUserName}` : ""}. Connecting lets the MCP client "${pending.principal}" ` +
+          "read and change Canvas as you. Only connect if you asked your own assistant for this login link; if someone sent it to you, cancel.",
+        `<form method="post" action="/oauth/confirm"><input type="hidden" name="confirmation" value="${escapeHtml(confirmation)}">` +
+          `<button type="submit" name="decision" value="connect">Connect ${escapeHtml(pending.principal)}</button> ` +
+          `<button type="submit" name="decision" value="cancel">Cancel</button></form>`
+      );
+    });
+
+    app.post("/oauth/confirm", express.urlencoded({ extended: false }), async (req: Request, res: Response) => {
+      const confirmation = typeof req.body?.confirmation === "string" ? req.body.confirmation : "";
+      const entry = this.unconfirmed.get(confirmation);
+      this.unconfirmed.delete(confirmation);
+
+      if (!entry || entry.expiresAt < Date.now()) {
+        if (entry) await this.revoke(entry.tokens);
+        renderPage(res, 400, "Login failed", "This login attempt is unknown or has expired. Please start again.");
+        return;
+      }
+      if (req.body.decision !== "connect") {
+        await this.revoke(entry.tokens);
+        renderPage(res, 200, "Canvas not connected", `Nothing was stored; "${entry.principal}" has no access to your Canvas account. You can close this window.`);
+        return;
+      }
+
+      await this.store.set(entry.principal, entry.tokens);
+      console.error(`Canvas OAuth login completed for principal ${entry.principal}`);
+      renderPage(res, 200, "Canvas connected", `Signed in${entry.tokens.canvasUserName ? ` as ${entry.tokens.canvasUserName}` : ""} for "${entry.principal}". You can close this window and return to your assistant.`);
+    });
+  }
+}
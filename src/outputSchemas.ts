@@ -0,0 +1,329 @@
+import { z } from "zod";
+import {
+  Announcement,
+  Assignment,
+  AssignmentGroup,
+  CanvasFile,
+  CanvasId,
+  Course,
+  FileContent,
+  Module,
+  ModuleItem,
+  Page,
+  PageRevision,
+  Progress,
+  Quiz,
+  QuizGroup,
+  QuizQuestion,
+  Rubric,
+  RubricOverallStats,
+  RubricStat,
+  Section,
+  Student,
+  Submission,
+  SubmissionComment,
+  SubmissionDocuments
+} from './types.js';
+import { FieldChange, PlannedChange } from './dryRun.js';
+import { AuditEntry } from './auditLog.js';
+import { UndoableChange } from './undoJournal.js';
+
+// Zod versions of the entities in types.ts, for tools' output schemas. Canvas objects are
+// passthrough: they carry many more fields than we describe, and clients should still get them.
+
+export const CanvasIdSchema: z.ZodType<CanvasId> = z.union([z.number(), z.string()]);
+
+const nullableString = z.string().nullish();
+const nullableNumber = z.number().nullish();
+const nullableBoolean = z.boolean().nullish();
+const nullableId = CanvasIdSchema.nullish();
+
+export const CourseSchema = z.object({
+  id: z.number(),
+  name: z.string(),
+  course_code: z.string(),
+  workflow_state: z.string(),
+  term: z.object({ id: z.number(), name: z.string() }).passthrough().optional()
+}).passthrough() satisfies z.ZodType<Course>;
+
+export const StudentSchema = z.object({
+  id: CanvasIdSchema,
+  name: z.string(),
+  sortable_name: nullableString,
+  email: nullableString,
+  sis_user_id: nullableString,
+  avatar_url: nullableString
+}).passthrough() satisfies z.ZodType<Student>;
+
+export const AnnouncementSchema = z.object({
+  id: CanvasIdSchema,
+  title: z.string(),
+  message: nullableString,
+  posted_at: nullableString,
+  html_url: nullableString
+}).passthrough() satisfies z.ZodType<Announcement>;
+
+export const SectionSchema = z.object({
+  id: CanvasIdSchema,
+  name: z.string(),
+  course_id: nullableId,
+  sis_section_id: nullableString,
+  start_at: nullableString,
+  end_at: nullableString,
+  total_students: nullableNumber,
+  restrict_enrollments_to_section_dates: nullableBoolean
+}).passthrough() satisfies z.ZodType<Section>;
+
+export const SubmissionCommentSchema = z.object({
+  id: nullableId,
+  comment: nullableString,
+  created_at: nullableString,
+  author_id: nullableId,
+  author_name: nullableString,
+  author: z.object({ id: nullableId, display_name: nullableString, role: nullableString }).passthrough().nullish()
+}).passthrough() satisfies z.ZodType<SubmissionComment>;
+
+export const CanvasFileSchema = z.object({
+  id: CanvasIdSchema,
+  filename: nullableString,
+  display_name: nullableString,
+  'content-type': nullableString,
+  size: nullableNumber,
+  url: nullableString,
+  created_at: nullableString,
+  updated_at: nullableString
+}).passthrough() satisfies z.ZodType<CanvasFile>;
+
+export const SubmissionSchema = z.object({
+  id: nullableId,
+  user_id: nullableId,
+  assignment_id: nullableId,
+  body: nullableString,
+  submission_type: nullableString,
+  workflow_state: nullableString,
+  grade: nullableString,
+  score: nullableNumber,
+  submitted_at: nullableString,
+  late: nullableBoolean,
+  missing: nullableBoolean,
+  attachments: z.array(CanvasFileSchema).nullish(),
+  submission_comments: z.array(SubmissionCommentSchema).nullish(),
+  rubric_assessment: z.record(z.object({ points: nullableNumber, comments: nullableString }).passthrough()).nullish(),
+  user: z.object({ id: nullableId, name: nullableString }).passthrough().nullish(),
+  attempt: nullableNumber
+}).passthrough() satisfies z.ZodType<Submission>;
+
+export const SubmissionDocumentsSchema = z.object({
+  submission: z.object({
+    id: nullableId,
+    user_id: nullableId,
+    assignment_id: nullableId,
+    submission_type: nullableString,
+    workflow_state: nullableString,
+    submitted_at: nullableString,
+    grade: nullableString,
+    score: nullableNumber,
+    attempt: nullableNumber
+  }),
+  text_content: nullableString,
+  attachments: z.array(z.object({
+    id: CanvasIdSchema,
+    filename: nullableString,
+    content_type: nullableString,
+    size: nullableNumber,
+    url: nullableString,
+    created_at: nullableString
+  })),
+  downloaded_files: z.array(z.object({
+    id: CanvasIdSchema,
+    filename: nullableString,
+    content_type: nullableString,
+    size: nullableNumber,
+    has_content: z.boolean(),
+    content_base64: z.string().optional(),
+    truncated: z.boolean().optional(),
+    skipped: z.string().optional(),
+    text: z.string().optional(),
+    text_format: z.string().optional(),
+    text_truncated: z.boolean().optional(),
+    extraction_error: z.string().optional(),
+    error: z.string().optional()
+  }))
+}) satisfies z.ZodType<SubmissionDocuments>;
+
+export const FileContentSchema = z.object({
+  filename: z.string(),
+  content_type: z.string(),
+  content_encoding: z.enum(['text', 'base64']),
+  extracted_from: z.string().optional(),
+  size: z.number(),
+  truncated: z.boolean().optional(),
+  total_chars: z.number().optional(),
+  content: z.string(),
+  extraction_error: z.string().optional()
+}) satisfies z.ZodType<FileContent>;
+
+export const AssignmentSchema = z.object({
+  id: CanvasIdSchema,
+  name: nullableString,
+  description: nullableString,
+  due_at: nullableString,
+  unlock_at: nullableString,
+  lock_at: nullableString,
+  points_possible: nullableNumber,
+  published: nullableBoolean,
+  grading_type: nullableString,
+  submission_types: z.array(z.string()).nullish(),
+  assignment_group_id: nullableId,
+  html_url: nullableString,
+  rubric: z.array(z.object({ id: z.string(), description: nullableString, points: nullableNumber }).passthrough()).nullish(),
+  submission: SubmissionSchema.nullish()
+}).passthrough() satisfies z.ZodType<Assignment>;
+
+export const AssignmentGroupSchema = z.object({
+  id: CanvasIdSchema,
+  name: nullableString,
+  position: nullableNumber,
+  group_weight: nullableNumber
+}).passthrough() satisfies z.ZodType<AssignmentGroup>;
+
+export const ProgressSchema = z.object({
+  id: CanvasIdSchema,
+  workflow_state: z.string(),
+  tag: nullableString,
+  completion: nullableNumber,
+  url: nullableString
+}).passthrough() satisfies z.ZodType<Progress>;
+
+export const ModuleItemSchema = z.object({
+  id: CanvasIdSchema,
+  type: z.string(),
+  title: nullableString,
+  position: nullableNumber,
+  published: nullableBoolean,
+  page_url: nullableString,
+  url: nullableString,
+  content_id: nullableId
+}).passthrough() satisfies z.ZodType<ModuleItem>;
+
+export const ModuleSchema = z.object({
+  id: CanvasIdSchema,
+  name: z.string(),
+  position: nullableNumber,
+  published: nullableBoolean,
+  items: z.array(ModuleItemSchema).nullish()
+}).passthrough() satisfies z.ZodType<Module>;
+
+export const PageSchema = z.object({
+  url: z.string(),
+  title: nullableString,
+  page_id: nullableId,
+  body: nullableString,
+  published: nullableBoolean,
+  updated_at: nullableString,
+  editing_roles: nullableString
+}).passthrough() satisfies z.ZodType<Page>;
+
+export const PageRevisionSchema = z.object({
+  id: nullableId,
+  revision_id: nullableId,
+  updated_at: nullableString,
+  edited_by: z.object({ id: nullableId, display_name: nullableString }).passthrough().nullish(),
+  title: nullableString,
+  body: nullableString
+}).passthrough() satisfies z.ZodType<PageRevision>;
+
+export const RubricSchema = z.object({
+  id: CanvasIdSchema,
+  title: z.string(),
+  description: nullableString
+}).passthrough() satisfies z.ZodType<Rubric>;
+
+export const RubricStatSchema = z.object({
+  id: z.string(),
+  description: nullableString,
+  points_possible: z.number(),
+  total_assessments: z.number(),
+  average_score: z.number(),
+  median_score: z.number(),
+  min_score: z.number(),
+  max_score: z.number(),
+  point_distribution: z.record(z.number()).optional()
+}) satisfies z.ZodType<RubricStat>;
+
+export const RubricOverallStatsSchema = z.object({
+  total_submissions: z.number(),
+  submissions_with_assessment: z.number(),
+  overall_average: z.number(),
+  overall_median: z.number(),
+  overall_min: z.number(),
+  overall_max: z.number()
+}) satisfies z.ZodType<RubricOverallStats>;
+
+export const QuizSchema = z.object({
+  id: CanvasIdSchema,
+  title: nullableString,
+  description: nullableString,
+  quiz_type: nullableString,
+  due_at: nullableString,
+  points_possible: nullableNumber,
+  published: nullableBoolean,
+  question_count: nullableNumber
+}).passthrough() satisfies z.ZodType<Quiz>;
+
+export const QuizQuestionSchema = z.object({
+  id: CanvasIdSchema,
+  quiz_id: nullableId,
+  question_name: nullableString,
+  question_text: nullableString,
+  question_type: nullableString,
+  points_possible: nullableNumber,
+  answers: z.array(z.unknown()).nullish()
+}).passthrough() satisfies z.ZodType<QuizQuestion>;
+
+export const QuizGroupSchema = z.object({
+  id: CanvasIdSchema,
+  quiz_id: nullableId,
+  name: nullableString,
+  pick_count: nullableNumber,
+  question_points: nullableNumber
+}).passthrough() satisfies z.ZodType<QuizGroup>;
+
+// z.unknown() makes before/after optional in the inferred type, though a change always has both
+const FieldChangeSchema = z.object({ field: z.string(), before: z.unknown(), after: z.unknown() }) as z.ZodType<FieldChange>;
+
+export const PlannedChangeSchema = z.object({
+  method: z.string(),
+  path: z.string(),
+  action: z.enum(['create', 'update', 'delete']),
+  fields: z.array(FieldChangeSchema)
+}) satisfies z.ZodType<PlannedChange>;
+
+export const AuditEntrySchema = z.object({
+  timestamp: z.string(),
+  sessionId: z.string().optional(),
+  clientId: z.string().optional(),
+  tool: z.string().optional(),
+  arguments: z.record(z.unknown()).optional(),
+  method: z.string(),
+  endpoint: z.string(),
+  status: z.number().optional(),
+  error: z.string().optional(),
+  previous: z.array(z.object({
+    path: z.string(),
+    action: z.enum(['create', 'update', 'delete']),
+    values: z.record(z.unknown())
+  })).optional()
+}) satisfies z.ZodType<AuditEntry>;
+
+export const UndoableChangeSchema = z.object({
+  id: z.string(),
+  timestamp: z.string(),
+  tool: z.string(),
+  resources: z.array(z.object({
+    path: z.string(),
+    before: z.record(z.unknown()),
+    after: z.record(z.unknown())
+  })),
+  undoneAt: z.string().optional()
+}) satisfies z.ZodType<UndoableChange>;
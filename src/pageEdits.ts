@@ -0,0 +1,211 @@
+// Checking, diffing and staging page edits from patch-page-content until
+// apply-page-changes saves them
+
+import { Page } from './types.js';
+
+// A page edit waiting for apply-page-changes, with the revision of the page it started from
+export interface StagedPageEdit {
+  id: string;
+  timestamp: string;
+  courseId: string;
+  pageUrl: string;
+  instructions: string;
+  // The body and updated_at of the page as patch-page-content read it
+  before: string;
+  updatedAt: string | null;
+  // The rewrite and its diff, when the client's model made it; otherwise apply-page-changes gets the body
+  after?: string;
+  diff?: string;
+  title?: string;
+  editingRoles?: string;
+  // Whether the instructions may remove headings and links, for checking a body apply-page-changes gets
+  allowRemovals?: boolean;
+}
+
+// Someone else saved the page after patch-page-content read it: the two sides of a three-way merge
+export interface PageEditConflict {
+  readAt: string | null;
+  updatedAt: string | null;
+  // The other save against the body that was read, and this edit against the same body
+  theirChanges: string;
+  yourChanges: string;
+}
+
+export type PageEditResult =
+  | { status: 'applied'; edit: StagedPageEdit; page: Page }
+  | { status: 'conflict'; edit: StagedPageEdit; conflict: PageEditConflict }
+  // The body apply-page-changes got fails checkPageEdit against the page as it was read
+  | { status: 'rejected'; edit: StagedPageEdit; problems: string[] };
+
+const VOID_ELEMENTS = new Set(['area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input', 'link', 'meta', 'param', 'source', 'track', 'wbr']);
+// Elements HTML lets authors leave unclosed
+const OPTIONAL_CLOSE = new Set(['p', 'li', 'dt', 'dd', 'tr', 'td', 'th', 'thead', 'tbody', 'tfoot', 'option', 'colgroup']);
+const TAG = /<(\/?)([a-zA-Z][\w-]*)(?:"[^"]*"|'[^']*'|[^'">])*?(\/?)>/g;
+
+// Unclosed and stray tags, ignoring comments and the insides of scripts and styles
+function markupProblems(html: string): string[] {
+  const problems: string[] = [];
+  const open: string[] = [];
+  const markup = html
+    .replace(/<!--[\s\S]*?-->/g, '')
+    .replace(/<(script|style)\b[^>]*>[\s\S]*?<\/\1\s*>/gi, '');
+  for (const [, closing, rawName, selfClosing] of markup.matchAll(TAG)) {
+    const name = rawName.toLowerCase();
+    if (VOID_ELEMENTS.has(name) || selfClosing) continue;
+    if (!closing) {
+      open.push(name);
+      continue;
+    }
+    const index = open.lastIndexOf(name);
+    if (index === -1) {
+      problems.push(`</${name}> has no opening tag`);
+      continue;
+    }
+    const unclosed = open.splice(index).slice(1).filter(tag => !OPTIONAL_CLOSE.has(tag));
+    problems.push(...unclosed.map(tag => `<${tag}> is not closed before </${name}>`));
+  }
+  problems.push(...open.filter(tag => !OPTIONAL_CLOSE.has(tag)).map(tag => `<${tag}> is never closed`));
+  return problems;
+}
+
+const textOf = (html: string) => html.replace(/<[^>]+>/g, '').replace(/\s+/g, ' ').trim();
+
+function headings(html: string): string[] {
+  return [...html.matchAll(/<h([1-6])\b[^>]*>([\s\S]*?)<\/h\1\s*>/gi)].map(([, level, text]) => `<h${level}> ${textOf(text)}`);
+}
+
+function links(html: string): string[] {
+  return [...html.matchAll(/<a\b[^>]*?\shref\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+))/gi)].map(([, double, single, bare]) => double ?? single ?? bare);
+}
+
+const missingFrom = (after: string[], before: string[]) => [...new Set(before.filter(item => !after.includes(item)))];
+
+/**
+ * Why a rewrite of a page body shouldn't be saved: markup it broke (problems the page already
+ * had don't count), and headings or links it dropped unless removals are allowed.
+ */
+export function checkPageEdit(before: string, after: string, options: { allowRemovals?: boolean } = {}): string[] {
+  const existing = new Set(markupProblems(before));
+  const problems = markupProblems(after).filter(problem => !existing.has(problem));
+  if (!after.trim() && before.trim()) {
+    problems.push('the rewrite is empty');
+  }
+  if (!options.allowRemovals) {
+    problems.push(...missingFrom(headings(after), headings(before)).map(heading => `removes the heading ${heading}`));
+    problems.push(...missingFrom(links(after), links(before)).map(href => `removes the link to ${href}`));
+  }
+  return problems;
+}
+
+// Page bodies often sit on one line, so diff them per block element instead
+function diffLines(html: string): string[] {
+  return html
+    .replace(/(<\/(?:p|div|h[1-6]|li|ul|ol|table|tr|section|article|blockquote|pre)\s*>|<br\s*\/?>)/gi, '$1\n')
+    .split('\n')
+    .map(line => line.trim())
+    .filter(Boolean);
+}
+
+// Longer stretches than this are shown as removed and re-added instead of aligned line by line
+const MAX_ALIGNED_CELLS = 1_000_000;
+
+/**
+ * A line diff of two page bodies: `-` for removed lines, `+` for added ones, and one line of
+ * unchanged context around each change.
+ */
+export function diffPageBodies(before: string, after: string): string {
+  const a = diffLines(before);
+  const b = diffLines(after);
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) { endA--; endB--; }
+
+  const middleA = a.slice(start, endA);
+  const middleB = b.slice(start, endB);
+  const ops: Array<[' ' | '-' | '+', string]> = a.slice(0, start).map(line => [' ', line] as [' ', string]);
+  if (middleA.length * middleB.length <= MAX_ALIGNED_CELLS) {
+    // Longest common subsequence, filled from the end so the walk below goes forwards
+    const lcs = Array.from({ length: middleA.length + 1 }, () => new Uint32Array(middleB.length + 1));
+    for (let i = middleA.length - 1; i >= 0; i--) {
+      for (let j = middleB.length - 1; j >= 0; j--) {
+        lcs[i][j] = middleA[i] === middleB[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+      }
+    }
+    let i = 0;
+    let j = 0;
+    while (i < middleA.length || j < middleB.length) {
+      if (i < middleA.length && j < middleB.length && middleA[i] === middleB[j]) {
+        ops.push([' ', middleA[i++]]);
+        j++;
+      } else if (i < middleA.length && (j === middleB.length || lcs[i + 1][j] >= lcs[i][j + 1])) {
+        ops.push(['-', middleA[i++]]);
+      } else {
+        ops.push(['+', middleB[j++]]);
+      }
+    }
+  } else {
+    ops.push(...middleA.map(line => ['-', line] as ['-', string]), ...middleB.map(line => ['+', line] as ['+', string]));
+  }
+  ops.push(...a.slice(endA).map(line => [' ', line] as [' ', string]));
+
+  const changed = ops.map(([op]) => op !== ' ');
+  const shown = ops.map((_, index) => changed[index - 1] || changed[index] || changed[index + 1]);
+  const lines: string[] = [];
+  ops.forEach(([op, line], index) => {
+    if (shown[index]) {
+      lines.push(`${op} ${line}`);
+    } else if (shown[index - 1]) {
+      lines.push('  …');
+    }
+  });
+  return lines.length > 0 ? lines.join('\n') : '(no changes)';
+}
+
+/**
+ * Whether saving `body` would overwrite someone else's save since the edit's page was read.
+ * A moved updated_at alone doesn't count, e.g. after the page was published, and neither does
+ * a save that already holds the same body.
+ */
+export function findPageEditConflict(edit: StagedPageEdit, current: Pick<Page, 'body' | 'updated_at'>, body: string): PageEditConflict | undefined {
+  const theirs = current.body ?? '';
+  if ((current.updated_at ?? null) === edit.updatedAt || theirs === edit.before || theirs === body) {
+    return undefined;
+  }
+  return {
+    readAt: edit.updatedAt,
+    updatedAt: current.updated_at ?? null,
+    theirChanges: diffPageBodies(edit.before, theirs),
+    yourChanges: diffPageBodies(edit.before, body)
+  };
+}
+
+/**
+ * Page edits patch-page-content staged for apply-page-changes. Kept in memory per CanvasClient,
+ * like the undo journal, so a session can only apply its own edits.
+ */
+export class PageEditStore {
+  private edits = new Map<string, StagedPageEdit>();
+  private nextId = 1;
+
+  constructor(private maxEntries = 20) {}
+
+  stage(edit: Omit<StagedPageEdit, 'id' | 'timestamp'>): StagedPageEdit {
+    const staged = { id: `edit-${this.nextId++}`, timestamp: new Date().toISOString(), ...edit };
+    this.edits.set(staged.id, staged);
+    // Maps iterate in insertion order, so the first keys are the oldest edits
+    for (const id of [...this.edits.keys()].slice(0, Math.max(0, this.edits.size - this.maxEntries))) {
+      this.edits.delete(id);
+    }
+    return staged;
+  }
+
+  get(id: string): StagedPageEdit | undefined {
+    return this.edits.get(id);
+  }
+
+  remove(id: string) {
+    this.edits.delete(id);
+  }
+}
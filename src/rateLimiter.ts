@@ -0,0 +1,190 @@
+export interface RateLimiterOptions {
+  // Maximum number of Canvas requests in flight at once
+  maxConcurrency: number;
+  // Retries after the first attempt for throttled or failed requests
+  maxRetries: number;
+  // Base delay for exponential backoff
+  baseDelayMs: number;
+  // Upper bound for any single wait
+  maxDelayMs: number;
+  // Start slowing down when X-Rate-Limit-Remaining drops below this
+  lowWaterMark: number;
+}
+
+// Read rate limiting settings from environment variables
+export function loadRateLimiterOptions(env: NodeJS.ProcessEnv = process.env): RateLimiterOptions {
+  const number = (value: string | undefined, fallback: number) => {
+    const parsed = Number(value);
+    return value !== undefined && value !== '' && Number.isFinite(parsed) && parsed >= 0 ? parsed : fallback;
+  };
+  return {
+    maxConcurrency: Math.max(1, number(env.CANVAS_MAX_CONCURRENCY, 4)),
+    maxRetries: number(env.CANVAS_MAX_RETRIES, 4),
+    baseDelayMs: number(env.CANVAS_RETRY_BASE_MS, 500),
+    maxDelayMs: number(env.CANVAS_RETRY_MAX_MS, 30000),
+    lowWaterMark: number(env.CANVAS_RATE_LIMIT_LOW_WATER, 150)
+  };
+}
+
+// How a request's waits end early: when `signal` aborts they reject with `error()`
+export interface Cancellation {
+  signal: AbortSignal;
+  error: () => Error;
+}
+
+function sleep(ms: number, cancellation?: Cancellation): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (cancellation?.signal.aborted) {
+      reject(cancellation.error());
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(cancellation!.error());
+    };
+    const timer = setTimeout(() => {
+      cancellation?.signal.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    cancellation?.signal.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+// Canvas signals throttling with 429 or with a 403 whose body says "Rate Limit Exceeded"
+export function isThrottled(status: number | undefined, body: unknown): boolean {
+  if (status === 429) return true;
+  if (status !== 403) return false;
+  const text = typeof body === 'string' ? body : JSON.stringify(body ?? '');
+  return /rate limit exceeded/i.test(text);
+}
+
+/**
+ * Limits concurrent Canvas requests and spaces them out based on the rate limit headers
+ * Canvas returns (X-Rate-Limit-Remaining, X-Request-Cost). One instance per Canvas token,
+ * shared by every session using it (see getTokenRateLimiter), since that is what Canvas'
+ * leaky bucket is keyed on.
+ */
+export class RateLimiter {
+  private active = 0;
+  private queue: Array<() => void> = [];
+  // No request starts before this time; pushed forward on throttling or a draining bucket
+  private resumeAt = 0;
+
+  constructor(readonly options: RateLimiterOptions) {}
+
+  private async acquire(cancellation?: Cancellation): Promise<void> {
+    if (this.active >= this.options.maxConcurrency) {
+      await new Promise<void>((resolve, reject) => {
+        if (cancellation?.signal.aborted) {
+          reject(cancellation.error());
+          return;
+        }
+        // A cancelled request leaves the queue without ever holding a slot
+        const onAbort = () => {
+          this.queue.splice(this.queue.indexOf(take), 1);
+          reject(cancellation!.error());
+        };
+        const take = () => {
+          cancellation?.signal.removeEventListener('abort', onAbort);
+          resolve();
+        };
+        this.queue.push(take);
+        cancellation?.signal.addEventListener('abort', onAbort, { once: true });
+      });
+    } else {
+      this.active += 1;
+    }
+    const wait = this.resumeAt - Date.now();
+    if (wait > 0) {
+      try {
+        await sleep(wait, cancellation);
+      } catch (error) {
+        this.release();
+        throw error;
+      }
+    }
+  }
+
+  private release() {
+    const next = this.queue.shift();
+    if (next) {
+      // Hand the slot directly to the next waiter
+      next();
+    } else {
+      this.active -= 1;
+    }
+  }
+
+  private pauseFor(ms: number) {
+    this.resumeAt = Math.max(this.resumeAt, Date.now() + Math.min(ms, this.options.maxDelayMs));
+  }
+
+  // Update pacing from the rate limit headers of a Canvas response
+  observe(headers: Record<string, any> | undefined) {
+    if (!headers) return;
+    const remaining = Number(headers['x-rate-limit-remaining']);
+    if (!Number.isFinite(remaining) || remaining >= this.options.lowWaterMark) return;
+    const cost = Number(headers['x-request-cost']);
+    // Canvas refills the bucket at roughly 10 units per second; the emptier it is, the longer we wait
+    const deficit = this.options.lowWaterMark - remaining;
+    const perRequest = Number.isFinite(cost) && cost > 0 ? cost : 1;
+    this.pauseFor(Math.round(deficit / this.options.lowWaterMark * perRequest * 100));
+  }
+
+  // Jittered exponential backoff, honouring Retry-After when Canvas sends one
+  backoffDelay(attempt: number, retryAfter?: string): number {
+    const retryAfterSeconds = Number(retryAfter);
+    if (retryAfter !== undefined && Number.isFinite(retryAfterSeconds)) {
+      return Math.min(retryAfterSeconds * 1000, this.options.maxDelayMs);
+    }
+    const ceiling = Math.min(this.options.baseDelayMs * 2 ** attempt, this.options.maxDelayMs);
+    return Math.round(ceiling / 2 + Math.random() * ceiling / 2);
+  }
+
+  /**
+   * Run a request under the concurrency limit, retrying while `shouldRetry` says so.
+   * Throttled responses also pause every other request sharing this limiter.
+   * With a `cancellation`, waiting for a slot, a pause or a retry stops as soon as its signal aborts.
+   */
+  async schedule<T>(
+    send: () => Promise<T>,
+    shouldRetry: (error: any) => { retry: boolean; throttled: boolean },
+    cancellation?: Cancellation
+  ): Promise<T> {
+    for (let attempt = 0; ; attempt++) {
+      let delay = 0;
+      await this.acquire(cancellation);
+      try {
+        const result = await send();
+        this.observe((result as any)?.headers);
+        return result;
+      } catch (error: any) {
+        this.observe(error.response?.headers);
+        const { retry, throttled } = shouldRetry(error);
+        if (!retry || attempt >= this.options.maxRetries) {
+          throw error;
+        }
+        delay = this.backoffDelay(attempt, error.response?.headers?.['retry-after']);
+        if (throttled) {
+          this.pauseFor(delay);
+        }
+        console.error(`Canvas request ${throttled ? 'throttled' : 'failed'} (status ${error.response?.status ?? error.code ?? 'unknown'}), retrying in ${delay}ms (attempt ${attempt + 1}/${this.options.maxRetries})`);
+      } finally {
+        this.release();
+      }
+      await sleep(delay, cancellation);
+    }
+  }
+}
+
+const tokenLimiters = new Map<string, RateLimiter>();
+
+// The limiter of one Canvas token, keyed by a hash of the base URL and token (or OAuth login), so every session using it shares one queue
+export function getTokenRateLimiter(key: string, env: NodeJS.ProcessEnv = process.env): RateLimiter {
+  let limiter = tokenLimiters.get(key);
+  if (!limiter) {
+    limiter = new RateLimiter(loadRateLimiterOptions(env));
+    tokenLimiters.set(key, limiter);
+  }
+  return limiter;
+}
@@ -0,0 +1,322 @@
+import axios, { AxiosAdapter, AxiosError, AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { Readable } from 'stream';
+import { CanvasApiError } from './errors.js';
+import { isTextContentType } from './textExtraction.js';
+
+export interface TrafficRecorderOptions {
+  mode: 'record' | 'replay';
+  directory: string;
+  // Also replace student names, emails and login ids in recorded responses, and the names
+  // of users seen so far wherever they appear in free text and text file downloads
+  scrubPii: boolean;
+}
+
+// One request/response pair as stored on disk
+export interface RecordedExchange {
+  request: {
+    method: string;
+    // Path and sorted query string, without the Canvas host
+    url: string;
+    body?: any;
+  };
+  response: {
+    status: number;
+    headers: Record<string, string>;
+    data: any;
+    // Binary bodies (file downloads) are stored as base64
+    encoding?: 'base64';
+  };
+}
+
+// Read CANVAS_RECORD / CANVAS_REPLAY; returns undefined when neither is set
+export function loadTrafficRecorderOptions(env: NodeJS.ProcessEnv = process.env): TrafficRecorderOptions | undefined {
+  if (env.CANVAS_RECORD && env.CANVAS_REPLAY) {
+    throw new Error('CANVAS_RECORD and CANVAS_REPLAY cannot both be set');
+  }
+  const scrubPii = /^(1|true|yes)$/i.test(env.CANVAS_RECORD_SCRUB_PII || '');
+  if (env.CANVAS_RECORD) return { mode: 'record', directory: env.CANVAS_RECORD, scrubPii };
+  if (env.CANVAS_REPLAY) return { mode: 'replay', directory: env.CANVAS_REPLAY, scrubPii };
+  return undefined;
+}
+
+// Query parameters and JSON keys that carry credentials
+const SECRET_PARAMS = ['access_token', 'verifier', 'sf_verifier'];
+const SECRET_KEY = /(^|_)(token|secret|password)$|^(access_token|refresh_token|client_secret|verifier|uuid)$/i;
+// Response headers worth keeping; everything else (cookies, request ids) is dropped
+const KEPT_HEADERS = ['content-type', 'link', 'etag', 'retry-after', 'x-rate-limit-remaining', 'x-request-cost'];
+// User fields whose values are names, learned so they can be found in free text too
+const NAME_KEYS = ['name', 'sortable_name', 'short_name', 'display_name'];
+// User fields replaced when PII scrubbing is on
+const PII_KEYS = ['name', 'sortable_name', 'short_name', 'display_name', 'author_name', 'user_name', 'email', 'login_id', 'sis_user_id', 'integration_id', 'avatar_url', 'avatar_image_url', 'pronouns'];
+
+function redactUrls(text: string): string {
+  return text.replace(new RegExp(`([?&](?:${SECRET_PARAMS.join('|')})=)[^&"'\\s<>]+`, 'g'), '$1REDACTED');
+}
+
+// Canvas users have a sortable_name; submission and comment authors sit under these keys
+function isUser(value: any, key: string | undefined): boolean {
+  return 'sortable_name' in value || key === 'user' || key === 'author' || key === 'edited_by';
+}
+
+// Same replacement for the same user across every recorded file
+function pseudonymize(field: string, id: unknown): string | null {
+  const tag = createHash('sha256').update(String(id)).digest('hex').slice(0, 8);
+  if (field === 'email' || field === 'login_id') return `user-${tag}@example.com`;
+  if (field.endsWith('_id') || field.endsWith('url')) return null;
+  return `User ${tag}`;
+}
+
+// Remove credentials from a recorded body, and with `scrubText` PII as well: user fields are
+// pseudonymized, and every other string goes through scrubText
+function scrub(value: any, scrubText: ((text: string) => string) | undefined, key?: string): any {
+  if (typeof value === 'string') {
+    const redacted = redactUrls(value);
+    return scrubText ? scrubText(redacted) : redacted;
+  }
+  if (Array.isArray(value)) return value.map(item => scrub(item, scrubText, key));
+  if (!value || typeof value !== 'object') return value;
+
+  const user = !!scrubText && isUser(value, key);
+  const result: any = {};
+  for (const [field, fieldValue] of Object.entries(value)) {
+    if (SECRET_KEY.test(field) && fieldValue !== null && fieldValue !== undefined) {
+      result[field] = 'REDACTED';
+    } else if (user && PII_KEYS.includes(field) && fieldValue !== null && fieldValue !== undefined) {
+      result[field] = pseudonymize(field, value.id ?? value.user_id ?? fieldValue);
+    } else if (scrubText && field === 'author_name' && typeof fieldValue === 'string') {
+      result[field] = pseudonymize(field, value.author_id ?? fieldValue);
+    } else {
+      result[field] = scrub(fieldValue, scrubText, field);
+    }
+  }
+  return result;
+}
+
+// Names of the users in a body and what they're replaced with: the full names, and each part
+// of three letters or more. "Johnson, Alice" yields "Johnson, Alice", "Johnson" and "Alice".
+function userNames(value: any, key?: string, found = new Map<string, string>()): Map<string, string> {
+  if (Array.isArray(value)) {
+    value.forEach(item => userNames(item, key, found));
+  } else if (value && typeof value === 'object') {
+    if (isUser(value, key)) {
+      const replacement = pseudonymize('name', value.id ?? value.user_id ?? value.name) as string;
+      for (const field of NAME_KEYS) {
+        if (typeof value[field] !== 'string') continue;
+        found.set(value[field], replacement);
+        for (const part of value[field].split(/[^\p{L}'-]+/u).filter((part: string) => part.length >= 3)) {
+          found.set(part, replacement);
+        }
+      }
+    }
+    for (const [field, fieldValue] of Object.entries(value)) userNames(fieldValue, field, found);
+  }
+  return found;
+}
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Stable request identity: method, path and sorted query, ignoring the host and credentials
+function requestKey(config: InternalAxiosRequestConfig): { method: string; url: string } {
+  const url = new URL(axios.getUri(config), 'http://canvas');
+  for (const name of SECRET_PARAMS) url.searchParams.delete(name);
+  url.searchParams.sort();
+  const query = url.searchParams.toString();
+  return { method: (config.method || 'get').toUpperCase(), url: `${url.pathname}${query ? `?${query}` : ''}` };
+}
+
+// Adapters see bodies before axios parses them, so JSON arrives as a string
+function parseBody(data: unknown): any {
+  if (typeof data !== 'string') return data;
+  try {
+    return JSON.parse(data);
+  } catch {
+    return data;
+  }
+}
+
+// Streamed downloads are read in full to be saved, then handed on as a fresh stream
+async function buffered(response: AxiosResponse): Promise<AxiosResponse> {
+  return response.data instanceof Readable ? { ...response, data: Buffer.concat(await response.data.toArray()) } : response;
+}
+function streamed(response: AxiosResponse): AxiosResponse {
+  return response.config?.responseType === 'stream' ? { ...response, data: Readable.from([response.data]) } : response;
+}
+
+/**
+ * Records Canvas traffic to fixture files (CANVAS_RECORD=dir) or serves it back without
+ * network access (CANVAS_REPLAY=dir). Plugged into CanvasClient's axios instance as an adapter,
+ * so retries, token refresh and caching behave exactly as they would against Canvas.
+ */
+export class TrafficRecorder {
+  private sequence?: Promise<number>;
+  // Names of every user recorded so far and their pseudonyms; a name part two users share is just "[user]"
+  private names = new Map<string, string>();
+  private namePattern?: { regex: RegExp; replacements: Map<string, string> };
+  // Replay index: request key -> recorded exchanges in the order they happened
+  private recordings?: Promise<Map<string, RecordedExchange[]>>;
+  private served = new Map<string, number>();
+
+  constructor(readonly options: TrafficRecorderOptions) {}
+
+  // Wrap the adapter an axios instance would otherwise use
+  adapter(next: AxiosAdapter): AxiosAdapter {
+    return this.options.mode === 'replay'
+      ? config => this.replay(config)
+      : config => this.record(config, next);
+  }
+
+  private async record(config: InternalAxiosRequestConfig, next: AxiosAdapter): Promise<AxiosResponse> {
+    try {
+      const response = await buffered(await next(config));
+      await this.save(config, response);
+      return streamed(response);
+    } catch (error: any) {
+      if (error?.response) {
+        error.response = await buffered(error.response);
+        await this.save(config, error.response);
+        error.response = streamed(error.response);
+      }
+      throw error;
+    }
+  }
+
+  // Remember the users in a body, so their names are found in free text from now on
+  private learnNames(body: any) {
+    for (const [name, replacement] of userNames(body)) {
+      const known = this.names.get(name);
+      if (known === replacement) continue;
+      this.names.set(name, known === undefined ? replacement : '[user]');
+      this.namePattern = undefined;
+    }
+  }
+
+  // Emails and known user names in free text. Only users the recording has already seen (or
+  // sees in the same body) are known, so record a course's user list first.
+  private scrubText = (text: string): string => {
+    const withoutEmails = text.replace(/[\w.+-]+@[\w-]+(\.[\w-]+)+/g, 'user@example.com');
+    if (this.names.size === 0) return withoutEmails;
+    // Longest first, so a full name wins over its parts
+    this.namePattern ??= {
+      regex: new RegExp(
+        `(?<![\\p{L}\\p{N}])(?:${[...this.names.keys()].sort((a, b) => b.length - a.length).map(escapeRegExp).join('|')})(?![\\p{L}\\p{N}])`,
+        'giu'
+      ),
+      replacements: new Map([...this.names].map(([name, replacement]) => [name.toLowerCase(), replacement]))
+    };
+    const { regex, replacements } = this.namePattern;
+    return withoutEmails.replace(regex, match => replacements.get(match.toLowerCase()) ?? '[user]');
+  };
+
+  private async save(config: InternalAxiosRequestConfig, response: AxiosResponse) {
+    const { method, url } = requestKey(config);
+    const headers: Record<string, string> = {};
+    for (const name of KEPT_HEADERS) {
+      const value = response.headers?.[name];
+      if (value !== undefined && value !== null) headers[name] = redactUrls(String(value));
+    }
+
+    const binary = Buffer.isBuffer(response.data) || response.data instanceof ArrayBuffer;
+    const requestBody = config.data !== undefined ? parseBody(config.data) : undefined;
+    const responseBody = binary ? Buffer.from(response.data) : parseBody(response.data);
+    const scrubText = this.options.scrubPii ? this.scrubText : undefined;
+    if (scrubText) {
+      this.learnNames(requestBody);
+      if (!binary) this.learnNames(responseBody);
+    }
+    const exchange: RecordedExchange = {
+      request: {
+        method,
+        url,
+        ...(requestBody !== undefined ? { body: scrub(requestBody, scrubText) } : {})
+      },
+      response: {
+        status: response.status,
+        headers,
+        // Text downloads are decoded to be scrubbed like any other free text
+        data: !binary ? scrub(responseBody, scrubText)
+          : scrubText && isTextContentType(headers['content-type']) ? Buffer.from(scrubText(responseBody.toString('utf-8')), 'utf-8').toString('base64')
+          : responseBody.toString('base64'),
+        ...(binary ? { encoding: 'base64' as const } : {})
+      }
+    };
+
+    // Numbered files keep the recording readable in the order the requests happened;
+    // chaining on the previous number keeps concurrent requests from sharing one
+    const previous = this.sequence ?? this.lastRecordedNumber();
+    this.sequence = previous.then(n => n + 1);
+    const number = await this.sequence;
+    const slug = url.split('?')[0].replace(/^\/(api\/v1\/)?/, '').replace(/[^\w-]+/g, '_').slice(0, 80);
+    const file = path.join(this.options.directory, `${String(number).padStart(4, '0')}-${method}-${slug}.json`);
+    // Recordings hold course data even when scrubbed, so only the owner may read them
+    await fs.writeFile(file, JSON.stringify(exchange, null, 2), { mode: 0o600 });
+  }
+
+  // Continue numbering after an earlier recording session in the same directory
+  private async lastRecordedNumber(): Promise<number> {
+    await fs.mkdir(this.options.directory, { recursive: true, mode: 0o700 });
+    const numbers = (await fs.readdir(this.options.directory)).map(file => parseInt(file, 10)).filter(Number.isFinite);
+    return Math.max(0, ...numbers);
+  }
+
+  private async load(): Promise<Map<string, RecordedExchange[]>> {
+    const index = new Map<string, RecordedExchange[]>();
+    const files = (await fs.readdir(this.options.directory)).filter(file => file.endsWith('.json')).sort();
+    for (const file of files) {
+      const exchange: RecordedExchange = JSON.parse(await fs.readFile(path.join(this.options.directory, file), 'utf-8'));
+      const key = `${exchange.request.method} ${exchange.request.url}`;
+      index.set(key, [...(index.get(key) || []), exchange]);
+    }
+    return index;
+  }
+
+  private async replay(config: InternalAxiosRequestConfig): Promise<AxiosResponse> {
+    this.recordings ??= this.load();
+    const { method, url } = requestKey(config);
+    const key = `${method} ${url}`;
+    const exchanges = (await this.recordings).get(key);
+    if (!exchanges) {
+      throw new CanvasApiError(`No recorded response for ${key} in ${this.options.directory}`, { method, path: url.split('?')[0] });
+    }
+
+    // Repeated requests get the recorded responses in order; the last one repeats after that
+    const count = this.served.get(key) || 0;
+    this.served.set(key, count + 1);
+    const recorded = exchanges[Math.min(count, exchanges.length - 1)].response;
+
+    const response: AxiosResponse = {
+      data: recorded.encoding !== 'base64' ? structuredClone(recorded.data)
+        : config.responseType === 'stream' ? Readable.from([Buffer.from(recorded.data, 'base64')])
+        : Buffer.from(recorded.data, 'base64'),
+      status: recorded.status,
+      statusText: '',
+      headers: { ...recorded.headers },
+      config,
+      request: {}
+    };
+    const validateStatus = config.validateStatus ?? (status => status >= 200 && status < 300);
+    if (!validateStatus(response.status)) {
+      throw new AxiosError(
+        `Request failed with status code ${response.status}`,
+        response.status >= 500 ? AxiosError.ERR_BAD_RESPONSE : AxiosError.ERR_BAD_REQUEST,
+        config,
+        response.request,
+        response
+      );
+    }
+    return response;
+  }
+}
+
+let sharedRecorder: TrafficRecorder | null | undefined;
+
+// Process-wide recorder configured from CANVAS_RECORD / CANVAS_REPLAY; null when neither is set
+export function getSharedTrafficRecorder(env: NodeJS.ProcessEnv = process.env): TrafficRecorder | null {
+  if (sharedRecorder === undefined) {
+    const options = loadTrafficRecorderOptions(env);
+    sharedRecorder = options ? new TrafficRecorder(options) : null;
+  }
+  return sharedRecorder;
+}
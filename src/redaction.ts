@@ -0,0 +1,88 @@
+// A course member as Canvas lists them, used to find mentions of them in free text
+export interface RosterMember {
+  id: number | string;
+  name?: string;
+  sortable_name?: string;
+  short_name?: string;
+  email?: string;
+  login_id?: string;
+  sis_user_id?: string;
+}
+
+export interface RosterPattern {
+  // Undefined for a first or last name several students share
+  userId?: string;
+  kind: 'name' | 'email' | 'id';
+  pattern: RegExp;
+}
+
+// Single name parts shorter than this ("Li", "Al") match too many ordinary words
+const MIN_NAME_PART = 3;
+
+const escape = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Whole words only: "Eve" must not match "every", but does match "eve_report.pdf"
+const bounded = (source: string) => new RegExp(`(?<![\\p{L}\\p{N}])(?:${source})(?![\\p{L}\\p{N}])`, 'giu');
+
+const patternCache = new WeakMap<RosterMember[], RosterPattern[]>();
+
+/**
+ * Patterns for every way a roster's students show up in text, most specific first: full names
+ * in any order and with any separator ("Jan Jansen", "Jansen, Jan", "jan_jansen"), emails,
+ * login and SIS ids, then single first or last names.
+ */
+export function rosterPatterns(roster: RosterMember[]): RosterPattern[] {
+  const cached = patternCache.get(roster);
+  if (cached) return cached;
+
+  const fullNames: Array<RosterPattern & { length: number }> = [];
+  const identifiers: RosterPattern[] = [];
+  const nameParts = new Map<string, Set<string>>();
+
+  for (const member of roster) {
+    if (member?.id === undefined || member.id === null) continue;
+    const userId = String(member.id);
+
+    for (const name of new Set([member.name, member.sortable_name, member.short_name].filter((name): name is string => !!name?.trim()))) {
+      const parts = name.split(/[\s,]+/).filter(Boolean);
+      if (parts.length > 1) {
+        fullNames.push({ userId, kind: 'name', pattern: bounded(parts.map(escape).join('[\\s_.,-]+')), length: name.length });
+      }
+      for (const part of parts) {
+        if (part.length < MIN_NAME_PART) continue;
+        const owners = nameParts.get(part.toLowerCase()) ?? new Set<string>();
+        nameParts.set(part.toLowerCase(), owners.add(userId));
+      }
+    }
+
+    if (member.email) identifiers.push({ userId, kind: 'email', pattern: bounded(escape(member.email)) });
+    for (const id of [member.login_id, member.sis_user_id]) {
+      if (!id || String(id).length < MIN_NAME_PART || id === member.email) continue;
+      identifiers.push({ userId, kind: String(id).includes('@') ? 'email' : 'id', pattern: bounded(escape(String(id))) });
+    }
+  }
+
+  const patterns: RosterPattern[] = [
+    ...fullNames.sort((a, b) => b.length - a.length).map(({ length: _length, ...pattern }) => pattern),
+    ...identifiers,
+    ...[...nameParts].map(([part, owners]) => ({
+      userId: owners.size === 1 ? [...owners][0] : undefined,
+      kind: 'name' as const,
+      pattern: bounded(escape(part))
+    }))
+  ];
+  patternCache.set(roster, patterns);
+  return patterns;
+}
+
+// Students a text mentions by name, email or id
+export function mentionedStudents(text: string, patterns: RosterPattern[]): string[] {
+  return patterns
+    .filter(({ userId, pattern }) => userId !== undefined && text.search(pattern) >= 0)
+    .map(({ userId }) => userId!);
+}
+
+// Replace every mention of a roster student in a text
+export function redactText(text: string, patterns: RosterPattern[], replacement: (pattern: RosterPattern) => string): string {
+  return patterns.reduce((redacted, pattern) => redacted.replace(pattern.pattern, () => replacement(pattern)), text);
+}
@@ -0,0 +1,174 @@
+import { McpServer, ResourceTemplate } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { SubscribeRequestSchema, UnsubscribeRequestSchema } from "@modelcontextprotocol/sdk/types.js";
+import { CanvasClient } from './canvasClient.js';
+import { CanvasNotFoundError } from './errors.js';
+import { DEFAULT_STYLEGUIDE_SLUG } from './tools/pages.js';
+import { createCompleters } from './completions.js';
+import { isTextContentType } from './textExtraction.js';
+
+type Variables = Record<string, string | string[]>;
+
+const variable = (variables: Variables, name: string) => String(variables[name]);
+
+// Course a canvas:// resource URI or a Canvas API path belongs to
+function courseOf(uriOrPath: string): string | undefined {
+  const match = uriOrPath.match(/^canvas:\/\/courses\/([^/?]+)/) || uriOrPath.match(/\/api\/v1\/courses\/([^/?]+)/);
+  return match ? decodeURIComponent(match[1]) : undefined;
+}
+
+const json = (uri: URL, data: unknown) => ({
+  contents: [{ uri: uri.href, mimeType: 'application/json', text: JSON.stringify(data, null, 2) }]
+});
+
+// A page's HTML body, which is what a client attaching it as context wants
+async function readPage(canvas: CanvasClient, uri: URL, courseId: string, slug: string) {
+  const page = await canvas.getPage(courseId, slug) as any;
+  return {
+    contents: [{ uri: uri.href, mimeType: 'text/html', text: page.body || '' }]
+  };
+}
+
+/**
+ * Expose course content as MCP resources, read through the same CanvasClient methods as the
+ * tools (so caching, anonymization and download limits apply), and notify subscribers when a
+ * write through this server, from any session, may have changed a course's resources. Changes
+ * made in Canvas itself or by other programs are not noticed.
+ */
+export function registerResources(server: McpServer, canvas: CanvasClient) {
+  const complete = createCompleters(canvas);
+
+  server.resource(
+    "courses",
+    "canvas://courses",
+    { description: "The courses the Canvas user can see, with the ids the other canvas:// resources take", mimeType: 'application/json' },
+    async (uri) => json(uri, (await canvas.listCourses() as any[]).map(course => ({
+      id: course.id,
+      name: course.name,
+      course_code: course.course_code,
+      workflow_state: course.workflow_state
+    })))
+  );
+
+  server.resource(
+    "page",
+    new ResourceTemplate("canvas://courses/{courseId}/pages/{pageUrl}", {
+      list: undefined,
+      complete: { courseId: complete.courseId, pageUrl: complete.pageUrl }
+    }),
+    { description: "A course page's HTML body, by URL slug", mimeType: 'text/html' },
+    (uri, variables) => readPage(canvas, uri, variable(variables, 'courseId'), variable(variables, 'pageUrl'))
+  );
+
+  server.resource(
+    "styleguide",
+    new ResourceTemplate("canvas://courses/{courseId}/styleguide", { list: undefined, complete: { courseId: complete.courseId } }),
+    { description: `The course styleguide page (${DEFAULT_STYLEGUIDE_SLUG}) to follow when writing page content`, mimeType: 'text/html' },
+    (uri, variables) => readPage(canvas, uri, variable(variables, 'courseId'), DEFAULT_STYLEGUIDE_SLUG)
+  );
+
+  server.resource(
+    "assignment",
+    new ResourceTemplate("canvas://courses/{courseId}/assignments/{assignmentId}", {
+      list: undefined,
+      complete: { courseId: complete.courseId, assignmentId: complete.assignmentId }
+    }),
+    { description: "An assignment as Canvas returns it: description, due dates, points and submission settings", mimeType: 'application/json' },
+    async (uri, variables) => json(uri, await canvas.getAssignment(variable(variables, 'courseId'), variable(variables, 'assignmentId')))
+  );
+
+  server.resource(
+    "module",
+    new ResourceTemplate("canvas://courses/{courseId}/modules/{moduleId}", {
+      list: undefined,
+      complete: { courseId: complete.courseId, moduleId: complete.moduleId }
+    }),
+    { description: "A module with its items, in course order", mimeType: 'application/json' },
+    async (uri, variables) => {
+      const courseId = variable(variables, 'courseId');
+      const moduleId = variable(variables, 'moduleId');
+      const module = await canvas.getModule(courseId, moduleId) as any;
+      return json(uri, { ...module, items: await canvas.listModuleItems(courseId, moduleId) });
+    }
+  );
+
+  server.resource(
+    "quiz",
+    new ResourceTemplate("canvas://courses/{courseId}/quizzes/{quizId}", {
+      list: undefined,
+      complete: { courseId: complete.courseId, quizId: complete.quizId }
+    }),
+    { description: "A quiz's settings: description, type, due date and points", mimeType: 'application/json' },
+    async (uri, variables) => json(uri, await canvas.get(`/api/v1/courses/${variable(variables, 'courseId')}/quizzes/${variable(variables, 'quizId')}`))
+  );
+
+  server.resource(
+    "submission-file",
+    new ResourceTemplate("canvas://courses/{courseId}/assignments/{assignmentId}/submissions/{userId}/files/{fileId}", {
+      list: undefined,
+      complete: { courseId: complete.courseId, assignmentId: complete.assignmentId }
+    }),
+    { description: "A file attached to a submission: text files and readable documents as text with student names redacted, other files as binary. userId may be a pseudonym id." },
+    async (uri, variables) => {
+      const courseId = variable(variables, 'courseId');
+      const fileId = variable(variables, 'fileId');
+      // Only files of this submission, so the URI can't be used to read arbitrary Canvas files
+      const submission = await canvas.getSubmissionWithAttachments(courseId, variable(variables, 'assignmentId'), variable(variables, 'userId'));
+      if (!(submission.attachments || []).some((attachment: any) => String(attachment.id) === fileId)) {
+        throw new CanvasNotFoundError(`File ${fileId} is not attached to this submission`, { path: uri.href });
+      }
+
+      const file = await canvas.downloadFile(fileId);
+      if (isTextContentType(file.contentType)) {
+        return { contents: [{ uri: uri.href, mimeType: file.contentType, text: await canvas.redactStudentText(courseId, file.data.toString('utf-8')) }] };
+      }
+      const extracted = await canvas.extractFileText(file, courseId).catch(() => undefined);
+      if (extracted) {
+        return { contents: [{ uri: uri.href, mimeType: 'text/plain', text: extracted.text }] };
+      }
+      return { contents: [{ uri: uri.href, mimeType: file.contentType, blob: file.data.toString('base64') }] };
+    }
+  );
+
+  // Subscriptions belong to this server instance, and so to one session, but the writes they
+  // hear about may come from any session in the process
+  const subscriptions = new Set<string>();
+  const courseListeners = new Map<string, () => void>();
+  const subscribedTo = (course: string) => [...subscriptions].filter(uri => courseOf(uri) === course);
+
+  // Like the response cache, treat any write to a course as a possible change to all of its
+  // resources, since Canvas updates related objects (e.g. module items, submissions) on its own
+  const listen = (course: string) => {
+    if (courseListeners.has(course)) return;
+    courseListeners.set(course, canvas.onCourseWrite(course, () => {
+      for (const uri of subscribedTo(course)) {
+        server.server.sendResourceUpdated({ uri }).catch(error => console.error(`Failed to notify subscribers of ${uri}:`, error));
+      }
+    }));
+  };
+  const stopListening = (course: string) => {
+    if (subscribedTo(course).length > 0) return;
+    courseListeners.get(course)?.();
+    courseListeners.delete(course);
+  };
+
+  server.server.registerCapabilities({ resources: { subscribe: true } });
+  server.server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+    subscriptions.add(request.params.uri);
+    const course = courseOf(request.params.uri);
+    if (course !== undefined) listen(course);
+    return {};
+  });
+  server.server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+    subscriptions.delete(request.params.uri);
+    const course = courseOf(request.params.uri);
+    if (course !== undefined) stopListening(course);
+    return {};
+  });
+
+  const onclose = server.server.onclose;
+  server.server.onclose = () => {
+    for (const stop of courseListeners.values()) stop();
+    courseListeners.clear();
+    onclose?.();
+  };
+}
@@ -0,0 +1,37 @@
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { CreateMessageResultSchema } from "@modelcontextprotocol/sdk/types.js";
+
+export interface SamplingRequest {
+  systemPrompt: string;
+  prompt: string;
+  maxTokens: number;
+}
+
+export interface SamplingResult {
+  text: string;
+  model: string;
+  // True when the client's model stopped at maxTokens, so the text is cut off
+  truncated: boolean;
+}
+
+/**
+ * Have the client's own model answer a prompt, through MCP sampling. Returns undefined when
+ * the client doesn't support sampling, so tools can fall back to handing the prompt back.
+ */
+export async function requestSampling(server: Server, extra: any, request: SamplingRequest): Promise<SamplingResult | undefined> {
+  if (!server.getClientCapabilities()?.sampling) {
+    return undefined;
+  }
+  const result = await extra.sendRequest({
+    method: 'sampling/createMessage',
+    params: {
+      systemPrompt: request.systemPrompt,
+      messages: [{ role: 'user', content: { type: 'text', text: request.prompt } }],
+      maxTokens: request.maxTokens
+    }
+  }, CreateMessageResultSchema);
+  if (result.content.type !== 'text') {
+    throw new Error(`The client's model answered with ${result.content.type} instead of text`);
+  }
+  return { text: result.content.text, model: result.model, truncated: result.stopReason === 'maxTokens' };
+}
@@ -0,0 +1,180 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { randomUUID } from "crypto";
+import { z } from "zod";
+import { CanvasClient } from './canvasClient.js';
+import { registerCourseTools } from './tools/courses.js';
+import { registerStudentTools } from './tools/students.js';
+import { registerAssignmentTools } from './tools/assignments.js';
+import { registerAssignmentGroupTools } from './tools/assignmentGroups.js';
+import { registerModuleTools } from './tools/modules.js';
+import { registerPageTools } from './tools/pages.js';
+import { registerSectionTools } from './tools/sections.js';
+import { registerSubmissionTools } from './tools/submissions.js';
+import { registerRubricTools } from './tools/rubrics.js';
+import { registerPrompts } from "./tools/prompts.js";
+import { registerQuizTools } from "./tools/quizzes.js";
+import { registerAuditTools } from "./tools/audit.js";
+import { registerUndoTools } from "./tools/undo.js";
+import { registerResources } from './resources.js';
+import { ToolInfo, ToolPolicy, getToolInfo, isToolEnabled, loadToolPolicy, toolAnnotations } from './toolCatalog.js';
+import { formatPlannedChanges, isDryRun, isGlobalDryRun, withDryRun } from './dryRun.js';
+import { runInToolCall } from './toolContext.js';
+import { PlannedChangeSchema } from './outputSchemas.js';
+import { toolResult } from './toolResult.js';
+import { toolError } from './errors.js';
+import { requestConfirmation } from './confirmation.js';
+
+// What the tool modules pass to registerTool; both schemas are zod raw shapes
+export interface ToolConfig {
+  description: string;
+  inputSchema: z.ZodRawShape;
+  outputSchema: z.ZodRawShape;
+  // For destructive tools: what the call would delete or replace, for the user to confirm
+  describeImpact?: (args: any) => Promise<string>;
+}
+
+export interface ServerOptions {
+  // Which tools to register; defaults to CANVAS_MCP_MODE / CANVAS_MCP_TOOLS / CANVAS_MCP_EXCLUDE_TOOLS
+  toolPolicy?: ToolPolicy;
+}
+
+const dryRunParameter = z.boolean().optional().describe("Preview the change: show a field-level before/after diff without changing anything in Canvas");
+
+// A dry run returns the planned changes instead of the tool's usual output, so every field
+// of that becomes optional
+function dryRunOutputSchema(shape: z.ZodRawShape) {
+  return z.object(shape).partial().extend({
+    dryRun: z.literal(true).optional(),
+    plannedChanges: z.array(PlannedChangeSchema).optional()
+  });
+}
+
+// Wrap a write tool's handler so dryRun (or CANVAS_DRY_RUN) plans its Canvas writes and
+// reports the diff instead of sending them
+function dryRunHandler(name: string, handler: (args: any, extra: any) => Promise<any>) {
+  return async ({ dryRun, ...args }: any, extra: any) => {
+    if (!dryRun && !isGlobalDryRun()) {
+      return handler(args, extra);
+    }
+    const { result, changes } = await withDryRun(() => handler(args, extra));
+    if (result?.isError) return result;
+    return toolResult(formatPlannedChanges(name, changes), { dryRun: true, plannedChanges: changes });
+  };
+}
+
+// Have the user confirm a destructive tool's impact before it runs. Dry runs change nothing, so
+// they aren't confirmed.
+function confirmationHandler(server: McpServer, name: string, describeImpact: (args: any) => Promise<string>, handler: (args: any, extra: any) => Promise<any>) {
+  return async (args: any, extra: any) => {
+    if (!isDryRun() && server.server.getClientCapabilities()?.elicitation) {
+      let impact: string;
+      try {
+        impact = await describeImpact(args);
+      } catch (error) {
+        return toolError(`Failed to check what ${name} would change`, error);
+      }
+      if (await requestConfirmation(server.server, extra, impact) === 'declined') {
+        return toolError(`Cancelled ${name}`, new Error('The user did not confirm, so nothing was changed in Canvas'));
+      }
+    }
+    return handler(args, extra);
+  };
+}
+
+// Progress notifications for a call whose client sent a progress token. Progress counts the
+// steps done so far (Canvas pages fetched, files downloaded): how many there will be is rarely
+// known up front, so the messages carry totals where Canvas gives them.
+function progressNotifier(extra: any): ((message: string) => void) | undefined {
+  const progressToken = extra?._meta?.progressToken;
+  if (progressToken === undefined) return undefined;
+  let progress = 0;
+  return message => {
+    progress += 1;
+    // Progress is best effort; a notification that can't be sent mustn't fail the call
+    extra.sendNotification({ method: 'notifications/progress', params: { progressToken, progress, message } }).catch(() => {});
+  };
+}
+
+// Make the tool name, session and arguments of a call available to CanvasClient, e.g. for the
+// audit log, along with the call's abort signal and progress notifier. Transports without
+// sessions (stdio) use one id for the server's lifetime.
+function toolCallHandler(info: ToolInfo, handler: (args: any, extra: any) => Promise<any>, fallbackSessionId: string) {
+  return (args: any, extra: any) => runInToolCall(
+    {
+      tool: info.name,
+      sessionId: extra?.sessionId ?? fallbackSessionId,
+      clientId: extra?.authInfo?.clientId,
+      arguments: args ?? {},
+      undoable: info.undoable,
+      signal: extra?.signal,
+      progress: progressNotifier(extra)
+    },
+    () => handler(args, extra)
+  );
+}
+
+// Stand-in for the McpServer handed to the register functions: tools the policy
+// disables are never registered, so clients don't even see them. `server` is the underlying
+// Server, as on McpServer, for tools that send requests back to the client.
+function toolRegistrar(server: McpServer, policy: ToolPolicy) {
+  const sessionId = randomUUID();
+  return {
+    registerTool: (name: string, { describeImpact, ...config }: ToolConfig, handler: (args: any, extra: any) => Promise<any>) => {
+      const info = getToolInfo(name);
+      if (!info) {
+        throw new Error(`Tool ${name} is missing from TOOL_CATALOG in toolCatalog.ts`);
+      }
+      // Clients automating against our tools rely on every result having a declared shape
+      if (!config.outputSchema) {
+        throw new Error(`Tool ${name} has no outputSchema`);
+      }
+      if (info.destructive && !describeImpact) {
+        throw new Error(`Destructive tool ${name} has no describeImpact for the user to confirm`);
+      }
+      if (!isToolEnabled(info, policy)) return undefined;
+      const annotations = toolAnnotations(info);
+      if (info.access === 'write') {
+        const confirmed = describeImpact ? confirmationHandler(server, name, describeImpact, handler) : handler;
+        return server.registerTool(name, {
+          ...config,
+          inputSchema: { ...config.inputSchema, dryRun: dryRunParameter },
+          outputSchema: dryRunOutputSchema(config.outputSchema),
+          annotations
+        }, toolCallHandler(info, dryRunHandler(name, confirmed), sessionId));
+      }
+      return server.registerTool(name, { ...config, annotations }, toolCallHandler(info, handler, sessionId));
+    },
+    prompt: server.prompt.bind(server),
+    server: server.server
+  };
+}
+
+// Create and configure a new MCP server instance bound to one CanvasClient.
+// In HTTP mode every session gets its own client, so tools only ever see that session's credentials.
+export function createServer(canvas: CanvasClient, options: ServerOptions = {}): McpServer {
+  const server = new McpServer({
+    name: "Canvas MCP Server",
+    version: "1.0.0"
+  });
+  const registrar = toolRegistrar(server, options.toolPolicy ?? loadToolPolicy());
+
+  // Register all tools allowed by the tool policy
+  registerCourseTools(registrar, canvas);
+  registerStudentTools(registrar, canvas);
+  registerAssignmentTools(registrar, canvas);
+  registerAssignmentGroupTools(registrar, canvas);
+  registerModuleTools(registrar, canvas);
+  registerPageTools(registrar, canvas);
+  registerSectionTools(registrar, canvas);
+  registerSubmissionTools(registrar, canvas);
+  registerRubricTools(registrar, canvas);
+  registerPrompts(registrar, canvas);
+  registerQuizTools(registrar, canvas);
+  registerAuditTools(registrar, canvas);
+  registerUndoTools(registrar, canvas);
+
+  // Course content as resources clients can attach and subscribe to
+  registerResources(server, canvas);
+
+  return server;
+}
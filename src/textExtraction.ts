@@ -0,0 +1,295 @@
+import { strFromU8, unzipSync } from 'fflate';
+
+export type DocumentFormat = 'pdf' | 'docx' | 'pptx' | 'xlsx' | 'odt' | 'html' | 'markdown' | 'text' | 'zip';
+
+export interface TextExtractionOptions {
+  // Files (and zip contents, uncompressed) larger than this are not extracted
+  maxInputBytes: number;
+  // Extracted text is cut off after this many characters
+  maxChars: number;
+}
+
+export interface ExtractedText {
+  format: DocumentFormat;
+  // Plain text with "--- Page 2 ---" style markers between pages, slides, sheets and files
+  text: string;
+  truncated: boolean;
+  // Length of the full extracted text, before truncation
+  totalChars: number;
+}
+
+// A file that can't be turned into text: too large, corrupt, or password protected
+export class TextExtractionError extends Error {}
+
+function positiveInt(value: string | undefined, fallback: number): number {
+  const parsed = Number(value);
+  return Number.isFinite(parsed) && parsed > 0 ? Math.floor(parsed) : fallback;
+}
+
+// Read CANVAS_EXTRACT_MAX_BYTES and CANVAS_EXTRACT_MAX_CHARS
+export function loadTextExtractionOptions(env: NodeJS.ProcessEnv = process.env): TextExtractionOptions {
+  return {
+    maxInputBytes: positiveInt(env.CANVAS_EXTRACT_MAX_BYTES, 25 * 1024 * 1024),
+    maxChars: positiveInt(env.CANVAS_EXTRACT_MAX_CHARS, 100_000)
+  };
+}
+
+const CONTENT_TYPES: Record<string, DocumentFormat> = {
+  'application/pdf': 'pdf',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document': 'docx',
+  'application/vnd.openxmlformats-officedocument.presentationml.presentation': 'pptx',
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet': 'xlsx',
+  'application/vnd.oasis.opendocument.text': 'odt',
+  'text/html': 'html',
+  'application/xhtml+xml': 'html',
+  'text/markdown': 'markdown',
+  'text/x-markdown': 'markdown',
+  'application/zip': 'zip',
+  'application/x-zip-compressed': 'zip'
+};
+
+const EXTENSIONS: Record<string, DocumentFormat> = {
+  pdf: 'pdf', docx: 'docx', pptx: 'pptx', xlsx: 'xlsx', odt: 'odt',
+  html: 'html', htm: 'html', md: 'markdown', markdown: 'markdown', zip: 'zip'
+};
+
+// Source and plain text files worth showing from a zip archive or as-is
+const TEXT_EXTENSIONS = new Set([
+  'txt', 'csv', 'tsv', 'json', 'xml', 'yml', 'yaml', 'toml', 'ini', 'cfg', 'log', 'md', 'markdown', 'rst', 'tex', 'html', 'htm', 'css', 'scss',
+  'js', 'mjs', 'cjs', 'jsx', 'ts', 'tsx', 'py', 'ipynb', 'java', 'kt', 'c', 'h', 'cpp', 'hpp', 'cc', 'cs', 'go', 'rs', 'rb', 'php', 'swift',
+  'scala', 'r', 'm', 'sql', 'sh', 'bash', 'ps1', 'bat', 'lua', 'pl', 'hs', 'ml', 'fs', 'dart', 'vue', 'svelte', 'gradle', 'makefile', 'dockerfile'
+]);
+
+const extensionOf = (filename: string) => (filename.toLowerCase().match(/\.([a-z0-9]+)$/)?.[1] ?? filename.toLowerCase().split('/').pop() ?? '');
+
+// Work out how to read a file from its content type, falling back to its extension
+export function detectFormat(contentType: string | undefined, filename: string): DocumentFormat | undefined {
+  const type = (contentType || '').split(';')[0].trim().toLowerCase();
+  const extension = extensionOf(filename);
+  if (CONTENT_TYPES[type]) return CONTENT_TYPES[type];
+  if (EXTENSIONS[extension]) return EXTENSIONS[extension];
+  if (type.startsWith('text/') || TEXT_EXTENSIONS.has(extension)) return 'text';
+  return undefined;
+}
+
+// Whether a file is plain text by its content type; "text" inside types like application/vnd.oasis.opendocument.text doesn't count
+export function isTextContentType(contentType: string | undefined): boolean {
+  return (contentType || '').trim().toLowerCase().startsWith('text/');
+}
+
+function decodeEntities(text: string): string {
+  return text
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex) => String.fromCodePoint(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_, decimal) => String.fromCodePoint(Number(decimal)))
+    .replace(/&(lt|gt|quot|apos|nbsp|amp);/g, (_, name) => ({ lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ', amp: '&' } as Record<string, string>)[name]);
+}
+
+const stripTags = (xml: string) => decodeEntities(xml.replace(/<[^>]+>/g, ''));
+
+// Collapse the blank lines left behind by markup
+const tidy = (text: string) => text.replace(/[ \t]+\n/g, '\n').replace(/\n{3,}/g, '\n\n').trim();
+
+function unzip(data: Uint8Array, options: TextExtractionOptions): Record<string, Uint8Array> {
+  let total = 0;
+  try {
+    // Skip entries once the uncompressed total passes the limit, so a zip bomb can't fill memory
+    return unzipSync(data, {
+      filter: file => {
+        total += file.originalSize;
+        return total <= options.maxInputBytes;
+      }
+    });
+  } catch (error) {
+    throw new TextExtractionError(`Not a readable zip archive: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+function entry(files: Record<string, Uint8Array>, name: string): string {
+  const file = files[name];
+  if (!file) throw new TextExtractionError(`Missing ${name}; the file may be damaged or over the size limit`);
+  return strFromU8(file);
+}
+
+// Entries like ppt/slides/slide10.xml in numeric order
+function numbered(files: Record<string, Uint8Array>, pattern: RegExp): Array<[number, string]> {
+  return Object.keys(files)
+    .map(name => [Number(name.match(pattern)?.[1]), name] as [number, string])
+    .filter(([number]) => Number.isFinite(number))
+    .sort((a, b) => a[0] - b[0]);
+}
+
+async function extractPdf(data: Uint8Array): Promise<string> {
+  // unpdf bundles PDF.js, which is large; load it only when a PDF shows up
+  const { extractText } = await import('unpdf');
+  let pages: string[];
+  try {
+    // PDF.js takes ownership of the buffer it is given
+    ({ text: pages } = await extractText(new Uint8Array(data), { mergePages: false }));
+  } catch (error) {
+    throw new TextExtractionError(`Could not read PDF: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  return pages.map((page, index) => `--- Page ${index + 1} ---\n${page.trim()}`).join('\n\n');
+}
+
+function extractDocx(files: Record<string, Uint8Array>): string {
+  const xml = entry(files, 'word/document.xml');
+  const lines: string[] = [];
+  let page = 1;
+  for (const [paragraph] of xml.matchAll(/<w:p[ >][\s\S]*?<\/w:p>/g)) {
+    // Word only knows where the author forced a page break, not where pages end
+    if (/<w:br [^>]*w:type="page"/.test(paragraph)) lines.push(`--- Page ${++page} ---`);
+    const text = decodeEntities(
+      paragraph
+        .replace(/<w:tab\/>/g, '\t')
+        .replace(/<w:br [^>]*w:type="page"[^>]*\/>/g, '')
+        .replace(/<w:br\b[^>]*\/>/g, '\n')
+        .replace(/<w:t(?: [^>]*)?>([\s\S]*?)<\/w:t>|<[^>]+>/g, (_, run) => run ?? '')
+    );
+    const style = paragraph.match(/<w:pStyle w:val="([^"]+)"/)?.[1] ?? '';
+    const level = style.match(/^(?:Heading|Kop|berschrift)(\d)$/i)?.[1] ?? (/^Title$/i.test(style) ? '1' : undefined);
+    lines.push(level && text.trim() ? `\n${'#'.repeat(Number(level))} ${text.trim()}` : text);
+  }
+  return tidy(lines.join('\n'));
+}
+
+function extractPptx(files: Record<string, Uint8Array>): string {
+  return numbered(files, /^ppt\/slides\/slide(\d+)\.xml$/)
+    .map(([number, name]) => {
+      const paragraphs = [...strFromU8(files[name]).matchAll(/<a:p>([\s\S]*?)<\/a:p>/g)]
+        .map(([, paragraph]) => decodeEntities([...paragraph.matchAll(/<a:t>([\s\S]*?)<\/a:t>/g)].map(([, run]) => run).join('')))
+        .filter(text => text.trim());
+      return `--- Slide ${number} ---\n${paragraphs.join('\n')}`;
+    })
+    .join('\n\n');
+}
+
+// Column letters of a cell reference ("AB12") as a zero-based index
+function columnIndex(reference: string): number {
+  let index = 0;
+  for (const letter of reference.replace(/\d+$/, '')) index = index * 26 + letter.charCodeAt(0) - 64;
+  return index - 1;
+}
+
+function extractXlsx(files: Record<string, Uint8Array>): string {
+  const shared = files['xl/sharedStrings.xml']
+    ? [...strFromU8(files['xl/sharedStrings.xml']).matchAll(/<si>([\s\S]*?)<\/si>/g)]
+      .map(([, item]) => decodeEntities([...item.matchAll(/<t(?: [^>]*)?>([\s\S]*?)<\/t>/g)].map(([, text]) => text).join('')))
+    : [];
+
+  // Sheet names in workbook order, mapped to their worksheet files through the relationships
+  const relationships = new Map(
+    [...(files['xl/_rels/workbook.xml.rels'] ? strFromU8(files['xl/_rels/workbook.xml.rels']) : '').matchAll(/<Relationship\b[^>]*>/g)]
+      .map(([tag]) => [tag.match(/Id="([^"]+)"/)?.[1], tag.match(/Target="([^"]+)"/)?.[1]?.replace(/^\/?(xl\/)?/, 'xl/')])
+  );
+  const sheets = [...entry(files, 'xl/workbook.xml').matchAll(/<sheet\b[^>]*>/g)].map(([tag], index) => ({
+    name: decodeEntities(tag.match(/name="([^"]*)"/)?.[1] ?? `Sheet${index + 1}`),
+    file: relationships.get(tag.match(/r:id="([^"]+)"/)?.[1]) ?? `xl/worksheets/sheet${index + 1}.xml`
+  }));
+
+  return sheets
+    .filter(sheet => files[sheet.file])
+    .map(sheet => {
+      const rows = [...strFromU8(files[sheet.file]).matchAll(/<row\b[^>]*>([\s\S]*?)<\/row>/g)].map(([, row]) => {
+        const cells: string[] = [];
+        for (const [, attributes, body] of row.matchAll(/<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g)) {
+          const reference = attributes.match(/r="([A-Z]+\d+)"/)?.[1];
+          const type = attributes.match(/t="([^"]+)"/)?.[1];
+          const value = body?.match(/<v>([\s\S]*?)<\/v>/)?.[1];
+          const text = type === 's' ? shared[Number(value)] ?? ''
+            : type === 'inlineStr' ? stripTags(body?.match(/<is>([\s\S]*?)<\/is>/)?.[1] ?? '')
+            : type === 'b' ? (value === '1' ? 'TRUE' : 'FALSE')
+            : decodeEntities(value ?? '');
+          cells[reference ? columnIndex(reference) : cells.length] = text;
+        }
+        return Array.from(cells, cell => cell ?? '').join('\t');
+      });
+      return `--- Sheet: ${sheet.name} ---\n${rows.filter(row => row.trim()).join('\n')}`;
+    })
+    .join('\n\n');
+}
+
+function extractOdt(files: Record<string, Uint8Array>): string {
+  const body = entry(files, 'content.xml').match(/<office:body>([\s\S]*)<\/office:body>/)?.[1] ?? '';
+  const lines = [...body.matchAll(/<text:(h|p)\b([^>]*?)(?:\/>|>([\s\S]*?)<\/text:\1>)/g)].map(([, kind, attributes, content]) => {
+    const text = stripTags(
+      (content ?? '')
+        .replace(/<text:s(?: text:c="(\d+)")?\/>/g, (_, count) => ' '.repeat(Number(count || 1)))
+        .replace(/<text:tab\/>/g, '\t')
+        .replace(/<text:line-break\/>/g, '\n')
+    );
+    const level = attributes.match(/text:outline-level="(\d)"/)?.[1] ?? '1';
+    return kind === 'h' && text.trim() ? `\n${'#'.repeat(Number(level))} ${text.trim()}` : text;
+  });
+  return tidy(lines.join('\n'));
+}
+
+export function htmlToText(html: string): string {
+  return tidy(decodeEntities(
+    html
+      .replace(/<(script|style|head)\b[\s\S]*?<\/\1>/gi, '')
+      .replace(/<h([1-6])\b[^>]*>([\s\S]*?)<\/h\1>/gi, (_, level, heading) => `\n\n${'#'.repeat(Number(level))} ${heading.replace(/<[^>]+>/g, '').trim()}\n\n`)
+      .replace(/<li\b[^>]*>/gi, '\n- ')
+      .replace(/<br\s*\/?>/gi, '\n')
+      .replace(/<\/(p|div|tr|table|ul|ol|section|article|blockquote|pre)>/gi, '\n\n')
+      .replace(/<\/t[dh]>/gi, '\t')
+      .replace(/<[^>]+>/g, '')
+  ));
+}
+
+// A file inside an archive looks like text when its first bytes hold no NUL characters
+function looksLikeText(name: string, data: Uint8Array): boolean {
+  if (TEXT_EXTENSIONS.has(extensionOf(name))) return true;
+  return data.length > 0 && !data.subarray(0, 8000).includes(0);
+}
+
+function extractZip(files: Record<string, Uint8Array>): string {
+  return Object.keys(files)
+    .filter(name => !name.endsWith('/') && !/(^|\/)(__MACOSX|\.git|node_modules)\//.test(name) && !/(^|\/)\.DS_Store$/.test(name))
+    .sort()
+    .map(name => looksLikeText(name, files[name])
+      ? `--- File: ${name} ---\n${strFromU8(files[name]).trimEnd()}`
+      : `--- File: ${name} (binary, ${files[name].length} bytes, not shown) ---`)
+    .join('\n\n');
+}
+
+/**
+ * Turn a submitted file into plain text an agent can read: PDFs page by page, Word, PowerPoint,
+ * Excel and OpenDocument files with their headings, slides and sheets marked, HTML without
+ * markup, and zip archives (e.g. source code) file by file. Returns undefined for formats it
+ * can't read, and cuts the text off at maxChars.
+ */
+export async function extractDocumentText(
+  data: Uint8Array,
+  contentType: string | undefined,
+  filename: string,
+  options: TextExtractionOptions = loadTextExtractionOptions()
+): Promise<ExtractedText | undefined> {
+  const format = detectFormat(contentType, filename);
+  if (!format) return undefined;
+  if (data.length > options.maxInputBytes) {
+    throw new TextExtractionError(`${filename} is ${data.length} bytes, over the ${options.maxInputBytes} byte extraction limit`);
+  }
+
+  let text: string;
+  switch (format) {
+    case 'pdf': text = await extractPdf(data); break;
+    case 'docx': text = extractDocx(unzip(data, options)); break;
+    case 'pptx': text = extractPptx(unzip(data, options)); break;
+    case 'xlsx': text = extractXlsx(unzip(data, options)); break;
+    case 'odt': text = extractOdt(unzip(data, options)); break;
+    case 'zip': text = extractZip(unzip(data, options)); break;
+    case 'html': text = htmlToText(strFromU8(data)); break;
+    default: text = strFromU8(data);
+  }
+
+  const totalChars = text.length;
+  if (totalChars <= options.maxChars) {
+    return { format, text, truncated: false, totalChars };
+  }
+  return {
+    format,
+    text: `${text.slice(0, options.maxChars)}\n\n[Truncated: showing ${options.maxChars} of ${totalChars} characters]`,
+    truncated: true,
+    totalChars
+  };
+}
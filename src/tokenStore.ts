@@ -0,0 +1,78 @@
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from "crypto";
+import { promises as fs } from "fs";
+import path from "path";
+
+export interface StoredTokens {
+  accessToken: string;
+  refreshToken?: string;
+  // Epoch milliseconds after which the access token should be refreshed
+  expiresAt?: number;
+  canvasUserId?: string;
+  canvasUserName?: string;
+}
+
+/**
+ * Stores OAuth tokens on disk, one file per principal, encrypted with AES-256-GCM.
+ * File names are hashes of the principal so the directory listing reveals nothing either.
+ */
+export class EncryptedTokenStore {
+  private key: Buffer;
+
+  constructor(private directory: string, secret: string) {
+    if (!secret) {
+      throw new Error("An encryption key is required for the token store");
+    }
+    // Derive a fixed-length key so any passphrase length works
+    this.key = createHash("sha256").update(secret).digest();
+  }
+
+  private filePath(principal: string): string {
+    const name = createHash("sha256").update(principal).digest("hex");
+    return path.join(this.directory, `${name}.json.enc`);
+  }
+
+  private encrypt(plaintext: string): string {
+    const iv = randomBytes(12);
+    const cipher = createCipheriv("aes-256-gcm", this.key, iv);
+    const ciphertext = Buffer.concat([cipher.update(plaintext, "utf-8"), cipher.final()]);
+    const tag = cipher.getAuthTag();
+    return [iv, tag, ciphertext].map(part => part.toString("base64")).join(".");
+  }
+
+  private decrypt(payload: string): string {
+    const [iv, tag, ciphertext] = payload.split(".").map(part => Buffer.from(part, "base64"));
+    const decipher = createDecipheriv("aes-256-gcm", this.key, iv);
+    decipher.setAuthTag(tag);
+    return Buffer.concat([decipher.update(ciphertext), decipher.final()]).toString("utf-8");
+  }
+
+  async get(principal: string): Promise<StoredTokens | undefined> {
+    let payload: string;
+    try {
+      payload = await fs.readFile(this.filePath(principal), "utf-8");
+    } catch (error: any) {
+      if (error.code === "ENOENT") return undefined;
+      throw error;
+    }
+    try {
+      return JSON.parse(this.decrypt(payload.trim()));
+    } catch {
+      // Wrong key or tampered file: treat as not logged in rather than crashing the session
+      console.error("Warning: could not decrypt stored Canvas tokens, a new login is required");
+      return undefined;
+    }
+  }
+
+  async set(principal: string, tokens: StoredTokens): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true, mode: 0o700 });
+    const target = this.filePath(principal);
+    const temp = `${target}.${randomBytes(4).toString("hex")}.tmp`;
+    // Write then rename so a crash never leaves a half-written token file
+    await fs.writeFile(temp, this.encrypt(JSON.stringify(tokens)), { mode: 0o600 });
+    await fs.rename(temp, target);
+  }
+
+  async delete(principal: string): Promise<void> {
+    await fs.rm(this.filePath(principal), { force: true });
+  }
+}
@@ -0,0 +1,154 @@
+import { ToolAnnotations } from "@modelcontextprotocol/sdk/types.js";
+
+export type ToolCategory =
+  | 'courses'
+  | 'students'
+  | 'assignments'
+  | 'assignment-groups'
+  | 'modules'
+  | 'pages'
+  | 'sections'
+  | 'submissions'
+  | 'rubrics'
+  | 'quizzes'
+  | 'audit'
+  | 'undo';
+
+export interface ToolInfo {
+  name: string;
+  category: ToolCategory;
+  // Whether the tool changes anything in Canvas
+  access: 'read' | 'write';
+  // Whether undo-change can restore what the tool overwrote
+  undoable?: boolean;
+  // Deletes or replaces content undo-change can't bring back; the user confirms these first
+  destructive?: boolean;
+  // Whether repeating a write with the same arguments changes nothing more
+  idempotent?: boolean;
+}
+
+// Every tool the server can register. Registration fails for tools missing here, and
+// manifest.json lists the same tools, so this is the one place to add a new tool's metadata.
+export const TOOL_CATALOG: ToolInfo[] = [
+  { name: 'list-courses', category: 'courses', access: 'read' },
+  { name: 'post-announcement', category: 'courses', access: 'write' },
+
+  { name: 'list-students', category: 'students', access: 'read' },
+
+  { name: 'list-assignments', category: 'assignments', access: 'read' },
+  { name: 'get-assignment', category: 'assignments', access: 'read' },
+  { name: 'create-assignment', category: 'assignments', access: 'write' },
+  { name: 'update-assignment', category: 'assignments', access: 'write', undoable: true, idempotent: true },
+  { name: 'delete-assignment', category: 'assignments', access: 'write', destructive: true, idempotent: true },
+
+  { name: 'list-assignment-groups', category: 'assignment-groups', access: 'read' },
+  { name: 'create-assignment-group', category: 'assignment-groups', access: 'write' },
+  { name: 'bulk-update-assignment-dates', category: 'assignment-groups', access: 'write', undoable: true, idempotent: true },
+
+  { name: 'list-modules', category: 'modules', access: 'read' },
+  { name: 'list-module-items', category: 'modules', access: 'read' },
+  { name: 'toggle-module-publish', category: 'modules', access: 'write', undoable: true },
+
+  { name: 'generate-styleguide', category: 'pages', access: 'write', idempotent: true },
+  { name: 'get-styleguide', category: 'pages', access: 'read' },
+  { name: 'list-pages', category: 'pages', access: 'read' },
+  { name: 'get-page-content', category: 'pages', access: 'read' },
+  { name: 'update-page-content', category: 'pages', access: 'write', idempotent: true },
+  { name: 'list-page-revisions', category: 'pages', access: 'read' },
+  { name: 'revert-page-revision', category: 'pages', access: 'write', destructive: true, idempotent: true },
+  { name: 'patch-page-content', category: 'pages', access: 'read' },
+  { name: 'apply-page-changes', category: 'pages', access: 'write', idempotent: true },
+
+  { name: 'list-sections', category: 'sections', access: 'read' },
+  { name: 'list-section-submissions', category: 'sections', access: 'read' },
+
+  { name: 'list-assignment-submissions', category: 'submissions', access: 'read' },
+  { name: 'grade-submission', category: 'submissions', access: 'write' },
+  { name: 'post-submission-comment', category: 'submissions', access: 'write' },
+  { name: 'get-submission-documents', category: 'submissions', access: 'read' },
+  { name: 'get-submission-file-info', category: 'submissions', access: 'read' },
+  { name: 'download-submission-file', category: 'submissions', access: 'read' },
+
+  { name: 'list-rubrics', category: 'rubrics', access: 'read' },
+  { name: 'get-rubric-statistics', category: 'rubrics', access: 'read' },
+  { name: 'list-rubric-assessments', category: 'rubrics', access: 'read' },
+  { name: 'attach-rubric-to-assignment', category: 'rubrics', access: 'write', idempotent: true },
+
+  { name: 'list-quizzes', category: 'quizzes', access: 'read' },
+  { name: 'get-quiz', category: 'quizzes', access: 'read' },
+  { name: 'create-quiz', category: 'quizzes', access: 'write' },
+  { name: 'update-quiz', category: 'quizzes', access: 'write', undoable: true, idempotent: true },
+  { name: 'delete-quiz', category: 'quizzes', access: 'write', destructive: true, idempotent: true },
+  { name: 'list-quiz-questions', category: 'quizzes', access: 'read' },
+  { name: 'get-quiz-question', category: 'quizzes', access: 'read' },
+  { name: 'create-quiz-question', category: 'quizzes', access: 'write' },
+  { name: 'update-quiz-question', category: 'quizzes', access: 'write', undoable: true, idempotent: true },
+  { name: 'delete-quiz-question', category: 'quizzes', access: 'write', destructive: true, idempotent: true },
+  { name: 'list-quiz-question-groups', category: 'quizzes', access: 'read' },
+  { name: 'get-quiz-question-group', category: 'quizzes', access: 'read' },
+  { name: 'create-quiz-question-group', category: 'quizzes', access: 'write' },
+  { name: 'update-quiz-question-group', category: 'quizzes', access: 'write', idempotent: true },
+  { name: 'delete-quiz-question-group', category: 'quizzes', access: 'write', destructive: true, idempotent: true },
+
+  { name: 'list-audit-log', category: 'audit', access: 'read' },
+
+  { name: 'list-undoable-changes', category: 'undo', access: 'read' },
+  { name: 'undo-change', category: 'undo', access: 'write' }
+];
+
+export function getToolInfo(name: string): ToolInfo | undefined {
+  return TOOL_CATALOG.find(tool => tool.name === name);
+}
+
+// MCP hints clients use to decide which calls to confirm with the user. Reads are trivially
+// idempotent; for writes the catalog says.
+export function toolAnnotations(tool: ToolInfo): ToolAnnotations {
+  return {
+    readOnlyHint: tool.access === 'read',
+    destructiveHint: tool.access === 'write' && tool.destructive === true,
+    idempotentHint: tool.access === 'read' || tool.idempotent === true
+  };
+}
+
+export interface ToolPolicy {
+  readOnly: boolean;
+  // Tool names or categories to register; empty means all
+  include: string[];
+  // Tool names or categories never to register
+  exclude: string[];
+}
+
+function parseList(value: string | undefined): string[] {
+  return (value || '').split(',').map(entry => entry.trim()).filter(Boolean);
+}
+
+// Read CANVAS_MCP_MODE, CANVAS_MCP_TOOLS and CANVAS_MCP_EXCLUDE_TOOLS. Unknown tool or category
+// names are rejected, so a typo can't silently leave a write tool enabled.
+export function loadToolPolicy(env: NodeJS.ProcessEnv = process.env): ToolPolicy {
+  const mode = (env.CANVAS_MCP_MODE || 'full').toLowerCase();
+  if (mode !== 'full' && mode !== 'readonly') {
+    throw new Error(`CANVAS_MCP_MODE must be "full" or "readonly", got "${env.CANVAS_MCP_MODE}"`);
+  }
+
+  const policy: ToolPolicy = {
+    readOnly: mode === 'readonly',
+    include: parseList(env.CANVAS_MCP_TOOLS),
+    exclude: parseList(env.CANVAS_MCP_EXCLUDE_TOOLS)
+  };
+
+  const known = new Set<string>(TOOL_CATALOG.flatMap(tool => [tool.name, tool.category]));
+  const unknown = [...policy.include, ...policy.exclude].filter(entry => !known.has(entry));
+  if (unknown.length > 0) {
+    throw new Error(`Unknown tool or category in CANVAS_MCP_TOOLS/CANVAS_MCP_EXCLUDE_TOOLS: ${unknown.join(', ')}`);
+  }
+  return policy;
+}
+
+const matches = (tool: ToolInfo, entries: string[]) => entries.includes(tool.name) || entries.includes(tool.category);
+
+// Whether a tool should be registered under the given policy. Read-only mode always wins.
+export function isToolEnabled(tool: ToolInfo, policy: ToolPolicy): boolean {
+  if (policy.readOnly && tool.access === 'write') return false;
+  if (policy.include.length > 0 && !matches(tool, policy.include)) return false;
+  return !matches(tool, policy.exclude);
+}
@@ -0,0 +1,33 @@
+import { AsyncLocalStorage } from 'async_hooks';
+
+// The tool call a Canvas request is being made for
+export interface ToolCall {
+  tool: string;
+  // MCP session the call arrived on
+  sessionId: string;
+  // Authenticated MCP client (HTTP mode with MCP_API_KEYS or JWTs)
+  clientId?: string;
+  arguments: Record<string, unknown>;
+  // Snapshot what the call's writes overwrite, for undo-change
+  undoable?: boolean;
+  // Aborted when the client cancels the call; CanvasClient then stops its requests
+  signal?: AbortSignal;
+  // Set when the client asked for progress notifications with a progress token
+  progress?: (message: string) => void;
+}
+
+const toolCallStorage = new AsyncLocalStorage<ToolCall>();
+
+// Run a tool handler with its call details available to everything it calls, down to CanvasClient
+export function runInToolCall<T>(call: ToolCall, fn: () => T): T {
+  return toolCallStorage.run(call, fn);
+}
+
+export function currentToolCall(): ToolCall | undefined {
+  return toolCallStorage.getStore();
+}
+
+// Tell the client that the current tool call finished another step, if it wants to know
+export function reportProgress(message: string) {
+  currentToolCall()?.progress?.(message);
+}
@@ -0,0 +1,35 @@
+// Successful tool results: `structuredContent` matches the tool's output schema, and the text
+// is what a model or person reads. Failures go through toolError in errors.ts.
+
+// For tools whose text already tells the reader everything, e.g. a formatted course list
+export function toolResult<T extends object>(text: string, structuredContent: T) {
+  return {
+    content: [
+      {
+        type: "text" as const,
+        text
+      }
+    ],
+    structuredContent
+  };
+}
+
+/**
+ * For tools that hand back Canvas objects: a one-line summary, then the structured content as
+ * JSON for clients that only show text.
+ */
+export function jsonToolResult<T extends object>(summary: string, structuredContent: T) {
+  return {
+    content: [
+      {
+        type: "text" as const,
+        text: summary
+      },
+      {
+        type: "text" as const,
+        text: JSON.stringify(structuredContent, null, 2)
+      }
+    ],
+    structuredContent
+  };
+}
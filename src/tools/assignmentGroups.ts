@@ -1,102 +1,92 @@
 import { z } from "zod";
 import { CanvasClient } from "../canvasClient.js";
+import { toolError } from "../errors.js";
+import { AssignmentGroup, Progress } from "../types.js";
+import { AssignmentGroupSchema, ProgressSchema } from "../outputSchemas.js";
+import { jsonToolResult } from "../toolResult.js";
 
 export function registerAssignmentGroupTools(server: any, canvas: CanvasClient) {
   // Tool: list-assignment-groups
-  server.tool(
+  server.registerTool(
     "list-assignment-groups",
-    "List all assignment groups (buckets) in a course.",
     {
-      courseId: z.string().describe("The ID of the course")
+      description: "List all assignment groups (buckets) in a course.",
+      inputSchema: {
+        courseId: z.string().describe("The ID of the course")
+      },
+      outputSchema: {
+        assignmentGroups: z.array(AssignmentGroupSchema)
+      }
     },
     async ({ courseId }: { courseId: string }) => {
       try {
-        const response = await canvas.listAssignmentGroups(courseId);
-        return {
-          content: [
-            {
-              type: "text",
-              text: JSON.stringify(response, null, 2)
-            }
-          ]
-        };
-      } catch (error: any) {
-        if (error instanceof Error) {
-          throw new Error(`Failed to fetch assignment groups: ${error.message}`);
-        }
-        throw new Error('Failed to fetch assignment groups: Unknown error');
+        const assignmentGroups = (await canvas.listAssignmentGroups(courseId) as any[]) as AssignmentGroup[];
+        return jsonToolResult(`${assignmentGroups.length} assignment group${assignmentGroups.length === 1 ? '' : 's'} in course ${courseId}`, { assignmentGroups });
+      } catch (error) {
+        return toolError('Failed to fetch assignment groups', error);
       }
     }
   );
 
   // Tool: create-assignment-group
-  server.tool(
+  server.registerTool(
     "create-assignment-group",
-    "Create a new assignment group (bucket) in a course. All fields optional except courseId.",
     {
-      courseId: z.string().describe("The ID of the course"),
-      name: z.string().optional(),
-      position: z.number().optional(),
-      group_weight: z.number().optional(),
-      sis_source_id: z.string().optional(),
-      integration_data: z.any().optional(),
-      rules: z.any().optional()
+      description: "Create a new assignment group (bucket) in a course. All fields optional except courseId.",
+      inputSchema: {
+        courseId: z.string().describe("The ID of the course"),
+        name: z.string().optional(),
+        position: z.number().optional(),
+        group_weight: z.number().optional(),
+        sis_source_id: z.string().optional(),
+        integration_data: z.any().optional(),
+        rules: z.any().optional()
+      },
+      outputSchema: {
+        assignmentGroup: AssignmentGroupSchema
+      }
     },
     async (args: any) => {
       const { courseId, ...fields } = args;
       try {
-        const response = await canvas.createAssignmentGroup(courseId, { assignment_group: fields });
-        return {
-          content: [
-            {
-              type: "text",
-              text: JSON.stringify(response, null, 2)
-            }
-          ]
-        };
-      } catch (error: any) {
-        if (error instanceof Error) {
-          throw new Error(`Failed to create assignment group: ${error.message}`);
-        }
-        throw new Error('Failed to create assignment group: Unknown error');
+        const assignmentGroup = (await canvas.createAssignmentGroup(courseId, { assignment_group: fields }) as any) as AssignmentGroup;
+        return jsonToolResult(`Created assignment group ${assignmentGroup.id}: ${assignmentGroup.name}`, { assignmentGroup });
+      } catch (error) {
+        return toolError('Failed to create assignment group', error);
       }
     }
   );
 
   // Tool: bulk-update-assignment-dates
-  server.tool(
+  server.registerTool(
     "bulk-update-assignment-dates",
-    "Bulk update due/unlock/lock dates for assignments in a course.",
     {
-      courseId: z.string().describe("The ID of the course"),
-      assignmentDates: z.array(z.object({
-        assignment_id: z.string().describe("The ID of the assignment"),
-        due_at: z.string().optional().describe("New due date (ISO 8601)"),
-        unlock_at: z.string().optional().describe("New unlock date (ISO 8601)"),
-        lock_at: z.string().optional().describe("New lock date (ISO 8601)")
-      })).describe("Array of assignment date updates")
+      description: "Bulk update due/unlock/lock dates for assignments in a course.",
+      inputSchema: {
+        courseId: z.string().describe("The ID of the course"),
+        assignmentDates: z.array(z.object({
+          assignment_id: z.string().describe("The ID of the assignment"),
+          due_at: z.string().optional().describe("New due date (ISO 8601)"),
+          unlock_at: z.string().optional().describe("New unlock date (ISO 8601)"),
+          lock_at: z.string().optional().describe("New lock date (ISO 8601)")
+        })).describe("Array of assignment date updates")
+      },
+      outputSchema: {
+        progress: ProgressSchema
+      }
     },
     async ({ courseId, assignmentDates }: { courseId: string; assignmentDates: any[] }) => {
       try {
         // Note: A specific client method for this bulk update could be added to CanvasClient
         // For now, using the generic put method directly.
-        const response = await canvas.put(
+        // Canvas applies the dates in the background and returns a Progress to poll
+        const progress = (await canvas.put(
           `/api/v1/courses/${courseId}/assignments/bulk_update`,
           { assignment_dates: assignmentDates }
-        );
-        return {
-          content: [
-            {
-              type: "text",
-              text: JSON.stringify(response, null, 2)
-            }
-          ]
-        };
-      } catch (error: any) {
-        if (error instanceof Error) {
-          throw new Error(`Failed to bulk update assignment dates: ${error.message}`);
-        }
-        throw new Error('Failed to bulk update assignment dates: Unknown error');
+        ) as any) as Progress;
+        return jsonToolResult(`Updating dates of ${assignmentDates.length} assignment${assignmentDates.length === 1 ? '' : 's'} (progress ${progress.id}: ${progress.workflow_state})`, { progress });
+      } catch (error) {
+        return toolError('Failed to bulk update assignment dates', error);
       }
     }
   );
@@ -1,35 +1,39 @@
 import { z } from "zod";
 import { CanvasClient } from "../canvasClient.js";
+import { toolError } from "../errors.js";
+import { Assignment, Submission } from "../types.js";
+import { AssignmentSchema } from "../outputSchemas.js";
+import { jsonToolResult, toolResult } from "../toolResult.js";
+
+const assignmentOutput = {
+  assignment: AssignmentSchema
+};
 
 export function registerAssignmentTools(server: any, canvas: CanvasClient) {
   // Tool: list-assignments
-  server.tool(
+  server.registerTool(
     "list-assignments",
-    "Get a list of all assignments in a course with submission status for students",
     {
-      courseId: z.string().describe("The ID of the course"),
-      studentId: z.string().optional().describe("Optional: Get submission status for a specific student"),
-      includeSubmissionHistory: z.boolean().default(false).describe("Whether to include submission history details"),
-      anonymous: z.boolean().default(true).describe("Whether to anonymize student names and emails in submission data (default: true for privacy)")
+      description: "Get a list of all assignments in a course with submission status for students",
+      inputSchema: {
+        courseId: z.string().describe("The ID of the course"),
+        studentId: z.string().optional().describe("Optional: Get submission status for a specific student"),
+        includeSubmissionHistory: z.boolean().default(false).describe("Whether to include submission history details"),
+        anonymous: z.boolean().default(true).describe("Whether to anonymize student names and emails in submission data (default: true for privacy; always on when the server replaces student ids with pseudonym ids)")
+      },
+      outputSchema: {
+        assignments: z.array(AssignmentSchema)
+      }
     },
     async ({ courseId, studentId, includeSubmissionHistory = false, anonymous = true }: { courseId: string; studentId?: string; includeSubmissionHistory?: boolean; anonymous?: boolean }) => {
-      let assignments: any[] = [];
-      let page = 1;
-      let hasMore = true;
       try {
-        while (hasMore) {
-          const params: any = {
-            per_page: 100,
-            page: page,
-            include: studentId ? ['submission', 'submission_comments', 'submission_history'] : [],
-            student_ids: studentId ? [studentId] : undefined,
-            order_by: 'position',
-          };
-          const pageAssignments = (await canvas.listCourseAssignments(courseId, params, { anonymous }) as any[]);
-          assignments.push(...pageAssignments);
-          hasMore = pageAssignments.length === 100;
-          page += 1;
-        }
+        const params: any = {
+          per_page: 100,
+          include: studentId ? ['submission', 'submission_comments', 'submission_history'] : [],
+          student_ids: studentId ? [studentId] : undefined,
+          order_by: 'position',
+        };
+        const assignments = (await canvas.listCourseAssignments(courseId, params, { anonymous }) as any[]) as Assignment[];
         const formattedAssignments = assignments
           .map(assignment => {
             const parts = [
@@ -46,7 +50,7 @@ export function registerAssignmentTools(server: any, canvas: CanvasClient) {
               if (assignment.submission.score !== undefined) {
                 parts.push(`  Score: ${assignment.submission.score}`);
               }
-              if (assignment.submission.submission_comments?.length > 0) {
+              if (assignment.submission.submission_comments?.length) {
                 parts.push('  Teacher Comments:');
                 assignment.submission.submission_comments
                   .filter((comment: any) => comment.author?.role === 'teacher')
@@ -57,9 +61,10 @@ export function registerAssignmentTools(server: any, canvas: CanvasClient) {
               } else {
                 parts.push('  Teacher Comments: None');
               }
-              if (includeSubmissionHistory && assignment.submission.versioned_submissions?.length > 0) {
+              const history: any[] = (assignment.submission as any).versioned_submissions || [];
+              if (includeSubmissionHistory && history.length > 0) {
                 parts.push('  Submission History:');
-                assignment.submission.versioned_submissions
+                history
                   .sort((a: any, b: any) => new Date(a.submitted_at).getTime() - new Date(b.submitted_at).getTime())
                   .forEach((version: any, index: number) => {
                     const date = new Date(version.submitted_at).toLocaleString();
@@ -81,150 +86,125 @@ export function registerAssignmentTools(server: any, canvas: CanvasClient) {
             return parts.join('\n');
           })
           .join('\n---\n');
-        return {
-          content: [
-            {
-              type: "text",
-              text: assignments.length > 0
-                ? `Assignments in course ${courseId}:\n\n${formattedAssignments}\n\nTotal assignments: ${assignments.length}`
-                : "No assignments found in this course.",
-            },
-          ],
-        };
-      } catch (error: any) {
-        if (error instanceof Error) {
-          throw new Error(`Failed to fetch assignments: ${error.message}`);
-        }
-        throw new Error('Failed to fetch assignments: Unknown error');
+        return toolResult(
+          assignments.length > 0
+            ? `Assignments in course ${courseId}:\n\n${formattedAssignments}\n\nTotal assignments: ${assignments.length}`
+            : "No assignments found in this course.",
+          { assignments }
+        );
+      } catch (error) {
+        return toolError('Failed to fetch assignments', error);
       }
     }
   );
 
   // Tool: get-assignment
-  server.tool(
+  server.registerTool(
     "get-assignment",
-    "Fetch metadata for a single assignment (due date, points, rubric, submission types, etc).",
     {
-      courseId: z.string().describe("The ID of the course"),
-      assignmentId: z.string().describe("The ID of the assignment")
+      description: "Fetch metadata for a single assignment (due date, points, rubric, submission types, etc).",
+      inputSchema: {
+        courseId: z.string().describe("The ID of the course"),
+        assignmentId: z.string().describe("The ID of the assignment")
+      },
+      outputSchema: assignmentOutput
     },
     async ({ courseId, assignmentId }: { courseId: string; assignmentId: string }) => {
       try {
-        const response = await canvas.getAssignment(courseId, assignmentId);
-        return {
-          content: [
-            {
-              type: "text",
-              text: JSON.stringify(response, null, 2)
-            }
-          ]
-        };
-      } catch (error: any) {
-        if (error instanceof Error) {
-          throw new Error(`Failed to fetch assignment: ${error.message}`);
-        }
-        throw new Error('Failed to fetch assignment: Unknown error');
+        const assignment = (await canvas.getAssignment(courseId, assignmentId) as any) as Assignment;
+        return jsonToolResult(`Assignment ${assignment.id}: ${assignment.name}`, { assignment });
+      } catch (error) {
+        return toolError('Failed to fetch assignment', error);
       }
     }
   );
 
   // Tool: create-assignment
-  server.tool(
+  server.registerTool(
     "create-assignment",
-    "Create a new assignment in a course. All fields are optional except courseId.",
     {
-      courseId: z.string().describe("The ID of the course"),
-      name: z.string().optional(),
-      description: z.string().optional(),
-      due_at: z.string().optional(),
-      points_possible: z.number().optional(),
-      submission_types: z.array(z.string()).optional(),
-      published: z.boolean().optional(),
-      grading_type: z.string().optional(),
-      assignment_group_id: z.number().optional(),
+      description: "Create a new assignment in a course. All fields are optional except courseId.",
+      inputSchema: {
+        courseId: z.string().describe("The ID of the course"),
+        name: z.string().optional(),
+        description: z.string().optional(),
+        due_at: z.string().optional(),
+        points_possible: z.number().optional(),
+        submission_types: z.array(z.string()).optional(),
+        published: z.boolean().optional(),
+        grading_type: z.string().optional(),
+        assignment_group_id: z.number().optional(),
+      },
+      outputSchema: assignmentOutput
     },
     async (args: any) => {
       const { courseId, ...fields } = args;
       try {
-        const response = await canvas.createAssignment(courseId, { assignment: fields });
-        return {
-          content: [
-            {
-              type: "text",
-              text: JSON.stringify(response, null, 2)
-            }
-          ]
-        };
-      } catch (error: any) {
-        if (error instanceof Error) {
-          throw new Error(`Failed to create assignment: ${error.message}`);
-        }
-        throw new Error('Failed to create assignment: Unknown error');
+        const assignment = (await canvas.createAssignment(courseId, { assignment: fields }) as any) as Assignment;
+        return jsonToolResult(`Created assignment ${assignment.id}: ${assignment.name}`, { assignment });
+      } catch (error) {
+        return toolError('Failed to create assignment', error);
       }
     }
   );
 
   // Tool: update-assignment
-  server.tool(
+  server.registerTool(
     "update-assignment",
-    "Update an assignment. All fields are optional except courseId and assignmentId.",
     {
-      courseId: z.string().describe("The ID of the course"),
-      assignmentId: z.string().describe("The ID of the assignment"),
-      name: z.string().optional(),
-      description: z.string().optional(),
-      due_at: z.string().optional(),
-      points_possible: z.number().optional(),
-      submission_types: z.array(z.string()).optional(),
-      published: z.boolean().optional(),
-      grading_type: z.string().optional(),
-      assignment_group_id: z.number().optional(),
+      description: "Update an assignment. All fields are optional except courseId and assignmentId.",
+      inputSchema: {
+        courseId: z.string().describe("The ID of the course"),
+        assignmentId: z.string().describe("The ID of the assignment"),
+        name: z.string().optional(),
+        description: z.string().optional(),
+        due_at: z.string().optional(),
+        points_possible: z.number().optional(),
+        submission_types: z.array(z.string()).optional(),
+        published: z.boolean().optional(),
+        grading_type: z.string().optional(),
+        assignment_group_id: z.number().optional(),
+      },
+      outputSchema: assignmentOutput
     },
     async (args: any) => {
       const { courseId, assignmentId, ...fields } = args;
       try {
-        const response = await canvas.updateAssignment(courseId, assignmentId, { assignment: fields });
-        return {
-          content: [
-            {
-              type: "text",
-              text: JSON.stringify(response, null, 2)
-            }
-          ]
-        };
-      } catch (error: any) {
-        if (error instanceof Error) {
-          throw new Error(`Failed to update assignment: ${error.message}`);
-        }
-        throw new Error('Failed to update assignment: Unknown error');
+        const assignment = (await canvas.updateAssignment(courseId, assignmentId, { assignment: fields }) as any) as Assignment;
+        return jsonToolResult(`Updated assignment ${assignment.id}: ${assignment.name}`, { assignment });
+      } catch (error) {
+        return toolError('Failed to update assignment', error);
       }
     }
   );
 
   // Tool: delete-assignment
-  server.tool(
+  server.registerTool(
     "delete-assignment",
-    "Delete (archive) an assignment from a course.",
     {
-      courseId: z.string().describe("The ID of the course"),
-      assignmentId: z.string().describe("The ID of the assignment")
+      description: "Delete (archive) an assignment from a course.",
+      inputSchema: {
+        courseId: z.string().describe("The ID of the course"),
+        assignmentId: z.string().describe("The ID of the assignment")
+      },
+      outputSchema: assignmentOutput,
+      // Submissions and grades go with the assignment; undo-change can't bring them back
+      describeImpact: async ({ courseId, assignmentId }: { courseId: string; assignmentId: string }) => {
+        const assignment = (await canvas.getAssignment(courseId, assignmentId) as any) as Assignment;
+        // Only counted, so there's no need to anonymize them
+        const submissions = (await canvas.listAssignmentSubmissions(courseId, assignmentId, {}, { anonymous: false }) as any[]) as Submission[];
+        const submitted = submissions.filter(submission => submission.submitted_at).length;
+        const graded = submissions.filter(submission => submission.workflow_state === 'graded').length;
+        return `Delete assignment "${assignment.name}" (${assignment.points_possible ?? 0} points) from course ${courseId}? ` +
+          `${submitted} submission${submitted === 1 ? '' : 's'} and ${graded} grade${graded === 1 ? '' : 's'} would be lost.`;
+      }
     },
     async ({ courseId, assignmentId }: { courseId: string; assignmentId: string }) => {
       try {
-        const response = await canvas.delete(`/api/v1/courses/${courseId}/assignments/${assignmentId}`);
-        return {
-          content: [
-            {
-              type: "text",
-              text: JSON.stringify(response, null, 2)
-            }
-          ]
-        };
-      } catch (error: any) {
-        if (error instanceof Error) {
-          throw new Error(`Failed to delete assignment: ${error.message}`);
-        }
-        throw new Error('Failed to delete assignment: Unknown error');
+        const assignment = (await canvas.delete(`/api/v1/courses/${courseId}/assignments/${assignmentId}`) as any) as Assignment;
+        return jsonToolResult(`Deleted assignment ${assignment.id}: ${assignment.name}`, { assignment });
+      } catch (error) {
+        return toolError('Failed to delete assignment', error);
       }
     }
   );
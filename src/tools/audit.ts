@@ -0,0 +1,77 @@
+import { z } from "zod";
+import { CanvasClient } from "../canvasClient.js";
+import { toolError } from "../errors.js";
+import { AuditEntry } from "../auditLog.js";
+import { currentToolCall } from "../toolContext.js";
+import { AuditEntrySchema } from "../outputSchemas.js";
+import { toolResult } from "../toolResult.js";
+
+function formatEntry(entry: AuditEntry): string {
+  const lines = [
+    `${entry.timestamp} ${entry.tool ?? '(no tool)'} (session ${entry.sessionId ?? 'unknown'})`,
+    `  ${entry.method} ${entry.endpoint} → ${entry.status ?? 'no response'}${entry.error ? ` (${entry.error})` : ''}`
+  ];
+  if (entry.arguments) {
+    lines.push(`  Arguments: ${JSON.stringify(entry.arguments)}`);
+  }
+  if (!entry.previous) {
+    lines.push('  Previous value: (not available)');
+  }
+  for (const previous of entry.previous ?? []) {
+    const values = Object.entries(previous.values);
+    if (previous.action === 'create') {
+      lines.push(`  Previous value of ${previous.path}: (created)`);
+    } else if (values.length === 0) {
+      lines.push(`  Previous value of ${previous.path}: (unchanged)`);
+    } else {
+      lines.push(`  Previous value of ${previous.path}:`);
+      for (const [field, value] of values) {
+        lines.push(`    ${field}: ${JSON.stringify(value)}`);
+      }
+    }
+  }
+  return lines.join('\n');
+}
+
+export function registerAuditTools(server: any, canvas: CanvasClient) {
+  // Tool: list-audit-log
+  server.registerTool(
+    "list-audit-log",
+    {
+      description: "Review the changes this server made in Canvas: tool, arguments, endpoint, response status and the previous values. Defaults to the current session.",
+      inputSchema: {
+        sessionId: z.string().optional().describe("Session to show (default: the current session)"),
+        allSessions: z.boolean().default(false).describe("Show entries from every session instead of one"),
+        tool: z.string().optional().describe("Only show changes made by this tool"),
+        limit: z.number().int().positive().default(50).describe("Most recent entries to show (default: 50)")
+      },
+      outputSchema: {
+        enabled: z.boolean().describe("Whether audit logging is on"),
+        entries: z.array(AuditEntrySchema)
+      }
+    },
+    async ({ sessionId, allSessions = false, tool, limit = 50 }: { sessionId?: string; allSessions?: boolean; tool?: string; limit?: number }) => {
+      try {
+        if (!canvas.auditLog) {
+          return toolResult("Audit logging is turned off (CANVAS_AUDIT_LOG=off).", { enabled: false, entries: [] });
+        }
+        const call = currentToolCall();
+        const entries = await canvas.auditLog.read({
+          sessionId: allSessions ? undefined : sessionId ?? call?.sessionId,
+          // Authenticated HTTP clients only ever see their own changes
+          clientId: call?.clientId,
+          tool,
+          limit
+        });
+        return toolResult(
+          entries.length > 0
+            ? `${entries.length} audited change${entries.length === 1 ? '' : 's'}:\n\n${entries.map(formatEntry).join('\n\n')}`
+            : "No changes recorded in the audit log.",
+          { enabled: true, entries }
+        );
+      } catch (error) {
+        return toolError('Failed to read audit log', error);
+      }
+    }
+  );
+}
@@ -1,13 +1,21 @@
 import { z } from "zod";
 import { CanvasClient } from "../canvasClient.js";
-import { Course, Rubric } from "../types.js";
+import { toolError } from "../errors.js";
+import { Announcement, Course } from "../types.js";
+import { AnnouncementSchema, CourseSchema } from "../outputSchemas.js";
+import { toolResult } from "../toolResult.js";
 
 export function registerCourseTools(server: any, canvas: CanvasClient) {
   // Tool: list-courses
-  server.tool(
+  server.registerTool(
     "list-courses",
-    "List all courses for the authenticated user",
-    {},
+    {
+      description: "List all courses for the authenticated user",
+      inputSchema: {},
+      outputSchema: {
+        courses: z.array(CourseSchema)
+      }
+    },
     async () => {
       try {
         const courses: Course[] = (await canvas.listCourses({
@@ -16,61 +24,47 @@ export function registerCourseTools(server: any, canvas: CanvasClient) {
           per_page: 100,
           include: ['term']
         }) as any) as Course[];
-        const formattedCourses = courses
-          .filter(course => course.workflow_state === 'available')
+        const available = courses.filter(course => course.workflow_state === 'available');
+        const formattedCourses = available
           .map((course: Course) => {
             const termInfo = course.term ? ` (${course.term.name})` : '';
             return `Course: ${course.name}${termInfo}\nID: ${course.id}\nCode: ${course.course_code}\n---`;
           })
           .join('\n');
-        return {
-          content: [
-            {
-              type: "text",
-              text: formattedCourses ?
-                `Available Courses:\n\n${formattedCourses}` :
-                "No active courses found.",
-            },
-          ],
-        };
+        return toolResult(
+          formattedCourses ? `Available Courses:\n\n${formattedCourses}` : "No active courses found.",
+          { courses: available }
+        );
       } catch (error) {
-        if (error instanceof Error) {
-          throw new Error(`Failed to fetch courses: ${error.message}`);
-        }
-        throw new Error('Failed to fetch courses: Unknown error');
+        return toolError('Failed to fetch courses', error);
       }
     }
   );
 
   // Tool: post-announcement
-  server.tool(
+  server.registerTool(
     "post-announcement",
-    "Post an announcement to a specific course",
     {
-      courseId: z.string().describe("The ID of the course"),
-      title: z.string().describe("The title of the announcement"),
-      message: z.string().describe("The content of the announcement")
+      description: "Post an announcement to a specific course",
+      inputSchema: {
+        courseId: z.string().describe("The ID of the course"),
+        title: z.string().describe("The title of the announcement"),
+        message: z.string().describe("The content of the announcement")
+      },
+      outputSchema: {
+        announcement: AnnouncementSchema
+      }
     },
     async ({ courseId, title, message }: { courseId: string; title: string; message: string }) => {
       try {
-        await canvas.postAnnouncement(courseId, {
+        const announcement = (await canvas.postAnnouncement(courseId, {
           title,
           message,
           is_announcement: true,
-        });
-        return {
-          content: [
-            {
-              type: "text",
-              text: `Successfully posted announcement "${title}" to course ${courseId}`,
-            },
-          ],
-        };
+        }) as any) as Announcement;
+        return toolResult(`Successfully posted announcement "${title}" to course ${courseId}`, { announcement });
       } catch (error) {
-        if (error instanceof Error) {
-          throw new Error(`Failed to post announcement: ${error.message}`);
-        }
-        throw new Error('Failed to post announcement: Unknown error');
+        return toolError('Failed to post announcement', error);
       }
     }
   );
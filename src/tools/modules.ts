@@ -1,31 +1,31 @@
 import { z } from "zod";
 import { CanvasClient } from "../canvasClient.js";
+import { toolError } from "../errors.js";
+import { Module, ModuleItem } from "../types.js";
+import { ModuleItemSchema, ModuleSchema } from "../outputSchemas.js";
+import { toolResult } from "../toolResult.js";
 
 export function registerModuleTools(server: any, canvas: CanvasClient) {
   // Tool: list-modules
-  server.tool(
+  server.registerTool(
     "list-modules",
-    "Return all modules in a course (optionally inline items).",
     {
-      courseId: z.string().describe("The ID of the course"),
-      includeItems: z.boolean().default(false).describe("Whether to include inline items for each module")
+      description: "Return all modules in a course (optionally inline items).",
+      inputSchema: {
+        courseId: z.string().describe("The ID of the course"),
+        includeItems: z.boolean().default(false).describe("Whether to include inline items for each module")
+      },
+      outputSchema: {
+        modules: z.array(ModuleSchema)
+      }
     },
     async ({ courseId, includeItems }: { courseId: string; includeItems?: boolean }) => {
-      let modules: any[] = [];
-      let page = 1;
-      let hasMore = true;
       try {
-        while (hasMore) {
-          const params: any = {
-            per_page: 100,
-            page: page,
-            ...(includeItems ? { 'include[]': 'items' } : {})
-          };
-          const pageModules = (await canvas.listModules(courseId, params) as any[]);
-          modules.push(...pageModules);
-          hasMore = pageModules.length === 100;
-          page += 1;
-        }
+        const params: any = {
+          per_page: 100,
+          ...(includeItems ? { 'include[]': 'items' } : {})
+        };
+        const modules = (await canvas.listModules(courseId, params) as any[]) as Module[];
         const formatted = modules.map((mod: any) => {
           const lines = [
             `Module: ${mod.name}`,
@@ -42,43 +42,32 @@ export function registerModuleTools(server: any, canvas: CanvasClient) {
           lines.push('---');
           return lines.join('\n');
         }).join('\n');
-        return {
-          content: [
-            {
-              type: "text",
-              text: modules.length > 0 ? `Modules in course ${courseId}:\n\n${formatted}` : "No modules found in this course."
-            }
-          ]
-        };
-      } catch (error: any) {
-        if (error instanceof Error) {
-          throw new Error(`Failed to fetch modules: ${error.message}`);
-        }
-        throw new Error('Failed to fetch modules: Unknown error');
+        return toolResult(
+          modules.length > 0 ? `Modules in course ${courseId}:\n\n${formatted}` : "No modules found in this course.",
+          { modules }
+        );
+      } catch (error) {
+        return toolError('Failed to fetch modules', error);
       }
     }
   );
 
   // Tool: list-module-items
-  server.tool(
+  server.registerTool(
     "list-module-items",
-    "Given a module ID, list its items (pages, quizzes, files, etc).",
     {
-      courseId: z.string().describe("The ID of the course"),
-      moduleId: z.string().describe("The ID of the module")
+      description: "Given a module ID, list its items (pages, quizzes, files, etc).",
+      inputSchema: {
+        courseId: z.string().describe("The ID of the course"),
+        moduleId: z.string().describe("The ID of the module")
+      },
+      outputSchema: {
+        items: z.array(ModuleItemSchema)
+      }
     },
     async ({ courseId, moduleId }: { courseId: string; moduleId: string }) => {
-      let items: any[] = [];
-      let page = 1;
-      let hasMore = true;
       try {
-        while (hasMore) {
-          const params = { per_page: 100, page: page };
-          const pageItems = (await canvas.listModuleItems(courseId, moduleId, params) as any[]);
-          items.push(...pageItems);
-          hasMore = pageItems.length === 100;
-          page += 1;
-        }
+        const items = (await canvas.listModuleItems(courseId, moduleId, { per_page: 100 }) as any[]) as ModuleItem[];
         const formatted = items.map((item: any) => {
           return [
             `Type: ${item.type}`,
@@ -89,49 +78,37 @@ export function registerModuleTools(server: any, canvas: CanvasClient) {
             '---'
           ].join('\n');
         }).join('\n');
-        return {
-          content: [
-            {
-              type: "text",
-              text: items.length > 0 ? `Items in module ${moduleId} (course ${courseId}):\n\n${formatted}` : "No items found in this module."
-            }
-          ]
-        };
-      } catch (error: any) {
-        if (error instanceof Error) {
-          throw new Error(`Failed to fetch module items: ${error.message}`);
-        }
-        throw new Error('Failed to fetch module items: Unknown error');
+        return toolResult(
+          items.length > 0 ? `Items in module ${moduleId} (course ${courseId}):\n\n${formatted}` : "No items found in this module.",
+          { items }
+        );
+      } catch (error) {
+        return toolError('Failed to fetch module items', error);
       }
     }
   );
 
   // Tool: toggle-module-publish
-  server.tool(
+  server.registerTool(
     "toggle-module-publish",
-    "Publish/unpublish a module (toggles the current published state).",
     {
-      courseId: z.string().describe("The ID of the course"),
-      moduleId: z.string().describe("The ID of the module")
+      description: "Publish/unpublish a module (toggles the current published state).",
+      inputSchema: {
+        courseId: z.string().describe("The ID of the course"),
+        moduleId: z.string().describe("The ID of the module")
+      },
+      outputSchema: {
+        module: ModuleSchema
+      }
     },
     async ({ courseId, moduleId }: { courseId: string; moduleId: string }) => {
       try {
         const current = (await canvas.getModule(courseId, moduleId) as any);
         const newPublished = !current.published;
-        await canvas.updateModulePublish(courseId, moduleId, { published: newPublished });
-        return {
-          content: [
-            {
-              type: "text",
-              text: `Module ${moduleId} in course ${courseId} is now ${newPublished ? 'published' : 'unpublished'}.`
-            }
-          ]
-        };
-      } catch (error: any) {
-        if (error instanceof Error) {
-          throw new Error(`Failed to toggle module publish: ${error.message}`);
-        }
-        throw new Error('Failed to toggle module publish: Unknown error');
+        const module = (await canvas.updateModulePublish(courseId, moduleId, { published: newPublished }) as any) as Module;
+        return toolResult(`Module ${moduleId} in course ${courseId} is now ${newPublished ? 'published' : 'unpublished'}.`, { module });
+      } catch (error) {
+        return toolError('Failed to toggle module publish', error);
       }
     }
   );
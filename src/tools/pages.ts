@@ -1,8 +1,26 @@
 import { z } from "zod";
 import { CanvasClient } from "../canvasClient.js";
+import { CanvasNotFoundError, toolError } from "../errors.js";
+import { Page, PageRevision } from "../types.js";
+import { PageRevisionSchema, PageSchema } from "../outputSchemas.js";
+import { toolResult } from "../toolResult.js";
+import { SamplingResult, requestSampling } from "../sampling.js";
+import { checkPageEdit, diffPageBodies } from "../pageEdits.js";
 
 // Default slug for the Canvas styleguide page
-const DEFAULT_STYLEGUIDE_SLUG = "canvas-styleguide";
+export const DEFAULT_STYLEGUIDE_SLUG = "canvas-styleguide";
+
+const REWRITE_SYSTEM_PROMPT = "You edit Canvas LMS page bodies. Answer with the complete edited HTML body only, without explanations or code fences. Change only what the instructions ask for and keep every other heading, link and section as it is.";
+
+// Room for the whole body plus what the edit adds; HTML runs to roughly 3 characters a token
+function rewriteTokenBudget(body: string): number {
+  return Math.min(32000, Math.max(2048, Math.ceil(body.length / 2)));
+}
+
+// Models often wrap HTML in a ```html fence despite being asked not to
+function stripCodeFence(text: string): string {
+  return text.trim().replace(/^```[\w-]*\n([\s\S]*?)\n?```$/, '$1').trim();
+}
 
 // Generate comprehensive Canvas styleguide content
 function generateCanvasStyleguide(includeExamples: boolean = true, customBranding?: string): string {
@@ -137,16 +155,23 @@ function generateCanvasStyleguide(includeExamples: boolean = true, customBrandin
   `.trim();
 }
 
+const pageOutput = {
+  page: PageSchema
+};
+
 export function registerPageTools(server: any, canvas: CanvasClient) {
   // Tool: generate-styleguide
-  server.tool(
+  server.registerTool(
     "generate-styleguide",
-    "🎨 FOUNDATION TOOL: Generate and save a comprehensive Canvas styleguide page that serves as the formatting foundation for ALL course pages. This creates design standards, accessibility guidelines, and Canvas-specific best practices. ALWAYS create this FIRST before working with any other page content to ensure professional consistency!",
     {
-      courseId: z.string().describe("The ID of the course where the styleguide will be saved"),
-      includeExamples: z.boolean().default(true).describe("Whether to include visual examples of each style element"),
-      customBranding: z.string().optional().describe("Optional custom branding guidelines or color schemes to incorporate"),
-      slug: z.string().default(DEFAULT_STYLEGUIDE_SLUG).describe("Custom URL slug for the styleguide page")
+      description: "🎨 FOUNDATION TOOL: Generate and save a comprehensive Canvas styleguide page that serves as the formatting foundation for ALL course pages. This creates design standards, accessibility guidelines, and Canvas-specific best practices. ALWAYS create this FIRST before working with any other page content to ensure professional consistency!",
+      inputSchema: {
+        courseId: z.string().describe("The ID of the course where the styleguide will be saved"),
+        includeExamples: z.boolean().default(true).describe("Whether to include visual examples of each style element"),
+        customBranding: z.string().optional().describe("Optional custom branding guidelines or color schemes to incorporate"),
+        slug: z.string().default(DEFAULT_STYLEGUIDE_SLUG).describe("Custom URL slug for the styleguide page")
+      },
+      outputSchema: pageOutput
     },
     async ({ courseId, includeExamples = true, customBranding, slug = DEFAULT_STYLEGUIDE_SLUG }: { courseId: string; includeExamples?: boolean; customBranding?: string; slug?: string }) => {
       try {
@@ -157,91 +182,79 @@ export function registerPageTools(server: any, canvas: CanvasClient) {
             title: 'Canvas Course Styleguide',
             body: styleguideContent
           }
-        }) as any);
-
-        return {
-          content: [
-            {
-              type: "text",
-              text: [
-                `✅ Canvas styleguide created successfully!`,
-                `Page URL: ${styleguide.url}`,
-                `Course ID: ${courseId}`,
-                ``,
-                `This styleguide will now be automatically referenced by all page creation and editing tools to ensure consistent formatting.`,
-                ``,
-                `🔗 View at: ${process.env.CANVAS_BASE_URL || 'https://fhict.instructure.com'}/courses/${courseId}/pages/${styleguide.url}`
-              ].join('\n')
-            }
-          ]
-        };
-      } catch (error: any) {
-        if (error instanceof Error) {
-          throw new Error(`Failed to generate styleguide: ${error.message}`);
-        }
-        throw new Error('Failed to generate styleguide: Unknown error');
+        }) as any) as Page;
+
+        return toolResult(
+          [
+            `✅ Canvas styleguide created successfully!`,
+            `Page URL: ${styleguide.url}`,
+            `Course ID: ${courseId}`,
+            ``,
+            `This styleguide will now be automatically referenced by all page creation and editing tools to ensure consistent formatting.`,
+            ``,
+            `🔗 View at: ${process.env.CANVAS_BASE_URL || 'https://fhict.instructure.com'}/courses/${courseId}/pages/${styleguide.url}`
+          ].join('\n'),
+          { page: styleguide }
+        );
+      } catch (error) {
+        return toolError('Failed to generate styleguide', error);
       }
     }
   );
 
   // Tool: get-styleguide
-  server.tool(
+  server.registerTool(
     "get-styleguide",
-    "📋 ESSENTIAL: Fetch the Canvas styleguide for a course to reference during page creation or editing. This is CRITICAL for maintaining consistency with established design standards. Always use this before creating or modifying any page content!",
     {
-      courseId: z.string().describe("The ID of the course"),
-      slug: z.string().default(DEFAULT_STYLEGUIDE_SLUG).describe("URL slug of the styleguide page")
+      description: "📋 ESSENTIAL: Fetch the Canvas styleguide for a course to reference during page creation or editing. This is CRITICAL for maintaining consistency with established design standards. Always use this before creating or modifying any page content!",
+      inputSchema: {
+        courseId: z.string().describe("The ID of the course"),
+        slug: z.string().default(DEFAULT_STYLEGUIDE_SLUG).describe("URL slug of the styleguide page")
+      },
+      outputSchema: pageOutput
     },
     async ({ courseId, slug = DEFAULT_STYLEGUIDE_SLUG }: { courseId: string; slug?: string }) => {
       try {
-        const styleguide = (await canvas.getPage(courseId, slug) as any);
+        const styleguide = (await canvas.getPage(courseId, slug) as any) as Page;
         
-        return {
-          content: [
-            {
-              type: "text",
-              text: [
-                `📋 Canvas Styleguide for Course ${courseId}:`,
-                `Title: ${styleguide.title}`,
-                `Last Updated: ${styleguide.updated_at}`,
-                ``,
-                `--- STYLEGUIDE CONTENT ---`,
-                styleguide.body || 'No styleguide content found',
-                `--- END STYLEGUIDE ---`,
-                ``,
-                `Use this styleguide to ensure all page content follows consistent formatting and design standards.`
-              ].join('\n')
-            }
-          ]
-        };
-      } catch (error: any) {
-        if (error instanceof Error) {
-          throw new Error(`Failed to fetch styleguide: ${error.message} (Create one first using generate-styleguide)`);
+        return toolResult(
+          [
+            `📋 Canvas Styleguide for Course ${courseId}:`,
+            `Title: ${styleguide.title}`,
+            `Last Updated: ${styleguide.updated_at}`,
+            ``,
+            `--- STYLEGUIDE CONTENT ---`,
+            styleguide.body || 'No styleguide content found',
+            `--- END STYLEGUIDE ---`,
+            ``,
+            `Use this styleguide to ensure all page content follows consistent formatting and design standards.`
+          ].join('\n'),
+          { page: styleguide }
+        );
+      } catch (error) {
+        if (error instanceof CanvasNotFoundError) {
+          return toolError(`No styleguide page '${slug}' in course ${courseId} (Create one first using generate-styleguide)`, error);
         }
-        throw new Error('Failed to fetch styleguide: Unknown error');
+        return toolError('Failed to fetch styleguide', error);
       }
     }
   );
 
   // Tool: list-pages
-  server.tool(
+  server.registerTool(
     "list-pages",
-    "List all pages in a course (by URL slug). 📋 TIP: Check if a 'canvas-styleguide' page exists - if not, create one with generate-styleguide to ensure consistent formatting across all course pages.",
     {
-      courseId: z.string().describe("The ID of the course")
+      description: "List all pages in a course (by URL slug). 📋 TIP: Check if a 'canvas-styleguide' page exists - if not, create one with generate-styleguide to ensure consistent formatting across all course pages.",
+      inputSchema: {
+        courseId: z.string().describe("The ID of the course")
+      },
+      outputSchema: {
+        pages: z.array(PageSchema)
+      }
     },
     async ({ courseId }: { courseId: string }) => {
-      let pages: any[] = [];
-      let page = 1;
-      let hasMore = true;
       try {
-        while (hasMore) {
-          const params = { per_page: 100, page: page };
-          const pagePages = (await canvas.listPages(courseId, params) as any[]);
-          pages.push(...pagePages);
-          hasMore = pagePages.length === 100;
-          page += 1;
-        }
+        const pages = (await canvas.listPages(courseId, { per_page: 100 }) as any[]) as Page[];
         const formatted = pages.map((p: any) => [
           `Title: ${p.title}`,
           `URL Slug: ${p.url}`,
@@ -249,72 +262,67 @@ export function registerPageTools(server: any, canvas: CanvasClient) {
           `Published: ${p.published ? 'Yes' : 'No'}`,
           '---'
         ].join('\n')).join('\n');
-        return {
-          content: [
-            {
-              type: "text",
-              text: pages.length > 0 ? `Pages in course ${courseId}:\n\n${formatted}` : "No pages found in this course."
-            }
-          ]
-        };
-      } catch (error: any) {
-        if (error instanceof Error) {
-          throw new Error(`Failed to fetch pages: ${error.message}`);
-        }
-        throw new Error('Failed to fetch pages: Unknown error');
+        return toolResult(
+          pages.length > 0 ? `Pages in course ${courseId}:\n\n${formatted}` : "No pages found in this course.",
+          { pages }
+        );
+      } catch (error) {
+        return toolError('Failed to fetch pages', error);
       }
     }
   );
 
   // Tool: get-page-content
-  server.tool(
+  server.registerTool(
     "get-page-content",
-    "Get the content of a specific page by URL slug. 🎨 IMPORTANT: Always reference the course styleguide (use get-styleguide) before editing any page content to maintain consistency and professional formatting standards.",
     {
-      courseId: z.string().describe("The ID of the course"),
-      pageUrl: z.string().describe("The page's URL slug (e.g., 'syllabus')")
+      description: "Get the content of a specific page by URL slug. 🎨 IMPORTANT: Always reference the course styleguide (use get-styleguide) before editing any page content to maintain consistency and professional formatting standards.",
+      inputSchema: {
+        courseId: z.string().describe("The ID of the course"),
+        pageUrl: z.string().describe("The page's URL slug (e.g., 'syllabus')")
+      },
+      outputSchema: pageOutput
     },
     async ({ courseId, pageUrl }: { courseId: string; pageUrl: string }) => {
       try {
-        const page = (await canvas.getPage(courseId, pageUrl) as any);
-        return {
-          content: [
-            {
-              type: "text",
-              text: [
-                `Title: ${page.title}`,
-                `URL Slug: ${page.url}`,
-                `ID: ${page.page_id}`,
-                `Published: ${page.published ? 'Yes' : 'No'}`,
-                `Updated At: ${page.updated_at}`,
-                '',
-                'Body (HTML):',
-                page.body || '[No content]'
-              ].join('\n')
-            }
-          ]
-        };
-      } catch (error: any) {
-        if (error instanceof Error) {
-          throw new Error(`Failed to fetch page content: ${error.message}`);
-        }
-        throw new Error('Failed to fetch page content: Unknown error');
+        const page = (await canvas.getPage(courseId, pageUrl) as any) as Page;
+        return toolResult(
+          [
+            `Title: ${page.title}`,
+            `URL Slug: ${page.url}`,
+            `ID: ${page.page_id}`,
+            `Published: ${page.published ? 'Yes' : 'No'}`,
+            `Updated At: ${page.updated_at}`,
+            '',
+            'Body (HTML):',
+            page.body || '[No content]'
+          ].join('\n'),
+          { page }
+        );
+      } catch (error) {
+        return toolError('Failed to fetch page content', error);
       }
     }
   );
 
   // Tool: update-page-content
-  server.tool(
+  server.registerTool(
     "update-page-content",
-    "🎨 STYLEGUIDE-AWARE FULL REPLACEMENT: Update or create a page with completely new content that automatically follows the course styleguide standards. Use this when you have the entire new HTML body ready, or when creating pages from scratch. For small edits to existing content, use patch-page-content instead. ALWAYS references course styleguide for consistency unless explicitly disabled.",
     {
-      courseId: z.string().describe("The ID of the course"),
-      pageUrl: z.string().describe("The page's URL slug (e.g., 'syllabus')"),
-      title: z.string().optional().describe("The new title for the page (optional)"),
-      body: z.string().optional().describe("The new HTML body for the page (optional)"),
-      editingRoles: z.string().optional().describe("Comma-separated roles allowed to edit (optional)"),
-      ignoreStyleguide: z.boolean().default(false).describe("Skip styleguide reference (not recommended)"),
-      showStyleguidePreview: z.boolean().default(true).describe("Show styleguide preview when creating content from scratch")
+      description: "🎨 STYLEGUIDE-AWARE FULL REPLACEMENT: Update or create a page with completely new content that automatically follows the course styleguide standards. Use this when you have the entire new HTML body ready, or when creating pages from scratch. For small edits to existing content, use patch-page-content instead. ALWAYS references course styleguide for consistency unless explicitly disabled.",
+      inputSchema: {
+        courseId: z.string().describe("The ID of the course"),
+        pageUrl: z.string().describe("The page's URL slug (e.g., 'syllabus')"),
+        title: z.string().optional().describe("The new title for the page (optional)"),
+        body: z.string().optional().describe("The new HTML body for the page (optional)"),
+        editingRoles: z.string().optional().describe("Comma-separated roles allowed to edit (optional)"),
+        ignoreStyleguide: z.boolean().default(false).describe("Skip styleguide reference (not recommended)"),
+        showStyleguidePreview: z.boolean().default(true).describe("Show styleguide preview when creating content from scratch")
+      },
+      outputSchema: {
+        page: PageSchema.optional().describe("The saved page"),
+        styleguide: PageSchema.optional().describe("The styleguide to write the body with, returned instead of saving when no body was given")
+      }
     },
     async ({ courseId, pageUrl, title, body, editingRoles, ignoreStyleguide = false, showStyleguidePreview = true }: { 
       courseId: string; 
@@ -329,25 +337,21 @@ export function registerPageTools(server: any, canvas: CanvasClient) {
         // If creating content from scratch and no body provided, show styleguide for reference
         if (!body && showStyleguidePreview && !ignoreStyleguide) {
           try {
-            const styleguide = (await canvas.getPage(courseId, DEFAULT_STYLEGUIDE_SLUG) as any);
-            return {
-              content: [
-                {
-                  type: "text",
-                  text: [
-                    `Creating new page '${pageUrl}' in course ${courseId}`,
-                    `Title: ${title || 'Not specified'}`,
-                    '',
-                    '--- COURSE STYLEGUIDE FOR REFERENCE ---',
-                    styleguide.body || 'No styleguide content found',
-                    '--- END STYLEGUIDE ---',
-                    '',
-                    'Please create the page content following the above styleguide standards for consistency.',
-                    'Use update-page-content again with the body parameter containing your HTML content.'
-                  ].join('\n')
-                }
-              ]
-            };
+            const styleguide = (await canvas.getPage(courseId, DEFAULT_STYLEGUIDE_SLUG) as any) as Page;
+            return toolResult(
+              [
+                `Creating new page '${pageUrl}' in course ${courseId}`,
+                `Title: ${title || 'Not specified'}`,
+                '',
+                '--- COURSE STYLEGUIDE FOR REFERENCE ---',
+                styleguide.body || 'No styleguide content found',
+                '--- END STYLEGUIDE ---',
+                '',
+                'Please create the page content following the above styleguide standards for consistency.',
+                'Use update-page-content again with the body parameter containing your HTML content.'
+              ].join('\n'),
+              { styleguide }
+            );
           } catch (error) {
             // Styleguide not found, continue with normal operation
           }
@@ -358,132 +362,140 @@ export function registerPageTools(server: any, canvas: CanvasClient) {
         if (body !== undefined) wiki_page.body = body;
         if (editingRoles !== undefined) wiki_page.editing_roles = editingRoles;
         
-        const page = (await canvas.updateOrCreatePage(courseId, pageUrl, { wiki_page }) as any);
+        const page = (await canvas.updateOrCreatePage(courseId, pageUrl, { wiki_page }) as any) as Page;
         
-        return {
-          content: [
-            {
-              type: "text",
-              text: [
-                `✅ Page '${page.url}' updated in course ${courseId}.`,
-                `Title: ${page.title}`,
-                `ID: ${page.page_id}`,
-                `Published: ${page.published ? 'Yes' : 'No'}`,
-                `Updated At: ${page.updated_at}`,
-                '',
-                `💡 Tip: Content follows course styleguide standards for consistency.`
-              ].join('\n')
-            }
-          ]
-        };
-      } catch (error: any) {
-        if (error instanceof Error) {
-          throw new Error(`Failed to update page: ${error.message}`);
-        }
-        throw new Error('Failed to update page: Unknown error');
+        return toolResult(
+          [
+            `✅ Page '${page.url}' updated in course ${courseId}.`,
+            `Title: ${page.title}`,
+            `ID: ${page.page_id}`,
+            `Published: ${page.published ? 'Yes' : 'No'}`,
+            `Updated At: ${page.updated_at}`,
+            '',
+            `💡 Tip: Content follows course styleguide standards for consistency.`
+          ].join('\n'),
+          { page }
+        );
+      } catch (error) {
+        return toolError('Failed to update page', error);
       }
     }
   );
 
   // Tool: list-page-revisions
-  server.tool(
+  server.registerTool(
     "list-page-revisions",
-    "List all revisions for a page.",
     {
-      courseId: z.string().describe("The ID of the course"),
-      pageUrl: z.string().describe("The page's URL slug (e.g., 'syllabus')")
+      description: "List all revisions for a page.",
+      inputSchema: {
+        courseId: z.string().describe("The ID of the course"),
+        pageUrl: z.string().describe("The page's URL slug (e.g., 'syllabus')")
+      },
+      outputSchema: {
+        revisions: z.array(PageRevisionSchema)
+      }
     },
     async ({ courseId, pageUrl }: { courseId: string; pageUrl: string }) => {
       try {
-        const revisions = (await canvas.listPageRevisions(courseId, pageUrl) as any[]);
+        const revisions = (await canvas.listPageRevisions(courseId, pageUrl) as any[]) as PageRevision[];
         const formatted = revisions.map((rev: any) => [
           `Revision ID: ${rev.id}`,
           `Updated At: ${rev.updated_at}`,
           `Edited By: ${rev.edited_by?.display_name || rev.edited_by_id || 'Unknown'}`,
           '---'
         ].join('\n')).join('\n');
-        return {
-          content: [
-            {
-              type: "text",
-              text: revisions.length > 0 ? `Revisions for page '${pageUrl}' in course ${courseId}:\n\n${formatted}` : "No revisions found for this page."
-            }
-          ]
-        };
-      } catch (error: any) {
-        if (error instanceof Error) {
-          throw new Error(`Failed to fetch page revisions: ${error.message}`);
-        }
-        throw new Error('Failed to fetch page revisions: Unknown error');
+        return toolResult(
+          revisions.length > 0 ? `Revisions for page '${pageUrl}' in course ${courseId}:\n\n${formatted}` : "No revisions found for this page.",
+          { revisions }
+        );
+      } catch (error) {
+        return toolError('Failed to fetch page revisions', error);
       }
     }
   );
 
   // Tool: revert-page-revision
-  server.tool(
+  server.registerTool(
     "revert-page-revision",
-    "Revert a page to a previous revision.",
     {
-      courseId: z.string().describe("The ID of the course"),
-      pageUrl: z.string().describe("The page's URL slug (e.g., 'syllabus')"),
-      revisionId: z.string().describe("The ID of the revision to revert to")
+      description: "Revert a page to a previous revision.",
+      inputSchema: {
+        courseId: z.string().describe("The ID of the course"),
+        pageUrl: z.string().describe("The page's URL slug (e.g., 'syllabus')"),
+        revisionId: z.string().describe("The ID of the revision to revert to")
+      },
+      outputSchema: pageOutput,
+      // Canvas keeps the current text as a revision, but undo-change doesn't track reverts
+      describeImpact: async ({ courseId, pageUrl, revisionId }: { courseId: string; pageUrl: string; revisionId: string }) => {
+        const page = (await canvas.getPage(courseId, pageUrl) as any) as Page;
+        const revision = (await canvas.getPageRevision(courseId, pageUrl, revisionId) as any) as PageRevision;
+        const editor = revision.edited_by?.display_name ? ` by ${revision.edited_by.display_name}` : '';
+        return `Revert page "${page.title}" in course ${courseId} to revision ${revisionId} (${revision.updated_at}${editor})? ` +
+          `The current content, last updated ${page.updated_at}, would be replaced.`;
+      }
     },
     async ({ courseId, pageUrl, revisionId }: { courseId: string; pageUrl: string; revisionId: string }) => {
       try {
-        const page = (await canvas.revertPageRevision(courseId, pageUrl, revisionId) as any);
-        return {
-          content: [
-            {
-              type: "text",
-              text: [
-                `Page '${pageUrl}' in course ${courseId} reverted to revision ${revisionId}.`,
-                `Title: ${page.title}`,
-                `ID: ${page.page_id}`,
-                `Published: ${page.published ? 'Yes' : 'No'}`,
-                `Updated At: ${page.updated_at}`
-              ].join('\n')
-            }
-          ]
-        };
-      } catch (error: any) {
-        if (error instanceof Error) {
-          throw new Error(`Failed to revert page revision: ${error.message}`);
-        }
-        throw new Error('Failed to revert page revision: Unknown error');
+        const page = (await canvas.revertPageRevision(courseId, pageUrl, revisionId) as any) as Page;
+        return toolResult(
+          [
+            `Page '${pageUrl}' in course ${courseId} reverted to revision ${revisionId}.`,
+            `Title: ${page.title}`,
+            `ID: ${page.page_id}`,
+            `Published: ${page.published ? 'Yes' : 'No'}`,
+            `Updated At: ${page.updated_at}`
+          ].join('\n'),
+          { page }
+        );
+      } catch (error) {
+        return toolError('Failed to revert page revision', error);
       }
     }
   );
 
   // Tool: patch-page-content
-  server.tool(
+  server.registerTool(
     "patch-page-content",
-    "🎨 STYLEGUIDE-COMPLIANT SMART EDITING: Make targeted changes to existing page content using LLM assistance while maintaining course styleguide standards. Give natural language instructions (e.g., 'fix typos', 'update office hours', 'add exam warning'). This is STEP 1 of a 2-step process - use apply-page-changes after reviewing the LLM's modifications. For complete content replacement, use update-page-content instead. ALWAYS references course styleguide for formatting consistency.",
     {
-      courseId: z.string().describe("The ID of the course"),
-      pageUrl: z.string().describe("The page's URL slug (e.g., 'syllabus')"),
-      instructions: z.string().describe("Natural language instructions for what changes to make to the page content (e.g., 'Update office hours to 2-4pm on MWF', 'Add a warning about the upcoming exam', 'Fix all typos')"),
-      title: z.string().optional().describe("New title for the page (optional)"),
-      editingRoles: z.string().optional().describe("Comma-separated roles allowed to edit (optional)"),
-      ignoreStyleguide: z.boolean().default(false).describe("Skip styleguide reference (not recommended)")
+      description: "🎨 STYLEGUIDE-COMPLIANT SMART EDITING: Make targeted changes to existing page content using LLM assistance while maintaining course styleguide standards. Give natural language instructions (e.g., 'fix typos', 'update office hours', 'add exam warning'). When the client supports sampling, the server has the client's model rewrite the page, checks the result (well-formed HTML, no headings or links removed unless allowRemovals is set) and stages it: review the diff, then call apply-page-changes with the changeId. Otherwise it returns the page and instructions for you to rewrite, and a changeId to pass to apply-page-changes with your rewrite as newContent. For complete content replacement, use update-page-content instead. ALWAYS references course styleguide for formatting consistency.",
+      inputSchema: {
+        courseId: z.string().describe("The ID of the course"),
+        pageUrl: z.string().describe("The page's URL slug (e.g., 'syllabus')"),
+        instructions: z.string().describe("Natural language instructions for what changes to make to the page content (e.g., 'Update office hours to 2-4pm on MWF', 'Add a warning about the upcoming exam', 'Fix all typos')"),
+        title: z.string().optional().describe("New title for the page (optional)"),
+        editingRoles: z.string().optional().describe("Comma-separated roles allowed to edit (optional)"),
+        ignoreStyleguide: z.boolean().default(false).describe("Skip styleguide reference (not recommended)"),
+        allowRemovals: z.boolean().default(false).describe("Accept a rewrite that removes or renames headings or links, when the instructions ask for that")
+      },
+      outputSchema: {
+        page: PageSchema,
+        styleguide: PageSchema.optional(),
+        instructions: z.string(),
+        changeId: z.string().describe("Staged edit to pass to apply-page-changes"),
+        diff: z.string().optional().describe("Line diff of the staged rewrite against the current body"),
+        proposedBody: z.string().optional().describe("The staged rewrite")
+      }
     },
-    async ({ courseId, pageUrl, instructions, title, editingRoles, ignoreStyleguide = false }: { 
+    async ({ courseId, pageUrl, instructions, title, editingRoles, ignoreStyleguide = false, allowRemovals = false }: { 
       courseId: string; 
       pageUrl: string; 
       instructions: string;
       title?: string;
       editingRoles?: string;
       ignoreStyleguide?: boolean;
-    }) => {
+      allowRemovals?: boolean;
+    }, extra: any) => {
+      let currentPage: Page;
+      let styleguide: Page | undefined;
+      let styleguideContext = '';
       try {
-        // Fetch the current page content
-        const currentPage = (await canvas.getPage(courseId, pageUrl) as any);
-        const currentBody = currentPage.body || '';
+        // Fetch the current page content, uncached: apply-page-changes checks the edit against it
+        currentPage = await canvas.getCurrentPage(courseId, pageUrl);
 
         // Try to fetch styleguide unless explicitly ignored
-        let styleguideContext = '';
         if (!ignoreStyleguide) {
           try {
-            const styleguide = (await canvas.getPage(courseId, DEFAULT_STYLEGUIDE_SLUG) as any);
+            styleguide = (await canvas.getPage(courseId, DEFAULT_STYLEGUIDE_SLUG) as any) as Page;
             styleguideContext = `
 
 --- COURSE STYLEGUIDE STANDARDS ---
@@ -495,87 +507,144 @@ IMPORTANT: When making changes, ensure all formatting follows the above stylegui
             styleguideContext = '\n\n⚠️ No course styleguide found. Consider creating one with generate-styleguide for consistent formatting.';
           }
         }
+      } catch (error) {
+        return toolError('Failed to fetch page for patching', error);
+      }
 
-        return {
-          content: [
-            {
-              type: "text",
-              text: [
-                `Current page content for '${pageUrl}' in course ${courseId}:`,
-                `Title: ${currentPage.title}`,
-                `Published: ${currentPage.published ? 'Yes' : 'No'}`,
-                '',
-                '--- CURRENT CONTENT ---',
-                currentBody,
-                '--- END CURRENT CONTENT ---',
-                styleguideContext,
-                '',
-                `Instructions: ${instructions}`,
-                '',
-                'Please modify the above HTML content according to the instructions. Follow the styleguide standards for consistency. Respond with ONLY the modified HTML content that should replace the current body. Preserve the existing structure and formatting unless the instructions specifically ask to change it.',
-                '',
-                'After you provide the modified content, I will update the page automatically.'
-              ].join('\n')
-            }
-          ]
-        };
-      } catch (error: any) {
-        if (error instanceof Error) {
-          throw new Error(`Failed to fetch page for patching: ${error.message}`);
-        }
-        throw new Error('Failed to fetch page for patching: Unknown error');
+      const currentBody = currentPage.body || '';
+      const request = [
+        `Current page content for '${pageUrl}' in course ${courseId}:`,
+        `Title: ${currentPage.title}`,
+        `Published: ${currentPage.published ? 'Yes' : 'No'}`,
+        '',
+        '--- CURRENT CONTENT ---',
+        currentBody,
+        '--- END CURRENT CONTENT ---',
+        styleguideContext,
+        '',
+        `Instructions: ${instructions}`,
+        '',
+        'Please modify the above HTML content according to the instructions. Follow the styleguide standards for consistency. Respond with ONLY the modified HTML content that should replace the current body. Preserve the existing structure and formatting unless the instructions specifically ask to change it.'
+      ].join('\n');
+
+      let rewrite: SamplingResult | undefined;
+      try {
+        rewrite = await requestSampling(server.server, extra, {
+          systemPrompt: REWRITE_SYSTEM_PROMPT,
+          prompt: request,
+          maxTokens: rewriteTokenBudget(currentBody)
+        });
+      } catch (error) {
+        return toolError(`Failed to have the client's model rewrite page '${pageUrl}'`, error);
       }
+
+      const base = { courseId, pageUrl, instructions, before: currentBody, updatedAt: currentPage.updated_at ?? null, title, editingRoles, allowRemovals };
+      // Without sampling, the calling model does the rewrite itself
+      if (!rewrite) {
+        const staged = canvas.pageEdits.stage(base);
+        return toolResult(
+          `${request}\n\nThen call apply-page-changes with changeId "${staged.id}" and the modified HTML as newContent to update the page.`,
+          { page: currentPage, styleguide, instructions, changeId: staged.id }
+        );
+      }
+
+      const proposedBody = stripCodeFence(rewrite.text);
+      const problems = rewrite.truncated
+        ? ['the rewrite was cut off at the token limit']
+        : checkPageEdit(currentBody, proposedBody, { allowRemovals });
+      if (problems.length > 0) {
+        return toolError(
+          `Did not stage the rewrite of page '${pageUrl}'`,
+          new Error(`${problems.join('; ')}. Nothing was changed. Make the instructions more specific and try again, or set allowRemovals if headings or links should go.`)
+        );
+      }
+
+      const staged = canvas.pageEdits.stage({ ...base, after: proposedBody, diff: diffPageBodies(currentBody, proposedBody) });
+      return toolResult(
+        [
+          `Staged ${staged.id}: a rewrite of page '${pageUrl}' in course ${courseId} by ${rewrite.model}.`,
+          `Instructions: ${instructions}`,
+          '',
+          '--- DIFF ---',
+          staged.diff,
+          '--- END DIFF ---',
+          '',
+          `Nothing has been saved yet. Review the diff, then call apply-page-changes with changeId "${staged.id}" to save it.`
+        ].join('\n'),
+        { page: currentPage, styleguide, instructions, changeId: staged.id, diff: staged.diff, proposedBody }
+      );
     }
   );
 
   // Tool: apply-page-changes
-  server.tool(
+  server.registerTool(
     "apply-page-changes",
-    "🎨 STEP 2: Apply styleguide-compliant LLM-generated page modifications. Use this after patch-page-content shows you the proposed changes. This completes the smart editing workflow by actually updating the Canvas page with the reviewed modifications that follow course formatting standards.",
     {
-      courseId: z.string().describe("The ID of the course"),
-      pageUrl: z.string().describe("The page's URL slug (e.g., 'syllabus')"),
-      newContent: z.string().describe("The new HTML content for the page body"),
-      title: z.string().optional().describe("New title for the page (optional)"),
-      editingRoles: z.string().optional().describe("Comma-separated roles allowed to edit (optional)")
+      description: "🎨 STEP 2: Apply styleguide-compliant LLM-generated page modifications. Pass the changeId from patch-page-content, with newContent if patch-page-content didn't stage a rewrite itself. newContent is checked like a staged rewrite (well-formed HTML, no headings or links removed unless patch-page-content had allowRemovals) and refused if it fails. The save is refused, showing both sets of changes, if someone else saved the page since patch-page-content read it; to replace a page's body outright, use update-page-content. This completes the smart editing workflow by actually updating the Canvas page with the reviewed modifications that follow course formatting standards.",
+      inputSchema: {
+        courseId: z.string().describe("The ID of the course"),
+        pageUrl: z.string().describe("The page's URL slug (e.g., 'syllabus')"),
+        changeId: z.string().describe("ID of the edit patch-page-content staged (e.g., 'edit-1')"),
+        newContent: z.string().optional().describe("The new HTML content for the page body; replaces the staged rewrite, if any"),
+        title: z.string().optional().describe("New title for the page (optional)"),
+        editingRoles: z.string().optional().describe("Comma-separated roles allowed to edit (optional)")
+      },
+      outputSchema: pageOutput
     },
-    async ({ courseId, pageUrl, newContent, title, editingRoles }: { 
+    async ({ courseId, pageUrl, changeId, newContent, title, editingRoles }: { 
       courseId: string; 
       pageUrl: string; 
-      newContent: string;
+      changeId: string;
+      newContent?: string;
       title?: string;
       editingRoles?: string;
     }) => {
       try {
-        // Prepare the update payload
-        const wiki_page: any = { body: newContent };
-        if (title !== undefined) wiki_page.title = title;
-        if (editingRoles !== undefined) wiki_page.editing_roles = editingRoles;
-
-        // Update the page
-        const updatedPage = (await canvas.updateOrCreatePage(courseId, pageUrl, { wiki_page }) as any);
-
-        return {
-          content: [
-            {
-              type: "text",
-              text: [
-                `✅ Page '${updatedPage.url}' successfully updated in course ${courseId}!`,
-                `Title: ${updatedPage.title}`,
-                `ID: ${updatedPage.page_id}`,
-                `Published: ${updatedPage.published ? 'Yes' : 'No'}`,
-                `Updated At: ${updatedPage.updated_at}`,
-                '',
-                '🎨 The changes have been applied successfully with course styleguide compliance maintained.'
-              ].join('\n')
-            }
-          ]
-        };
-      } catch (error: any) {
-        if (error instanceof Error) {
-          throw new Error(`Failed to apply page changes: ${error.message}`);
+        const result = await canvas.applyPageEdit(changeId, courseId, pageUrl, { body: newContent, title, editingRoles });
+        if (result.status === 'rejected') {
+          return toolError(
+            `Did not apply ${changeId} to page '${pageUrl}'`,
+            new Error(`${result.problems.join('; ')}. Nothing was changed. Fix newContent and call apply-page-changes again, or run patch-page-content with allowRemovals if headings or links should go.`)
+          );
+        }
+        if (result.status === 'conflict') {
+          const { readAt, updatedAt, theirChanges, yourChanges } = result.conflict;
+          return {
+            content: [
+              {
+                type: "text",
+                text: [
+                  `Refusing to apply ${changeId}: page '${pageUrl}' was saved in Canvas at ${updatedAt} since patch-page-content read it (last saved ${readAt}), and applying would overwrite that save. Nothing was changed.`,
+                  '',
+                  '--- THEIR CHANGES (saved in Canvas since) ---',
+                  theirChanges,
+                  `--- YOUR CHANGES (${changeId}) ---`,
+                  yourChanges,
+                  '--- END CHANGES ---',
+                  '',
+                  'Run patch-page-content again to make the edit on the current page.'
+                ].join('\n')
+              }
+            ],
+            isError: true
+          };
         }
-        throw new Error('Failed to apply page changes: Unknown error');
+        const updatedPage = result.page;
+
+        return toolResult(
+          [
+            `✅ Page '${updatedPage.url}' successfully updated in course ${courseId}!`,
+            `Title: ${updatedPage.title}`,
+            `ID: ${updatedPage.page_id}`,
+            `Published: ${updatedPage.published ? 'Yes' : 'No'}`,
+            `Updated At: ${updatedPage.updated_at}`,
+            '',
+            '🎨 The changes have been applied successfully with course styleguide compliance maintained.'
+          ].join('\n'),
+          { page: updatedPage }
+        );
+      } catch (error) {
+        return toolError('Failed to apply page changes', error);
       }
     }
   );
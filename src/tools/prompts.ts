@@ -1,12 +1,14 @@
 import { z } from "zod";
+import { completable } from "@modelcontextprotocol/sdk/server/completable.js";
 import { CanvasClient } from "../canvasClient.js";
+import { createCompleters } from "../completions.js";
 
 export function registerPrompts(server: any, canvas: CanvasClient) {
   server.prompt(
     "analyze-rubric-statistics",
     "Analyze rubric statistics for formative assignments in a course",
     {
-      courseName: z.string().describe("The name of the course to analyze")
+      courseName: completable(z.string().describe("The name of the course to analyze"), createCompleters(canvas).courseName)
     },
     ({ courseName }: { courseName: string }) => {
       const today = new Date().toISOString().split('T')[0];
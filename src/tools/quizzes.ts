@@ -1,17 +1,41 @@
 import { z } from "zod";
 import { CanvasClient } from "../canvasClient.js";
+import { toolError } from "../errors.js";
+import { Quiz, QuizGroup, QuizQuestion } from "../types.js";
+import { QuizGroupSchema, QuizQuestionSchema, QuizSchema } from "../outputSchemas.js";
+import { jsonToolResult, toolResult } from "../toolResult.js";
+
+const quizOutput = {
+  quiz: QuizSchema
+};
+
+const questionOutput = {
+  question: QuizQuestionSchema
+};
+
+const groupOutput = {
+  group: QuizGroupSchema
+};
+
+// Canvas wraps created and updated question groups in { quiz_groups: [group] }
+const unwrapGroup = (response: any): QuizGroup => response?.quiz_groups?.[0] ?? response;
 
 export function registerQuizTools(server: any, canvas: CanvasClient) {
   // Tool: list-quizzes
-  server.tool(
+  server.registerTool(
     "list-quizzes",
-    "Get a list of all quizzes in a course",
     {
-      courseId: z.string().describe("The ID of the course"),
+      description: "Get a list of all quizzes in a course",
+      inputSchema: {
+        courseId: z.string().describe("The ID of the course"),
+      },
+      outputSchema: {
+        quizzes: z.array(QuizSchema)
+      }
     },
     async ({ courseId }: { courseId: string; }) => {
       try {
-        const quizzes: any[] = await canvas.get(`/api/v1/courses/${courseId}/quizzes`);
+        const quizzes = await canvas.fetchAllPages<Quiz>(`/api/v1/courses/${courseId}/quizzes`);
         const formattedQuizzes = quizzes
           .map((quiz: any) => {
             return [
@@ -24,468 +48,394 @@ export function registerQuizTools(server: any, canvas: CanvasClient) {
           })
           .join('\n---\n');
 
-        return {
-          content: [
-            {
-              type: "text",
-              text: quizzes.length > 0
-                ? `Quizzes in course ${courseId}:\n\n${formattedQuizzes}\n\nTotal quizzes: ${quizzes.length}`
-                : "No quizzes found in this course.",
-            },
-          ],
-        };
-      } catch (error: any) {
-        if (error instanceof Error) {
-          throw new Error(`Failed to fetch quizzes: ${error.message}`);
-        }
-        throw new Error('Failed to fetch quizzes: Unknown error');
+        return toolResult(
+          quizzes.length > 0
+            ? `Quizzes in course ${courseId}:\n\n${formattedQuizzes}\n\nTotal quizzes: ${quizzes.length}`
+            : "No quizzes found in this course.",
+          { quizzes }
+        );
+      } catch (error) {
+        return toolError('Failed to fetch quizzes', error);
       }
     }
   );
 
   // Tool: get-quiz
-  server.tool(
+  server.registerTool(
     "get-quiz",
-    "Fetch metadata for a single quiz",
     {
-      courseId: z.string().describe("The ID of the course"),
-      quizId: z.string().describe("The ID of the quiz")
+      description: "Fetch metadata for a single quiz",
+      inputSchema: {
+        courseId: z.string().describe("The ID of the course"),
+        quizId: z.string().describe("The ID of the quiz")
+      },
+      outputSchema: quizOutput
     },
     async ({ courseId, quizId }: { courseId: string; quizId: string }) => {
       try {
-        const response = await canvas.get(`/api/v1/courses/${courseId}/quizzes/${quizId}`);
-        return {
-          content: [
-            {
-              type: "text",
-              text: JSON.stringify(response, null, 2)
-            }
-          ]
-        };
-      } catch (error: any) {
-        if (error instanceof Error) {
-          throw new Error(`Failed to fetch quiz: ${error.message}`);
-        }
-        throw new Error('Failed to fetch quiz: Unknown error');
+        const quiz = (await canvas.get(`/api/v1/courses/${courseId}/quizzes/${quizId}`) as any) as Quiz;
+        return jsonToolResult(`Quiz ${quiz.id}: ${quiz.title}`, { quiz });
+      } catch (error) {
+        return toolError('Failed to fetch quiz', error);
       }
     }
   );
 
   // Tool: create-quiz
-  server.tool(
+  server.registerTool(
     "create-quiz",
-    "Create a new quiz in a course.",
     {
-      courseId: z.string().describe("The ID of the course"),
-      title: z.string().describe("The title of the quiz"),
-      description: z.string().optional().describe("A description of the quiz"),
-      quiz_type: z.enum(["practice_quiz", "assignment", "graded_survey", "survey"]).optional().describe("The type of quiz"),
-      due_at: z.string().optional().describe("The due date for the quiz"),
-      points_possible: z.number().optional().describe("The point value of the quiz"),
-      published: z.boolean().optional().describe("Whether the quiz is published"),
+      description: "Create a new quiz in a course.",
+      inputSchema: {
+        courseId: z.string().describe("The ID of the course"),
+        title: z.string().describe("The title of the quiz"),
+        description: z.string().optional().describe("A description of the quiz"),
+        quiz_type: z.enum(["practice_quiz", "assignment", "graded_survey", "survey"]).optional().describe("The type of quiz"),
+        due_at: z.string().optional().describe("The due date for the quiz"),
+        points_possible: z.number().optional().describe("The point value of the quiz"),
+        published: z.boolean().optional().describe("Whether the quiz is published"),
+      },
+      outputSchema: quizOutput
     },
     async (args: any) => {
       const { courseId, ...fields } = args;
       try {
-        const response = await canvas.post(`/api/v1/courses/${courseId}/quizzes`, { quiz: fields });
-        return {
-          content: [
-            {
-              type: "text",
-              text: JSON.stringify(response, null, 2)
-            }
-          ]
-        };
-      } catch (error: any) {
-        if (error instanceof Error) {
-          throw new Error(`Failed to create quiz: ${error.message}`);
-        }
-        throw new Error('Failed to create quiz: Unknown error');
+        const quiz = (await canvas.post(`/api/v1/courses/${courseId}/quizzes`, { quiz: fields }) as any) as Quiz;
+        return jsonToolResult(`Created quiz ${quiz.id}: ${quiz.title}`, { quiz });
+      } catch (error) {
+        return toolError('Failed to create quiz', error);
       }
     }
   );
 
   // Tool: update-quiz
-  server.tool(
+  server.registerTool(
     "update-quiz",
-    "Update an existing quiz in a course.",
     {
-      courseId: z.string().describe("The ID of the course"),
-      quizId: z.string().describe("The ID of the quiz"),
-      title: z.string().optional().describe("The title of the quiz"),
-      description: z.string().optional().describe("A description of the quiz"),
-      quiz_type: z.enum(["practice_quiz", "assignment", "graded_survey", "survey"]).optional().describe("The type of quiz"),
-      due_at: z.string().optional().describe("The due date for the quiz"),
-      points_possible: z.number().optional().describe("The point value of the quiz"),
-      published: z.boolean().optional().describe("Whether the quiz is published"),
+      description: "Update an existing quiz in a course.",
+      inputSchema: {
+        courseId: z.string().describe("The ID of the course"),
+        quizId: z.string().describe("The ID of the quiz"),
+        title: z.string().optional().describe("The title of the quiz"),
+        description: z.string().optional().describe("A description of the quiz"),
+        quiz_type: z.enum(["practice_quiz", "assignment", "graded_survey", "survey"]).optional().describe("The type of quiz"),
+        due_at: z.string().optional().describe("The due date for the quiz"),
+        points_possible: z.number().optional().describe("The point value of the quiz"),
+        published: z.boolean().optional().describe("Whether the quiz is published"),
+      },
+      outputSchema: quizOutput
     },
     async (args: any) => {
       const { courseId, quizId, ...fields } = args;
       try {
-        const response = await canvas.put(`/api/v1/courses/${courseId}/quizzes/${quizId}`, { quiz: fields });
-        return {
-          content: [
-            {
-              type: "text",
-              text: JSON.stringify(response, null, 2)
-            }
-          ]
-        };
-      } catch (error: any) {
-        if (error instanceof Error) {
-          throw new Error(`Failed to update quiz: ${error.message}`);
-        }
-        throw new Error('Failed to update quiz: Unknown error');
+        const quiz = (await canvas.put(`/api/v1/courses/${courseId}/quizzes/${quizId}`, { quiz: fields }) as any) as Quiz;
+        return jsonToolResult(`Updated quiz ${quiz.id}: ${quiz.title}`, { quiz });
+      } catch (error) {
+        return toolError('Failed to update quiz', error);
       }
     }
   );
 
   // Tool: delete-quiz
-  server.tool(
+  server.registerTool(
     "delete-quiz",
-    "Delete a quiz from a course.",
     {
-      courseId: z.string().describe("The ID of the course"),
-      quizId: z.string().describe("The ID of the quiz"),
+      description: "Delete a quiz from a course.",
+      inputSchema: {
+        courseId: z.string().describe("The ID of the course"),
+        quizId: z.string().describe("The ID of the quiz"),
+      },
+      outputSchema: quizOutput,
+      describeImpact: async ({ courseId, quizId }: { courseId: string; quizId: string }) => {
+        const quiz = (await canvas.get(`/api/v1/courses/${courseId}/quizzes/${quizId}`) as any) as Quiz;
+        const questions = quiz.question_count != null ? `${quiz.question_count} questions, ` : '';
+        return `Delete quiz "${quiz.title}" (${questions}${quiz.points_possible ?? 0} points) from course ${courseId}? ` +
+          `Its questions and any student attempts would be lost.`;
+      }
     },
     async ({ courseId, quizId }: { courseId: string; quizId: string }) => {
       try {
-        const response = await canvas.delete(`/api/v1/courses/${courseId}/quizzes/${quizId}`);
-        return {
-          content: [
-            {
-              type: "text",
-              text: JSON.stringify(response, null, 2)
-            }
-          ]
-        };
-      } catch (error: any) {
-        if (error instanceof Error) {
-          throw new Error(`Failed to delete quiz: ${error.message}`);
-        }
-        throw new Error('Failed to delete quiz: Unknown error');
+        const quiz = (await canvas.delete(`/api/v1/courses/${courseId}/quizzes/${quizId}`) as any) as Quiz;
+        return jsonToolResult(`Deleted quiz ${quiz.id}: ${quiz.title}`, { quiz });
+      } catch (error) {
+        return toolError('Failed to delete quiz', error);
       }
     }
   );
 
   // Tool: list-quiz-questions
-  server.tool(
+  server.registerTool(
     "list-quiz-questions",
-    "Get a list of all questions in a quiz",
     {
-      courseId: z.string().describe("The ID of the course"),
-      quizId: z.string().describe("The ID of the quiz"),
+      description: "Get a list of all questions in a quiz",
+      inputSchema: {
+        courseId: z.string().describe("The ID of the course"),
+        quizId: z.string().describe("The ID of the quiz"),
+      },
+      outputSchema: {
+        questions: z.array(QuizQuestionSchema)
+      }
     },
     async ({ courseId, quizId }: { courseId: string; quizId: string; }) => {
       try {
-        const questions: any[] = await canvas.get(`/api/v1/courses/${courseId}/quizzes/${quizId}/questions`);
+        const questions = await canvas.fetchAllPages<QuizQuestion>(`/api/v1/courses/${courseId}/quizzes/${quizId}/questions`);
         const formattedQuestions = questions
           .map((q: any) => {
-            return `ID: ${q.id}, Type: ${q.question_type}, Text: ${q.question_text.substring(0, 100)}...`;
+            return `ID: ${q.id}, Type: ${q.question_type}, Text: ${(q.question_text || '').substring(0, 100)}...`;
           })
           .join('\n');
 
-        return {
-          content: [
-            {
-              type: "text",
-              text: questions.length > 0
-                ? `Questions for quiz ${quizId}:\n\n${formattedQuestions}`
-                : "No questions found for this quiz.",
-            },
-          ],
-        };
-      } catch (error: any) {
-        if (error instanceof Error) {
-          throw new Error(`Failed to fetch quiz questions: ${error.message}`);
-        }
-        throw new Error('Failed to fetch quiz questions: Unknown error');
+        return toolResult(
+          questions.length > 0
+            ? `Questions for quiz ${quizId}:\n\n${formattedQuestions}`
+            : "No questions found for this quiz.",
+          { questions }
+        );
+      } catch (error) {
+        return toolError('Failed to fetch quiz questions', error);
       }
     }
   );
 
   // Tool: get-quiz-question
-  server.tool(
+  server.registerTool(
     "get-quiz-question",
-    "Fetch a single question from a quiz",
     {
-      courseId: z.string().describe("The ID of the course"),
-      quizId: z.string().describe("The ID of the quiz"),
-      questionId: z.string().describe("The ID of the question"),
+      description: "Fetch a single question from a quiz",
+      inputSchema: {
+        courseId: z.string().describe("The ID of the course"),
+        quizId: z.string().describe("The ID of the quiz"),
+        questionId: z.string().describe("The ID of the question"),
+      },
+      outputSchema: questionOutput
     },
     async ({ courseId, quizId, questionId }: { courseId: string; quizId: string; questionId: string }) => {
       try {
-        const question = await canvas.get(`/api/v1/courses/${courseId}/quizzes/${quizId}/questions/${questionId}`);
-        return {
-          content: [
-            {
-              type: "text",
-              text: JSON.stringify(question, null, 2)
-            }
-          ]
-        };
-      } catch (error: any) {
-        if (error instanceof Error) {
-          throw new Error(`Failed to fetch quiz question: ${error.message}`);
-        }
-        throw new Error('Failed to fetch quiz question: Unknown error');
+        const question = (await canvas.get(`/api/v1/courses/${courseId}/quizzes/${quizId}/questions/${questionId}`) as any) as QuizQuestion;
+        return jsonToolResult(`Question ${question.id} (${question.question_type}) in quiz ${quizId}`, { question });
+      } catch (error) {
+        return toolError('Failed to fetch quiz question', error);
       }
     }
   );
 
   // Tool: create-quiz-question
-  server.tool(
+  server.registerTool(
     "create-quiz-question",
-    "Create a new question in a quiz.",
     {
-      courseId: z.string().describe("The ID of the course"),
-      quizId: z.string().describe("The ID of the quiz"),
-      question: z.object({
-        question_name: z.string().optional(),
-        question_text: z.string(),
-        question_type: z.string(),
-        points_possible: z.number(),
-        answers: z.array(z.any()).optional(),
-      }).describe("The question object"),
+      description: "Create a new question in a quiz.",
+      inputSchema: {
+        courseId: z.string().describe("The ID of the course"),
+        quizId: z.string().describe("The ID of the quiz"),
+        question: z.object({
+          question_name: z.string().optional(),
+          question_text: z.string(),
+          question_type: z.string(),
+          points_possible: z.number(),
+          answers: z.array(z.any()).optional(),
+        }).describe("The question object"),
+      },
+      outputSchema: questionOutput
     },
     async (args: any) => {
       const { courseId, quizId, question } = args;
       try {
-        const response = await canvas.post(`/api/v1/courses/${courseId}/quizzes/${quizId}/questions`, { question });
-        return {
-          content: [
-            {
-              type: "text",
-              text: JSON.stringify(response, null, 2)
-            }
-          ]
-        };
-      } catch (error: any) {
-        if (error instanceof Error) {
-          throw new Error(`Failed to create quiz question: ${error.message}`);
-        }
-        throw new Error('Failed to create quiz question: Unknown error');
+        const created = (await canvas.post(`/api/v1/courses/${courseId}/quizzes/${quizId}/questions`, { question }) as any) as QuizQuestion;
+        return jsonToolResult(`Created question ${created.id} in quiz ${quizId}`, { question: created });
+      } catch (error) {
+        return toolError('Failed to create quiz question', error);
       }
     }
   );
 
   // Tool: update-quiz-question
-  server.tool(
+  server.registerTool(
     "update-quiz-question",
-    "Update an existing question in a quiz.",
     {
-      courseId: z.string().describe("The ID of the course"),
-      quizId: z.string().describe("The ID of the quiz"),
-      questionId: z.string().describe("The ID of the question"),
-      question: z.object({
-        question_name: z.string().optional(),
-        question_text: z.string().optional(),
-        question_type: z.string().optional(),
-        points_possible: z.number().optional(),
-        answers: z.array(z.any()).optional(),
-      }).describe("The question object"),
+      description: "Update an existing question in a quiz.",
+      inputSchema: {
+        courseId: z.string().describe("The ID of the course"),
+        quizId: z.string().describe("The ID of the quiz"),
+        questionId: z.string().describe("The ID of the question"),
+        question: z.object({
+          question_name: z.string().optional(),
+          question_text: z.string().optional(),
+          question_type: z.string().optional(),
+          points_possible: z.number().optional(),
+          answers: z.array(z.any()).optional(),
+        }).describe("The question object"),
+      },
+      outputSchema: questionOutput
     },
     async (args: any) => {
       const { courseId, quizId, questionId, question } = args;
       try {
-        const response = await canvas.put(`/api/v1/courses/${courseId}/quizzes/${quizId}/questions/${questionId}`, { question });
-        return {
-          content: [
-            {
-              type: "text",
-              text: JSON.stringify(response, null, 2)
-            }
-          ]
-        };
-      } catch (error: any) {
-        if (error instanceof Error) {
-          throw new Error(`Failed to update quiz question: ${error.message}`);
-        }
-        throw new Error('Failed to update quiz question: Unknown error');
+        const updated = (await canvas.put(`/api/v1/courses/${courseId}/quizzes/${quizId}/questions/${questionId}`, { question }) as any) as QuizQuestion;
+        return jsonToolResult(`Updated question ${updated.id} in quiz ${quizId}`, { question: updated });
+      } catch (error) {
+        return toolError('Failed to update quiz question', error);
       }
     }
   );
 
   // Tool: delete-quiz-question
-  server.tool(
+  server.registerTool(
     "delete-quiz-question",
-    "Delete a question from a quiz.",
     {
-      courseId: z.string().describe("The ID of the course"),
-      quizId: z.string().describe("The ID of the quiz"),
-      questionId: z.string().describe("The ID of the question"),
+      description: "Delete a question from a quiz.",
+      inputSchema: {
+        courseId: z.string().describe("The ID of the course"),
+        quizId: z.string().describe("The ID of the quiz"),
+        questionId: z.string().describe("The ID of the question"),
+      },
+      outputSchema: {
+        quizId: z.string(),
+        questionId: z.string(),
+        deleted: z.literal(true)
+      },
+      describeImpact: async ({ courseId, quizId, questionId }: { courseId: string; quizId: string; questionId: string }) => {
+        const question = (await canvas.get(`/api/v1/courses/${courseId}/quizzes/${quizId}/questions/${questionId}`) as any) as QuizQuestion;
+        return `Delete question "${question.question_name ?? questionId}" (${question.points_possible ?? 0} points) from quiz ${quizId}? ` +
+          `Its text and answers would be lost.`;
+      }
     },
     async ({ courseId, quizId, questionId }: { courseId: string; quizId: string; questionId: string }) => {
       try {
         await canvas.delete(`/api/v1/courses/${courseId}/quizzes/${quizId}/questions/${questionId}`);
-        return {
-          content: [
-            {
-              type: "text",
-              text: `Successfully deleted question ${questionId} from quiz ${quizId}.`
-            }
-          ]
-        };
-      } catch (error: any) {
-        if (error instanceof Error) {
-          throw new Error(`Failed to delete quiz question: ${error.message}`);
-        }
-        throw new Error('Failed to delete quiz question: Unknown error');
+        return toolResult(`Successfully deleted question ${questionId} from quiz ${quizId}.`, { quizId, questionId, deleted: true });
+      } catch (error) {
+        return toolError('Failed to delete quiz question', error);
       }
     }
   );
 
   // Tool: list-quiz-question-groups
-  server.tool(
+  server.registerTool(
     "list-quiz-question-groups",
-    "Get a list of all question groups in a quiz",
     {
-      courseId: z.string().describe("The ID of the course"),
-      quizId: z.string().describe("The ID of the quiz"),
+      description: "Get a list of all question groups in a quiz",
+      inputSchema: {
+        courseId: z.string().describe("The ID of the course"),
+        quizId: z.string().describe("The ID of the quiz"),
+      },
+      outputSchema: {
+        groups: z.array(QuizGroupSchema)
+      }
     },
     async ({ courseId, quizId }: { courseId: string; quizId: string; }) => {
       try {
-        const groups = await canvas.get(`/api/v1/courses/${courseId}/quizzes/${quizId}/groups`);
-        return {
-          content: [
-            {
-              type: "text",
-              text: JSON.stringify(groups, null, 2)
-            },
-          ],
-        };
-      } catch (error: any) {
-        if (error instanceof Error) {
-          throw new Error(`Failed to fetch quiz question groups: ${error.message}`);
-        }
-        throw new Error('Failed to fetch quiz question groups: Unknown error');
+        const response: any = await canvas.get(`/api/v1/courses/${courseId}/quizzes/${quizId}/groups`);
+        const groups: QuizGroup[] = Array.isArray(response) ? response : response?.quiz_groups ?? [];
+        return jsonToolResult(`${groups.length} question group${groups.length === 1 ? '' : 's'} in quiz ${quizId}`, { groups });
+      } catch (error) {
+        return toolError('Failed to fetch quiz question groups', error);
       }
     }
   );
 
   // Tool: get-quiz-question-group
-  server.tool(
+  server.registerTool(
     "get-quiz-question-group",
-    "Fetch a single question group from a quiz",
     {
-      courseId: z.string().describe("The ID of the course"),
-      quizId: z.string().describe("The ID of the quiz"),
-      groupId: z.string().describe("The ID of the question group"),
+      description: "Fetch a single question group from a quiz",
+      inputSchema: {
+        courseId: z.string().describe("The ID of the course"),
+        quizId: z.string().describe("The ID of the quiz"),
+        groupId: z.string().describe("The ID of the question group"),
+      },
+      outputSchema: groupOutput
     },
     async ({ courseId, quizId, groupId }: { courseId: string; quizId: string; groupId: string }) => {
       try {
-        const group = await canvas.get(`/api/v1/courses/${courseId}/quizzes/${quizId}/groups/${groupId}`);
-        return {
-          content: [
-            {
-              type: "text",
-              text: JSON.stringify(group, null, 2)
-            }
-          ]
-        };
-      } catch (error: any) {
-        if (error instanceof Error) {
-          throw new Error(`Failed to fetch quiz question group: ${error.message}`);
-        }
-        throw new Error('Failed to fetch quiz question group: Unknown error');
+        const group = (await canvas.get(`/api/v1/courses/${courseId}/quizzes/${quizId}/groups/${groupId}`) as any) as QuizGroup;
+        return jsonToolResult(`Question group ${group.id}: ${group.name}`, { group });
+      } catch (error) {
+        return toolError('Failed to fetch quiz question group', error);
       }
     }
   );
 
   // Tool: create-quiz-question-group
-  server.tool(
+  server.registerTool(
     "create-quiz-question-group",
-    "Create a new question group in a quiz.",
     {
-      courseId: z.string().describe("The ID of the course"),
-      quizId: z.string().describe("The ID of the quiz"),
-      quizGroup: z.object({
-        name: z.string(),
-        pick_count: z.number(),
-        question_points: z.number(),
-      }).describe("The quiz group object"),
+      description: "Create a new question group in a quiz.",
+      inputSchema: {
+        courseId: z.string().describe("The ID of the course"),
+        quizId: z.string().describe("The ID of the quiz"),
+        quizGroup: z.object({
+          name: z.string(),
+          pick_count: z.number(),
+          question_points: z.number(),
+        }).describe("The quiz group object"),
+      },
+      outputSchema: groupOutput
     },
     async (args: any) => {
       const { courseId, quizId, quizGroup } = args;
       try {
-        const response = await canvas.post(`/api/v1/courses/${courseId}/quizzes/${quizId}/groups`, { quiz_group: quizGroup });
-        return {
-          content: [
-            {
-              type: "text",
-              text: JSON.stringify(response, null, 2)
-            }
-          ]
-        };
-      } catch (error: any) {
-        if (error instanceof Error) {
-          throw new Error(`Failed to create quiz question group: ${error.message}`);
-        }
-        throw new Error('Failed to create quiz question group: Unknown error');
+        const group = unwrapGroup(await canvas.post(`/api/v1/courses/${courseId}/quizzes/${quizId}/groups`, { quiz_group: quizGroup }));
+        return jsonToolResult(`Created question group ${group.id} in quiz ${quizId}`, { group });
+      } catch (error) {
+        return toolError('Failed to create quiz question group', error);
       }
     }
   );
 
   // Tool: update-quiz-question-group
-  server.tool(
+  server.registerTool(
     "update-quiz-question-group",
-    "Update an existing question group in a quiz.",
     {
-      courseId: z.string().describe("The ID of the course"),
-      quizId: z.string().describe("The ID of the quiz"),
-      groupId: z.string().describe("The ID of the group"),
-      quizGroup: z.object({
-        name: z.string().optional(),
-        pick_count: z.number().optional(),
-        question_points: z.number().optional(),
-      }).describe("The quiz group object"),
+      description: "Update an existing question group in a quiz.",
+      inputSchema: {
+        courseId: z.string().describe("The ID of the course"),
+        quizId: z.string().describe("The ID of the quiz"),
+        groupId: z.string().describe("The ID of the group"),
+        quizGroup: z.object({
+          name: z.string().optional(),
+          pick_count: z.number().optional(),
+          question_points: z.number().optional(),
+        }).describe("The quiz group object"),
+      },
+      outputSchema: groupOutput
     },
     async (args: any) => {
       const { courseId, quizId, groupId, quizGroup } = args;
       try {
-        const response = await canvas.put(`/api/v1/courses/${courseId}/quizzes/${quizId}/groups/${groupId}`, { quiz_group: quizGroup });
-        return {
-          content: [
-            {
-              type: "text",
-              text: JSON.stringify(response, null, 2)
-            }
-          ]
-        };
-      } catch (error: any) {
-        if (error instanceof Error) {
-          throw new Error(`Failed to update quiz question group: ${error.message}`);
-        }
-        throw new Error('Failed to update quiz question group: Unknown error');
+        const group = unwrapGroup(await canvas.put(`/api/v1/courses/${courseId}/quizzes/${quizId}/groups/${groupId}`, { quiz_group: quizGroup }));
+        return jsonToolResult(`Updated question group ${group.id} in quiz ${quizId}`, { group });
+      } catch (error) {
+        return toolError('Failed to update quiz question group', error);
       }
     }
   );
 
   // Tool: delete-quiz-question-group
-  server.tool(
+  server.registerTool(
     "delete-quiz-question-group",
-    "Delete a question group from a quiz.",
     {
-      courseId: z.string().describe("The ID of the course"),
-      quizId: z.string().describe("The ID of the quiz"),
-      groupId: z.string().describe("The ID of the group"),
+      description: "Delete a question group from a quiz.",
+      inputSchema: {
+        courseId: z.string().describe("The ID of the course"),
+        quizId: z.string().describe("The ID of the quiz"),
+        groupId: z.string().describe("The ID of the group"),
+      },
+      outputSchema: {
+        quizId: z.string(),
+        groupId: z.string(),
+        deleted: z.literal(true)
+      },
+      describeImpact: async ({ courseId, quizId, groupId }: { courseId: string; quizId: string; groupId: string }) => {
+        const group = unwrapGroup(await canvas.get(`/api/v1/courses/${courseId}/quizzes/${quizId}/groups/${groupId}`));
+        return `Delete question group "${group.name ?? groupId}" (picks ${group.pick_count ?? 0} at ${group.question_points ?? 0} points each) from quiz ${quizId}?`;
+      }
     },
     async ({ courseId, quizId, groupId }: { courseId: string; quizId: string; groupId: string }) => {
       try {
         await canvas.delete(`/api/v1/courses/${courseId}/quizzes/${quizId}/groups/${groupId}`);
-        return {
-          content: [
-            {
-              type: "text",
-              text: `Successfully deleted group ${groupId} from quiz ${quizId}.`
-            }
-          ]
-        };
-      } catch (error: any) {
-        if (error instanceof Error) {
-          throw new Error(`Failed to delete quiz question group: ${error.message}`);
-        }
-        throw new Error('Failed to delete quiz question group: Unknown error');
+        return toolResult(`Successfully deleted group ${groupId} from quiz ${quizId}.`, { quizId, groupId, deleted: true });
+      } catch (error) {
+        return toolError('Failed to delete quiz question group', error);
       }
     }
   );
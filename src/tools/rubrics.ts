@@ -1,15 +1,23 @@
 import { z } from "zod";
 import { CanvasClient } from "../canvasClient.js";
-import { Rubric, RubricStat } from "../types.js";
+import { CanvasNotFoundError, toolError } from "../errors.js";
+import { Assignment, Rubric, RubricOverallStats, RubricStat, Submission } from "../types.js";
 import { calculateMedian } from "../rubricUtils.js";
+import { AssignmentSchema, RubricOverallStatsSchema, RubricSchema, RubricStatSchema, SubmissionSchema } from "../outputSchemas.js";
+import { jsonToolResult, toolResult } from "../toolResult.js";
 
 export function registerRubricTools(server: any, canvas: CanvasClient) {
   // Tool: list-rubrics
-  server.tool(
+  server.registerTool(
     "list-rubrics",
-    "List all rubrics for a specific course",
     {
-      courseId: z.string().describe("The ID of the course")
+      description: "List all rubrics for a specific course",
+      inputSchema: {
+        courseId: z.string().describe("The ID of the course")
+      },
+      outputSchema: {
+        rubrics: z.array(RubricSchema)
+      }
     },
     async ({ courseId }: { courseId: string }) => {
       try {
@@ -17,31 +25,27 @@ export function registerRubricTools(server: any, canvas: CanvasClient) {
         const formattedRubrics = rubrics.map((rubric: Rubric) => 
           `Rubric: ${rubric.title}\nID: ${rubric.id}\nDescription: ${rubric.description || 'No description'}\n---`
         ).join('\n');
-        return {
-          content: [
-            {
-              type: "text",
-              text: formattedRubrics || "No rubrics found for this course",
-            },
-          ],
-        };
+        return toolResult(formattedRubrics || "No rubrics found for this course", { rubrics });
       } catch (error) {
-        if (error instanceof Error) {
-          throw new Error(`Failed to fetch rubrics: ${error.message}`);
-        }
-        throw new Error('Failed to fetch rubrics: Unknown error');
+        return toolError('Failed to fetch rubrics', error);
       }
     }
   );
 
   // Tool: get-rubric-statistics
-  server.tool(
+  server.registerTool(
     "get-rubric-statistics",
-    "Get statistics for rubric assessments on an assignment",
     {
-      courseId: z.string().describe("The ID of the course"),
-      assignmentId: z.string().describe("The ID of the assignment"),
-      includePointDistribution: z.boolean().default(true).describe("Whether to include point distribution for each criterion")
+      description: "Get statistics for rubric assessments on an assignment",
+      inputSchema: {
+        courseId: z.string().describe("The ID of the course"),
+        assignmentId: z.string().describe("The ID of the assignment"),
+        includePointDistribution: z.boolean().default(true).describe("Whether to include point distribution for each criterion")
+      },
+      outputSchema: {
+        overall: RubricOverallStatsSchema,
+        criteria: z.array(RubricStatSchema)
+      }
     },
     async ({ courseId, assignmentId, includePointDistribution = true }: { courseId: string; assignmentId: string; includePointDistribution?: boolean }) => {
       try {
@@ -49,7 +53,7 @@ export function registerRubricTools(server: any, canvas: CanvasClient) {
           include: ['rubric']
         }) as any);
         if (!response.rubric) {
-          throw new Error('No rubric found for this assignment');
+          return toolError('Failed to fetch rubric statistics', new Error(`No rubric found for assignment ${assignmentId}`));
         }
 
         const submissions = await canvas.fetchAllPages(
@@ -57,14 +61,12 @@ export function registerRubricTools(server: any, canvas: CanvasClient) {
           // by adding specific fetchAll methods to CanvasClient if desired.
           `/api/v1/courses/${courseId}/assignments/${assignmentId}/submissions`,
           {
-            params: {
-              include: ['rubric_assessment'],
-              per_page: 100
-            }
+            include: ['rubric_assessment'],
+            per_page: 100
           }
         );
 
-        const rubricStats = (response.rubric as any[]).map((criterion: any) => {
+        const rubricStats: RubricStat[] = (response.rubric as any[]).map((criterion: any) => {
           const scores = submissions
             .filter((sub: any) => sub.rubric_assessment?.[criterion.id]?.points !== undefined)
             .map((sub: any) => sub.rubric_assessment[criterion.id].points);
@@ -100,7 +102,7 @@ export function registerRubricTools(server: any, canvas: CanvasClient) {
             return Object.values(sub.rubric_assessment)
               .reduce((sum: number, assessment: any) => sum + (assessment.points || 0), 0);
           });
-        const overallStats = {
+        const overallStats: RubricOverallStats = {
           total_submissions: submissions.length,
           submissions_with_assessment: totalScores.length,
           overall_average: 0,
@@ -145,80 +147,61 @@ export function registerRubricTools(server: any, canvas: CanvasClient) {
             return parts.join('\n');
           })
         ].join('\n');
-        return {
-          content: [
-            {
-              type: "text",
-              text: formattedStats
-            }
-          ]
-        };
-      } catch (error: any) {
-        if (error.response?.status === 404) {
-          throw new Error(`Assignment ${assignmentId} not found in course ${courseId}`);
-        }
-        if (error.response?.errors) {
-          throw new Error(`Failed to fetch rubric statistics: ${JSON.stringify(error.response.errors)}`);
+        return toolResult(formattedStats, { overall: overallStats, criteria: rubricStats });
+      } catch (error) {
+        if (error instanceof CanvasNotFoundError) {
+          return toolError(`Assignment ${assignmentId} not found in course ${courseId}`, error);
         }
-        throw new Error(`Failed to fetch rubric statistics: ${error.message}`);
+        return toolError('Failed to fetch rubric statistics', error);
       }
     }
   );
 
   // Tool: list-rubric-assessments
-  server.tool(
+  server.registerTool(
     "list-rubric-assessments",
-    "List all rubric assessments for an assignment.",
     {
-      courseId: z.string().describe("The ID of the course"),
-      assignmentId: z.string().describe("The ID of the assignment"),
-      anonymous: z.boolean().default(true).describe("Whether to anonymize student names and emails (default: true for privacy)")
+      description: "List all rubric assessments for an assignment.",
+      inputSchema: {
+        courseId: z.string().describe("The ID of the course"),
+        assignmentId: z.string().describe("The ID of the assignment"),
+        anonymous: z.boolean().default(true).describe("Whether to anonymize student names and emails (default: true for privacy; always on when the server replaces student ids with pseudonym ids)")
+      },
+      outputSchema: {
+        assessments: z.array(SubmissionSchema).describe("Submissions, with their rubric_assessment")
+      }
     },
     async ({ courseId, assignmentId, anonymous = true }: { courseId: string; assignmentId: string; anonymous?: boolean }) => {
       try {
-        const rubricAssessments = (await canvas.listRubricAssessments(courseId, assignmentId, { 'include[]': 'rubric_assessment' }, { anonymous }) as any[]);
-        return {
-          content: [
-            {
-              type: "text",
-              text: JSON.stringify(rubricAssessments, null, 2)
-            }
-          ]
-        };
-      } catch (error: any) {
-        if (error instanceof Error) {
-          throw new Error(`Failed to fetch rubric assessments: ${error.message}`);
-        }
-        throw new Error('Failed to fetch rubric assessments: Unknown error');
+        const assessments = (await canvas.listRubricAssessments(courseId, assignmentId, { 'include[]': 'rubric_assessment' }, { anonymous }) as any[]) as Submission[];
+        const assessed = assessments.filter(submission => submission.rubric_assessment).length;
+        return jsonToolResult(`${assessed} of ${assessments.length} submissions to assignment ${assignmentId} have a rubric assessment`, { assessments });
+      } catch (error) {
+        return toolError('Failed to fetch rubric assessments', error);
       }
     }
   );
 
   // Tool: attach-rubric-to-assignment
-  server.tool(
+  server.registerTool(
     "attach-rubric-to-assignment",
-    "Attach a rubric to an assignment.",
     {
-      courseId: z.string().describe("The ID of the course"),
-      assignmentId: z.string().describe("The ID of the assignment"),
-      rubricId: z.string().describe("The ID of the rubric to attach")
+      description: "Attach a rubric to an assignment.",
+      inputSchema: {
+        courseId: z.string().describe("The ID of the course"),
+        assignmentId: z.string().describe("The ID of the assignment"),
+        rubricId: z.string().describe("The ID of the rubric to attach")
+      },
+      outputSchema: {
+        assignment: AssignmentSchema
+      }
     },
     async ({ courseId, assignmentId, rubricId }: { courseId: string; assignmentId: string; rubricId: string }) => {
       try {
-        const result = await canvas.attachRubricToAssignment(courseId, assignmentId, rubricId);
-        return {
-          content: [
-            {
-              type: "text",
-              text: JSON.stringify(result, null, 2)
-            }
-          ]
-        };
-      } catch (error: any) {
-        if (error instanceof Error) {
-          throw new Error(`Failed to attach rubric: ${error.message}`);
-        }
-        throw new Error('Failed to attach rubric: Unknown error');
+        const assignment = (await canvas.attachRubricToAssignment(courseId, assignmentId, rubricId) as any) as Assignment;
+        return jsonToolResult(`Attached rubric ${rubricId} to assignment ${assignmentId}`, { assignment });
+      } catch (error) {
+        return toolError('Failed to attach rubric', error);
       }
     }
   );
@@ -1,31 +1,31 @@
 import { z } from "zod";
 import { CanvasClient } from "../canvasClient.js";
+import { toolError } from "../errors.js";
+import { Section } from "../types.js";
+import { SectionSchema, SubmissionSchema } from "../outputSchemas.js";
+import { toolResult } from "../toolResult.js";
 
 export function registerSectionTools(server: any, canvas: CanvasClient) {
   // Tool: list-sections
-  server.tool(
+  server.registerTool(
     "list-sections",
-    "Get a list of all sections in a course",
     {
-      courseId: z.string().describe("The ID of the course"),
-      includeStudentCount: z.boolean().default(false).describe("Whether to include the number of students in each section")
+      description: "Get a list of all sections in a course",
+      inputSchema: {
+        courseId: z.string().describe("The ID of the course"),
+        includeStudentCount: z.boolean().default(false).describe("Whether to include the number of students in each section")
+      },
+      outputSchema: {
+        sections: z.array(SectionSchema)
+      }
     },
     async ({ courseId, includeStudentCount = false }: { courseId: string; includeStudentCount?: boolean }) => {
-      let sections: any[] = [];
-      let page = 1;
-      let hasMore = true;
       try {
-        while (hasMore) {
-          const params: any = {
-            per_page: 100,
-            page: page,
-            include: includeStudentCount ? ['total_students'] : []
-          };
-          const pageSections = (await canvas.listSections(courseId, params) as any[]);
-          sections.push(...pageSections);
-          hasMore = pageSections.length === 100;
-          page += 1;
-        }
+        const params: any = {
+          per_page: 100,
+          include: includeStudentCount ? ['total_students'] : []
+        };
+        const sections = (await canvas.listSections(courseId, params) as any[]) as Section[];
         const formattedSections = sections
           .map(section => {
             const parts = [
@@ -48,58 +48,47 @@ export function registerSectionTools(server: any, canvas: CanvasClient) {
             return parts.join('\n');
           })
           .join('\n---\n');
-        return {
-          content: [
-            {
-              type: "text",
-              text: sections.length > 0
-                ? `Sections in course ${courseId}:\n\n${formattedSections}\n\nTotal sections: ${sections.length}`
-                : "No sections found in this course.",
-            },
-          ],
-        };
-      } catch (error: any) {
-        if (error instanceof Error) {
-          throw new Error(`Failed to fetch sections: ${error.message}`);
-        }
-        throw new Error('Failed to fetch sections: Unknown error');
+        return toolResult(
+          sections.length > 0
+            ? `Sections in course ${courseId}:\n\n${formattedSections}\n\nTotal sections: ${sections.length}`
+            : "No sections found in this course.",
+          { sections }
+        );
+      } catch (error) {
+        return toolError('Failed to fetch sections', error);
       }
     }
   );
 
   // Tool: list-section-submissions
-  server.tool(
+  server.registerTool(
     "list-section-submissions",
-    "Get all student submissions for a specific assignment filtered by section",
     {
-      courseId: z.string().describe("The ID of the course"),
-      assignmentId: z.string().describe("The ID of the assignment"),
-      sectionId: z.string().describe("The ID of the section"),
-      includeComments: z.boolean().default(true).describe("Whether to include submission comments"),
-      anonymous: z.boolean().default(true).describe("Whether to anonymize student names and emails (default: true for privacy)")
+      description: "Get all student submissions for a specific assignment filtered by section",
+      inputSchema: {
+        courseId: z.string().describe("The ID of the course"),
+        assignmentId: z.string().describe("The ID of the assignment"),
+        sectionId: z.string().describe("The ID of the section"),
+        includeComments: z.boolean().default(true).describe("Whether to include submission comments"),
+        anonymous: z.boolean().default(true).describe("Whether to anonymize student names and emails (default: true for privacy; always on when the server replaces student ids with pseudonym ids)")
+      },
+      outputSchema: {
+        submissions: z.array(SubmissionSchema)
+      }
     },
     async ({ courseId, assignmentId, sectionId, includeComments = true, anonymous = true }: { courseId: string; assignmentId: string; sectionId: string; includeComments?: boolean; anonymous?: boolean }) => {
-      let submissions: any[] = [];
-      let page = 1;
-      let hasMore = true;
       try {
         await canvas.getSection(courseId, sectionId);
 
-        while (hasMore) {
-          const params: any = {
-            per_page: 100,
-            page: page,
-            include: [
-              'user',
-              'submission_comments',
-              'assignment'
-            ]
-          };
-          const pageSubmissions = (await canvas.listSectionAssignmentSubmissions(sectionId, assignmentId, params, { anonymous }) as any[]);
-          submissions.push(...pageSubmissions);
-          hasMore = pageSubmissions.length === 100;
-          page += 1;
-        }
+        const params: any = {
+          per_page: 100,
+          include: [
+            'user',
+            'submission_comments',
+            'assignment'
+          ]
+        };
+        const submissions = (await canvas.listSectionAssignmentSubmissions(courseId, sectionId, assignmentId, params, { anonymous }) as any[]);
         const formattedSubmissions = submissions
           .map(submission => {
             const parts = [
@@ -131,21 +120,14 @@ export function registerSectionTools(server: any, canvas: CanvasClient) {
             return parts.join('\n');
           })
           .join('\n---\n');
-        return {
-          content: [
-            {
-              type: "text",
-              text: submissions.length > 0
-                ? `Submissions for assignment ${assignmentId} in section ${sectionId}:\n\n${formattedSubmissions}\n\nTotal submissions: ${submissions.length}`
-                : "No submissions found for this assignment in this section.",
-            },
-          ],
-        };
-      } catch (error: any) {
-        if (error instanceof Error) {
-          throw new Error(`Failed to fetch section submissions: ${error.message}`);
-        }
-        throw new Error('Failed to fetch section submissions: Unknown error');
+        return toolResult(
+          submissions.length > 0
+            ? `Submissions for assignment ${assignmentId} in section ${sectionId}:\n\n${formattedSubmissions}\n\nTotal submissions: ${submissions.length}`
+            : "No submissions found for this assignment in this section.",
+          { submissions }
+        );
+      } catch (error) {
+        return toolError('Failed to fetch section submissions', error);
       }
     }
   );
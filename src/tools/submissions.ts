@@ -1,48 +1,64 @@
 import { z } from "zod";
 import { CanvasClient } from "../canvasClient.js";
+import { toolError } from "../errors.js";
+import { CanvasFile, FileContent, Submission, SubmissionDocuments } from "../types.js";
+import { CanvasFileSchema, FileContentSchema, SubmissionDocumentsSchema, SubmissionSchema } from "../outputSchemas.js";
+import { jsonToolResult } from "../toolResult.js";
+import { isTextContentType } from "../textExtraction.js";
+
+// e.g. "12 submissions: 10 submitted, 8 graded, 2 late, 1 missing"
+function summarizeSubmissions(submissions: Submission[]): string {
+  const count = (test: (submission: Submission) => unknown) => submissions.filter(test).length;
+  return `${submissions.length} submission${submissions.length === 1 ? '' : 's'}: ${[
+    `${count(submission => submission.submitted_at)} submitted`,
+    `${count(submission => submission.workflow_state === 'graded')} graded`,
+    `${count(submission => submission.late)} late`,
+    `${count(submission => submission.missing)} missing`
+  ].join(', ')}`;
+}
 
 export function registerSubmissionTools(server: any, canvas: CanvasClient) {
   // Tool: list-assignment-submissions
-  server.tool(
+  server.registerTool(
     "list-assignment-submissions",
-    "Fetch every student's submission status & comments for an assignment.",
     {
-      courseId: z.string().describe("The ID of the course"),
-      assignmentId: z.string().describe("The ID of the assignment"),
-      anonymous: z.boolean().default(true).describe("Whether to anonymize student names and emails (default: true for privacy)")
+      description: "Fetch every student's submission status & comments for an assignment.",
+      inputSchema: {
+        courseId: z.string().describe("The ID of the course"),
+        assignmentId: z.string().describe("The ID of the assignment"),
+        anonymous: z.boolean().default(true).describe("Whether to anonymize student names and emails (default: true for privacy; always on when the server replaces student ids with pseudonym ids)")
+      },
+      outputSchema: {
+        submissions: z.array(SubmissionSchema)
+      }
     },
     async ({ courseId, assignmentId, anonymous = true }: { courseId: string; assignmentId: string; anonymous?: boolean }) => {
       try {
-        const response = await canvas.listAssignmentSubmissions(courseId, assignmentId, {}, { anonymous });
-        return {
-          content: [
-            {
-              type: "text",
-              text: JSON.stringify(response, null, 2)
-            }
-          ]
-        };
-      } catch (error: any) {
-        if (error instanceof Error) {
-          throw new Error(`Failed to fetch assignment submissions: ${error.message}`);
-        }
-        throw new Error('Failed to fetch assignment submissions: Unknown error');
+        const submissions = (await canvas.listAssignmentSubmissions(courseId, assignmentId, {}, { anonymous }) as any[]) as Submission[];
+        return jsonToolResult(summarizeSubmissions(submissions), { submissions });
+      } catch (error) {
+        return toolError('Failed to fetch assignment submissions', error);
       }
     }
   );
 
   // Tool: grade-submission
-  server.tool(
+  server.registerTool(
     "grade-submission",
-    "Write back a score, grade, rubric points, or comment for a student's submission.",
     {
-      courseId: z.string().describe("The ID of the course"),
-      assignmentId: z.string().describe("The ID of the assignment"),
-      userId: z.string().describe("The ID of the student/user"),
-      posted_grade: z.string().optional(),
-      score: z.number().optional(),
-      rubric_assessment: z.any().optional(),
-      comment: z.string().optional()
+      description: "Write back a score, grade, rubric points, or comment for a student's submission.",
+      inputSchema: {
+        courseId: z.string().describe("The ID of the course"),
+        assignmentId: z.string().describe("The ID of the assignment"),
+        userId: z.string().describe("The ID of the student/user, or their pseudonym ID (e.g. student-3) from anonymized results"),
+        posted_grade: z.string().optional(),
+        score: z.number().optional(),
+        rubric_assessment: z.any().optional(),
+        comment: z.string().optional()
+      },
+      outputSchema: {
+        submission: SubmissionSchema
+      }
     },
     async ({ courseId, assignmentId, userId, posted_grade, score, rubric_assessment, comment }: { courseId: string; assignmentId: string; userId: string; posted_grade?: string; score?: number; rubric_assessment?: any; comment?: string }) => {
       try {
@@ -51,71 +67,52 @@ export function registerSubmissionTools(server: any, canvas: CanvasClient) {
         if (score !== undefined) payload.score = score;
         if (rubric_assessment !== undefined) payload.rubric_assessment = rubric_assessment;
         if (comment !== undefined) payload.comment = { text_comment: comment };
-        const response = await canvas.gradeSubmission(courseId, assignmentId, userId, payload);
-        return {
-          content: [
-            {
-              type: "text",
-              text: JSON.stringify(response, null, 2)
-            }
-          ]
-        };
-      } catch (error: any) {
-        if (error instanceof Error) {
-          throw new Error(`Failed to grade submission: ${error.message}`);
-        }
-        throw new Error('Failed to grade submission: Unknown error');
+        const submission = (await canvas.gradeSubmission(courseId, assignmentId, userId, payload) as any) as Submission;
+        return jsonToolResult(`Graded the submission of ${userId} to assignment ${assignmentId}: ${submission.grade ?? 'no grade'}`, { submission });
+      } catch (error) {
+        return toolError('Failed to grade submission', error);
       }
     }
   );
 
   // Tool: post-submission-comment
-  server.tool(
+  server.registerTool(
     "post-submission-comment",
-    "Attach targeted feedback as a comment on a student's submission.",
     {
-      courseId: z.string().describe("The ID of the course"),
-      assignmentId: z.string().describe("The ID of the assignment"),
-      userId: z.string().describe("The ID of the student/user"),
-      comment: z.string().describe("The comment text to post")
+      description: "Attach targeted feedback as a comment on a student's submission.",
+      inputSchema: {
+        courseId: z.string().describe("The ID of the course"),
+        assignmentId: z.string().describe("The ID of the assignment"),
+        userId: z.string().describe("The ID of the student/user, or their pseudonym ID (e.g. student-3) from anonymized results"),
+        comment: z.string().describe("The comment text to post")
+      },
+      outputSchema: {
+        submission: SubmissionSchema
+      }
     },
     async ({ courseId, assignmentId, userId, comment }: { courseId: string; assignmentId: string; userId: string; comment: string }) => {
       try {
-        // Note: A specific client method for this could be added to CanvasClient
-        // For now, using the generic put method directly as the endpoint structure is slightly different.
-        const response = await canvas.put(
-          `/api/v1/courses/${courseId}/assignments/${assignmentId}/submissions/${userId}/comments`,
-          { comment: { text_comment: comment } }
-        );
-        return {
-          content: [
-            {
-              type: "text",
-              text: JSON.stringify(response, null, 2)
-            }
-          ]
-        };
-      } catch (error: any) {
-        if (error instanceof Error) {
-          throw new Error(`Failed to post submission comment: ${error.message}`);
-        }
-        throw new Error('Failed to post submission comment: Unknown error');
+        const submission = (await canvas.postSubmissionComment(courseId, assignmentId, userId, comment) as any) as Submission;
+        return jsonToolResult(`Commented on the submission of ${userId} to assignment ${assignmentId}`, { submission });
+      } catch (error) {
+        return toolError('Failed to post submission comment', error);
       }
     }
   );
 
   // Tool: get-submission-documents
-
-  // Tool: get-submission-documents
-  server.tool(
+  server.registerTool(
     "get-submission-documents",
-    "Retrieve a student's submission with attachment metadata and optional file downloads. Returns submission details, file information, and optionally the actual file content.",
     {
-      courseId: z.string().describe("The ID of the course"),
-      assignmentId: z.string().describe("The ID of the assignment"),
-      userId: z.string().describe("The ID of the student/user"),
-      downloadFiles: z.boolean().default(false).describe("Whether to download the actual file content (default: false, only returns metadata)"),
-      anonymous: z.boolean().default(true).describe("Whether to anonymize student information (default: true for privacy)")
+      description: "Retrieve a student's submission with attachment metadata and optional file downloads. Returns submission details, file information, and optionally the actual file content. Attachments over the download limits are listed with the reason they were skipped.",
+      inputSchema: {
+        courseId: z.string().describe("The ID of the course"),
+        assignmentId: z.string().describe("The ID of the assignment"),
+        userId: z.string().describe("The ID of the student/user, or their pseudonym ID (e.g. student-3) from anonymized results"),
+        downloadFiles: z.boolean().default(false).describe("Whether to download the actual file content (default: false, only returns metadata)"),
+        anonymous: z.boolean().default(true).describe("Whether to anonymize student information (default: true for privacy; always on when the server replaces student ids with pseudonym ids)")
+      },
+      outputSchema: SubmissionDocumentsSchema.shape
     },
     async ({ courseId, assignmentId, userId, downloadFiles = false, anonymous = true }: { 
       courseId: string; 
@@ -131,10 +128,10 @@ export function registerSubmissionTools(server: any, canvas: CanvasClient) {
         });
         
         // Format the response nicely
-        const response = {
+        const response: SubmissionDocuments = {
           submission: {
             id: result.submission.id,
-            user_id: anonymous ? '[ANONYMIZED]' : result.submission.user_id,
+            user_id: canvas.anonymizes({ anonymous }) ? '[ANONYMIZED]' : result.submission.user_id,
             assignment_id: result.submission.assignment_id,
             submission_type: result.submission.submission_type,
             workflow_state: result.submission.workflow_state,
@@ -147,7 +144,7 @@ export function registerSubmissionTools(server: any, canvas: CanvasClient) {
           attachments: result.attachments.map((attachment: any) => ({
             id: attachment.id,
             filename: attachment.filename || attachment.display_name,
-            content_type: attachment.content_type,
+            content_type: attachment['content-type'],
             size: attachment.size,
             url: downloadFiles ? '[DOWNLOADED_BELOW]' : attachment.url,
             created_at: attachment.created_at
@@ -158,75 +155,120 @@ export function registerSubmissionTools(server: any, canvas: CanvasClient) {
             content_type: file.contentType,
             size: file.size,
             // Only include base64 data for small files or text files
-            has_content: !!file.data,
-            content_base64: (file.contentType?.includes('text') || file.size < 1024 * 100) // < 100KB
-              ? file.dataBase64 
-              : '[FILE_TOO_LARGE_FOR_DISPLAY]',
+            has_content: !!(file.dataBase64 || file.text),
+            content_base64: isTextContentType(file.contentType)
+              ? file.dataBase64
+              : file.text !== undefined
+                ? '[EXTRACTED_AS_TEXT]'
+                : file.size < 1024 * 100 // < 100KB
+                  ? file.dataBase64
+                  : '[FILE_TOO_LARGE_FOR_DISPLAY]',
+            truncated: file.truncated,
+            skipped: file.skipped,
+            text: file.text,
+            text_format: file.textFormat,
+            text_truncated: file.textTruncated,
+            extraction_error: file.extractionError,
             error: file.error
           })) : []
         };
 
-        return {
-          content: [
-            {
-              type: "text",
-              text: JSON.stringify(response, null, 2)
-            }
-          ]
-        };
-      } catch (error: any) {
-        if (error instanceof Error) {
-          throw new Error(`Failed to fetch submission documents: ${error.message}`);
-        }
-        throw new Error('Failed to fetch submission documents: Unknown error');
+        const files = response.downloaded_files;
+        return jsonToolResult(
+          `Submission ${response.submission.id} (${response.submission.workflow_state}) with ${response.attachments.length} attachment${response.attachments.length === 1 ? '' : 's'}` +
+            (downloadFiles ? `, ${files.filter(file => file.has_content).length} downloaded` : ''),
+          response
+        );
+      } catch (error) {
+        return toolError('Failed to fetch submission documents', error);
       }
     }
   );
 
   // Tool: get-submission-file-info
-  server.tool(
+  server.registerTool(
     "get-submission-file-info",
-    "Get detailed information about a specific file attached to a submission, including download URLs and metadata.",
     {
-      fileId: z.string().describe("The ID of the file to retrieve information for")
+      description: "Get detailed information about a specific file attached to a submission, including download URLs and metadata.",
+      inputSchema: {
+        courseId: z.string().describe("The course the file was submitted to, whose students' names are redacted from the filename"),
+        fileId: z.string().describe("The ID of the file to retrieve information for"),
+        anonymous: z.boolean().default(true).describe("Whether to redact student names from the filename (default: true for privacy; always on when the server replaces student ids with pseudonym ids)")
+      },
+      outputSchema: {
+        file: CanvasFileSchema
+      }
     },
-    async ({ fileId }: { fileId: string }) => {
+    async ({ courseId, fileId, anonymous = true }: { courseId: string; fileId: string; anonymous?: boolean }) => {
       try {
-        const fileInfo = await canvas.getFileInfo(fileId);
-        return {
-          content: [
-            {
-              type: "text",
-              text: JSON.stringify(fileInfo, null, 2)
-            }
-          ]
-        };
-      } catch (error: any) {
-        if (error instanceof Error) {
-          throw new Error(`Failed to fetch file information: ${error.message}`);
+        const file = (await canvas.getFileInfo(fileId)) as CanvasFile;
+        // Students often put their names in the filenames of what they hand in
+        if (canvas.anonymizes({ anonymous })) {
+          for (const field of ['filename', 'display_name'] as const) {
+            if (file[field]) file[field] = await canvas.redactStudentText(courseId, file[field], 'filename');
+          }
         }
-        throw new Error('Failed to fetch file information: Unknown error');
+        return jsonToolResult(`File ${file.id}: ${file.display_name || file.filename} (${file['content-type']}, ${file.size} bytes)`, { file });
+      } catch (error) {
+        return toolError('Failed to fetch file information', error);
       }
     }
   );
 
   // Tool: download-submission-file
-  server.tool(
+  server.registerTool(
     "download-submission-file",
-    "Download the actual content of a file attached to a submission. Returns file content as base64 for binary files or as text for text files.",
     {
-      fileId: z.string().describe("The ID of the file to download"),
-      forceBase64: z.boolean().default(false).describe("Force return content as base64 even for text files (default: false)")
+      description: "Download the actual content of a file attached to a submission. Returns text for text files and readable text extracted from PDF, Word, PowerPoint, Excel, OpenDocument, HTML, Markdown and zip files (with page, slide, sheet and file markers), and base64 for other binary files.",
+      inputSchema: {
+        fileId: z.string().describe("The ID of the file to download"),
+        forceBase64: z.boolean().default(false).describe("Force return content as base64 even for text files (default: false)"),
+        extractText: z.boolean().default(true).describe("Extract readable text from documents and archives instead of returning them as base64 (default: true)"),
+        courseId: z.string().describe("The course the file was submitted to; its students' names, emails and ids are replaced with pseudonyms in text content and the filename"),
+        anonymous: z.boolean().default(true).describe("Whether to redact student names, emails and ids (default: true for privacy; always on when the server replaces student ids with pseudonym ids)")
+      },
+      outputSchema: FileContentSchema.shape
     },
-    async ({ fileId, forceBase64 = false }: { fileId: string; forceBase64?: boolean }) => {
+    async ({ fileId, forceBase64 = false, extractText = true, courseId, anonymous = true }: { fileId: string; forceBase64?: boolean; extractText?: boolean; courseId: string; anonymous?: boolean }) => {
       try {
         const fileData = await canvas.downloadFile(fileId);
+        const redact = canvas.anonymizes({ anonymous });
+
+        let extractionError: string | undefined;
+        if (!forceBase64 && extractText && !isTextContentType(fileData.contentType)) {
+          try {
+            const extracted = await canvas.extractFileText(fileData, redact ? courseId : undefined);
+            if (extracted) {
+              const filename = redact ? await canvas.redactStudentText(courseId, fileData.filename, 'filename') : fileData.filename;
+              return jsonToolResult(`Text of ${filename}, extracted from ${extracted.format}`, {
+                filename,
+                content_type: fileData.contentType,
+                content_encoding: 'text',
+                extracted_from: extracted.format,
+                size: fileData.size,
+                truncated: extracted.truncated,
+                total_chars: extracted.totalChars,
+                content: extracted.text
+              } satisfies FileContent);
+            }
+          } catch (error) {
+            // Unreadable documents still download, as base64
+            extractionError = error instanceof Error ? error.message : String(error);
+          }
+        }
+
+        if (redact) {
+          fileData.filename = await canvas.redactStudentText(courseId, fileData.filename, 'filename');
+          if (!forceBase64 && isTextContentType(fileData.contentType)) {
+            fileData.data = Buffer.from(await canvas.redactStudentText(courseId, Buffer.from(fileData.data).toString('utf-8')), 'utf-8');
+          }
+        }
         
         let content: string;
-        let contentType = 'base64';
+        let contentType: FileContent['content_encoding'] = 'base64';
         
         // For text files, try to decode as text unless forceBase64 is true
-        if (!forceBase64 && fileData.contentType.includes('text')) {
+        if (!forceBase64 && isTextContentType(fileData.contentType)) {
           try {
             content = Buffer.from(fileData.data).toString('utf-8');
             contentType = 'text';
@@ -240,27 +282,19 @@ export function registerSubmissionTools(server: any, canvas: CanvasClient) {
           contentType = 'base64';
         }
 
-        const response = {
+        const response: FileContent = {
           filename: fileData.filename,
           content_type: fileData.contentType,
           content_encoding: contentType,
-          size: fileData.data.byteLength,
-          content: content
+          size: fileData.size,
+          truncated: fileData.truncated || undefined,
+          content: content,
+          extraction_error: extractionError
         };
 
-        return {
-          content: [
-            {
-              type: "text",
-              text: JSON.stringify(response, null, 2)
-            }
-          ]
-        };
-      } catch (error: any) {
-        if (error instanceof Error) {
-          throw new Error(`Failed to download file: ${error.message}`);
-        }
-        throw new Error('Failed to download file: Unknown error');
+        return jsonToolResult(`${fileData.filename} (${fileData.contentType}, ${fileData.size} bytes) as ${contentType}`, response);
+      } catch (error) {
+        return toolError('Failed to download file', error);
       }
     }
   );
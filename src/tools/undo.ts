@@ -0,0 +1,79 @@
+import { z } from "zod";
+import { CanvasClient } from "../canvasClient.js";
+import { toolError } from "../errors.js";
+import { UndoableChange } from "../undoJournal.js";
+import { UndoableChangeSchema } from "../outputSchemas.js";
+import { toolResult } from "../toolResult.js";
+
+const formatValue = (value: unknown) => value === undefined || value === null ? '(none)' : JSON.stringify(value);
+
+function formatChange(change: UndoableChange): string {
+  const lines = [`${change.id}: ${change.tool} at ${change.timestamp}`];
+  for (const resource of change.resources) {
+    lines.push(`  ${resource.path}`);
+    for (const [field, before] of Object.entries(resource.before)) {
+      lines.push(`    ${field}: ${formatValue(resource.after[field])} → ${formatValue(before)}`);
+    }
+  }
+  return lines.join('\n');
+}
+
+export function registerUndoTools(server: any, canvas: CanvasClient) {
+  // Tool: list-undoable-changes
+  server.registerTool(
+    "list-undoable-changes",
+    {
+      description: "List this session's changes from update-assignment, update-quiz, update-quiz-question, bulk-update-assignment-dates and toggle-module-publish that undo-change can restore, most recent first.",
+      inputSchema: {},
+      outputSchema: {
+        changes: z.array(UndoableChangeSchema)
+      }
+    },
+    async () => {
+      const changes = canvas.undoJournal.list();
+      return toolResult(
+        changes.length > 0
+          ? `Undoable changes (each field shows current → restored value):\n\n${changes.map(formatChange).join('\n\n')}`
+          : "No undoable changes in this session.",
+        { changes }
+      );
+    }
+  );
+
+  // Tool: undo-change
+  server.registerTool(
+    "undo-change",
+    {
+      description: "Restore the fields an earlier change overwrote. Refuses, listing the conflicting fields, if Canvas has changed them since.",
+      inputSchema: {
+        changeId: z.string().describe("The change ID from list-undoable-changes, e.g. change-3")
+      },
+      outputSchema: {
+        status: z.literal("undone"),
+        change: UndoableChangeSchema
+      }
+    },
+    async ({ changeId }: { changeId: string }) => {
+      try {
+        const result = await canvas.undoChange(changeId);
+        if (result.status === 'conflict') {
+          const conflicts = result.conflicts.map(conflict =>
+            `  ${conflict.path} ${conflict.field}: expected ${formatValue(conflict.expected)}, Canvas now has ${formatValue(conflict.actual)}`
+          );
+          return {
+            content: [
+              {
+                type: "text",
+                text: `Refusing to undo ${changeId}: Canvas has changed since the snapshot, and undoing would overwrite these changes:\n${conflicts.join('\n')}`
+              }
+            ],
+            isError: true
+          };
+        }
+        return toolResult(`Undid ${changeId} (${result.change.tool}).\n\n${formatChange(result.change)}`, { status: result.status, change: result.change });
+      } catch (error) {
+        return toolError('Failed to undo change', error);
+      }
+    }
+  );
+}
@@ -3,6 +3,19 @@ export interface CanvasConfig {
   baseUrl: string;
 }
 
+// Source of Canvas access tokens for a CanvasClient (e.g. an OAuth login that can be refreshed)
+export interface CanvasCredentials {
+  // Stable identity of whoever the tokens belong to, used to share cached responses safely
+  id?: string;
+  getAccessToken(): Promise<string>;
+  // Called once when Canvas rejects the current token with a 401
+  refreshAccessToken?(): Promise<string>;
+}
+
+// Canvas ids are numbers, but show up as strings too: pseudonym ids like "student-3",
+// "dry-run" for resources a dry run would create, and ids from APIs with string ids enabled
+export type CanvasId = number | string;
+
 export interface Term {
   id: number;
   name: string;
@@ -19,14 +32,159 @@ export interface Course {
 }
 
 export interface Rubric {
-  id: string;
+  id: CanvasId;
+  title: string;
+  description?: string | null;
+}
+
+// A student as list-students returns them, after anonymization when that is on
+export interface Student {
+  id: CanvasId;
+  name: string;
+  sortable_name?: string | null;
+  email?: string | null;
+  sis_user_id?: string | null;
+  avatar_url?: string | null;
+}
+
+export interface Announcement {
+  id: CanvasId;
   title: string;
-  description?: string;
+  message?: string | null;
+  posted_at?: string | null;
+  html_url?: string | null;
+}
+
+export interface Section {
+  id: CanvasId;
+  name: string;
+  course_id?: CanvasId | null;
+  sis_section_id?: string | null;
+  start_at?: string | null;
+  end_at?: string | null;
+  total_students?: number | null;
+  restrict_enrollments_to_section_dates?: boolean | null;
+}
+
+export interface RubricCriterion {
+  id: string;
+  description?: string | null;
+  points?: number | null;
+}
+
+export interface Assignment {
+  id: CanvasId;
+  name?: string | null;
+  description?: string | null;
+  due_at?: string | null;
+  unlock_at?: string | null;
+  lock_at?: string | null;
+  points_possible?: number | null;
+  published?: boolean | null;
+  grading_type?: string | null;
+  submission_types?: string[] | null;
+  assignment_group_id?: CanvasId | null;
+  html_url?: string | null;
+  rubric?: RubricCriterion[] | null;
+  // With list-assignments' studentId: that student's submission
+  submission?: Submission | null;
+}
+
+export interface AssignmentGroup {
+  id: CanvasId;
+  name?: string | null;
+  position?: number | null;
+  group_weight?: number | null;
+}
+
+// Canvas' handle for background jobs such as bulk date updates
+export interface Progress {
+  id: CanvasId;
+  workflow_state: string;
+  tag?: string | null;
+  completion?: number | null;
+  url?: string | null;
+}
+
+export interface ModuleItem {
+  id: CanvasId;
+  type: string;
+  title?: string | null;
+  position?: number | null;
+  published?: boolean | null;
+  page_url?: string | null;
+  url?: string | null;
+  content_id?: CanvasId | null;
+}
+
+export interface Module {
+  id: CanvasId;
+  name: string;
+  position?: number | null;
+  published?: boolean | null;
+  items?: ModuleItem[] | null;
+}
+
+export interface Page {
+  url: string;
+  title?: string | null;
+  page_id?: CanvasId | null;
+  body?: string | null;
+  published?: boolean | null;
+  updated_at?: string | null;
+  editing_roles?: string | null;
+}
+
+export interface PageRevision {
+  id?: CanvasId | null;
+  revision_id?: CanvasId | null;
+  updated_at?: string | null;
+  edited_by?: { id?: CanvasId | null; display_name?: string | null } | null;
+  title?: string | null;
+  body?: string | null;
+}
+
+export interface Quiz {
+  id: CanvasId;
+  title?: string | null;
+  description?: string | null;
+  quiz_type?: string | null;
+  due_at?: string | null;
+  points_possible?: number | null;
+  published?: boolean | null;
+  question_count?: number | null;
+}
+
+export interface QuizQuestion {
+  id: CanvasId;
+  quiz_id?: CanvasId | null;
+  question_name?: string | null;
+  question_text?: string | null;
+  question_type?: string | null;
+  points_possible?: number | null;
+  answers?: unknown[] | null;
+}
+
+export interface QuizGroup {
+  id: CanvasId;
+  quiz_id?: CanvasId | null;
+  name?: string | null;
+  pick_count?: number | null;
+  question_points?: number | null;
+}
+
+export interface SubmissionComment {
+  id?: CanvasId | null;
+  comment?: string | null;
+  created_at?: string | null;
+  author_id?: CanvasId | null;
+  author_name?: string | null;
+  author?: { id?: CanvasId | null; display_name?: string | null; role?: string | null } | null;
 }
 
 export interface RubricStat {
   id: string;
-  description: string;
+  description?: string | null;
   points_possible: number;
   total_assessments: number;
   average_score: number;
@@ -36,15 +194,26 @@ export interface RubricStat {
   point_distribution?: { [key: number]: number };
 }
 
+// Totals across all criteria for get-rubric-statistics
+export interface RubricOverallStats {
+  total_submissions: number;
+  submissions_with_assessment: number;
+  overall_average: number;
+  overall_median: number;
+  overall_min: number;
+  overall_max: number;
+}
+
+// A file as the Files API and submission attachments return it; Canvas spells the MIME type 'content-type'
 export interface CanvasFile {
-  id: string;
-  filename: string;
-  display_name: string;
-  content_type: string;
-  size: number;
-  url: string;
-  created_at: string;
-  updated_at: string;
+  id: CanvasId;
+  filename?: string | null;
+  display_name?: string | null;
+  'content-type'?: string | null;
+  size?: number | null;
+  url?: string | null;
+  created_at?: string | null;
+  updated_at?: string | null;
 }
 
 export interface SubmissionAttachment extends CanvasFile {
@@ -52,18 +221,22 @@ export interface SubmissionAttachment extends CanvasFile {
 }
 
 export interface Submission {
-  id: string;
-  user_id: string;
-  assignment_id: string;
-  body?: string; // For text submissions
-  submission_type: 'online_text_entry' | 'online_upload' | 'online_url' | 'media_recording' | null;
-  workflow_state: string;
-  grade?: string;
-  score?: number;
-  submitted_at?: string;
-  attachments?: SubmissionAttachment[];
-  submission_comments?: any[];
-  attempt?: number;
+  id?: CanvasId | null;
+  user_id?: CanvasId | null;
+  assignment_id?: CanvasId | null;
+  body?: string | null; // For text submissions
+  submission_type?: 'online_text_entry' | 'online_upload' | 'online_url' | 'media_recording' | string | null;
+  workflow_state?: string | null;
+  grade?: string | null;
+  score?: number | null;
+  submitted_at?: string | null;
+  late?: boolean | null;
+  missing?: boolean | null;
+  attachments?: SubmissionAttachment[] | null;
+  submission_comments?: SubmissionComment[] | null;
+  rubric_assessment?: Record<string, { points?: number | null; comments?: string | null }> | null;
+  user?: { id?: CanvasId | null; name?: string | null } | null;
+  attempt?: number | null;
 }
 
 export interface SubmissionDocumentResult {
@@ -74,12 +247,68 @@ export interface SubmissionDocumentResult {
   downloadedFiles: DownloadedFile[];
 }
 
+// A file's content as downloaded by CanvasClient.downloadFile
+export interface DownloadedContent {
+  data: Buffer;
+  contentType: string;
+  filename: string;
+  size: number; // Full size of the file, even when only part of it was downloaded
+  truncated: boolean; // Whether only the first CANVAS_DOWNLOAD_MAX_BYTES were downloaded
+}
+
+// get-submission-documents' view of a submission and its files, as tools return it
+export interface SubmissionDocuments {
+  submission: Pick<Submission, 'id' | 'user_id' | 'assignment_id' | 'submission_type' | 'workflow_state' | 'submitted_at' | 'grade' | 'score' | 'attempt'>;
+  text_content?: string | null;
+  attachments: Array<{
+    id: CanvasId;
+    filename?: string | null;
+    content_type?: string | null;
+    size?: number | null;
+    url?: string | null; // '[DOWNLOADED_BELOW]' when the file content is included
+    created_at?: string | null;
+  }>;
+  downloaded_files: Array<{
+    id: CanvasId;
+    filename?: string | null;
+    content_type?: string | null;
+    size?: number | null;
+    has_content: boolean;
+    content_base64?: string; // Or a placeholder such as '[EXTRACTED_AS_TEXT]'
+    truncated?: boolean;
+    skipped?: string;
+    text?: string;
+    text_format?: string;
+    text_truncated?: boolean;
+    extraction_error?: string;
+    error?: string;
+  }>;
+}
+
+// One file's content as download-submission-file returns it
+export interface FileContent {
+  filename: string;
+  content_type: string;
+  content_encoding: 'text' | 'base64';
+  extracted_from?: string; // Document format the text was extracted from
+  size: number;
+  truncated?: boolean;
+  total_chars?: number; // Length of the extracted text before truncation
+  content: string;
+  extraction_error?: string;
+}
+
 export interface DownloadedFile {
   id: string;
   filename: string;
   contentType: string;
   size: number;
-  data?: any; // Raw binary data
   dataBase64?: string; // Base64 encoded data for JSON serialization
+  truncated?: boolean; // Whether only the start of a large text file was downloaded
+  skipped?: string; // Why the download limits kept the file from being downloaded
+  text?: string; // Extracted readable text, for PDF, Office, HTML, Markdown, text and zip files
+  textFormat?: string; // Format the text was extracted from
+  textTruncated?: boolean; // Whether the text was cut off at CANVAS_EXTRACT_MAX_CHARS
+  extractionError?: string; // If the file could not be read as text
   error?: string; // If download failed
 }
@@ -0,0 +1,116 @@
+import { PlannedChange } from './dryRun.js';
+import { ToolCall } from './toolContext.js';
+
+// One resource as an undoable change left it
+export interface ResourceSnapshot {
+  path: string;
+  // Values of the changed fields before the change; null where the field was unset
+  before: Record<string, unknown>;
+  // The same fields after the change: as Canvas stored them, or as sent when a write touched several resources
+  after: Record<string, unknown>;
+}
+
+export interface UndoableChange {
+  id: string;
+  timestamp: string;
+  tool: string;
+  resources: ResourceSnapshot[];
+  undoneAt?: string;
+}
+
+// A field Canvas changed again after the snapshot was taken
+export interface UndoConflict {
+  path: string;
+  field: string;
+  // What the change left in Canvas
+  expected: unknown;
+  // What Canvas has now
+  actual: unknown;
+}
+
+export type UndoResult =
+  | { status: 'undone'; change: UndoableChange }
+  | { status: 'conflict'; change: UndoableChange; conflicts: UndoConflict[] };
+
+// Canvas wants update fields wrapped in the resource name, e.g. { quiz: { title } }
+const RESTORE_WRAPPERS: Array<[RegExp, string]> = [
+  [/\/quizzes\/[^/]+\/questions\/[^/]+$/, 'question'],
+  [/\/quizzes\/[^/]+$/, 'quiz'],
+  [/\/assignments\/[^/]+$/, 'assignment'],
+  [/\/modules\/[^/]+$/, 'module']
+];
+
+// Request body that puts a snapshot's previous values back
+export function restorePayload(snapshot: ResourceSnapshot): Record<string, unknown> {
+  const wrapper = RESTORE_WRAPPERS.find(([pattern]) => pattern.test(snapshot.path))?.[1];
+  return wrapper ? { [wrapper]: snapshot.before } : snapshot.before;
+}
+
+const ISO_TIMESTAMP = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})$/;
+
+// Canvas stores timestamps in UTC, so a due_at sent with an offset comes back written differently.
+// Timestamps are compared as instants, since a multi-resource write leaves only the values as sent.
+function same(a: unknown, b: unknown): boolean {
+  if (typeof a === 'string' && typeof b === 'string' && ISO_TIMESTAMP.test(a) && ISO_TIMESTAMP.test(b)) {
+    return Date.parse(a) === Date.parse(b);
+  }
+  return JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+}
+
+// Fields of a snapshot that no longer hold what the change left there
+export function findConflicts(snapshot: ResourceSnapshot, current: Record<string, any> | undefined): UndoConflict[] {
+  if (!current) {
+    return [{ path: snapshot.path, field: '(resource)', expected: 'exists', actual: 'deleted' }];
+  }
+  return Object.entries(snapshot.after)
+    .filter(([field, expected]) => !same(current[field], expected))
+    .map(([field, expected]) => ({ path: snapshot.path, field, expected, actual: current[field] }));
+}
+
+/**
+ * Snapshots of the resources undoable tools changed, so `undo-change` can put them back.
+ * Kept in memory per CanvasClient, so each HTTP session can only undo its own changes.
+ */
+export class UndoJournal {
+  private changes: UndoableChange[] = [];
+  // The journal entry of each tool call, so every write a call makes lands in one change
+  private byCall = new WeakMap<ToolCall, UndoableChange>();
+  private nextId = 1;
+
+  constructor(private maxEntries = 100) {}
+
+  // Remember what a write changed; `response` is Canvas' answer, which holds the stored values
+  record(call: ToolCall, planned: PlannedChange[], response: unknown) {
+    const stored = planned.length === 1 && response && typeof response === 'object' ? response as Record<string, unknown> : {};
+    const resources = planned
+      .filter(change => change.action === 'update' && change.fields.length > 0)
+      .map(change => ({
+        path: change.path,
+        before: Object.fromEntries(change.fields.map(field => [field.field, field.before ?? null])),
+        after: Object.fromEntries(change.fields.map(field => [field.field, field.field in stored ? stored[field.field] : field.after]))
+      }));
+    if (resources.length === 0) return;
+
+    let change = this.byCall.get(call);
+    if (!change) {
+      change = { id: `change-${this.nextId++}`, timestamp: new Date().toISOString(), tool: call.tool, resources: [] };
+      this.byCall.set(call, change);
+      this.changes.push(change);
+      this.changes.splice(0, Math.max(0, this.changes.length - this.maxEntries));
+    }
+    change.resources.push(...resources);
+  }
+
+  // Changes that can still be undone, most recent first
+  list(): UndoableChange[] {
+    return this.changes.filter(change => !change.undoneAt).reverse();
+  }
+
+  get(id: string): UndoableChange | undefined {
+    return this.changes.find(change => change.id === id);
+  }
+
+  markUndone(change: UndoableChange) {
+    change.undoneAt = new Date().toISOString();
+  }
+}
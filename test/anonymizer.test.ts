@@ -0,0 +1,97 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createHash } from 'node:crypto';
+import { existsSync, mkdtempSync, readFileSync, readdirSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { DataAnonymizer, getTenantAnonymizer } from '../src/anonymizer.js';
+import { CanvasClient } from '../src/canvasClient.js';
+import { startFakeCanvas } from './fakeCanvas.js';
+import { TOKEN } from './fixtures.js';
+
+const users = (...ids: number[]) => ids.map(id => ({ id, name: `Real Name ${id}`, email: `real${id}@school.edu` }));
+const names = (list: any[]) => list.map(user => user.name);
+
+describe('anonymizer', () => {
+  let directory: string;
+  before(() => { directory = mkdtempSync(path.join(tmpdir(), 'canvas-pseudonyms-')); });
+  after(() => rmSync(directory, { recursive: true, force: true }));
+
+  it('numbers students per course', async () => {
+    const anonymizer = new DataAnonymizer();
+    assert.deepEqual(names(await anonymizer.anonymizeUsers('1', users(101, 102))), ['Student 1', 'Student 2']);
+    assert.deepEqual(names(await anonymizer.anonymizeUsers('2', users(102, 103))), ['Student 1', 'Student 2']);
+    // Order of appearance no longer matters once a student has a number
+    assert.deepEqual(names(await anonymizer.anonymizeUsers('1', users(103, 102, 101))), ['Student 3', 'Student 2', 'Student 1']);
+  });
+
+  it('keeps pseudonyms across restarts', async () => {
+    const file = path.join(directory, 'restart.json');
+    await new DataAnonymizer({ file }).anonymizeUsers('1', users(104, 101));
+
+    const restarted = new DataAnonymizer({ file });
+    assert.deepEqual(names(await restarted.anonymizeUsers('1', users(101, 105, 104))), ['Student 2', 'Student 3', 'Student 1']);
+    assert.deepEqual(JSON.parse(readFileSync(file, 'utf-8')), { 1: { 101: 2, 104: 1, 105: 3 } });
+  });
+
+  it('anonymizes submission users and student comment authors only', async () => {
+    const [submission] = await new DataAnonymizer().anonymizeSubmissions('1', [{
+      user: { id: 102, name: 'Bob' },
+      submission_comments: [
+        { author: { id: 7, display_name: 'Prof. Johnson', role: 'teacher' } },
+        { author: { id: 103, display_name: 'Carol', role: 'student' } }
+      ]
+    }]);
+    assert.equal(submission.user.name, 'Student 1');
+    assert.equal(submission.submission_comments[0].author.display_name, 'Prof. Johnson');
+    assert.equal(submission.submission_comments[1].author.display_name, 'Student 2');
+  });
+
+  it('reset only forgets the given course', async () => {
+    const file = path.join(directory, 'reset.json');
+    const anonymizer = new DataAnonymizer({ file });
+    await anonymizer.anonymizeUsers('1', users(101, 102));
+    await anonymizer.anonymizeUsers('2', users(102, 101));
+
+    await anonymizer.reset('1');
+    assert.deepEqual(names(await anonymizer.anonymizeUsers('1', users(102))), ['Student 1']);
+    assert.deepEqual(names(await anonymizer.anonymizeUsers('2', users(101))), ['Student 2']);
+    assert.deepEqual(JSON.parse(readFileSync(file, 'utf-8')), { 1: { 102: 1 }, 2: { 101: 2, 102: 1 } });
+
+    await anonymizer.reset();
+    assert.deepEqual(JSON.parse(readFileSync(file, 'utf-8')), {});
+  });
+
+  it('gives every tenant its own anonymizer and mapping file', async () => {
+    const env = { CANVAS_PSEUDONYM_DIR: directory };
+    const first = getTenantAnonymizer('tenant-a', env);
+    assert.equal(getTenantAnonymizer('tenant-a', env), first);
+    const second = getTenantAnonymizer('tenant-b', env);
+    assert.notEqual(second, first);
+
+    await first.anonymizeUsers('1', users(101, 102));
+    assert.deepEqual(names(await second.anonymizeUsers('1', users(102))), ['Student 1']);
+    assert.ok(existsSync(path.join(directory, 'tenant-a.json')));
+    assert.ok(existsSync(path.join(directory, 'tenant-b.json')));
+  });
+
+  it('keeps the pseudonyms of a Canvas user across tokens', async () => {
+    const canvas = await startFakeCanvas({ tokens: [TOKEN, 'regenerated-token'] });
+    const userDirectory = mkdtempSync(path.join(tmpdir(), 'canvas-pseudonyms-'));
+    process.env.CANVAS_PSEUDONYM_DIR = userDirectory;
+    try {
+      // Mappings saved before pseudonyms were keyed by user, under a hash of the URL and token
+      const legacy = createHash('sha256').update(`${canvas.url}|${TOKEN}`).digest('hex').slice(0, 32);
+      writeFileSync(path.join(userDirectory, `${legacy}.json`), JSON.stringify({ 1: { 101: 5 } }));
+
+      const client = (token: string) => new CanvasClient(canvas.url, token, { cache: false, recorder: false, auditLog: false });
+      assert.deepEqual(names(await client(TOKEN).listStudents('1')).slice(0, 2), ['Student 5', 'Student 6']);
+      assert.deepEqual(names(await client('regenerated-token').listStudents('1')).slice(0, 2), ['Student 5', 'Student 6']);
+      assert.equal(readdirSync(userDirectory).length, 2);
+    } finally {
+      delete process.env.CANVAS_PSEUDONYM_DIR;
+      rmSync(userDirectory, { recursive: true, force: true });
+      await canvas.close();
+    }
+  });
+});
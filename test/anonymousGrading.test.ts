@@ -0,0 +1,92 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { DataAnonymizer } from '../src/anonymizer.js';
+import { AuditLog } from '../src/auditLog.js';
+import { Harness, startHarness } from './harness.js';
+
+describe('anonymous grading with pseudonym ids', () => {
+  let h: Harness;
+  let directory: string;
+  before(async () => {
+    directory = mkdtempSync(path.join(tmpdir(), 'canvas-audit-'));
+    h = await startHarness({
+      anonymizer: new DataAnonymizer({ replaceIds: true }),
+      auditLog: new AuditLog(path.join(directory, 'audit.jsonl'))
+    });
+  });
+  after(async () => {
+    await h.close();
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  // Real Canvas ids of the fixture students, which must never reach the model
+  const leaksRealIds = (text: string) => /\b10[1-5]\b|Alice|Bob/.test(text);
+
+  it('replaces student ids with pseudonym ids in read results', async () => {
+    const result = await h.call('list-assignment-submissions', { courseId: '1', assignmentId: '201' });
+    const submissions = result.structured.submissions;
+    assert.deepEqual(submissions.map((s: any) => s.user_id), ['student-1', 'student-2', 'student-3']);
+    assert.equal(submissions[0].submission_comments[0].author.id, 'student-1');
+    assert.equal(submissions[0].submission_comments[1].author.display_name, 'Ms. Teacher');
+    assert.equal(leaksRealIds(result.text), false);
+
+    const students = await h.call('list-students', { courseId: '1' });
+    assert.match(students.text, /ID: student-1/);
+    assert.equal(leaksRealIds(students.text), false);
+  });
+
+  it('ignores anonymous: false', async () => {
+    for (const [tool, args] of [
+      ['list-students', { courseId: '1', includeEmail: true }],
+      ['list-assignment-submissions', { courseId: '1', assignmentId: '201' }],
+      ['get-submission-documents', { courseId: '1', assignmentId: '201', userId: 'student-1', downloadFiles: true }],
+      ['list-assignments', { courseId: '1', studentId: '101' }],
+      ['list-rubric-assessments', { courseId: '1', assignmentId: '201' }],
+      ['list-section-submissions', { courseId: '1', sectionId: '11', assignmentId: '201' }]
+    ] as const) {
+      const result = await h.call(tool, { ...args, anonymous: false });
+      assert.equal(result.isError, false, `${tool}: ${result.text}`);
+      assert.equal(leaksRealIds(JSON.stringify(result.structured)), false, `${tool} leaked ${JSON.stringify(result.structured)}`);
+    }
+  });
+
+  it('grade-submission and post-submission-comment resolve pseudonym ids', async () => {
+    const graded = await h.call('grade-submission', { courseId: '1', assignmentId: '201', userId: 'student-2', posted_grade: '9' });
+    assert.equal(graded.isError, false);
+    assert.equal(graded.structured.submission.user_id, 'student-2');
+    assert.equal(leaksRealIds(graded.text), false);
+    assert.equal(h.canvas.state.submissions.find(s => s.user_id === 102)?.grade, '9');
+
+    const commented = await h.call('post-submission-comment', { courseId: '1', assignmentId: '201', userId: 'student-2', comment: 'Better!' });
+    assert.equal(commented.structured.submission.user_id, 'student-2');
+    assert.equal(h.canvas.state.submissions.find(s => s.user_id === 102)?.submission_comments.at(-1)?.comment, 'Better!');
+
+    // The audit log names the student by pseudonym id too, in the endpoint and the previous values
+    const audit = await h.call('list-audit-log', {});
+    assert.match(audit.text, /PUT \/api\/v1\/courses\/1\/assignments\/201\/submissions\/student-2/);
+    assert.equal(leaksRealIds(audit.text), false, audit.text);
+    assert.equal(leaksRealIds(JSON.stringify(audit.structured)), false);
+  });
+
+  it('get-submission-documents resolves pseudonym ids', async () => {
+    const result = (await h.call('get-submission-documents', { courseId: '1', assignmentId: '201', userId: 'student-1' })).structured;
+    assert.equal(result.submission.id, 401);
+    assert.equal(result.attachments[0].filename, 'portfolio.txt');
+  });
+
+  it('dry runs show the pseudonym id in the path', async () => {
+    const preview = await h.call('grade-submission', { courseId: '1', assignmentId: '201', userId: 'student-1', posted_grade: '8', dryRun: true });
+    assert.match(preview.text, /UPDATE \/api\/v1\/courses\/1\/assignments\/201\/submissions\/student-1\n  grade: "7" → "8"/);
+  });
+
+  it('rejects pseudonym ids the course has never shown', async () => {
+    const result = await h.call('grade-submission', { courseId: '1', assignmentId: '201', userId: 'student-42', posted_grade: '1' });
+    assert.equal(result.isError, true);
+    assert.match(result.text, /Unknown student student-42 in course 1/);
+    const otherCourse = await h.call('grade-submission', { courseId: '2', assignmentId: '201', userId: 'student-1', posted_grade: '1' });
+    assert.match(otherCourse.text, /Unknown student student-1 in course 2/);
+  });
+});
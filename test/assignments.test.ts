@@ -0,0 +1,62 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Harness, startHarness } from './harness.js';
+
+describe('assignment tools', () => {
+  let h: Harness;
+  before(async () => { h = await startHarness(); });
+  after(() => h.close());
+
+  it('list-assignments formats every assignment', async () => {
+    const result = await h.call('list-assignments', { courseId: '1' });
+    assert.match(result.text, /Assignment: Portfolio Website\nID: 201\nDue Date: 2026-09-01T21:59:00Z\nPoints Possible: 8\nStatus: Published/);
+    assert.match(result.text, /Assignment: CSS Exercises\nID: 202\nDue Date: No due date/);
+    assert.match(result.text, /Total assignments: 2/);
+  });
+
+  it('list-assignments includes one student\'s submission and teacher comments', async () => {
+    const result = await h.call('list-assignments', { courseId: '1', studentId: '101' });
+    assert.match(result.text, /Submission:\n  Status: graded\n  Submitted: 2026-08-30T10:00:00Z\n  Score: 7/);
+    assert.match(result.text, /Nice layout\./);
+    assert.doesNotMatch(result.text, /Can I resubmit\?/);
+    const request = h.canvas.requests.filter(r => r.path === '/api/v1/courses/1/assignments').at(-1);
+    assert.deepEqual(request?.query['student_ids[]'], '101');
+  });
+
+  it('get-assignment returns the assignment as JSON', async () => {
+    const assignment = (await h.call('get-assignment', { courseId: '1', assignmentId: '201' })).structured.assignment;
+    assert.equal(assignment.name, 'Portfolio Website');
+    assert.equal(assignment.rubric.length, 2);
+  });
+
+  it('create, update and delete an assignment', async () => {
+    const created = (await h.call('create-assignment', { courseId: '1', name: 'Final Project', points_possible: 20 })).structured.assignment;
+    assert.equal(created.name, 'Final Project');
+    assert.deepEqual(h.canvas.requests.at(-1)?.body, { assignment: { name: 'Final Project', points_possible: 20 } });
+
+    const updated = (await h.call('update-assignment', { courseId: '1', assignmentId: String(created.id), published: true })).structured.assignment;
+    assert.equal(updated.published, true);
+
+    const deleted = (await h.call('delete-assignment', { courseId: '1', assignmentId: String(created.id) })).structured.assignment;
+    assert.equal(deleted.workflow_state, 'deleted');
+    assert.equal(h.canvas.state.assignments.some(a => a.id === created.id), false);
+  });
+
+  it('list-assignment-groups and create-assignment-group', async () => {
+    const groups = (await h.call('list-assignment-groups', { courseId: '1' })).structured.assignmentGroups;
+    assert.deepEqual(groups.map((g: any) => g.name), ['Formative']);
+
+    const created = (await h.call('create-assignment-group', { courseId: '1', name: 'Summative', group_weight: 60 })).structured.assignmentGroup;
+    assert.equal(created.name, 'Summative');
+    assert.equal(h.canvas.state.assignmentGroups.length, 2);
+  });
+
+  it('bulk-update-assignment-dates sends every date change in one request', async () => {
+    const result = (await h.call('bulk-update-assignment-dates', {
+      courseId: '1',
+      assignmentDates: [{ assignment_id: '202', due_at: '2026-10-01T21:59:00Z' }]
+    })).structured.progress;
+    assert.equal(result.workflow_state, 'queued');
+    assert.equal(h.canvas.state.assignments.find(a => a.id === 202)?.due_at, '2026-10-01T21:59:00Z');
+  });
+});
@@ -0,0 +1,99 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, readFileSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { AuditEntry, AuditLog, redactArguments } from '../src/auditLog.js';
+import { Harness, startHarness } from './harness.js';
+
+describe('audit log', () => {
+  let directory: string;
+  let log: AuditLog;
+  let h: Harness;
+  before(async () => {
+    directory = mkdtempSync(path.join(tmpdir(), 'canvas-audit-'));
+    log = new AuditLog(path.join(directory, 'audit.jsonl'));
+    h = await startHarness({ auditLog: log });
+  });
+  after(async () => {
+    await h.close();
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  const entries = (): AuditEntry[] =>
+    readFileSync(log.file, 'utf-8').trim().split('\n').map(line => JSON.parse(line));
+
+  it('records a write with its tool, endpoint, status and previous values', async () => {
+    await h.call('update-assignment', { courseId: '1', assignmentId: '201', points_possible: 10 });
+    const entry = entries().at(-1)!;
+    assert.equal(entry.tool, 'update-assignment');
+    assert.equal(entry.method, 'PUT');
+    assert.equal(entry.endpoint, '/api/v1/courses/1/assignments/201');
+    assert.equal(entry.status, 200);
+    assert.ok(entry.sessionId);
+    assert.ok(!Number.isNaN(Date.parse(entry.timestamp)));
+    assert.deepEqual(entry.arguments, { courseId: '1', assignmentId: '201', points_possible: 10 });
+    assert.deepEqual(entry.previous, [
+      { path: '/api/v1/courses/1/assignments/201', action: 'update', values: { points_possible: 8 } }
+    ]);
+  });
+
+  it('redacts comment text from the arguments', async () => {
+    await h.call('grade-submission', { courseId: '1', assignmentId: '201', userId: '102', posted_grade: '6', comment: 'Great work, Bob!' });
+    const entry = entries().at(-1)!;
+    assert.equal(entry.arguments?.comment, '[redacted, 16 chars]');
+    assert.equal(entry.arguments?.posted_grade, '6');
+    assert.doesNotMatch(readFileSync(log.file, 'utf-8'), /Great work/);
+    assert.deepEqual(redactArguments({ note: 'mail alice@example.edu' }), { note: 'mail [email]' });
+  });
+
+  it('records failed writes with the status Canvas answered', async () => {
+    const result = await h.call('update-assignment', { courseId: '1', assignmentId: '999', name: 'Missing' });
+    assert.equal(result.isError, true);
+    const entry = entries().at(-1)!;
+    assert.equal(entry.status, 404);
+    assert.match(entry.error ?? '', /Not found/);
+    assert.equal(entry.previous, undefined);
+  });
+
+  it('does not record dry runs', async () => {
+    const before = entries().length;
+    await h.call('update-assignment', { courseId: '1', assignmentId: '201', points_possible: 12, dryRun: true });
+    assert.equal(entries().length, before);
+  });
+
+  it('list-audit-log shows the current session', async () => {
+    const result = await h.call('list-audit-log', {});
+    assert.equal(result.isError, false);
+    assert.match(result.text, /^3 audited changes:/);
+    assert.match(result.text, /update-assignment \(session [\w-]+\)\n  PUT \/api\/v1\/courses\/1\/assignments\/201 → 200/);
+    assert.match(result.text, /Previous value of \/api\/v1\/courses\/1\/assignments\/201:\n    points_possible: 8/);
+    assert.match(result.text, /→ 404 \(Not found/);
+
+    const graded = await h.call('list-audit-log', { tool: 'grade-submission' });
+    assert.match(graded.text, /^1 audited change:/);
+    assert.match(graded.text, /grade: "5"/);
+  });
+
+  it('keeps sessions apart unless asked for all of them', async () => {
+    const other = await startHarness({ auditLog: log });
+    try {
+      await other.call('toggle-module-publish', { courseId: '1', moduleId: '601' });
+      assert.match((await other.call('list-audit-log', {})).text, /^1 audited change:/);
+      assert.match((await h.call('list-audit-log', {})).text, /^3 audited changes:/);
+      assert.match((await h.call('list-audit-log', { allSessions: true })).text, /^4 audited changes:/);
+      assert.match((await h.call('list-audit-log', { allSessions: true, limit: 1 })).text, /toggle-module-publish/);
+    } finally {
+      await other.close();
+    }
+  });
+
+  it('says so when auditing is off', async () => {
+    const off = await startHarness();
+    try {
+      assert.match((await off.call('list-audit-log', {})).text, /Audit logging is turned off/);
+    } finally {
+      await off.close();
+    }
+  });
+});
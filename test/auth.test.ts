@@ -0,0 +1,224 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createHmac, generateKeyPairSync, sign, KeyObject } from 'node:crypto';
+import type { Server } from 'http';
+import type { AddressInfo } from 'net';
+import express from 'express';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { AuthConfig, authenticateToken, loadAuthConfig, requireAuth, verifyJwt } from '../src/auth.js';
+import { CanvasClient } from '../src/canvasClient.js';
+import { DataAnonymizer } from '../src/anonymizer.js';
+import { createServer } from '../src/server.js';
+import { FakeCanvas, startFakeCanvas } from './fakeCanvas.js';
+import { TOKEN } from './fixtures.js';
+
+const SECRET = 'jwt-test-secret';
+const NOW = Date.UTC(2026, 8, 1) / 1000;
+
+const encode = (value: unknown) => Buffer.from(JSON.stringify(value)).toString('base64url');
+
+// Sign a JWT the way an identity provider would
+function jwt(claims: Record<string, unknown>, alg: 'HS256' | 'RS256' | 'ES256' = 'HS256', key: string | KeyObject = SECRET): string {
+  const signingInput = `${encode({ alg, typ: 'JWT' })}.${encode(claims)}`;
+  const signature = alg === 'HS256'
+    ? createHmac('sha256', key as string).update(signingInput).digest()
+    : sign('sha256', Buffer.from(signingInput), alg === 'ES256' ? { key: key as KeyObject, dsaEncoding: 'ieee-p1363' } : key as KeyObject);
+  return `${signingInput}.${signature.toString('base64url')}`;
+}
+
+const pem = (key: KeyObject) => key.export({ type: 'spki', format: 'pem' }).toString();
+
+describe('auth configuration', () => {
+  it('reads API keys, JWT settings and MCP_AUTH from the environment', () => {
+    const config = loadAuthConfig({
+      MCP_API_KEYS: ' key-one, ,key-two ',
+      MCP_JWT_PUBLIC_KEY: '-----BEGIN PUBLIC KEY-----\\nabc\\n-----END PUBLIC KEY-----',
+      MCP_JWT_ISSUER: 'https://idp.example.com'
+    });
+    assert.deepEqual(config.apiKeys, ['key-one', 'key-two']);
+    assert.equal(config.jwt?.publicKey, '-----BEGIN PUBLIC KEY-----\nabc\n-----END PUBLIC KEY-----');
+    assert.equal(config.jwt?.issuer, 'https://idp.example.com');
+    assert.equal(config.disabled, false);
+
+    assert.equal(loadAuthConfig({}).jwt, undefined);
+    assert.equal(loadAuthConfig({ MCP_AUTH: 'none' }).disabled, true);
+  });
+});
+
+describe('API key auth', () => {
+  const config: AuthConfig = { apiKeys: ['first-key', 'second-key'], disabled: false };
+
+  it('accepts any configured key and identifies the client by a fingerprint', () => {
+    const first = authenticateToken('first-key', config);
+    assert.match(first.clientId, /^key-[0-9a-f]{12}$/);
+    assert.notEqual(authenticateToken('second-key', config).clientId, first.clientId);
+    assert.equal(authenticateToken('first-key', config).clientId, first.clientId);
+  });
+
+  it('rejects other keys', () => {
+    assert.throws(() => authenticateToken('first-key-but-longer', config), /Invalid API key/);
+    assert.throws(() => authenticateToken('', config), /Invalid API key/);
+  });
+});
+
+describe('JWT auth', () => {
+  const rsa = generateKeyPairSync('rsa', { modulusLength: 2048 });
+  const ec = generateKeyPairSync('ec', { namedCurve: 'P-256' });
+  const claims = { sub: 'teacher-app', exp: NOW + 60 };
+
+  it('verifies HS256 tokens with the shared secret', () => {
+    assert.equal(verifyJwt(jwt(claims), { secret: SECRET }, NOW * 1000).sub, 'teacher-app');
+    assert.throws(() => verifyJwt(jwt(claims, 'HS256', 'another-secret'), { secret: SECRET }, NOW * 1000), /Invalid token signature/);
+
+    // Claims edited after signing no longer match the signature
+    const [header, , signature] = jwt(claims).split('.');
+    const tampered = `${header}.${encode({ ...claims, sub: 'admin' })}.${signature}`;
+    assert.throws(() => verifyJwt(tampered, { secret: SECRET }, NOW * 1000), /Invalid token signature/);
+  });
+
+  it('verifies RS256 and ES256 tokens with the public key', () => {
+    assert.equal(verifyJwt(jwt(claims, 'RS256', rsa.privateKey), { publicKey: pem(rsa.publicKey) }, NOW * 1000).sub, 'teacher-app');
+    assert.equal(verifyJwt(jwt(claims, 'ES256', ec.privateKey), { publicKey: pem(ec.publicKey) }, NOW * 1000).sub, 'teacher-app');
+
+    const otherRsa = generateKeyPairSync('rsa', { modulusLength: 2048 });
+    assert.throws(() => verifyJwt(jwt(claims, 'RS256', otherRsa.privateKey), { publicKey: pem(rsa.publicKey) }, NOW * 1000), /Invalid token signature/);
+    const otherEc = generateKeyPairSync('ec', { namedCurve: 'P-256' });
+    assert.throws(() => verifyJwt(jwt(claims, 'ES256', otherEc.privateKey), { publicKey: pem(ec.publicKey) }, NOW * 1000), /Invalid token signature/);
+  });
+
+  it('only accepts algorithms it has a key for', () => {
+    // An HS256 token "signed" with the public key must not pass as RS256-verified
+    const publicKey = pem(rsa.publicKey);
+    assert.throws(() => verifyJwt(jwt(claims, 'HS256', publicKey), { publicKey }, NOW * 1000), /HS256 tokens are not accepted/);
+    assert.throws(() => verifyJwt(jwt(claims, 'RS256', rsa.privateKey), { secret: SECRET }, NOW * 1000), /RS256 tokens are not accepted/);
+
+    const unsigned = `${encode({ alg: 'none' })}.${encode(claims)}.`;
+    assert.throws(() => verifyJwt(unsigned, { secret: SECRET }, NOW * 1000), /Unsupported token algorithm: none/);
+    assert.throws(() => verifyJwt('not-a-jwt', { secret: SECRET }, NOW * 1000), /Malformed token/);
+  });
+
+  it('rejects expired and not yet valid tokens', () => {
+    assert.throws(() => verifyJwt(jwt({ exp: NOW }), { secret: SECRET }, NOW * 1000), /Token has expired/);
+    assert.throws(() => verifyJwt(jwt({ exp: NOW - 60 }), { secret: SECRET }, NOW * 1000), /Token has expired/);
+    assert.throws(() => verifyJwt(jwt({ nbf: NOW + 60 }), { secret: SECRET }, NOW * 1000), /Token is not yet valid/);
+    assert.ok(verifyJwt(jwt({ nbf: NOW, exp: NOW + 1 }), { secret: SECRET }, NOW * 1000));
+  });
+
+  it('checks the issuer and audience when configured', () => {
+    const config = { secret: SECRET, issuer: 'https://idp.example.com', audience: 'canvas-mcp' };
+    assert.ok(verifyJwt(jwt({ iss: 'https://idp.example.com', aud: 'canvas-mcp' }), config, NOW * 1000));
+    assert.ok(verifyJwt(jwt({ iss: 'https://idp.example.com', aud: ['other-api', 'canvas-mcp'] }), config, NOW * 1000));
+    assert.throws(() => verifyJwt(jwt({ iss: 'https://evil.example.com', aud: 'canvas-mcp' }), config, NOW * 1000), /Unexpected token issuer/);
+    assert.throws(() => verifyJwt(jwt({ iss: 'https://idp.example.com', aud: 'other-api' }), config, NOW * 1000), /Unexpected token audience/);
+    assert.throws(() => verifyJwt(jwt({ iss: 'https://idp.example.com' }), config, NOW * 1000), /Unexpected token audience/);
+  });
+
+  it('turns the claims into auth info', () => {
+    const info = authenticateToken(jwt({ sub: 'teacher-app', scope: 'read write', exp: Math.floor(Date.now() / 1000) + 60 }), {
+      apiKeys: [],
+      jwt: { secret: SECRET },
+      disabled: false
+    });
+    assert.equal(info.clientId, 'teacher-app');
+    assert.deepEqual(info.scopes, ['read', 'write']);
+    assert.equal(typeof info.expiresAt, 'number');
+  });
+});
+
+describe('/mcp endpoint auth', () => {
+  let canvas: FakeCanvas;
+  let server: Server;
+  let url: string;
+  const config: AuthConfig = { apiKeys: ['mcp-key'], jwt: { secret: SECRET, audience: 'canvas-mcp' }, disabled: false };
+
+  before(async () => {
+    canvas = await startFakeCanvas();
+    const app = express();
+    app.use(express.json());
+    // The MCP server behind requireAuth, stateless so each request gets its own server instance
+    app.all('/mcp', requireAuth(config), async (req, res) => {
+      const mcp = createServer(new CanvasClient(canvas.url, TOKEN, {
+        cache: false, recorder: false, auditLog: false, anonymizer: new DataAnonymizer()
+      }), { toolPolicy: { readOnly: false, include: [], exclude: [] } });
+      const transport = new StreamableHTTPServerTransport({ sessionIdGenerator: undefined });
+      res.on('close', () => { void transport.close(); void mcp.close(); });
+      await mcp.connect(transport);
+      await transport.handleRequest(req, res, req.body);
+    });
+    server = await new Promise<Server>(resolve => {
+      const started = app.listen(0, '127.0.0.1', () => resolve(started));
+    });
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/mcp`;
+  });
+  after(async () => {
+    await new Promise(resolve => server.close(resolve));
+    await canvas.close();
+  });
+
+  const initialize = (headers: Record<string, string> = {}) => fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', Accept: 'application/json, text/event-stream', ...headers },
+    body: JSON.stringify({
+      jsonrpc: '2.0',
+      id: 1,
+      method: 'initialize',
+      params: { protocolVersion: '2025-03-26', capabilities: {}, clientInfo: { name: 'canvas-mcp-tests', version: '1.0.0' } }
+    })
+  });
+
+  async function connect(token: string) {
+    const client = new Client({ name: 'canvas-mcp-tests', version: '1.0.0' });
+    await client.connect(new StreamableHTTPClientTransport(new URL(url), {
+      requestInit: { headers: { Authorization: `Bearer ${token}` } }
+    }));
+    return client;
+  }
+
+  it('answers requests without a valid credential with a JSON-RPC 401', async () => {
+    const missing = await initialize();
+    assert.equal(missing.status, 401);
+    assert.match(missing.headers.get('www-authenticate') ?? '', /^Bearer realm="canvas-mcp", error="invalid_token"/);
+    assert.deepEqual(await missing.json(), {
+      jsonrpc: '2.0',
+      error: { code: -32001, message: 'Unauthorized: Missing bearer token' },
+      id: null
+    });
+
+    const wrongKey = await initialize({ Authorization: 'Bearer not-the-key' });
+    assert.equal(wrongKey.status, 401);
+    // JWT settings are configured, so a token that isn't a key is read as a JWT
+    assert.equal((await wrongKey.json()).error.message, 'Unauthorized: Malformed token');
+
+    const expired = await initialize({ Authorization: `Bearer ${jwt({ aud: 'canvas-mcp', exp: Math.floor(Date.now() / 1000) - 60 })}` });
+    assert.equal(expired.status, 401);
+    assert.equal((await expired.json()).error.message, 'Unauthorized: Token has expired');
+
+    const wrongAudience = await initialize({ Authorization: `Bearer ${jwt({ aud: 'other-api' })}` });
+    assert.equal((await wrongAudience.json()).error.message, 'Unauthorized: Unexpected token audience');
+  });
+
+  it('serves MCP clients that authenticate with an API key or JWT', async () => {
+    for (const token of ['mcp-key', jwt({ sub: 'teacher-app', aud: 'canvas-mcp', exp: Math.floor(Date.now() / 1000) + 60 })]) {
+      const client = await connect(token);
+      const { tools } = await client.listTools();
+      assert.ok(tools.some(tool => tool.name === 'list-courses'));
+      await client.close();
+    }
+  });
+
+  it('lets everything through when auth is disabled', async () => {
+    const app = express();
+    app.all('/mcp', requireAuth({ ...config, disabled: true }), (_req, res) => { res.json({ ok: true }); });
+    const open = await new Promise<Server>(resolve => {
+      const started = app.listen(0, '127.0.0.1', () => resolve(started));
+    });
+    try {
+      const response = await fetch(`http://127.0.0.1:${(open.address() as AddressInfo).port}/mcp`, { method: 'POST' });
+      assert.equal(response.status, 200);
+    } finally {
+      await new Promise(resolve => open.close(resolve));
+    }
+  });
+});
@@ -0,0 +1,217 @@
+import { after, afterEach, before, beforeEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, readdirSync, readFileSync, rmSync, statSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { createHash } from 'node:crypto';
+import type { Server } from 'http';
+import type { AddressInfo } from 'net';
+import express from 'express';
+import { CanvasClient } from '../src/canvasClient.js';
+import { DataAnonymizer } from '../src/anonymizer.js';
+import { CacheEntry, DiskCache, MemoryLruCache, ResponseCache, courseScope, holdsRoster } from '../src/cache.js';
+
+// A Canvas stand-in whose resources carry ETags and answer If-None-Match with 304
+async function startEtagServer() {
+  const resources = new Map<string, unknown>();
+  const requests: Array<{ method: string; path: string; ifNoneMatch?: string; status: number }> = [];
+  const app = express();
+  app.use(express.json());
+  app.use((req, res) => {
+    if (req.method !== 'GET') {
+      resources.set(req.path, req.body);
+      requests.push({ method: req.method, path: req.path, status: 200 });
+      res.json(req.body);
+      return;
+    }
+    const body = resources.get(req.path) ?? [];
+    const etag = `"${createHash('sha256').update(JSON.stringify(body)).digest('hex').slice(0, 16)}"`;
+    const status = req.headers['if-none-match'] === etag ? 304 : 200;
+    requests.push({ method: req.method, path: req.path, ifNoneMatch: req.headers['if-none-match'], status });
+    res.status(status).set('ETag', etag);
+    if (status === 304) {
+      res.end();
+    } else {
+      res.json(body);
+    }
+  });
+  const server = await new Promise<Server>(resolve => {
+    const started = app.listen(0, '127.0.0.1', () => resolve(started));
+  });
+  return {
+    url: `http://127.0.0.1:${(server.address() as AddressInfo).port}`,
+    resources,
+    requests,
+    close: () => new Promise(resolve => server.close(resolve))
+  };
+}
+
+const entry = (fields: Partial<CacheEntry> = {}): CacheEntry => ({
+  data: [{ id: 1 }],
+  headers: {},
+  expiresAt: Date.now() + 60_000,
+  scope: 'https://canvas.example.com|course:1',
+  ...fields
+});
+
+describe('cache rules', () => {
+  it('gives each endpoint its TTL and never caches submissions, files or revisions', () => {
+    const cache = new ResponseCache(new MemoryLruCache());
+    assert.equal(cache.ttlFor('/api/v1/courses'), 5 * 60 * 1000);
+    assert.equal(cache.ttlFor('/api/v1/courses/1/users'), 5 * 60 * 1000);
+    assert.equal(cache.ttlFor('/api/v1/courses/1/rubrics/3'), 5 * 60 * 1000);
+    assert.equal(cache.ttlFor('/api/v1/courses/1/assignments'), 60 * 1000);
+    assert.equal(cache.ttlFor('/api/v1/courses/1/pages/welcome'), 60 * 1000);
+    // First match wins, so a submission under an assignment isn't cached like the assignment
+    assert.equal(cache.ttlFor('/api/v1/courses/1/assignments/2/submissions'), 0);
+    assert.equal(cache.ttlFor('/api/v1/files/501'), 0);
+    assert.equal(cache.ttlFor('/api/v1/courses/1/pages/welcome/revisions'), 0);
+    assert.equal(cache.ttlFor('/api/v1/courses/1/discussion_topics'), 0);
+  });
+
+  it('scopes entries by course and tells roster responses apart', () => {
+    assert.equal(courseScope('https://canvas.example.com', '/api/v1/courses/12/assignments/3'), 'https://canvas.example.com|course:12');
+    assert.equal(courseScope('https://canvas.example.com', '/api/v1/users/self'), 'https://canvas.example.com|global');
+
+    assert.equal(holdsRoster('/api/v1/courses/1/users', {}), true);
+    assert.equal(holdsRoster('/api/v1/courses/1/enrollments', {}), true);
+    assert.equal(holdsRoster('/api/v1/courses/1/sections', { include: ['students'] }), true);
+    assert.equal(holdsRoster('/api/v1/courses/1/sections', { include: ['total_students'] }), false);
+    assert.equal(holdsRoster('/api/v1/courses/1/assignments', {}), false);
+  });
+});
+
+describe('response caching', () => {
+  let canvas: Awaited<ReturnType<typeof startEtagServer>>;
+  before(async () => { canvas = await startEtagServer(); });
+  after(() => canvas.close());
+  beforeEach(() => {
+    canvas.resources.clear();
+    canvas.requests.length = 0;
+  });
+  afterEach(() => mock.restoreAll());
+
+  const client = (cache: ResponseCache, token = 'token') => new CanvasClient(canvas.url, token, {
+    cache, recorder: false, auditLog: false, anonymizer: new DataAnonymizer()
+  });
+  const gets = () => canvas.requests.filter(request => request.method === 'GET');
+
+  it('serves fresh entries from the cache and revalidates expired ones with their ETag', async () => {
+    canvas.resources.set('/api/v1/courses/1/assignments', [{ id: 1, name: 'Portfolio' }]);
+    const canvasClient = client(new ResponseCache(new MemoryLruCache()));
+    const now = Date.now();
+    mock.method(Date, 'now', () => now);
+
+    assert.deepEqual(await canvasClient.get('/api/v1/courses/1/assignments'), [{ id: 1, name: 'Portfolio' }]);
+    assert.deepEqual(await canvasClient.get('/api/v1/courses/1/assignments'), [{ id: 1, name: 'Portfolio' }]);
+    assert.equal(gets().length, 1);
+
+    // Past the 60 second TTL, an unchanged resource is answered with a 304 and kept
+    mock.method(Date, 'now', () => now + 61_000);
+    assert.deepEqual(await canvasClient.get('/api/v1/courses/1/assignments'), [{ id: 1, name: 'Portfolio' }]);
+    assert.equal(gets().length, 2);
+    assert.equal(gets()[1].status, 304);
+    assert.equal(gets()[0].ifNoneMatch, undefined);
+    assert.match(gets()[1].ifNoneMatch ?? '', /^"[0-9a-f]{16}"$/);
+
+    // The 304 started a new TTL
+    await canvasClient.get('/api/v1/courses/1/assignments');
+    assert.equal(gets().length, 2);
+
+    // A changed resource gets a new ETag, so the next revalidation downloads it
+    canvas.resources.set('/api/v1/courses/1/assignments', [{ id: 1, name: 'Portfolio v2' }]);
+    mock.method(Date, 'now', () => now + 122_000);
+    assert.deepEqual(await canvasClient.get('/api/v1/courses/1/assignments'), [{ id: 1, name: 'Portfolio v2' }]);
+    assert.equal(gets()[2].status, 200);
+  });
+
+  it('never caches endpoints without a TTL', async () => {
+    const canvasClient = client(new ResponseCache(new MemoryLruCache()));
+    await canvasClient.get('/api/v1/courses/1/assignments/2/submissions');
+    await canvasClient.get('/api/v1/courses/1/assignments/2/submissions');
+    assert.equal(gets().length, 2);
+    assert.equal(gets()[1].ifNoneMatch, undefined);
+  });
+
+  it('drops a course\'s entries for every session after a write to it', async () => {
+    const cache = new ResponseCache(new MemoryLruCache());
+    const teacher = client(cache, 'teacher-token');
+    const colleague = client(cache, 'colleague-token');
+    for (const canvasClient of [teacher, colleague]) {
+      await canvasClient.get('/api/v1/courses/1/assignments');
+      await canvasClient.get('/api/v1/courses/2/assignments');
+    }
+    // Tokens don't share entries
+    assert.equal(gets().length, 4);
+
+    await teacher.put('/api/v1/courses/1/assignments/5', { assignment: { name: 'Renamed' } });
+    await colleague.get('/api/v1/courses/1/assignments');
+    await colleague.get('/api/v1/courses/2/assignments');
+    assert.deepEqual(gets().slice(4).map(request => request.path), ['/api/v1/courses/1/assignments']);
+  });
+});
+
+describe('disk cache', () => {
+  let directory: string;
+  beforeEach(() => { directory = mkdtempSync(path.join(tmpdir(), 'canvas-cache-')); });
+  afterEach(() => rmSync(directory, { recursive: true, force: true }));
+
+  const files = () => readdirSync(directory, { recursive: true, withFileTypes: true })
+    .filter(file => file.isFile())
+    .map(file => path.join(file.parentPath, file.name));
+
+  it('stores entries in private files but keeps rosters off disk', async () => {
+    const cache = new DiskCache(directory);
+    await cache.set('assignments', entry());
+    await cache.set('students', entry({ data: [{ id: 101, name: 'Alice Johnson' }], roster: true }));
+
+    assert.deepEqual((await cache.get('assignments', entry().scope))?.data, [{ id: 1 }]);
+    assert.equal(await cache.get('students', entry().scope), undefined);
+    assert.equal(files().length, 1);
+    assert.equal(statSync(files()[0]).mode & 0o777, 0o600);
+    assert.doesNotMatch(readFileSync(files()[0], 'utf-8'), /Alice/);
+  });
+
+  it('keeps roster responses of a client out of the disk cache', async () => {
+    const canvas = await startEtagServer();
+    try {
+      canvas.resources.set('/api/v1/courses/1/users', [{ id: 101, name: 'Alice Johnson' }]);
+      const canvasClient = new CanvasClient(canvas.url, 'token', {
+        cache: new ResponseCache(new DiskCache(directory)), recorder: false, auditLog: false, anonymizer: new DataAnonymizer()
+      });
+      await canvasClient.get('/api/v1/courses/1/users');
+      await canvasClient.get('/api/v1/courses/1/assignments');
+      assert.equal(files().length, 1);
+      assert.ok(files().every(file => !readFileSync(file, 'utf-8').includes('Alice')));
+    } finally {
+      await canvas.close();
+    }
+  });
+
+  it('prunes expired entries when read and at startup', async () => {
+    const cache = new DiskCache(directory, 60_000);
+    const now = Date.now();
+    await cache.set('fresh', entry());
+    await cache.set('revalidatable', entry({ etag: '"a"', expiresAt: now - 1000 }));
+    await cache.set('expired', entry({ expiresAt: now - 1000 }));
+    await cache.set('long-expired', entry({ etag: '"b"', expiresAt: now - 120_000 }));
+    await cache.set('other-course', entry({ expiresAt: now - 1000, scope: 'https://canvas.example.com|course:2' }));
+    assert.equal(files().length, 5);
+
+    // Expired entries with an ETag are kept a while to revalidate; without one they're no use
+    assert.ok(await cache.get('revalidatable', entry().scope));
+    assert.equal(await cache.get('expired', entry().scope), undefined);
+    assert.equal(files().length, 4);
+
+    writeFileSync(path.join(path.dirname(files()[0]), 'broken.json'), '{');
+    await new DiskCache(directory, 60_000).prune(now);
+    assert.equal(files().length, 2);
+    assert.ok(await cache.get('fresh', entry().scope));
+    assert.ok(await cache.get('revalidatable', entry().scope));
+    // The emptied scope directory goes as well
+    assert.equal(readdirSync(directory).length, 1);
+
+    await cache.prune(now + 120_000);
+    assert.deepEqual(readdirSync(directory), []);
+  });
+});
@@ -0,0 +1,52 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { rankCompletions } from '../src/completions.js';
+import { Harness, startHarness } from './harness.js';
+
+describe('rankCompletions', () => {
+  const candidates = [
+    { value: '12', name: 'Intro to Web Design' },
+    { value: '7', name: 'Web Development' },
+    { value: '120', name: 'Databases' }
+  ];
+
+  it('ranks id prefixes, then name prefixes, word starts and subsequences', () => {
+    assert.deepEqual(rankCompletions('12', candidates), ['12', '120']);
+    assert.deepEqual(rankCompletions('web', candidates), ['7', '12']);
+    assert.deepEqual(rankCompletions('dbs', candidates), ['120']);
+    assert.deepEqual(rankCompletions('', candidates), ['12', '7', '120']);
+    assert.deepEqual(rankCompletions('xyz', candidates), []);
+  });
+});
+
+describe('argument completion', () => {
+  let h: Harness;
+  before(async () => { h = await startHarness(); });
+  after(() => h.close());
+
+  const completeResource = async (uri: string, name: string, value: string, args?: Record<string, string>) =>
+    (await h.client.complete({ ref: { type: 'ref/resource', uri }, argument: { name, value }, context: args && { arguments: args } })).completion.values;
+
+  it('completes course ids by course name or code', async () => {
+    assert.deepEqual(await completeResource('canvas://courses/{courseId}/styleguide', 'courseId', 'web1'), ['1']);
+  });
+
+  it('completes ids inside the course chosen so far', async () => {
+    const assignments = 'canvas://courses/{courseId}/assignments/{assignmentId}';
+    assert.deepEqual(await completeResource(assignments, 'assignmentId', 'css', { courseId: '1' }), ['202']);
+    assert.deepEqual(await completeResource('canvas://courses/{courseId}/pages/{pageUrl}', 'pageUrl', 'syl', { courseId: '1' }), ['syllabus']);
+    assert.deepEqual(await completeResource('canvas://courses/{courseId}/modules/{moduleId}', 'moduleId', 'week', { courseId: '1' }), ['601', '602']);
+    assert.deepEqual(await completeResource('canvas://courses/{courseId}/quizzes/{quizId}', 'quizId', 'html', { courseId: '1' }), ['1001']);
+    // Nothing to go on without a course, or for one Canvas can't find
+    assert.deepEqual(await completeResource(assignments, 'assignmentId', ''), []);
+    assert.deepEqual(await completeResource(assignments, 'assignmentId', '', { courseId: '999' }), []);
+  });
+
+  it('completes the course name of the rubric statistics prompt', async () => {
+    const { completion } = await h.client.complete({
+      ref: { type: 'ref/prompt', name: 'analyze-rubric-statistics' },
+      argument: { name: 'courseName', value: 'dev' }
+    });
+    assert.deepEqual(completion.values, ['Web Development']);
+  });
+});
@@ -0,0 +1,85 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { ElicitRequest, ElicitResult } from '@modelcontextprotocol/sdk/types.js';
+import { Harness, startHarness } from './harness.js';
+
+describe('destructive tool confirmation', () => {
+  let h: Harness;
+  let answer: ElicitResult;
+  const asked: ElicitRequest[] = [];
+  before(async () => {
+    h = await startHarness({
+      elicitation: async request => {
+        asked.push(request);
+        return answer;
+      }
+    });
+  });
+  after(() => h.close());
+
+  const deletes = () => h.canvas.requests.filter(r => r.method === 'DELETE');
+
+  it('annotates every tool', async () => {
+    const { tools } = await h.client.listTools();
+    const annotations = (name: string) => tools.find(tool => tool.name === name)!.annotations;
+    assert.deepEqual(annotations('list-courses'), { readOnlyHint: true, destructiveHint: false, idempotentHint: true });
+    assert.deepEqual(annotations('create-assignment'), { readOnlyHint: false, destructiveHint: false, idempotentHint: false });
+    assert.deepEqual(annotations('update-assignment'), { readOnlyHint: false, destructiveHint: false, idempotentHint: true });
+    assert.deepEqual(annotations('delete-assignment'), { readOnlyHint: false, destructiveHint: true, idempotentHint: true });
+  });
+
+  it('a declined delete leaves Canvas alone', async () => {
+    answer = { action: 'decline' };
+    const result = await h.call('delete-assignment', { courseId: '1', assignmentId: '201' });
+    assert.equal(result.isError, true);
+    assert.match(result.text, /Cancelled delete-assignment: The user did not confirm/);
+    assert.equal(asked.at(-1)?.params.message,
+      'Delete assignment "Portfolio Website" (8 points) from course 1? 2 submissions and 2 grades would be lost.');
+    assert.deepEqual(deletes(), []);
+  });
+
+  it('accepting without ticking confirm counts as declining', async () => {
+    answer = { action: 'accept', content: { confirm: false } };
+    const result = await h.call('delete-quiz', { courseId: '1', quizId: '1001' });
+    assert.equal(result.isError, true);
+    assert.match(asked.at(-1)!.params.message, /^Delete quiz "HTML Basics" \(5 points\)/);
+    assert.deepEqual(deletes(), []);
+  });
+
+  it('a confirmed delete goes ahead', async () => {
+    answer = { action: 'accept', content: { confirm: true } };
+    const result = await h.call('delete-quiz-question', { courseId: '1', quizId: '1001', questionId: '1101' });
+    assert.equal(result.isError, false);
+    assert.equal(asked.at(-1)?.params.message, 'Delete question "Q1" (1 points) from quiz 1001? Its text and answers would be lost.');
+    assert.deepEqual(deletes().map(r => r.path), ['/api/v1/courses/1/quizzes/1001/questions/1101']);
+  });
+
+  it('reverts describe both versions of the page', async () => {
+    answer = { action: 'cancel' };
+    const result = await h.call('revert-page-revision', { courseId: '1', pageUrl: 'welcome', revisionId: '1' });
+    assert.equal(result.isError, true);
+    assert.equal(asked.at(-1)?.params.message,
+      'Revert page "Welcome" in course 1 to revision 1 (2026-07-30T12:00:00Z by Ms. Teacher)? ' +
+      'The current content, last updated 2026-08-01T12:00:00Z, would be replaced.');
+  });
+
+  it('dry runs and non-destructive writes are not confirmed', async () => {
+    const count = asked.length;
+    const dryRun = await h.call('delete-quiz-question-group', { courseId: '1', quizId: '1001', groupId: '1201', dryRun: true });
+    assert.equal(dryRun.structured.dryRun, true);
+    await h.call('update-assignment', { courseId: '1', assignmentId: '201', points_possible: 10 });
+    assert.equal(asked.length, count);
+  });
+});
+
+describe('destructive tools without elicitation', () => {
+  let h: Harness;
+  before(async () => { h = await startHarness(); });
+  after(() => h.close());
+
+  it('leaves confirming to the client', async () => {
+    const result = await h.call('delete-quiz-question-group', { courseId: '1', quizId: '1001', groupId: '1201' });
+    assert.equal(result.isError, false);
+    assert.deepEqual(h.canvas.requests.filter(r => r.method !== 'GET').map(r => r.path), ['/api/v1/courses/1/quizzes/1001/groups/1201']);
+  });
+});
@@ -0,0 +1,53 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Harness, startHarness } from './harness.js';
+
+describe('course, student and section tools', () => {
+  let h: Harness;
+  before(async () => { h = await startHarness(); });
+  after(() => h.close());
+
+  it('list-courses shows available courses with their term', async () => {
+    const result = await h.call('list-courses');
+    assert.equal(result.isError, false);
+    assert.match(result.text, /Course: Web Development \(Fall 2026\)\nID: 1\nCode: WEB1/);
+    assert.doesNotMatch(result.text, /Old Course/);
+  });
+
+  it('post-announcement creates an announcement topic', async () => {
+    const result = await h.call('post-announcement', { courseId: '1', title: 'Exam moved', message: 'Now on Friday' });
+    assert.match(result.text, /Successfully posted announcement "Exam moved" to course 1/);
+    assert.deepEqual(h.canvas.state.announcements.at(-1), {
+      id: h.canvas.state.announcements.at(-1).id, title: 'Exam moved', message: 'Now on Friday', is_announcement: true
+    });
+  });
+
+  it('list-students anonymizes names and emails by default', async () => {
+    const result = await h.call('list-students', { courseId: '1', includeEmail: true });
+    assert.match(result.text, /Name: Student 1\nID: 101/);
+    assert.match(result.text, /Email: student1@example.com/);
+    assert.doesNotMatch(result.text, /Alice|alice@school\.edu/);
+    assert.match(result.text, /Total students: 5/);
+  });
+
+  it('list-students keeps real names when anonymous is false', async () => {
+    const result = await h.call('list-students', { courseId: '1', includeEmail: true, anonymous: false });
+    assert.match(result.text, /Name: Alice Johnson/);
+    assert.match(result.text, /Email: alice@school.edu/);
+  });
+
+  it('list-sections includes student counts on request', async () => {
+    const result = await h.call('list-sections', { courseId: '1', includeStudentCount: true });
+    assert.match(result.text, /Name: Group A\nID: 11\nSIS ID: WEB1-A\nTotal Students: 3/);
+    assert.match(result.text, /Name: Group B\nID: 12\nSIS ID: N\/A/);
+  });
+
+  it('list-section-submissions only shows the section and anonymizes students', async () => {
+    const result = await h.call('list-section-submissions', { courseId: '1', assignmentId: '201', sectionId: '11' });
+    assert.match(result.text, /Total submissions: 2/);
+    assert.match(result.text, /Student: Student \d/);
+    assert.match(result.text, /Late: Yes/);
+    assert.doesNotMatch(result.text, /Alice Johnson|Bob Smith/);
+    assert.match(result.text, /Ms\. Teacher \(teacher\)/);
+  });
+});
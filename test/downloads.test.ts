@@ -0,0 +1,103 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Readable } from 'node:stream';
+import { DownloadBudget, isAllowedContentType, loadDownloadOptions, mapWithConcurrency, readLimited } from '../src/downloads.js';
+import { Harness, startHarness } from './harness.js';
+
+const chunks = (...sizes: number[]) => Readable.from(sizes.map(size => Buffer.alloc(size, 'a')));
+
+describe('download limits', () => {
+  it('allows content types by exact match or wildcard', () => {
+    const { allowedContentTypes } = loadDownloadOptions({});
+    assert.ok(isAllowedContentType('application/pdf', allowedContentTypes));
+    assert.ok(isAllowedContentType('text/x-python; charset=utf-8', allowedContentTypes));
+    assert.ok(isAllowedContentType('application/vnd.openxmlformats-officedocument.wordprocessingml.document', allowedContentTypes));
+    assert.ok(!isAllowedContentType('video/mp4', allowedContentTypes));
+    assert.ok(isAllowedContentType('video/mp4', loadDownloadOptions({ CANVAS_DOWNLOAD_TYPES: '*' }).allowedContentTypes));
+  });
+
+  it('stops reading at the per-file limit', async () => {
+    const stream = chunks(4, 4, 4);
+    const body = await readLimited(stream, 6);
+    assert.equal(body.data.length, 6);
+    assert.equal(body.truncated, true);
+    assert.ok(stream.destroyed);
+
+    assert.deepEqual(await readLimited(Buffer.from('hello'), 5), { data: Buffer.from('hello'), truncated: false });
+  });
+
+  it('shares one budget between downloads', async () => {
+    const budget = new DownloadBudget(10);
+    assert.equal((await readLimited(chunks(4, 4), 100, budget)).truncated, false);
+    const second = await readLimited(chunks(4, 4), 100, budget);
+    assert.equal(second.data.length, 2);
+    assert.equal(second.truncated, true);
+    assert.equal(budget.remaining, 0);
+  });
+
+  it('runs at most the given number of tasks at once, keeping their order', async () => {
+    let running = 0;
+    let peak = 0;
+    const results = await mapWithConcurrency([30, 10, 20, 5, 15], 2, async delay => {
+      peak = Math.max(peak, ++running);
+      await new Promise(resolve => setTimeout(resolve, delay));
+      running -= 1;
+      return delay * 2;
+    });
+    assert.deepEqual(results, [60, 20, 40, 10, 30]);
+    assert.equal(peak, 2);
+  });
+});
+
+describe('download limits in tools', () => {
+  let h: Harness;
+  before(async () => {
+    h = await startHarness({
+      downloads: { maxFileBytes: 10, maxTotalBytes: 25, allowedContentTypes: ['text/*', 'application/pdf'], concurrency: 2 }
+    });
+    h.canvas.state.files.push(
+      { id: 502, filename: 'notes.txt', display_name: 'notes.txt', 'content-type': 'text/plain', size: 30, content: 'Twelve chars and then some more' },
+      { id: 503, filename: 'demo.mp4', display_name: 'demo.mp4', 'content-type': 'video/mp4', size: 5, content: 'video' },
+      { id: 504, filename: 'big.pdf', display_name: 'big.pdf', 'content-type': 'application/pdf', size: 500, content: 'x'.repeat(500) },
+      { id: 505, filename: 'b.txt', display_name: 'b.txt', 'content-type': 'text/plain', size: 8, content: 'bbbbbbbb' }
+    );
+    const submission: any = h.canvas.state.submissions.find(s => s.user_id === 101);
+    submission.attachments.push(
+      ...[502, 503, 504, 505].map(id => {
+        const file = h.canvas.state.files.find(f => f.id === id)!;
+        return { id, filename: file.filename, display_name: file.display_name, 'content-type': file['content-type'], size: file.size };
+      })
+    );
+  });
+  after(() => h.close());
+
+  it('download-submission-file cuts large text files off and refuses other files', async () => {
+    const text = (await h.call('download-submission-file', { courseId: '1', fileId: '502' })).structured;
+    assert.equal(text.content, 'Twelve cha');
+    assert.equal(text.truncated, true);
+    assert.equal(text.size, 30);
+
+    const video = await h.call('download-submission-file', { courseId: '1', fileId: '503' });
+    assert.equal(video.isError, true);
+    assert.match(video.text, /demo\.mp4 is video\/mp4, which CANVAS_DOWNLOAD_TYPES does not allow/);
+
+    const pdf = await h.call('download-submission-file', { courseId: '1', fileId: '504' });
+    assert.equal(pdf.isError, true);
+    assert.match(pdf.text, /big\.pdf is 500 bytes, over the CANVAS_DOWNLOAD_MAX_BYTES limit \(10 bytes\)/);
+    // Refused before the content was requested
+    assert.ok(!h.canvas.requests.some(r => r.path === '/files/504/download'));
+  });
+
+  it('get-submission-documents lists skipped files and stays within the call budget', async () => {
+    const result = (await h.call('get-submission-documents', { courseId: '1', assignmentId: '201', userId: '101', downloadFiles: true })).structured;
+    const byId = new Map<number, any>(result.downloaded_files.map((file: any) => [file.id, file]));
+    assert.match(byId.get(503).skipped, /video\/mp4/);
+    assert.match(byId.get(504).skipped, /over the CANVAS_DOWNLOAD_MAX_BYTES limit/);
+    assert.equal(byId.get(502).truncated, true);
+
+    const downloaded = result.downloaded_files
+      .filter((file: any) => file.content_base64)
+      .reduce((total: number, file: any) => total + Buffer.from(file.content_base64, 'base64').length, 0);
+    assert.ok(downloaded <= 25);
+  });
+});
@@ -0,0 +1,108 @@
+import { after, afterEach, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Harness, startHarness } from './harness.js';
+
+describe('dry run', () => {
+  let h: Harness;
+  let snapshot: string;
+  before(async () => {
+    h = await startHarness();
+    snapshot = JSON.stringify(h.canvas.state);
+  });
+  after(() => h.close());
+  afterEach(() => {
+    // Nothing may reach Canvas except reads
+    assert.deepEqual(h.canvas.requests.filter(r => r.method !== 'GET'), []);
+    assert.equal(JSON.stringify(h.canvas.state), snapshot);
+  });
+
+  it('update-assignment shows a field-level diff', async () => {
+    const result = await h.call('update-assignment', {
+      courseId: '1', assignmentId: '201', name: 'Portfolio Website', points_possible: 10, due_at: '2026-09-08T21:59:00Z', dryRun: true
+    });
+    assert.equal(result.isError, false);
+    assert.equal(result.text, [
+      'Dry run: update-assignment would make 1 change. Nothing was sent to Canvas.',
+      '',
+      'UPDATE /api/v1/courses/1/assignments/201',
+      '  due_at: "2026-09-01T21:59:00Z" → "2026-09-08T21:59:00Z"',
+      '  points_possible: 8 → 10'
+    ].join('\n'));
+  });
+
+  it('bulk-update-assignment-dates diffs every assignment', async () => {
+    const result = await h.call('bulk-update-assignment-dates', {
+      courseId: '1',
+      assignmentDates: [
+        { assignment_id: '201', due_at: '2026-09-15T21:59:00Z' },
+        { assignment_id: '202', due_at: '2026-09-20T21:59:00Z', lock_at: '2026-09-22T21:59:00Z' }
+      ],
+      dryRun: true
+    });
+    assert.match(result.text, /would make 2 changes/);
+    assert.match(result.text, /UPDATE \/api\/v1\/courses\/1\/assignments\/201\n  due_at: "2026-09-01T21:59:00Z" → "2026-09-15T21:59:00Z"/);
+    assert.match(result.text, /UPDATE \/api\/v1\/courses\/1\/assignments\/202\n  due_at: \(none\) → "2026-09-20T21:59:00Z"\n  lock_at: \(none\) → "2026-09-22T21:59:00Z"/);
+  });
+
+  it('grade-submission shows the grade change and the new comment', async () => {
+    const result = await h.call('grade-submission', {
+      courseId: '1', assignmentId: '201', userId: '102', posted_grade: '6', comment: 'Well done', dryRun: true
+    });
+    assert.match(result.text, /grade: "5" → "6"/);
+    assert.match(result.text, /new comment: \(none\) → "Well done"/);
+  });
+
+  it('post-submission-comment previews the comment on the submission', async () => {
+    const result = await h.call('post-submission-comment', {
+      courseId: '1', assignmentId: '201', userId: '102', comment: 'Nice layout', dryRun: true
+    });
+    assert.equal(result.isError, false);
+    assert.equal(result.text, [
+      'Dry run: post-submission-comment would make 1 change. Nothing was sent to Canvas.',
+      '',
+      'UPDATE /api/v1/courses/1/assignments/201/submissions/102',
+      '  new comment: (none) → "Nice layout"'
+    ].join('\n'));
+  });
+
+  it('update-quiz-question diffs the question fields', async () => {
+    const result = await h.call('update-quiz-question', {
+      courseId: '1', quizId: '1001', questionId: '1101',
+      question: { question_text: 'What does HTML stand for?', question_type: 'multiple_choice_question', points_possible: 2 },
+      dryRun: true
+    });
+    assert.match(result.text, /UPDATE \/api\/v1\/courses\/1\/quizzes\/1001\/questions\/1101\n  points_possible: 1 → 2$/);
+  });
+
+  it('delete, create and page revert', async () => {
+    const deleted = await h.call('delete-quiz', { courseId: '1', quizId: '1001', dryRun: true });
+    assert.match(deleted.text, /DELETE \/api\/v1\/courses\/1\/quizzes\/1001\n  \(resource would be deleted\)/);
+
+    const created = await h.call('create-assignment', { courseId: '1', name: 'Final Project', dryRun: true });
+    assert.match(created.text, /CREATE \/api\/v1\/courses\/1\/assignments\n  name: \(none\) → "Final Project"/);
+
+    const reverted = await h.call('revert-page-revision', { courseId: '1', pageUrl: 'welcome', revisionId: '1', dryRun: true });
+    assert.match(reverted.text, /UPDATE \/api\/v1\/courses\/1\/pages\/welcome\n  body: "<p>Welcome to the course!<\/p>" → "<p>Draft<\/p>"/);
+
+    const toggled = await h.call('toggle-module-publish', { courseId: '1', moduleId: '601', dryRun: true });
+    assert.match(toggled.text, /published: true → false/);
+  });
+
+  it('reports missing resources as errors', async () => {
+    const result = await h.call('update-assignment', { courseId: '1', assignmentId: '999', name: 'X', dryRun: true });
+    assert.equal(result.isError, true);
+    assert.match(result.text, /status 404/);
+  });
+
+  it('CANVAS_DRY_RUN applies to every write tool', async () => {
+    process.env.CANVAS_DRY_RUN = 'true';
+    try {
+      const result = await h.call('delete-assignment', { courseId: '1', assignmentId: '202' });
+      assert.match(result.text, /^Dry run: delete-assignment would make 1 change\./);
+      const forced = await h.call('delete-assignment', { courseId: '1', assignmentId: '202', dryRun: false });
+      assert.match(forced.text, /^Dry run:/);
+    } finally {
+      delete process.env.CANVAS_DRY_RUN;
+    }
+  });
+});
@@ -0,0 +1,62 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Harness, startHarness } from './harness.js';
+
+describe('error handling', () => {
+  let h: Harness;
+  before(async () => { h = await startHarness(); });
+  after(() => h.close());
+
+  it('reports unknown courses as a not-found tool error', async () => {
+    const result = await h.call('list-assignments', { courseId: '999' });
+    assert.equal(result.isError, true);
+    assert.match(result.text, /^Failed to fetch assignments: Not found in Canvas: The specified resource does not exist\./);
+    assert.match(result.text, /\(status 404, GET \/api\/v1\/courses\/999\/assignments\)/);
+    assert.match(result.text, /Check that the IDs are correct/);
+  });
+
+  it('names the missing assignment in get-rubric-statistics', async () => {
+    const result = await h.call('get-rubric-statistics', { courseId: '1', assignmentId: '999' });
+    assert.equal(result.isError, true);
+    assert.match(result.text, /^Assignment 999 not found in course 1: /);
+  });
+});
+
+describe('invalid Canvas token', () => {
+  let h: Harness;
+  before(async () => { h = await startHarness({ token: 'revoked-token' }); });
+  after(() => h.close());
+
+  it('reports a 401 as an unauthorized tool error', async () => {
+    const result = await h.call('list-courses');
+    assert.equal(result.isError, true);
+    assert.match(result.text, /Canvas token is invalid or expired: Invalid access token\./);
+    assert.match(result.text, /status 401/);
+    assert.match(result.text, /must be renewed/);
+  });
+});
+
+describe('pagination', () => {
+  let h: Harness;
+  // Force two items per page so every list spans several pages
+  before(async () => { h = await startHarness({ maxPerPage: 2 }); });
+  after(() => h.close());
+
+  it('follows Link headers until the last page', async () => {
+    const result = await h.call('list-students', { courseId: '1', anonymous: false });
+    assert.match(result.text, /Total students: 5/);
+    for (const name of ['Alice Johnson', 'Bob Smith', 'Carla Diaz', 'Dmitri Ivanov', 'Eve Okafor']) {
+      assert.match(result.text, new RegExp(name));
+    }
+    const pages = h.canvas.requests.filter(r => r.path === '/api/v1/courses/1/users').map(r => r.query.page);
+    assert.deepEqual(pages, [undefined, '2', '3']);
+  });
+
+  it('keeps the original query parameters on later pages', async () => {
+    await h.call('list-students', { courseId: '1' });
+    const last = h.canvas.requests.filter(r => r.path === '/api/v1/courses/1/users').at(-1);
+    assert.equal(last?.query.page, '3');
+    assert.equal(last?.query['enrollment_type[]'], 'student');
+    assert.deepEqual(last?.query['include[]'], ['email', 'avatar_url']);
+  });
+});
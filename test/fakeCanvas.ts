@@ -0,0 +1,389 @@
+import express, { Request, Response } from 'express';
+import type { Server } from 'http';
+import type { AddressInfo } from 'net';
+import * as fixtures from './fixtures.js';
+
+export interface FakeCanvasOptions {
+  // Largest page the server hands out, whatever per_page asks for (Canvas caps at 100)
+  maxPerPage?: number;
+  // Bearer tokens the server accepts
+  tokens?: string[];
+  // Delay before answering each request, e.g. to cancel a call while its requests are in flight
+  latencyMs?: number;
+}
+
+export interface RecordedRequest {
+  method: string;
+  path: string;
+  query: Record<string, any>;
+  body: any;
+}
+
+export interface FakeCanvas {
+  url: string;
+  // Mutable copy of the fixtures; writes through the API land here
+  state: ReturnType<typeof initialState>;
+  requests: RecordedRequest[];
+  close(): Promise<void>;
+}
+
+function initialState() {
+  return structuredClone({
+    courses: fixtures.courses,
+    students: fixtures.students,
+    sections: fixtures.sections,
+    assignments: fixtures.assignments,
+    assignmentGroups: fixtures.assignmentGroups,
+    submissions: fixtures.submissions,
+    files: fixtures.files,
+    modules: fixtures.modules,
+    pages: fixtures.pages,
+    pageRevisions: fixtures.pageRevisions,
+    rubrics: fixtures.rubrics,
+    quizzes: fixtures.quizzes,
+    quizQuestions: fixtures.quizQuestions,
+    quizGroups: fixtures.quizGroups,
+    announcements: [] as any[]
+  });
+}
+
+// Canvas-shaped error bodies
+function notFound(res: Response) {
+  res.status(404).json({ errors: [{ message: 'The specified resource does not exist.' }] });
+}
+
+// Query values arrive as `include[]=a&include[]=b`; normalise to an array
+function list(value: unknown): string[] {
+  if (value === undefined) return [];
+  return (Array.isArray(value) ? value : [value]).map(String);
+}
+
+let nextId = 5000;
+
+/**
+ * Start an in-process Canvas look-alike on a random port. It implements just enough of the
+ * REST API for the tools in src/tools, including Link header pagination and token checks.
+ */
+export async function startFakeCanvas(options: FakeCanvasOptions = {}): Promise<FakeCanvas> {
+  const maxPerPage = options.maxPerPage ?? 100;
+  const tokens = new Set(options.tokens ?? [fixtures.TOKEN]);
+  const state = initialState();
+  const requests: RecordedRequest[] = [];
+  const app = express();
+  app.use(express.json());
+
+  app.use((req, res, next) => {
+    requests.push({ method: req.method, path: req.path, query: { ...req.query }, body: req.body });
+    const token = req.headers.authorization?.replace(/^Bearer\s+/i, '');
+    if (!token || !tokens.has(token)) {
+      res.status(401).set('WWW-Authenticate', 'Bearer realm="canvas-lms"').json({ errors: [{ message: 'Invalid access token.' }] });
+      return;
+    }
+    if (options.latencyMs) {
+      setTimeout(next, options.latencyMs);
+    } else {
+      next();
+    }
+  });
+
+  // Serve one page of a list with Canvas-style Link headers
+  function sendList(req: Request, res: Response, items: any[]) {
+    const perPage = Math.min(Number(req.query.per_page) || 10, maxPerPage);
+    const page = Math.max(Number(req.query.page) || 1, 1);
+    const lastPage = Math.max(Math.ceil(items.length / perPage), 1);
+    const pageUrl = (n: number) => {
+      const url = new URL(req.originalUrl, `http://${req.headers.host}`);
+      url.searchParams.set('page', String(n));
+      url.searchParams.set('per_page', String(perPage));
+      return url.toString();
+    };
+    const links = [`<${pageUrl(page)}>; rel="current"`, `<${pageUrl(1)}>; rel="first"`, `<${pageUrl(lastPage)}>; rel="last"`];
+    if (page < lastPage) links.push(`<${pageUrl(page + 1)}>; rel="next"`);
+    res.set('Link', links.join(',')).json(items.slice((page - 1) * perPage, page * perPage));
+  }
+
+  const course = (req: Request) => state.courses.find(c => String(c.id) === req.params.courseId);
+  const assignment = (req: Request) => state.assignments.find(a => String(a.id) === req.params.assignmentId);
+  const quiz = (req: Request) => state.quizzes.find(q => String(q.id) === req.params.quizId);
+  const withUser = (submission: any, include: string[]) => include.includes('user')
+    ? { ...submission, user: state.students.find(s => s.id === submission.user_id) }
+    : submission;
+
+  // Every course route 404s for unknown courses, like Canvas does
+  app.use('/api/v1/courses/:courseId', (req, res, next) => {
+    if (!course(req)) {
+      notFound(res);
+      return;
+    }
+    next();
+  });
+  app.use(['/api/v1/courses/:courseId/assignments/:assignmentId', '/api/v1/sections/:sectionId/assignments/:assignmentId'], (req, res, next) => {
+    if (req.params.assignmentId !== 'bulk_update' && !assignment(req)) {
+      notFound(res);
+      return;
+    }
+    next();
+  });
+  app.use('/api/v1/courses/:courseId/quizzes/:quizId', (req, res, next) => {
+    if (!quiz(req)) {
+      notFound(res);
+      return;
+    }
+    next();
+  });
+
+  // --- Users ---
+  // Every accepted token belongs to the same teacher
+  app.get('/api/v1/users/self', (req, res) => res.json(fixtures.teacher));
+
+  // --- Courses ---
+  app.get('/api/v1/courses', (req, res) => sendList(req, res, state.courses));
+  app.post('/api/v1/courses/:courseId/discussion_topics', (req, res) => {
+    const topic = { id: nextId++, ...req.body };
+    state.announcements.push(topic);
+    res.json(topic);
+  });
+
+  // --- Users and sections ---
+  app.get('/api/v1/courses/:courseId/users', (req, res) => sendList(req, res, state.students));
+  app.get('/api/v1/courses/:courseId/sections', (req, res) => {
+    const include = list(req.query['include[]']);
+    sendList(req, res, state.sections.map(({ students: _students, total_students, ...section }) =>
+      include.includes('total_students') ? { ...section, total_students } : section));
+  });
+  app.get('/api/v1/courses/:courseId/sections/:sectionId', (req, res) => {
+    const section = state.sections.find(s => String(s.id) === req.params.sectionId);
+    if (!section) return notFound(res);
+    res.json(section);
+  });
+  app.get('/api/v1/sections/:sectionId/assignments/:assignmentId/submissions', (req, res) => {
+    const section = state.sections.find(s => String(s.id) === req.params.sectionId);
+    if (!section) return notFound(res);
+    const include = list(req.query['include[]']);
+    sendList(req, res, state.submissions
+      .filter(s => String(s.assignment_id) === req.params.assignmentId && section.students.includes(s.user_id))
+      .map(s => withUser(s, include)));
+  });
+
+  // --- Assignments ---
+  app.get('/api/v1/courses/:courseId/assignments', (req, res) => {
+    const studentIds = list(req.query['student_ids[]']);
+    sendList(req, res, state.assignments.map(a => {
+      const submission = state.submissions.find(s => s.assignment_id === a.id && studentIds.includes(String(s.user_id)));
+      return submission ? { ...a, submission } : a;
+    }));
+  });
+  app.post('/api/v1/courses/:courseId/assignments', (req, res) => {
+    const created = { id: nextId++, course_id: Number(req.params.courseId), published: false, ...req.body.assignment };
+    state.assignments.push(created);
+    res.json(created);
+  });
+  app.put('/api/v1/courses/:courseId/assignments/bulk_update', (req, res) => {
+    for (const update of req.body.assignment_dates || []) {
+      const target: any = state.assignments.find(a => String(a.id) === String(update.assignment_id));
+      // Canvas stores dates in UTC, whatever offset they were sent with
+      const dates = Object.fromEntries(['due_at', 'unlock_at', 'lock_at']
+        .filter(field => update[field])
+        .map(field => [field, new Date(update[field]).toISOString().replace('.000Z', 'Z')]));
+      if (target) Object.assign(target, update, dates, { id: target.id });
+    }
+    res.json({ id: nextId++, workflow_state: 'queued', tag: 'assignments_bulk_update' });
+  });
+  app.get('/api/v1/courses/:courseId/assignments/:assignmentId', (req, res) => res.json(assignment(req)));
+  app.put('/api/v1/courses/:courseId/assignments/:assignmentId', (req, res) => {
+    const target: any = assignment(req);
+    if (req.query.rubric_id) {
+      const rubric = state.rubrics.find(r => String(r.id) === req.query.rubric_id);
+      if (!rubric) return notFound(res);
+      Object.assign(target, { rubric_id: rubric.id, rubric: rubric.data });
+    }
+    Object.assign(target, req.body.assignment);
+    res.json(target);
+  });
+  app.delete('/api/v1/courses/:courseId/assignments/:assignmentId', (req, res) => {
+    const target = assignment(req)!;
+    state.assignments = state.assignments.filter(a => a !== target);
+    res.json({ ...target, workflow_state: 'deleted' });
+  });
+
+  app.get('/api/v1/courses/:courseId/assignment_groups', (req, res) => sendList(req, res, state.assignmentGroups));
+  app.post('/api/v1/courses/:courseId/assignment_groups', (req, res) => {
+    const created = { id: nextId++, course_id: Number(req.params.courseId), ...req.body.assignment_group };
+    state.assignmentGroups.push(created);
+    res.json(created);
+  });
+
+  // --- Submissions ---
+  const submission = (req: Request) => state.submissions.find(s =>
+    String(s.assignment_id) === req.params.assignmentId && String(s.user_id) === req.params.userId);
+
+  app.get('/api/v1/courses/:courseId/assignments/:assignmentId/submissions', (req, res) => {
+    const include = list(req.query['include[]']);
+    sendList(req, res, state.submissions
+      .filter(s => String(s.assignment_id) === req.params.assignmentId)
+      .map(s => withUser(s, include)));
+  });
+  app.get('/api/v1/courses/:courseId/assignments/:assignmentId/submissions/:userId', (req, res) => {
+    const found = submission(req);
+    if (!found) return notFound(res);
+    const base = `http://${req.headers.host}`;
+    res.json({ ...found, attachments: (found.attachments || []).map((a: any) => ({ ...a, url: `${base}/files/${a.id}/download` })) });
+  });
+  app.put('/api/v1/courses/:courseId/assignments/:assignmentId/submissions/:userId', (req, res) => {
+    const found: any = submission(req);
+    if (!found) return notFound(res);
+    const grade = req.body.posted_grade ?? req.body.submission?.posted_grade;
+    if (grade !== undefined) Object.assign(found, { grade: String(grade), score: Number(grade), workflow_state: 'graded' });
+    if (req.body.comment?.text_comment) {
+      found.submission_comments.push({ id: nextId++, comment: req.body.comment.text_comment, author: fixtures.teacher });
+    }
+    res.json(found);
+  });
+  app.put('/api/v1/courses/:courseId/assignments/:assignmentId/submissions/:userId/comments', (req, res) => {
+    const found: any = submission(req);
+    if (!found) return notFound(res);
+    found.submission_comments.push({ id: nextId++, comment: req.body.comment?.text_comment, author: fixtures.teacher });
+    res.json(found);
+  });
+
+  // --- Files ---
+  const file = (req: Request) => state.files.find(f => String(f.id) === req.params.fileId);
+  app.get('/api/v1/files/:fileId', (req, res) => {
+    const found = file(req);
+    if (!found) return notFound(res);
+    const { content: _content, ...info } = found;
+    res.json({ ...info, url: `http://${req.headers.host}/files/${found.id}/download` });
+  });
+  app.get('/files/:fileId/download', (req, res) => {
+    const found = file(req);
+    if (!found) return notFound(res);
+    res.type(found['content-type']).send(Buffer.from(found.content));
+  });
+
+  // --- Modules ---
+  const module = (req: Request) => state.modules.find(m => String(m.id) === req.params.moduleId);
+  app.get('/api/v1/courses/:courseId/modules', (req, res) => {
+    const includeItems = list(req.query['include[]']).includes('items');
+    sendList(req, res, state.modules.map(({ items, ...mod }) => includeItems ? { ...mod, items } : mod));
+  });
+  app.get('/api/v1/courses/:courseId/modules/:moduleId', (req, res) => {
+    const found = module(req);
+    if (!found) return notFound(res);
+    const { items: _items, ...mod } = found;
+    res.json(mod);
+  });
+  app.put('/api/v1/courses/:courseId/modules/:moduleId', (req, res) => {
+    const found = module(req);
+    if (!found) return notFound(res);
+    const published = req.body.module?.published ?? req.body.published;
+    if (published !== undefined) found.published = published;
+    res.json(found);
+  });
+  app.get('/api/v1/courses/:courseId/modules/:moduleId/items', (req, res) => {
+    const found = module(req);
+    if (!found) return notFound(res);
+    sendList(req, res, found.items);
+  });
+
+  // --- Pages ---
+  const page = (req: Request) => state.pages.find(p => p.url === req.params.pageUrl);
+  app.get('/api/v1/courses/:courseId/pages', (req, res) => sendList(req, res, state.pages.map(({ body: _body, ...p }) => p)));
+  app.get('/api/v1/courses/:courseId/pages/:pageUrl', (req, res) => {
+    const found = page(req);
+    if (!found) return notFound(res);
+    res.json(found);
+  });
+  app.put('/api/v1/courses/:courseId/pages/:pageUrl', (req, res) => {
+    let found = page(req);
+    if (!found) {
+      found = { page_id: nextId++, url: req.params.pageUrl as string, title: req.params.pageUrl as string, body: '', published: false, updated_at: '' };
+      state.pages.push(found);
+    }
+    Object.assign(found, req.body.wiki_page, { updated_at: new Date().toISOString() });
+    const revisions = state.pageRevisions[found.url] ||= [];
+    revisions.unshift({ id: revisions.length + 1, updated_at: found.updated_at, edited_by: fixtures.teacher, title: found.title, body: found.body });
+    res.json(found);
+  });
+  app.get('/api/v1/courses/:courseId/pages/:pageUrl/revisions', (req, res) => {
+    if (!page(req)) return notFound(res);
+    sendList(req, res, (state.pageRevisions[req.params.pageUrl as string] || []).map(({ body: _body, ...rev }) => rev));
+  });
+  app.get('/api/v1/courses/:courseId/pages/:pageUrl/revisions/:revisionId', (req, res) => {
+    const revision = (state.pageRevisions[req.params.pageUrl as string] || []).find(r => String(r.id) === req.params.revisionId);
+    if (!page(req) || !revision) return notFound(res);
+    res.json(revision);
+  });
+  app.post('/api/v1/courses/:courseId/pages/:pageUrl/revisions/:revisionId/revert', (req, res) => {
+    const found = page(req);
+    const revision = (state.pageRevisions[req.params.pageUrl as string] || []).find(r => String(r.id) === req.params.revisionId);
+    if (!found || !revision) return notFound(res);
+    Object.assign(found, { title: revision.title, body: revision.body, updated_at: new Date().toISOString() });
+    res.json(found);
+  });
+
+  // --- Rubrics ---
+  app.get('/api/v1/courses/:courseId/rubrics', (req, res) => sendList(req, res, state.rubrics));
+
+  // --- Quizzes ---
+  app.get('/api/v1/courses/:courseId/quizzes', (req, res) => sendList(req, res, state.quizzes));
+  app.post('/api/v1/courses/:courseId/quizzes', (req, res) => {
+    const created = { id: nextId++, published: false, ...req.body.quiz };
+    state.quizzes.push(created);
+    res.json(created);
+  });
+  app.get('/api/v1/courses/:courseId/quizzes/:quizId', (req, res) => res.json(quiz(req)));
+  app.put('/api/v1/courses/:courseId/quizzes/:quizId', (req, res) => res.json(Object.assign(quiz(req)!, req.body.quiz)));
+  app.delete('/api/v1/courses/:courseId/quizzes/:quizId', (req, res) => {
+    const target = quiz(req)!;
+    state.quizzes = state.quizzes.filter(q => q !== target);
+    res.json(target);
+  });
+
+  // Questions and groups share the same CRUD shape under a quiz
+  function quizChildren(segment: string, collection: Record<number, any[]>, bodyKey: string) {
+    const children = (req: Request) => collection[Number(req.params.quizId)] ||= [];
+    const child = (req: Request) => children(req).find(c => String(c.id) === req.params.childId);
+    const base = `/api/v1/courses/:courseId/quizzes/:quizId/${segment}`;
+    app.get(base, (req, res) => sendList(req, res, children(req)));
+    app.post(base, (req, res) => {
+      const created = { id: nextId++, ...req.body[bodyKey] };
+      children(req).push(created);
+      res.json(created);
+    });
+    app.get(`${base}/:childId`, (req, res) => {
+      const found = child(req);
+      if (!found) return notFound(res);
+      res.json(found);
+    });
+    app.put(`${base}/:childId`, (req, res) => {
+      const found = child(req);
+      if (!found) return notFound(res);
+      res.json(Object.assign(found, req.body[bodyKey]));
+    });
+    app.delete(`${base}/:childId`, (req, res) => {
+      const found = child(req);
+      if (!found) return notFound(res);
+      children(req).splice(children(req).indexOf(found), 1);
+      res.status(204).end();
+    });
+  }
+  quizChildren('questions', state.quizQuestions, 'question');
+  quizChildren('groups', state.quizGroups, 'quiz_group');
+
+  app.use((_req, res) => notFound(res));
+
+  const server: Server = await new Promise(resolve => {
+    const listening = app.listen(0, '127.0.0.1', () => resolve(listening));
+  });
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}`,
+    state,
+    requests,
+    close: () => new Promise<void>((resolve, reject) => {
+      server.closeAllConnections();
+      server.close(error => error ? reject(error) : resolve());
+    })
+  };
+}
@@ -0,0 +1,115 @@
+// Fixture data served by the fake Canvas server. Two courses: course 1 has content for every
+// tool, course 2 is a concluded course that list-courses should filter out.
+
+export const TOKEN = 'test-token';
+
+export const courses = [
+  { id: 1, name: 'Web Development', course_code: 'WEB1', workflow_state: 'available', term: { id: 1, name: 'Fall 2026' } },
+  { id: 2, name: 'Old Course', course_code: 'OLD', workflow_state: 'completed', term: { id: 0, name: 'Spring 2020' } }
+];
+
+export const students = [
+  { id: 101, name: 'Alice Johnson', sortable_name: 'Johnson, Alice', email: 'alice@school.edu', sis_user_id: 'S101' },
+  { id: 102, name: 'Bob Smith', sortable_name: 'Smith, Bob', email: 'bob@school.edu', sis_user_id: 'S102' },
+  { id: 103, name: 'Carla Diaz', sortable_name: 'Diaz, Carla', email: 'carla@school.edu', sis_user_id: 'S103' },
+  { id: 104, name: 'Dmitri Ivanov', sortable_name: 'Ivanov, Dmitri', email: 'dmitri@school.edu', sis_user_id: 'S104' },
+  { id: 105, name: 'Eve Okafor', sortable_name: 'Okafor, Eve', email: 'eve@school.edu', sis_user_id: 'S105' }
+];
+
+export const teacher = { id: 900, display_name: 'Ms. Teacher', role: 'teacher' };
+
+export const sections = [
+  { id: 11, course_id: 1, name: 'Group A', sis_section_id: 'WEB1-A', total_students: 3, students: [101, 102, 103] },
+  { id: 12, course_id: 1, name: 'Group B', sis_section_id: null, total_students: 2, students: [104, 105] }
+];
+
+export const rubric = [
+  { id: 'crit1', description: 'Structure', points: 4 },
+  { id: 'crit2', description: 'Styling', points: 4 }
+];
+
+export const assignments = [
+  {
+    id: 201, course_id: 1, name: 'Portfolio Website', due_at: '2026-09-01T21:59:00Z', points_possible: 8,
+    published: true, assignment_group_id: 301, submission_types: ['online_upload'], rubric
+  },
+  {
+    id: 202, course_id: 1, name: 'CSS Exercises', due_at: null, points_possible: 10,
+    published: false, assignment_group_id: 301, submission_types: ['online_text_entry']
+  }
+];
+
+export const assignmentGroups = [
+  { id: 301, course_id: 1, name: 'Formative', position: 1, group_weight: 0 }
+];
+
+// Submissions for assignment 201; student 101 uploaded a file, 102 wrote text
+export const submissions = [
+  {
+    id: 401, assignment_id: 201, user_id: 101, workflow_state: 'graded', submission_type: 'online_upload',
+    submitted_at: '2026-08-30T10:00:00Z', grade: '7', score: 7, attempt: 1,
+    attachments: [{ id: 501, filename: 'portfolio.txt', display_name: 'portfolio.txt', 'content-type': 'text/plain', size: 20, created_at: '2026-08-30T10:00:00Z' }],
+    rubric_assessment: { crit1: { points: 4 }, crit2: { points: 3 } },
+    submission_comments: [
+      { id: 1, comment: 'Can I resubmit?', created_at: '2026-08-30T11:00:00Z', author: { id: 101, display_name: 'Alice Johnson', role: 'student' } },
+      { id: 2, comment: 'Nice layout.', created_at: '2026-08-31T09:00:00Z', author: teacher }
+    ]
+  },
+  {
+    id: 402, assignment_id: 201, user_id: 102, workflow_state: 'graded', submission_type: 'online_text_entry',
+    submitted_at: '2026-09-02T08:00:00Z', grade: '5', score: 5, attempt: 1, late: true,
+    body: '<p>My portfolio is at example.com</p>',
+    rubric_assessment: { crit1: { points: 2 }, crit2: { points: 3 } },
+    submission_comments: []
+  },
+  {
+    id: 403, assignment_id: 201, user_id: 104, workflow_state: 'unsubmitted', submission_type: null,
+    submitted_at: null, grade: null, score: null, attempt: null, missing: true, submission_comments: []
+  }
+];
+
+export const files = [
+  { id: 501, filename: 'portfolio.txt', display_name: 'portfolio.txt', 'content-type': 'text/plain', size: 20, content: 'Hello from Alice!\n' }
+];
+
+export const modules = [
+  {
+    id: 601, name: 'Week 1', position: 1, published: true,
+    items: [
+      { id: 701, type: 'Page', title: 'Welcome', page_url: 'welcome', position: 1, published: true },
+      { id: 702, type: 'Assignment', title: 'Portfolio Website', position: 2, published: true }
+    ]
+  },
+  { id: 602, name: 'Week 2', position: 2, published: false, items: [] }
+];
+
+export const pages = [
+  { page_id: 801, url: 'welcome', title: 'Welcome', body: '<p>Welcome to the course!</p>', published: true, updated_at: '2026-08-01T12:00:00Z' },
+  { page_id: 802, url: 'syllabus', title: 'Syllabus', body: '<h2>Syllabus</h2><p>Office hours: Monday</p>', published: true, updated_at: '2026-08-02T12:00:00Z' }
+];
+
+export const pageRevisions: Record<string, any[]> = {
+  welcome: [
+    { id: 2, updated_at: '2026-08-01T12:00:00Z', edited_by: teacher, title: 'Welcome', body: '<p>Welcome to the course!</p>' },
+    { id: 1, updated_at: '2026-07-30T12:00:00Z', edited_by: teacher, title: 'Welcome', body: '<p>Draft</p>' }
+  ]
+};
+
+export const rubrics = [
+  { id: 901, title: 'Portfolio Rubric', description: 'Rubric for the portfolio', data: rubric }
+];
+
+export const quizzes = [
+  { id: 1001, title: 'HTML Basics', due_at: '2026-09-10T21:59:00Z', points_possible: 5, published: true, quiz_type: 'assignment' }
+];
+
+export const quizQuestions: Record<number, any[]> = {
+  1001: [
+    { id: 1101, question_name: 'Q1', question_text: 'What does HTML stand for?', question_type: 'multiple_choice_question', points_possible: 1 },
+    { id: 1102, question_name: 'Q2', question_text: 'Which tag makes a link?', question_type: 'short_answer_question', points_possible: 1 }
+  ]
+};
+
+export const quizGroups: Record<number, any[]> = {
+  1001: [{ id: 1201, name: 'Random pick', pick_count: 1, question_points: 1 }]
+};
@@ -0,0 +1,106 @@
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import {
+  CreateMessageRequest,
+  CreateMessageRequestSchema,
+  CreateMessageResult,
+  ElicitRequest,
+  ElicitRequestSchema,
+  ElicitResult
+} from '@modelcontextprotocol/sdk/types.js';
+import { CanvasClient } from '../src/canvasClient.js';
+import { DataAnonymizer } from '../src/anonymizer.js';
+import { createServer } from '../src/server.js';
+import { ToolPolicy } from '../src/toolCatalog.js';
+import { AuditLog } from '../src/auditLog.js';
+import { DownloadOptions } from '../src/downloads.js';
+import { FakeCanvas, FakeCanvasOptions, startFakeCanvas } from './fakeCanvas.js';
+import { TOKEN } from './fixtures.js';
+
+// Keep failing requests fast: no retry backoff against the fake server
+process.env.CANVAS_MAX_RETRIES ??= '0';
+
+export interface ToolResult {
+  text: string;
+  isError: boolean;
+  // The result's structuredContent, matching the tool's output schema
+  structured: any;
+}
+
+export interface Harness {
+  canvas: FakeCanvas;
+  client: Client;
+  // Call a tool and return its text content
+  call(name: string, args?: Record<string, unknown>): Promise<ToolResult>;
+  close(): Promise<void>;
+}
+
+export interface HarnessOptions extends FakeCanvasOptions {
+  // Another harness' fake Canvas, to act as a second session on it; left running on close
+  canvas?: FakeCanvas;
+  // Token the CanvasClient sends; defaults to one the fake server accepts
+  token?: string;
+  // Defaults to every tool
+  toolPolicy?: ToolPolicy;
+  // Defaults to no audit log
+  auditLog?: AuditLog;
+  // Defaults to a fresh in-memory anonymizer
+  anonymizer?: DataAnonymizer;
+  // Defaults to the CANVAS_DOWNLOAD_* limits
+  downloads?: DownloadOptions;
+  // Answers the server's elicitation requests; without it the client doesn't support elicitation
+  elicitation?: (request: ElicitRequest) => Promise<ElicitResult>;
+  // Answers the server's sampling requests in place of the client's model; likewise optional
+  sampling?: (request: CreateMessageRequest) => Promise<CreateMessageResult>;
+}
+
+/**
+ * Start a fake Canvas server and an MCP client connected in-process to a fresh server
+ * instance, the same way each HTTP session gets its own server.
+ */
+export async function startHarness(options: HarnessOptions = {}): Promise<Harness> {
+  const canvas = options.canvas ?? await startFakeCanvas(options);
+  const server = createServer(new CanvasClient(canvas.url, options.token ?? TOKEN, {
+    cache: false,
+    auditLog: options.auditLog ?? false,
+    anonymizer: options.anonymizer ?? new DataAnonymizer(),
+    downloads: options.downloads
+  }), {
+    toolPolicy: options.toolPolicy ?? { readOnly: false, include: [], exclude: [] }
+  });
+  const client = new Client(
+    { name: 'canvas-mcp-tests', version: '1.0.0' },
+    {
+      capabilities: {
+        ...(options.elicitation ? { elicitation: {} } : {}),
+        ...(options.sampling ? { sampling: {} } : {})
+      }
+    }
+  );
+  if (options.elicitation) {
+    client.setRequestHandler(ElicitRequestSchema, options.elicitation);
+  }
+  if (options.sampling) {
+    client.setRequestHandler(CreateMessageRequestSchema, options.sampling);
+  }
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  await Promise.all([client.connect(clientTransport), server.connect(serverTransport)]);
+
+  return {
+    canvas,
+    client,
+    async call(name, args = {}) {
+      const result: any = await client.callTool({ name, arguments: args });
+      return {
+        text: result.content.map((part: any) => part.text ?? '').join('\n'),
+        isError: result.isError === true,
+        structured: result.structuredContent
+      };
+    },
+    async close() {
+      await client.close();
+      await server.close();
+      if (!options.canvas) await canvas.close();
+    }
+  };
+}
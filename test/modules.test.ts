@@ -0,0 +1,26 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Harness, startHarness } from './harness.js';
+
+describe('module tools', () => {
+  let h: Harness;
+  before(async () => { h = await startHarness(); });
+  after(() => h.close());
+
+  it('list-modules lists modules with inline items', async () => {
+    const result = await h.call('list-modules', { courseId: '1', includeItems: true });
+    assert.match(result.text, /Module: Week 1\nID: 601\nPosition: 1\nPublished: Yes\nItems:\n  - \[Page\] Welcome \(ID: 701\)/);
+    assert.match(result.text, /Module: Week 2\nID: 602\nPosition: 2\nPublished: No/);
+  });
+
+  it('list-module-items lists the items of one module', async () => {
+    const result = await h.call('list-module-items', { courseId: '1', moduleId: '601' });
+    assert.match(result.text, /Type: Assignment\nTitle: Portfolio Website\nID: 702/);
+  });
+
+  it('toggle-module-publish flips the published state', async () => {
+    const result = await h.call('toggle-module-publish', { courseId: '1', moduleId: '602' });
+    assert.match(result.text, /Module 602 in course 1 is now published\./);
+    assert.equal(h.canvas.state.modules.find(m => m.id === 602)?.published, true);
+  });
+});
@@ -0,0 +1,240 @@
+import { after, before, beforeEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, readFileSync, readdirSync, rmSync, statSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import type { Server } from 'http';
+import type { AddressInfo } from 'net';
+import express from 'express';
+import { CanvasOAuth, OAuthConfig } from '../src/oauth.js';
+import { EncryptedTokenStore } from '../src/tokenStore.js';
+import { CanvasClient } from '../src/canvasClient.js';
+import { DataAnonymizer } from '../src/anonymizer.js';
+import { CanvasUnauthorizedError } from '../src/errors.js';
+
+process.env.CANVAS_MAX_RETRIES ??= '0';
+
+const KEY = 'test-encryption-key';
+
+async function listen(app: express.Express): Promise<{ url: string; server: Server }> {
+  const server = await new Promise<Server>(resolve => {
+    const started = app.listen(0, '127.0.0.1', () => resolve(started));
+  });
+  return { url: `http://127.0.0.1:${(server.address() as AddressInfo).port}`, server };
+}
+
+// Just enough of Canvas' OAuth2 endpoints and /users/self to sign in, refresh and revoke
+async function startProvider() {
+  const codes = new Set<string>();
+  const accessTokens = new Set<string>();
+  const refreshTokens = new Set<string>(['refresh-1']);
+  const tokenRequests: Record<string, string>[] = [];
+  const revoked: string[] = [];
+  let issued = 0;
+  const app = express();
+  app.use(express.urlencoded({ extended: false }));
+
+  app.get('/login/oauth2/auth', (req, res) => {
+    const code = `code-${++issued}`;
+    codes.add(code);
+    res.redirect(`${req.query.redirect_uri}?code=${code}&state=${req.query.state}`);
+  });
+  app.post('/login/oauth2/token', (req, res) => {
+    tokenRequests.push(req.body);
+    const valid = req.body.grant_type === 'authorization_code' ? codes.delete(req.body.code) : refreshTokens.has(req.body.refresh_token);
+    if (!valid) {
+      res.status(400).json({ error: 'invalid_grant' });
+      return;
+    }
+    const accessToken = `access-${++issued}`;
+    accessTokens.add(accessToken);
+    res.json({
+      access_token: accessToken,
+      token_type: 'Bearer',
+      expires_in: 3600,
+      ...(req.body.grant_type === 'authorization_code' ? { refresh_token: 'refresh-1' } : {}),
+      user: { id: 7, name: 'Ms. Teacher' }
+    });
+  });
+  app.delete('/login/oauth2/token', (req, res) => {
+    const token = req.headers.authorization?.replace(/^Bearer\s+/i, '') ?? '';
+    revoked.push(token);
+    accessTokens.delete(token);
+    res.json({});
+  });
+  app.get('/api/v1/users/self', (req, res) => {
+    if (!accessTokens.has(req.headers.authorization?.replace(/^Bearer\s+/i, '') ?? '')) {
+      res.status(401).json({ errors: [{ message: 'Invalid access token.' }] });
+      return;
+    }
+    res.json({ id: 7, name: 'Ms. Teacher' });
+  });
+
+  const { url, server } = await listen(app);
+  return { url, server, accessTokens, refreshTokens, tokenRequests, revoked };
+}
+
+describe('encrypted token store', () => {
+  let directory: string;
+  before(() => { directory = mkdtempSync(path.join(tmpdir(), 'canvas-tokens-')); });
+  after(() => rmSync(directory, { recursive: true, force: true }));
+
+  it('round-trips tokens through an encrypted, private file', async () => {
+    const store = new EncryptedTokenStore(directory, KEY);
+    const tokens = { accessToken: 'secret-access', refreshToken: 'secret-refresh', expiresAt: 123, canvasUserId: '7' };
+    await store.set('teacher@example.com', tokens);
+    assert.deepEqual(await store.get('teacher@example.com'), tokens);
+    assert.equal(await store.get('someone-else'), undefined);
+
+    const [file] = readdirSync(directory);
+    assert.doesNotMatch(file, /teacher/);
+    assert.doesNotMatch(readFileSync(path.join(directory, file), 'utf-8'), /secret/);
+    assert.equal(statSync(path.join(directory, file)).mode & 0o777, 0o600);
+
+    await store.delete('teacher@example.com');
+    assert.equal(await store.get('teacher@example.com'), undefined);
+  });
+
+  it('treats a store it cannot decrypt as not logged in', async () => {
+    await new EncryptedTokenStore(directory, KEY).set('teacher', { accessToken: 'a' });
+    assert.equal(await new EncryptedTokenStore(directory, 'another-key').get('teacher'), undefined);
+
+    const [file] = readdirSync(directory);
+    const [iv, tag, ciphertext] = readFileSync(path.join(directory, file), 'utf-8').split('.');
+    writeFileSync(path.join(directory, file), [iv, tag, Buffer.from('tampered').toString('base64') + ciphertext].join('.'));
+    assert.equal(await new EncryptedTokenStore(directory, KEY).get('teacher'), undefined);
+  });
+});
+
+describe('Canvas OAuth login', () => {
+  let provider: Awaited<ReturnType<typeof startProvider>>;
+  let server: Server;
+  let publicUrl: string;
+  let directory: string;
+  let oauth: CanvasOAuth;
+  let store: EncryptedTokenStore;
+
+  before(async () => {
+    provider = await startProvider();
+    directory = mkdtempSync(path.join(tmpdir(), 'canvas-tokens-'));
+    const app = express();
+    ({ url: publicUrl, server } = await listen(app));
+    const config: OAuthConfig = {
+      clientId: 'client-1',
+      clientSecret: 'client-secret',
+      publicUrl,
+      redirectUri: `${publicUrl}/oauth/callback`,
+      canvasBaseUrl: provider.url,
+      tokenDir: directory,
+      encryptionKey: KEY
+    };
+    oauth = new CanvasOAuth(config);
+    oauth.registerRoutes(app);
+    store = new EncryptedTokenStore(directory, KEY);
+  });
+  after(async () => {
+    await new Promise(resolve => server.close(resolve));
+    await new Promise(resolve => provider.server.close(resolve));
+    rmSync(directory, { recursive: true, force: true });
+  });
+  beforeEach(() => {
+    provider.tokenRequests.length = 0;
+    provider.revoked.length = 0;
+  });
+
+  const get = (url: string) => fetch(url, { redirect: 'manual' });
+  const confirm = (confirmation: string, decision: string) => fetch(`${publicUrl}/oauth/confirm`, {
+    method: 'POST',
+    body: new URLSearchParams({ confirmation, decision })
+  });
+
+  // Open a login link and follow it through Canvas back to the callback page
+  async function signIn(principal: string) {
+    const authorize = await get(oauth.loginUrl(principal));
+    assert.equal(authorize.status, 302);
+    const consent = await get(authorize.headers.get('location')!);
+    const callback = await get(consent.headers.get('location')!);
+    const page = await callback.text();
+    return { callback, page, confirmation: page.match(/name="confirmation" value="([^"]+)"/)?.[1] ?? '' };
+  }
+
+  it('sends a valid login link to Canvas and refuses forged or expired ones', async () => {
+    const response = await get(oauth.loginUrl('teacher'));
+    const location = new URL(response.headers.get('location')!);
+    assert.equal(`${location.origin}${location.pathname}`, `${provider.url}/login/oauth2/auth`);
+    assert.equal(location.searchParams.get('client_id'), 'client-1');
+    assert.equal(location.searchParams.get('redirect_uri'), `${publicUrl}/oauth/callback`);
+    assert.ok(location.searchParams.get('state'));
+
+    const forged = oauth.loginUrl('teacher').replace(/login=[^.]+/, `login=${Buffer.from('attacker').toString('base64url')}`);
+    assert.equal((await get(forged)).status, 400);
+
+    const now = Date.now();
+    mock.method(Date, 'now', () => now - 11 * 60 * 1000);
+    const expired = oauth.loginUrl('teacher');
+    mock.restoreAll();
+    assert.equal((await get(expired)).status, 400);
+  });
+
+  it('refuses callbacks with an unknown or reused state', async () => {
+    assert.equal((await get(`${publicUrl}/oauth/callback?code=code-x&state=made-up`)).status, 400);
+
+    const authorize = await get(oauth.loginUrl('teacher'));
+    const callbackUrl = (await get(authorize.headers.get('location')!)).headers.get('location')!;
+    assert.equal((await get(callbackUrl)).status, 200);
+    assert.equal((await get(callbackUrl)).status, 400);
+  });
+
+  it('names the client and stores the tokens only once the user confirms', async () => {
+    const { callback, page, confirmation } = await signIn('desktop-ann');
+    assert.equal(callback.status, 200);
+    assert.equal(callback.headers.get('content-security-policy'), "frame-ancestors 'none'");
+    assert.match(page, /Connect Canvas to desktop-ann\?/);
+    assert.match(page, /signed in to Canvas as Ms\. Teacher/);
+    assert.deepEqual(provider.tokenRequests.map(request => request.grant_type), ['authorization_code']);
+    assert.equal(await store.get('desktop-ann'), undefined);
+
+    const connected = await confirm(confirmation, 'connect');
+    assert.equal(connected.status, 200);
+    assert.match(await connected.text(), /Canvas connected/);
+    assert.equal((await store.get('desktop-ann'))?.refreshToken, 'refresh-1');
+    assert.equal((await store.get('desktop-ann'))?.canvasUserName, 'Ms. Teacher');
+
+    // A confirmation works once
+    assert.equal((await confirm(confirmation, 'connect')).status, 400);
+  });
+
+  it('revokes the tokens and stores nothing when the user cancels', async () => {
+    const { confirmation } = await signIn('attacker');
+    const cancelled = await confirm(confirmation, 'cancel');
+    assert.match(await cancelled.text(), /Canvas not connected/);
+    assert.equal(await store.get('attacker'), undefined);
+    assert.equal(provider.revoked.length, 1);
+    assert.equal(provider.accessTokens.has(provider.revoked[0]), false);
+  });
+
+  it('refreshes an access token Canvas rejects and retries the request', async () => {
+    await store.set('teacher', { accessToken: 'revoked-access', refreshToken: 'refresh-1', expiresAt: Date.now() + 3600_000 });
+    const canvas = new CanvasClient(provider.url, oauth.credentialsFor('teacher'), {
+      cache: false, recorder: false, auditLog: false, anonymizer: new DataAnonymizer()
+    });
+
+    assert.deepEqual(await canvas.get('/api/v1/users/self'), { id: 7, name: 'Ms. Teacher' });
+    assert.deepEqual(provider.tokenRequests.map(request => request.grant_type), ['refresh_token']);
+    const refreshed = await store.get('teacher');
+    assert.notEqual(refreshed?.accessToken, 'revoked-access');
+    // Canvas doesn't send a new refresh token, so the old one is kept
+    assert.equal(refreshed?.refreshToken, 'refresh-1');
+  });
+
+  it('asks for a new login when the refresh token is rejected too', async () => {
+    await store.set('teacher', { accessToken: 'revoked-access', refreshToken: 'revoked-refresh' });
+    const canvas = new CanvasClient(provider.url, oauth.credentialsFor('teacher'), {
+      cache: false, recorder: false, auditLog: false, anonymizer: new DataAnonymizer()
+    });
+
+    await assert.rejects(canvas.get('/api/v1/users/self'), (error: unknown) =>
+      error instanceof CanvasUnauthorizedError && /Canvas login expired\. Open http:\/\/127\.0\.0\.1:\d+\/oauth\/authorize\?login=/.test(error.message));
+    assert.equal(await store.get('teacher'), undefined);
+  });
+});
@@ -0,0 +1,170 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { CreateMessageRequest } from '@modelcontextprotocol/sdk/types.js';
+import { StagedPageEdit, checkPageEdit, diffPageBodies, findPageEditConflict } from '../src/pageEdits.js';
+import { Harness, startHarness } from './harness.js';
+
+describe('checkPageEdit', () => {
+  const page = '<h2>Schedule</h2><p>See <a href="https://example.com/cal">the calendar</a>.</p><ul><li>Week 1<li>Week 2</ul>';
+
+  it('accepts edits that keep the markup, headings and links', () => {
+    assert.deepEqual(checkPageEdit(page, page.replace('Week 2', 'Week 2: exam')), []);
+  });
+
+  it('reports tags the rewrite broke', () => {
+    assert.deepEqual(checkPageEdit(page, '<div>' + page), ['<div> is never closed']);
+    assert.deepEqual(checkPageEdit(page, page + '</section>'), ['</section> has no opening tag']);
+    // Problems the page already had are not the rewrite's fault
+    assert.deepEqual(checkPageEdit('<div>' + page, '<div>' + page + '<p>New'), []);
+  });
+
+  it('reports removed headings and links unless removals are allowed', () => {
+    const trimmed = '<p>See the calendar.</p>';
+    assert.deepEqual(checkPageEdit(page, trimmed), [
+      'removes the heading <h2> Schedule',
+      'removes the link to https://example.com/cal'
+    ]);
+    assert.deepEqual(checkPageEdit(page, trimmed, { allowRemovals: true }), []);
+  });
+});
+
+describe('diffPageBodies', () => {
+  it('diffs per block element with a line of context', () => {
+    const before = '<h2>Syllabus</h2><p>Intro</p><p>Office hours: Monday</p><p>Grading</p><p>Policies</p>';
+    const after = before.replace('Monday', 'Tuesday');
+    assert.equal(diffPageBodies(before, after), [
+      '  <p>Intro</p>',
+      '- <p>Office hours: Monday</p>',
+      '+ <p>Office hours: Tuesday</p>',
+      '  <p>Grading</p>',
+      '  …'
+    ].join('\n'));
+    assert.equal(diffPageBodies(before, before), '(no changes)');
+  });
+});
+
+describe('findPageEditConflict', () => {
+  const edit: StagedPageEdit = {
+    id: 'edit-1', timestamp: '', courseId: '1', pageUrl: 'syllabus', instructions: '',
+    before: '<p>Monday</p>', updatedAt: '2026-08-02T12:00:00Z'
+  };
+
+  it('only reports saves that changed the body to something else', () => {
+    assert.equal(findPageEditConflict(edit, { body: '<p>Monday</p>', updated_at: '2026-08-02T12:00:00Z' }, '<p>Tuesday</p>'), undefined);
+    // e.g. the page was published in the meantime
+    assert.equal(findPageEditConflict(edit, { body: '<p>Monday</p>', updated_at: '2026-08-03T08:00:00Z' }, '<p>Tuesday</p>'), undefined);
+    assert.equal(findPageEditConflict(edit, { body: '<p>Tuesday</p>', updated_at: '2026-08-03T08:00:00Z' }, '<p>Tuesday</p>'), undefined);
+    assert.deepEqual(findPageEditConflict(edit, { body: '<p>Wednesday</p>', updated_at: '2026-08-03T08:00:00Z' }, '<p>Tuesday</p>'), {
+      readAt: '2026-08-02T12:00:00Z',
+      updatedAt: '2026-08-03T08:00:00Z',
+      theirChanges: '- <p>Monday</p>\n+ <p>Wednesday</p>',
+      yourChanges: '- <p>Monday</p>\n+ <p>Tuesday</p>'
+    });
+  });
+});
+
+describe('patch-page-content with sampling', () => {
+  let h: Harness;
+  let reply: string;
+  const requests: CreateMessageRequest[] = [];
+  before(async () => {
+    h = await startHarness({
+      sampling: async request => {
+        requests.push(request);
+        return { role: 'assistant', model: 'test-model', content: { type: 'text', text: reply } };
+      }
+    });
+  });
+  after(() => h.close());
+
+  const syllabus = () => h.canvas.state.pages.find(p => p.url === 'syllabus')!;
+
+  it('stages the rewrite with a diff, and apply-page-changes saves it', async () => {
+    reply = '```html\n<h2>Syllabus</h2><p>Office hours: Tuesday</p>\n```';
+    const result = await h.call('patch-page-content', { courseId: '1', pageUrl: 'syllabus', instructions: 'Change office hours to Tuesday' });
+    assert.equal(result.isError, false);
+    const request = requests.at(-1)!.params;
+    assert.match((request.messages[0].content as any).text, /<p>Office hours: Monday<\/p>[\s\S]*Instructions: Change office hours to Tuesday/);
+    assert.equal(result.structured.changeId, 'edit-1');
+    assert.equal(result.structured.proposedBody, '<h2>Syllabus</h2><p>Office hours: Tuesday</p>');
+    assert.match(result.text, /- <p>Office hours: Monday<\/p>\n\+ <p>Office hours: Tuesday<\/p>/);
+    assert.equal(syllabus().body, '<h2>Syllabus</h2><p>Office hours: Monday</p>');
+
+    const applied = await h.call('apply-page-changes', { courseId: '1', pageUrl: 'syllabus', changeId: 'edit-1' });
+    assert.equal(applied.isError, false);
+    assert.equal(syllabus().body, '<h2>Syllabus</h2><p>Office hours: Tuesday</p>');
+
+    const again = await h.call('apply-page-changes', { courseId: '1', pageUrl: 'syllabus', changeId: 'edit-1' });
+    assert.match(again.text, /No staged change edit-1/);
+  });
+
+  it('refuses rewrites that drop headings or break the markup', async () => {
+    reply = '<p>Office hours: Friday';
+    const result = await h.call('patch-page-content', { courseId: '1', pageUrl: 'syllabus', instructions: 'Change office hours to Friday' });
+    assert.equal(result.isError, true);
+    assert.match(result.text, /Did not stage the rewrite of page 'syllabus': removes the heading <h2> Syllabus/);
+
+    const allowed = await h.call('patch-page-content', { courseId: '1', pageUrl: 'syllabus', instructions: 'Only keep the office hours', allowRemovals: true });
+    assert.equal(allowed.structured.changeId, 'edit-2');
+  });
+
+  it('checks newContent that replaces a staged rewrite', async () => {
+    const result = await h.call('apply-page-changes', { courseId: '1', pageUrl: 'syllabus', changeId: 'edit-2', newContent: '<h2>Syllabus</h2><div>Office hours' });
+    assert.equal(result.isError, true);
+    assert.match(result.text, /Did not apply edit-2 to page 'syllabus': <div> is never closed/);
+  });
+
+  it('only applies a staged edit to its own page', async () => {
+    const result = await h.call('apply-page-changes', { courseId: '1', pageUrl: 'welcome', changeId: 'edit-2' });
+    assert.match(result.text, /edit-2 is an edit of page 'syllabus' in course 1/);
+  });
+
+  it('refuses to overwrite a save made since the page was read', async () => {
+    reply = '<h2>Syllabus</h2><p>Office hours: Wednesday</p>';
+    const { structured } = await h.call('patch-page-content', { courseId: '1', pageUrl: 'syllabus', instructions: 'Change office hours to Wednesday' });
+    // A colleague edits the page by hand in the meantime
+    Object.assign(syllabus(), { body: '<h2>Syllabus</h2><p>Office hours: Thursday</p>', updated_at: '2026-10-19T09:00:00Z' });
+
+    const result = await h.call('apply-page-changes', { courseId: '1', pageUrl: 'syllabus', changeId: structured.changeId });
+    assert.equal(result.isError, true);
+    assert.match(result.text, new RegExp(`^Refusing to apply ${structured.changeId}: page 'syllabus' was saved in Canvas at 2026-10-19T09:00:00Z`));
+    assert.match(result.text, /--- THEIR CHANGES \(saved in Canvas since\) ---\n  <h2>Syllabus<\/h2>\n- <p>Office hours: Tuesday<\/p>\n\+ <p>Office hours: Thursday<\/p>/);
+    assert.match(result.text, /--- YOUR CHANGES \(edit-\d+\) ---\n  <h2>Syllabus<\/h2>\n- <p>Office hours: Tuesday<\/p>\n\+ <p>Office hours: Wednesday<\/p>/);
+    assert.equal(syllabus().body, '<h2>Syllabus</h2><p>Office hours: Thursday</p>');
+  });
+});
+
+describe('patch-page-content without sampling', () => {
+  let h: Harness;
+  before(async () => { h = await startHarness(); });
+  after(() => h.close());
+
+  it('stages the page it read, for apply-page-changes to check the rewrite against', async () => {
+    const patched = await h.call('patch-page-content', { courseId: '1', pageUrl: 'syllabus', instructions: 'Change office hours to Tuesday' });
+    assert.equal(patched.structured.changeId, 'edit-1');
+    assert.match(patched.text, /call apply-page-changes with changeId "edit-1" and the modified HTML as newContent/);
+
+    const missing = await h.call('apply-page-changes', { courseId: '1', pageUrl: 'syllabus', changeId: 'edit-1' });
+    assert.match(missing.text, /edit-1 has no rewrite staged; pass the rewritten HTML as newContent/);
+
+    const applied = await h.call('apply-page-changes', { courseId: '1', pageUrl: 'syllabus', changeId: 'edit-1', newContent: '<h2>Syllabus</h2><p>Office hours: Tuesday</p>' });
+    assert.equal(applied.isError, false);
+    assert.equal(h.canvas.state.pages.find(p => p.url === 'syllabus')?.body, '<h2>Syllabus</h2><p>Office hours: Tuesday</p>');
+  });
+
+  it('checks newContent like a sampled rewrite and keeps the edit staged', async () => {
+    await h.call('patch-page-content', { courseId: '1', pageUrl: 'syllabus', instructions: 'Change office hours to Friday' });
+    const dropped = await h.call('apply-page-changes', { courseId: '1', pageUrl: 'syllabus', changeId: 'edit-2', newContent: '<p>Office hours: Friday' });
+    assert.equal(dropped.isError, true);
+    assert.match(dropped.text, /^Did not apply edit-2 to page 'syllabus': /);
+    assert.match(dropped.text, /removes the heading <h2> Syllabus/);
+    assert.equal(h.canvas.state.pages.find(p => p.url === 'syllabus')?.body, '<h2>Syllabus</h2><p>Office hours: Tuesday</p>');
+
+    const fixed = await h.call('apply-page-changes', { courseId: '1', pageUrl: 'syllabus', changeId: 'edit-2', newContent: '<h2>Syllabus</h2><p>Office hours: Friday</p>' });
+    assert.equal(fixed.isError, false);
+
+    await h.call('patch-page-content', { courseId: '1', pageUrl: 'syllabus', instructions: 'Only keep the office hours', allowRemovals: true });
+    const allowed = await h.call('apply-page-changes', { courseId: '1', pageUrl: 'syllabus', changeId: 'edit-3', newContent: '<p>Office hours: Friday</p>' });
+    assert.equal(allowed.isError, false);
+  });
+});
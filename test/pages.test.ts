@@ -0,0 +1,75 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Harness, startHarness } from './harness.js';
+
+describe('page tools', () => {
+  let h: Harness;
+  before(async () => { h = await startHarness(); });
+  after(() => h.close());
+
+  it('list-pages and get-page-content', async () => {
+    const list = await h.call('list-pages', { courseId: '1' });
+    assert.match(list.text, /Title: Welcome\nURL Slug: welcome\nID: 801/);
+    assert.match(list.text, /URL Slug: syllabus/);
+
+    const page = await h.call('get-page-content', { courseId: '1', pageUrl: 'syllabus' });
+    assert.match(page.text, /Body \(HTML\):\n<h2>Syllabus<\/h2><p>Office hours: Monday<\/p>/);
+  });
+
+  it('get-styleguide explains how to create a missing styleguide', async () => {
+    const result = await h.call('get-styleguide', { courseId: '1' });
+    assert.equal(result.isError, true);
+    assert.match(result.text, /No styleguide page 'canvas-styleguide' in course 1 \(Create one first using generate-styleguide\)/);
+  });
+
+  it('generate-styleguide saves a page that get-styleguide then returns', async () => {
+    const generated = await h.call('generate-styleguide', { courseId: '1', customBranding: 'Use school blue' });
+    assert.match(generated.text, /Canvas styleguide created successfully!\nPage URL: canvas-styleguide/);
+
+    const styleguide = await h.call('get-styleguide', { courseId: '1' });
+    assert.equal(styleguide.isError, false);
+    assert.match(styleguide.text, /Use school blue/);
+  });
+
+  it('update-page-content shows the styleguide when no body is given', async () => {
+    const result = await h.call('update-page-content', { courseId: '1', pageUrl: 'new-page', title: 'New' });
+    assert.match(result.text, /--- COURSE STYLEGUIDE FOR REFERENCE ---/);
+    assert.equal(h.canvas.state.pages.some(p => p.url === 'new-page'), false);
+  });
+
+  it('update-page-content creates or replaces a page', async () => {
+    const result = await h.call('update-page-content', { courseId: '1', pageUrl: 'new-page', title: 'New', body: '<p>Hi</p>' });
+    assert.match(result.text, /Page 'new-page' updated in course 1\.\nTitle: New/);
+    assert.equal(h.canvas.state.pages.find(p => p.url === 'new-page')?.body, '<p>Hi</p>');
+  });
+
+  it('patch-page-content returns the current body and instructions', async () => {
+    const result = await h.call('patch-page-content', { courseId: '1', pageUrl: 'syllabus', instructions: 'Change office hours to Tuesday' });
+    assert.match(result.text, /--- CURRENT CONTENT ---\n<h2>Syllabus<\/h2><p>Office hours: Monday<\/p>\n--- END CURRENT CONTENT ---/);
+    assert.match(result.text, /--- COURSE STYLEGUIDE STANDARDS ---/);
+    assert.match(result.text, /Instructions: Change office hours to Tuesday/);
+  });
+
+  it('apply-page-changes writes the new body of a staged edit', async () => {
+    const { structured } = await h.call('patch-page-content', { courseId: '1', pageUrl: 'syllabus', instructions: 'Change office hours to Tuesday' });
+    const result = await h.call('apply-page-changes', { courseId: '1', pageUrl: 'syllabus', changeId: structured.changeId, newContent: '<h2>Syllabus</h2><p>Office hours: Tuesday</p>' });
+    assert.match(result.text, /Page 'syllabus' successfully updated in course 1!/);
+    assert.equal(h.canvas.state.pages.find(p => p.url === 'syllabus')?.body, '<h2>Syllabus</h2><p>Office hours: Tuesday</p>');
+  });
+
+  it('apply-page-changes refuses newContent without a staged edit', async () => {
+    const result = await h.call('apply-page-changes', { courseId: '1', pageUrl: 'syllabus', newContent: '<p>Overwritten</p>' });
+    assert.equal(result.isError, true);
+    assert.match(result.text, /changeId/);
+    assert.equal(h.canvas.state.pages.find(p => p.url === 'syllabus')?.body, '<h2>Syllabus</h2><p>Office hours: Tuesday</p>');
+  });
+
+  it('list-page-revisions and revert-page-revision', async () => {
+    const revisions = await h.call('list-page-revisions', { courseId: '1', pageUrl: 'welcome' });
+    assert.match(revisions.text, /Revision ID: 2\nUpdated At: 2026-08-01T12:00:00Z\nEdited By: Ms\. Teacher/);
+
+    const reverted = await h.call('revert-page-revision', { courseId: '1', pageUrl: 'welcome', revisionId: '1' });
+    assert.match(reverted.text, /Page 'welcome' in course 1 reverted to revision 1\./);
+    assert.equal(h.canvas.state.pages.find(p => p.url === 'welcome')?.body, '<p>Draft</p>');
+  });
+});
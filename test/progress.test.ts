@@ -0,0 +1,58 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { setTimeout as sleep } from 'node:timers/promises';
+import { Progress } from '@modelcontextprotocol/sdk/types.js';
+import { Harness, startHarness } from './harness.js';
+
+describe('progress notifications', () => {
+  let h: Harness;
+  before(async () => { h = await startHarness({ maxPerPage: 1 }); });
+  after(() => h.close());
+
+  async function callWithProgress(name: string, args: Record<string, unknown>) {
+    const updates: Progress[] = [];
+    await h.client.callTool({ name, arguments: args }, undefined, { onprogress: update => updates.push(update) });
+    return updates;
+  }
+
+  it('reports each page of a paginated list', async () => {
+    const updates = await callWithProgress('list-assignments', { courseId: '1' });
+    assert.ok(updates.length >= 2);
+    assert.deepEqual(updates.map(update => update.progress), updates.map((_, index) => index + 1));
+    assert.equal(updates[0].message, `Fetched page 1 of ${updates.length} of /api/v1/courses/1/assignments`);
+  });
+
+  it('reports submitted files as they are read', async () => {
+    const updates = await callWithProgress('get-submission-documents', { courseId: '1', assignmentId: '201', userId: '101', downloadFiles: true });
+    assert.equal(updates.at(-1)?.message, 'Read 1 of 1 submitted files');
+  });
+
+  it('sends nothing to clients without a progress token', async () => {
+    const notified: unknown[] = [];
+    h.client.fallbackNotificationHandler = async notification => { notified.push(notification); };
+    await h.call('get-rubric-statistics', { courseId: '1', assignmentId: '201' });
+    assert.deepEqual(notified, []);
+  });
+});
+
+describe('cancellation', () => {
+  let h: Harness;
+  before(async () => { h = await startHarness({ maxPerPage: 1, latencyMs: 50 }); });
+  after(() => h.close());
+
+  it('stops the Canvas requests of a cancelled call', async () => {
+    const controller = new AbortController();
+    const call = h.client.callTool({ name: 'list-students', arguments: { courseId: '1' } }, undefined, {
+      signal: controller.signal,
+      // Cancel once the first page is in
+      onprogress: () => controller.abort()
+    });
+    await assert.rejects(call);
+    const pages = () => h.canvas.requests.filter(r => r.path === '/api/v1/courses/1/users').length;
+    const sent = pages();
+    // Long enough for another page to be requested and answered, had the call kept going
+    await sleep(300);
+    assert.equal(pages(), sent);
+    assert.ok(sent < h.canvas.state.students.length);
+  });
+});
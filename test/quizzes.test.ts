@@ -0,0 +1,71 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Harness, startHarness } from './harness.js';
+
+describe('quiz tools', () => {
+  let h: Harness;
+  before(async () => { h = await startHarness(); });
+  after(() => h.close());
+
+  it('list-quizzes and get-quiz', async () => {
+    const list = await h.call('list-quizzes', { courseId: '1' });
+    assert.match(list.text, /Quiz: HTML Basics\nID: 1001\nDue Date: 2026-09-10T21:59:00Z\nPoints Possible: 5\nStatus: Published/);
+
+    const quiz = (await h.call('get-quiz', { courseId: '1', quizId: '1001' })).structured.quiz;
+    assert.equal(quiz.title, 'HTML Basics');
+  });
+
+  it('create, update and delete a quiz', async () => {
+    const created = (await h.call('create-quiz', { courseId: '1', title: 'CSS Quiz', quiz_type: 'practice_quiz' })).structured.quiz;
+    assert.equal(created.title, 'CSS Quiz');
+
+    const updated = (await h.call('update-quiz', { courseId: '1', quizId: String(created.id), published: true })).structured.quiz;
+    assert.equal(updated.published, true);
+
+    await h.call('delete-quiz', { courseId: '1', quizId: String(created.id) });
+    assert.equal(h.canvas.state.quizzes.some(q => q.id === created.id), false);
+  });
+
+  it('quiz question tools', async () => {
+    const list = await h.call('list-quiz-questions', { courseId: '1', quizId: '1001' });
+    assert.match(list.text, /What does HTML stand for\?/);
+    assert.match(list.text, /Which tag makes a link\?/);
+
+    const question = (await h.call('get-quiz-question', { courseId: '1', quizId: '1001', questionId: '1101' })).structured.question;
+    assert.equal(question.question_type, 'multiple_choice_question');
+
+    const created = (await h.call('create-quiz-question', {
+      courseId: '1', quizId: '1001',
+      question: { question_text: 'What is CSS?', question_type: 'essay_question', points_possible: 2 }
+    })).structured.question;
+    const updated = (await h.call('update-quiz-question', {
+      courseId: '1', quizId: '1001', questionId: String(created.id),
+      question: { question_text: 'What does CSS stand for?', question_type: 'essay_question', points_possible: 2 }
+    })).structured.question;
+    assert.equal(updated.question_text, 'What does CSS stand for?');
+
+    const deleted = await h.call('delete-quiz-question', { courseId: '1', quizId: '1001', questionId: String(created.id) });
+    assert.equal(deleted.isError, false);
+    assert.equal(h.canvas.state.quizQuestions[1001].length, 2);
+  });
+
+  it('quiz question group tools', async () => {
+    const groups = (await h.call('list-quiz-question-groups', { courseId: '1', quizId: '1001' })).structured.groups;
+    assert.equal(groups[0].name, 'Random pick');
+
+    const group = (await h.call('get-quiz-question-group', { courseId: '1', quizId: '1001', groupId: '1201' })).structured.group;
+    assert.equal(group.pick_count, 1);
+
+    const created = (await h.call('create-quiz-question-group', {
+      courseId: '1', quizId: '1001', quizGroup: { name: 'Bonus', pick_count: 2, question_points: 1 }
+    })).structured.group;
+    const updated = (await h.call('update-quiz-question-group', {
+      courseId: '1', quizId: '1001', groupId: String(created.id), quizGroup: { name: 'Bonus', pick_count: 3, question_points: 1 }
+    })).structured.group;
+    assert.equal(updated.pick_count, 3);
+
+    const deleted = await h.call('delete-quiz-question-group', { courseId: '1', quizId: '1001', groupId: String(created.id) });
+    assert.equal(deleted.isError, false);
+    assert.equal(h.canvas.state.quizGroups[1001].length, 1);
+  });
+});
@@ -0,0 +1,168 @@
+import { after, before, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { Server } from 'http';
+import type { AddressInfo } from 'net';
+import express from 'express';
+import { CanvasClient } from '../src/canvasClient.js';
+import { DataAnonymizer } from '../src/anonymizer.js';
+import { CanvasApiError, CanvasForbiddenError, CanvasRateLimitedError, CanvasRequestCancelledError } from '../src/errors.js';
+import { RateLimiter, RateLimiterOptions, getTokenRateLimiter } from '../src/rateLimiter.js';
+import { runInToolCall } from '../src/toolContext.js';
+
+interface Reply {
+  status: number;
+  body?: unknown;
+  headers?: Record<string, string>;
+}
+
+// A Canvas stand-in that answers each path with scripted failures before succeeding,
+// and tracks how many requests it holds at once
+async function startThrottlingServer() {
+  const scripts = new Map<string, Reply[]>();
+  const requests: Array<{ method: string; path: string; at: number }> = [];
+  let inFlight = 0;
+  let maxInFlight = 0;
+  const app = express();
+  app.use(async (req, res) => {
+    requests.push({ method: req.method, path: req.path, at: Date.now() });
+    inFlight += 1;
+    maxInFlight = Math.max(maxInFlight, inFlight);
+    await new Promise(resolve => setTimeout(resolve, 20));
+    inFlight -= 1;
+    const reply = scripts.get(req.path)?.shift() ?? { status: 200, body: { ok: true } };
+    res.status(reply.status).set(reply.headers ?? {}).json(reply.body ?? {});
+  });
+  const server = await new Promise<Server>(resolve => {
+    const started = app.listen(0, '127.0.0.1', () => resolve(started));
+  });
+  return {
+    url: `http://127.0.0.1:${(server.address() as AddressInfo).port}`,
+    requests,
+    script(path: string, ...replies: Reply[]) { scripts.set(path, replies); },
+    get maxInFlight() { return maxInFlight; },
+    reset() {
+      scripts.clear();
+      requests.length = 0;
+      maxInFlight = 0;
+    },
+    close: () => new Promise(resolve => server.close(resolve))
+  };
+}
+
+const OPTIONS: RateLimiterOptions = { maxConcurrency: 4, maxRetries: 3, baseDelayMs: 1, maxDelayMs: 1000, lowWaterMark: 0 };
+
+describe('rate limiting', () => {
+  let canvas: Awaited<ReturnType<typeof startThrottlingServer>>;
+  before(async () => { canvas = await startThrottlingServer(); });
+  after(() => canvas.close());
+  beforeEach(() => canvas.reset());
+
+  const client = (options: Partial<RateLimiterOptions> = {}) => new CanvasClient(canvas.url, 'token', {
+    cache: false,
+    recorder: false,
+    auditLog: false,
+    anonymizer: new DataAnonymizer(),
+    rateLimiter: new RateLimiter({ ...OPTIONS, ...options })
+  });
+  const count = (method: string, path: string) => canvas.requests.filter(r => r.method === method && r.path === path).length;
+
+  it('retries 429 and 403 "Rate Limit Exceeded" responses', async () => {
+    canvas.script('/throttled', { status: 429 }, { status: 429 });
+    assert.deepEqual(await client().get('/throttled'), { ok: true });
+    assert.equal(count('GET', '/throttled'), 3);
+
+    canvas.script('/bucket', { status: 403, body: '403 Forbidden (Rate Limit Exceeded)' });
+    assert.deepEqual(await client().get('/bucket'), { ok: true });
+    assert.equal(count('GET', '/bucket'), 2);
+
+    // Any other 403 is a permission problem, not worth a retry
+    canvas.script('/forbidden', { status: 403, body: { errors: [{ message: 'user not authorized to perform that action' }] } });
+    await assert.rejects(client().get('/forbidden'), CanvasForbiddenError);
+    assert.equal(count('GET', '/forbidden'), 1);
+  });
+
+  it('gives up with a rate limit error once the retries run out', async () => {
+    canvas.script('/busy', ...Array.from({ length: 5 }, () => ({ status: 429 })));
+    await assert.rejects(client({ maxRetries: 2 }).get('/busy'), CanvasRateLimitedError);
+    assert.equal(count('GET', '/busy'), 3);
+  });
+
+  it('waits as long as Retry-After says, up to the maximum delay', async () => {
+    canvas.script('/later', { status: 429, headers: { 'Retry-After': '0.3' } });
+    await client().get('/later');
+    const [first, second] = canvas.requests.map(r => r.at);
+    assert.ok(second - first >= 300, `retried after ${second - first}ms`);
+
+    canvas.reset();
+    canvas.script('/much-later', { status: 429, headers: { 'Retry-After': '3600' } });
+    const started = Date.now();
+    await client({ maxDelayMs: 100 }).get('/much-later');
+    assert.ok(Date.now() - started < 1000);
+  });
+
+  it('retries idempotent writes on 5xx but never a POST', async () => {
+    canvas.script('/assignments/1', { status: 502 });
+    await client().put('/assignments/1', { name: 'x' });
+    assert.equal(count('PUT', '/assignments/1'), 2);
+
+    // The first POST may have created something before the gateway failed
+    canvas.script('/assignments', { status: 502 });
+    await assert.rejects(client().post('/assignments', { name: 'x' }), CanvasApiError);
+    assert.equal(count('POST', '/assignments'), 1);
+
+    // A throttled POST was never processed, so sending it again is safe
+    canvas.script('/comments', { status: 429 });
+    await client().post('/comments', { text: 'x' });
+    assert.equal(count('POST', '/comments'), 2);
+  });
+
+  it('never retries a comment on 5xx, though it is sent with PUT', async () => {
+    const path = '/api/v1/courses/1/assignments/2/submissions/101/comments';
+    canvas.script(path, { status: 502 });
+    await assert.rejects(client().put(path, { comment: { text_comment: 'Nice work' } }), CanvasApiError);
+    assert.equal(count('PUT', path), 1);
+
+    // Grading with a comment appends one as well
+    canvas.script('/api/v1/courses/1/assignments/2/submissions/101', { status: 503 });
+    await assert.rejects(client().put('/api/v1/courses/1/assignments/2/submissions/101', { posted_grade: 'A', comment: { text_comment: 'Nice work' } }), CanvasApiError);
+    assert.equal(count('PUT', '/api/v1/courses/1/assignments/2/submissions/101'), 1);
+  });
+
+  it('stops waiting to retry once the tool call is cancelled', async () => {
+    canvas.script('/throttled', { status: 429, headers: { 'Retry-After': '30' } });
+    const canvasClient = client({ maxConcurrency: 1, maxDelayMs: 30_000 });
+    const controller = new AbortController();
+    const call = { tool: 'list-assignments', sessionId: 'session', arguments: {}, signal: controller.signal };
+    const started = Date.now();
+    // The second request waits for the slot and then for the pause the first one's 429 caused
+    const requests = runInToolCall(call, () => [canvasClient.get('/throttled'), canvasClient.get('/queued')]);
+    setTimeout(() => controller.abort(), 100);
+
+    for (const request of requests) {
+      await assert.rejects(request, CanvasRequestCancelledError);
+    }
+    assert.ok(Date.now() - started < 1000, `cancelled after ${Date.now() - started}ms`);
+    assert.equal(count('GET', '/throttled'), 1);
+    assert.equal(count('GET', '/queued'), 0);
+  });
+
+  it('keeps no more requests in flight than the concurrency cap', async () => {
+    const canvasClient = client({ maxConcurrency: 2 });
+    await Promise.all(Array.from({ length: 8 }, (_, i) => canvasClient.get(`/items/${i}`)));
+    assert.equal(canvas.requests.length, 8);
+    assert.equal(canvas.maxInFlight, 2);
+  });
+
+  it('shares one limiter between clients using the same token', async () => {
+    process.env.CANVAS_MAX_CONCURRENCY = '1';
+    try {
+      const clients = [1, 2].map(() => new CanvasClient(canvas.url, 'shared-token', { cache: false, recorder: false, auditLog: false, anonymizer: new DataAnonymizer() }));
+      await Promise.all(clients.flatMap(canvasClient => [1, 2, 3].map(i => canvasClient.get(`/shared/${i}`))));
+      assert.equal(canvas.maxInFlight, 1);
+    } finally {
+      delete process.env.CANVAS_MAX_CONCURRENCY;
+    }
+    assert.equal(getTokenRateLimiter('a'), getTokenRateLimiter('a'));
+    assert.notEqual(getTokenRateLimiter('a'), getTokenRateLimiter('b'));
+  });
+});
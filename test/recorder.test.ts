@@ -0,0 +1,100 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, readdirSync, readFileSync, rmSync, statSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { CanvasClient } from '../src/canvasClient.js';
+import { CanvasNotFoundError } from '../src/errors.js';
+import { TrafficRecorder } from '../src/recorder.js';
+import { FakeCanvas, startFakeCanvas } from './fakeCanvas.js';
+import { TOKEN } from './fixtures.js';
+
+process.env.CANVAS_MAX_RETRIES ??= '0';
+
+describe('record and replay', () => {
+  let canvas: FakeCanvas;
+  let directory: string;
+  const recordings = () => readdirSync(directory).sort().map(file => readFileSync(path.join(directory, file), 'utf-8'));
+  // Recordings with base64 bodies decoded, so assertions see downloaded text as well
+  const decoded = () => recordings().map(recording => {
+    const exchange = JSON.parse(recording);
+    if (exchange.response.encoding === 'base64') exchange.response.data = Buffer.from(exchange.response.data, 'base64').toString('utf-8');
+    return JSON.stringify(exchange);
+  });
+
+  before(async () => {
+    canvas = await startFakeCanvas({ maxPerPage: 3 });
+    directory = mkdtempSync(path.join(tmpdir(), 'canvas-recording-'));
+    const recorder = new TrafficRecorder({ mode: 'record', directory, scrubPii: true });
+    const client = new CanvasClient(canvas.url, TOKEN, { cache: false, recorder, auditLog: false });
+
+    await client.listStudents('1', { per_page: 100 }, { anonymous: false });
+    await client.getFileInfo('501');
+    await client.downloadFile('501');
+    await client.updateOrCreatePage('1', 'welcome', { wiki_page: { body: '<p>Hi</p>' } });
+    await client.postSubmissionComment('1', '201', '102', 'Great work, Bob! Alice Johnson liked it too.');
+    await assert.rejects(client.getAssignment('1', '999'), CanvasNotFoundError);
+  });
+  after(async () => {
+    await canvas.close();
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('writes one numbered file per request', () => {
+    assert.deepEqual(readdirSync(directory).sort(), [
+      '0001-GET-courses_1_users.json',
+      '0002-GET-courses_1_users.json',
+      '0003-GET-files_501.json',
+      '0004-GET-files_501.json',
+      '0005-GET-files_501_download.json',
+      '0006-PUT-courses_1_pages_welcome.json',
+      '0007-PUT-courses_1_assignments_201_submissions_102_comments.json',
+      '0008-GET-courses_1_assignments_999.json'
+    ]);
+    for (const file of readdirSync(directory)) {
+      assert.equal(statSync(path.join(directory, file)).mode & 0o777, 0o600);
+    }
+  });
+
+  it('never stores the Canvas token', () => {
+    for (const recording of recordings()) {
+      assert.doesNotMatch(recording, new RegExp(TOKEN));
+      assert.doesNotMatch(recording, /authorization/i);
+    }
+  });
+
+  it('replaces student names and emails when PII scrubbing is on', () => {
+    const users = JSON.parse(recordings()[0]).response.data;
+    assert.equal(users.length, 3);
+    assert.match(users[0].name, /^User [0-9a-f]{8}$/);
+    assert.match(users[0].email, /^user-[0-9a-f]{8}@example\.com$/);
+    assert.equal(users[0].sis_user_id, null);
+    assert.equal(users[0].id, 101);
+    assert.doesNotMatch(decoded().join('\n'), /Alice|Johnson|Bob|alice@school\.edu/);
+  });
+
+  it('replaces known names in free text and text downloads', () => {
+    const [alice, bob] = JSON.parse(recordings()[0]).response.data.map((user: any) => user.name);
+    const download = JSON.parse(decoded()[4]).response.data;
+    assert.equal(download, `Hello from ${alice}!\n`);
+    const comment = JSON.parse(recordings()[6]);
+    assert.equal(comment.request.body.comment.text_comment, `Great work, ${bob}! ${alice} liked it too.`);
+  });
+
+  it('replays recordings without a Canvas server', async () => {
+    const recorder = new TrafficRecorder({ mode: 'replay', directory, scrubPii: false });
+    const client = new CanvasClient('http://127.0.0.1:9', 'other-token', { cache: false, recorder, auditLog: false });
+
+    const students = await client.listStudents('1', { per_page: 100 }, { anonymous: false }) as any[];
+    assert.deepEqual(students.map(s => s.id), [101, 102, 103, 104, 105]);
+
+    const file = await client.downloadFile('501');
+    assert.match(Buffer.from(file.data).toString(), /^Hello from User [0-9a-f]{8}!\n$/);
+
+    const page = await client.updateOrCreatePage('1', 'welcome', { wiki_page: { body: '<p>Hi</p>' } }) as any;
+    assert.equal(page.body, '<p>Hi</p>');
+
+    await assert.rejects(client.getAssignment('1', '999'), CanvasNotFoundError);
+    await assert.rejects(client.getAssignment('1', '201'), /No recorded response for GET \/api\/v1\/courses\/1\/assignments\/201/);
+  });
+});
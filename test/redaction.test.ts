@@ -0,0 +1,74 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { DataAnonymizer } from '../src/anonymizer.js';
+import { RosterMember } from '../src/redaction.js';
+import { Harness, startHarness } from './harness.js';
+
+const roster: RosterMember[] = [
+  { id: 1, name: 'Jan Jansen', sortable_name: 'Jansen, Jan', email: 'jan@school.edu', login_id: 'jjansen', sis_user_id: 'S0001' },
+  { id: 2, name: 'Eve Okafor', sortable_name: 'Okafor, Eve', email: 'eve@school.edu' },
+  { id: 3, name: 'Eve Smith', sortable_name: 'Smith, Eve' }
+];
+
+describe('roster-driven redaction', () => {
+  it('replaces names in any order and separator, emails and ids', async () => {
+    const anonymizer = new DataAnonymizer();
+    const text = await anonymizer.redactText('1', 'Jan Jansen (jan@school.edu, S0001, jjansen) reviewed JANSEN, JAN and Okafor.', roster);
+    assert.equal(text, 'Student 1 (student1@example.com, student-1, student-1) reviewed Student 1 and Student 2.');
+    assert.equal(await anonymizer.redactText('1', 'jan_jansen_report.pdf', roster, 'filename'), 'Student_1_report.pdf');
+  });
+
+  it('only matches whole words and never guesses between students sharing a name', async () => {
+    const anonymizer = new DataAnonymizer();
+    assert.equal(await anonymizer.redactText('1', 'Every student, even Evelyn, met Eve.', roster), 'Every student, even Evelyn, met [student].');
+  });
+
+  it('gives mentioned students the same pseudonyms as everywhere else', async () => {
+    const anonymizer = new DataAnonymizer();
+    const [user] = await anonymizer.anonymizeUsers('1', [{ id: 2, name: 'Eve Okafor', sortable_name: 'Okafor, Eve', sis_user_id: 'S0002' }]);
+    assert.deepEqual(user, { id: 2, name: 'Student 1', display_name: 'Student 1', email: undefined });
+    assert.equal(await anonymizer.redactText('1', 'Eve Okafor helped Jan', roster), 'Student 1 helped Student 2');
+  });
+});
+
+describe('redaction in tool output', () => {
+  let h: Harness;
+  before(async () => {
+    h = await startHarness();
+    const submission: any = h.canvas.state.submissions.find(s => s.user_id === 102);
+    submission.body = '<p>Worked with Alice Johnson (alice@school.edu, student S101) on this.</p>';
+    submission.submission_comments.push({ id: 9, comment: 'Thanks Carla!', author: { id: 102, display_name: 'Bob Smith', role: 'student' } });
+    submission.attachments = [{ id: 502, filename: 'bob_smith_essay.pdf', display_name: 'bob_smith_essay.pdf', 'content-type': 'application/pdf', size: 10 }];
+  });
+  after(() => h.close());
+
+  it('list-assignment-submissions redacts bodies, comments and filenames', async () => {
+    const result = await h.call('list-assignment-submissions', { courseId: '1', assignmentId: '201' });
+    assert.doesNotMatch(result.text, /Alice|Johnson|Bob|Smith|Carla|@school\.edu|S101/);
+    const submission = result.structured.submissions.find((s: any) => s.id === 402);
+    assert.match(submission.body, /Worked with Student \d+ \(student\d+@example\.com, student student-\d+\)/);
+    assert.match(submission.submission_comments.at(-1).comment, /^Thanks Student \d+!$/);
+    assert.match(submission.attachments[0].filename, /^Student_\d+_essay\.pdf$/);
+  });
+
+  it('download-submission-file redacts text content for a course', async () => {
+    const file = (await h.call('download-submission-file', { fileId: '501', courseId: '1' })).structured;
+    assert.match(file.content, /^Hello from Student \d+!\n$/);
+  });
+
+  it('get-submission-file-info and download-submission-file redact filenames', async () => {
+    h.canvas.state.files.push({ id: 502, filename: 'bob_smith_essay.txt', display_name: 'bob_smith_essay.txt', 'content-type': 'text/plain', size: 12, content: 'Essay by Bob' });
+    const info = await h.call('get-submission-file-info', { courseId: '1', fileId: '502' });
+    assert.match(info.text, /^File 502: Student_\d+_essay\.txt \(text\/plain, 12 bytes\)/);
+    assert.match(info.structured.file.filename, /^Student_\d+_essay\.txt$/);
+    assert.doesNotMatch(JSON.stringify(info.structured), /bob|smith/i);
+
+    const file = (await h.call('download-submission-file', { fileId: '502', courseId: '1' })).structured;
+    assert.match(file.filename, /^Student_\d+_essay\.txt$/);
+    assert.match(file.content, /^Essay by Student \d+$/);
+
+    // A download without the course can't be redacted, so it's refused
+    const withoutCourse = await h.call('download-submission-file', { fileId: '502' });
+    assert.equal(withoutCourse.isError, true);
+  });
+});
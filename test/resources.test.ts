@@ -0,0 +1,95 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { ResourceUpdatedNotificationSchema } from '@modelcontextprotocol/sdk/types.js';
+import { Harness, startHarness } from './harness.js';
+
+describe('resources', () => {
+  let h: Harness;
+  const updated: string[] = [];
+  before(async () => {
+    h = await startHarness();
+    h.client.setNotificationHandler(ResourceUpdatedNotificationSchema, notification => {
+      updated.push(notification.params.uri);
+    });
+  });
+  after(() => h.close());
+
+  const read = async (uri: string) => (await h.client.readResource({ uri })).contents[0] as any;
+
+  it('lists the courses resource and the templates', async () => {
+    const { resources } = await h.client.listResources();
+    assert.ok(resources.some(resource => resource.uri === 'canvas://courses'));
+    const { resourceTemplates } = await h.client.listResourceTemplates();
+    assert.deepEqual(resourceTemplates.map(template => template.uriTemplate).sort(), [
+      'canvas://courses/{courseId}/assignments/{assignmentId}',
+      'canvas://courses/{courseId}/assignments/{assignmentId}/submissions/{userId}/files/{fileId}',
+      'canvas://courses/{courseId}/modules/{moduleId}',
+      'canvas://courses/{courseId}/pages/{pageUrl}',
+      'canvas://courses/{courseId}/quizzes/{quizId}',
+      'canvas://courses/{courseId}/styleguide'
+    ]);
+  });
+
+  it('reads courses, pages and assignments', async () => {
+    const courses = JSON.parse((await read('canvas://courses')).text);
+    assert.ok(courses.some((course: any) => course.id === 1));
+
+    const page = await read('canvas://courses/1/pages/welcome');
+    assert.equal(page.mimeType, 'text/html');
+    assert.equal(page.text, '<p>Welcome to the course!</p>');
+
+    const assignment = JSON.parse((await read('canvas://courses/1/assignments/201')).text);
+    assert.equal(assignment.id, 201);
+
+    const module = JSON.parse((await read('canvas://courses/1/modules/601')).text);
+    assert.deepEqual(module.items.map((item: any) => item.title), ['Welcome', 'Portfolio Website']);
+    const quiz = JSON.parse((await read('canvas://courses/1/quizzes/1001')).text);
+    assert.equal(quiz.title, 'HTML Basics');
+  });
+
+  it('reads the styleguide once it exists', async () => {
+    await assert.rejects(read('canvas://courses/1/styleguide'));
+    await h.call('generate-styleguide', { courseId: '1' });
+    assert.match((await read('canvas://courses/1/styleguide')).text, /canvas-styleguide/);
+  });
+
+  it('reads submission files redacted, and only files of that submission', async () => {
+    const file = await read('canvas://courses/1/assignments/201/submissions/101/files/501');
+    assert.match(file.text, /^Hello from Student \d+!\n$/);
+    await assert.rejects(read('canvas://courses/1/assignments/201/submissions/102/files/501'), /not attached to this submission/);
+  });
+
+  it('notifies subscribers when a write touches the course', async () => {
+    await h.client.subscribeResource({ uri: 'canvas://courses/1/pages/welcome' });
+    await h.client.subscribeResource({ uri: 'canvas://courses/2/pages/welcome' });
+    await h.call('update-page-content', { courseId: '1', pageUrl: 'welcome', body: '<p>Hi</p>', ignoreStyleguide: true });
+    await new Promise(resolve => setImmediate(resolve));
+    assert.deepEqual(updated, ['canvas://courses/1/pages/welcome']);
+
+    await h.client.unsubscribeResource({ uri: 'canvas://courses/1/pages/welcome' });
+    await h.call('update-page-content', { courseId: '1', pageUrl: 'welcome', body: '<p>Hello</p>', ignoreStyleguide: true });
+    await new Promise(resolve => setImmediate(resolve));
+    assert.equal(updated.length, 1);
+  });
+
+  it('notifies subscribers of writes made by other sessions', async () => {
+    updated.length = 0;
+    const other = await startHarness({ canvas: h.canvas });
+    try {
+      await h.client.subscribeResource({ uri: 'canvas://courses/1/assignments/201' });
+      await other.call('update-assignment', { courseId: '1', assignmentId: '201', name: 'Portfolio (final)' });
+      await new Promise(resolve => setImmediate(resolve));
+      assert.deepEqual(updated, ['canvas://courses/1/assignments/201']);
+
+      // Another Canvas instance's course 1 is a different course
+      const elsewhere = await startHarness();
+      await elsewhere.call('update-assignment', { courseId: '1', assignmentId: '201', name: 'Portfolio' });
+      await elsewhere.close();
+      await new Promise(resolve => setImmediate(resolve));
+      assert.equal(updated.length, 1);
+    } finally {
+      await h.client.unsubscribeResource({ uri: 'canvas://courses/1/assignments/201' });
+      await other.close();
+    }
+  });
+});
@@ -0,0 +1,39 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Harness, startHarness } from './harness.js';
+
+describe('rubric tools', () => {
+  let h: Harness;
+  before(async () => { h = await startHarness(); });
+  after(() => h.close());
+
+  it('list-rubrics', async () => {
+    const result = await h.call('list-rubrics', { courseId: '1' });
+    assert.match(result.text, /Rubric: Portfolio Rubric\nID: 901\nDescription: Rubric for the portfolio/);
+  });
+
+  it('get-rubric-statistics summarizes assessments per criterion', async () => {
+    const result = await h.call('get-rubric-statistics', { courseId: '1', assignmentId: '201' });
+    assert.match(result.text, /Total Submissions: 3\nSubmissions with Assessment: 2\nAverage Score: 6/);
+    assert.match(result.text, /Criterion: Structure\nPoints Possible: 4\nTotal Assessments: 2\nAverage Score: 3/);
+    assert.match(result.text, /4 points: 1 submissions \(50\.0%\)/);
+  });
+
+  it('get-rubric-statistics reports assignments without a rubric', async () => {
+    const result = await h.call('get-rubric-statistics', { courseId: '1', assignmentId: '202' });
+    assert.equal(result.isError, true);
+    assert.match(result.text, /No rubric found for assignment 202/);
+  });
+
+  it('list-rubric-assessments anonymizes students', async () => {
+    const assessments = (await h.call('list-rubric-assessments', { courseId: '1', assignmentId: '201' })).structured.assessments;
+    assert.deepEqual(assessments[0].rubric_assessment, { crit1: { points: 4 }, crit2: { points: 3 } });
+    assert.doesNotMatch(JSON.stringify(assessments), /Alice Johnson/);
+  });
+
+  it('attach-rubric-to-assignment', async () => {
+    const assignment = (await h.call('attach-rubric-to-assignment', { courseId: '1', assignmentId: '202', rubricId: '901' })).structured.assignment;
+    assert.equal(assignment.rubric_id, 901);
+    assert.equal(h.canvas.requests.at(-1)?.query.rubric_id, '901');
+  });
+});
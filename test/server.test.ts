@@ -0,0 +1,37 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync } from 'node:fs';
+import { Harness, startHarness } from './harness.js';
+
+describe('server', () => {
+  let h: Harness;
+  before(async () => { h = await startHarness(); });
+  after(() => h.close());
+
+  it('registers every tool module', async () => {
+    const { tools } = await h.client.listTools();
+    const names = tools.map(tool => tool.name);
+    assert.equal(new Set(names).size, names.length);
+    // Each tool file contributes at least its first tool
+    for (const name of ['list-courses', 'list-students', 'list-assignments', 'list-assignment-groups', 'list-modules',
+      'list-pages', 'list-sections', 'list-assignment-submissions', 'list-rubrics', 'list-quizzes', 'list-audit-log']) {
+      assert.ok(names.includes(name), `${name} is registered`);
+    }
+  });
+
+  it('every registered tool is exercised by the suite', async () => {
+    const { tools } = await h.client.listTools();
+    const suite = ['courses', 'assignments', 'submissions', 'modules', 'pages', 'quizzes', 'rubrics', 'audit', 'undo']
+      .map(file => readFileSync(new URL(`./${file}.test.ts`, import.meta.url), 'utf-8'))
+      .join('\n');
+    const untested = tools.map(tool => tool.name).filter(name => !suite.includes(`'${name}'`));
+    assert.deepEqual(untested, []);
+  });
+
+  it('serves the rubric analysis prompt', async () => {
+    const prompt = await h.client.getPrompt({ name: 'analyze-rubric-statistics', arguments: { courseName: 'Web Development' } });
+    const content = prompt.messages[0].content;
+    assert.equal(content.type, 'text');
+    assert.match(content.type === 'text' ? content.text : '', /the course "Web Development"/);
+  });
+});
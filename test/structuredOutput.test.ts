@@ -0,0 +1,69 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { TOOL_CATALOG } from '../src/toolCatalog.js';
+import { Harness, startHarness } from './harness.js';
+
+describe('structured tool output', () => {
+  let h: Harness;
+  before(async () => { h = await startHarness(); });
+  after(() => h.close());
+
+  it('every tool declares an output schema', async () => {
+    const { tools } = await h.client.listTools();
+    assert.equal(tools.length, TOOL_CATALOG.length);
+    for (const tool of tools) {
+      assert.equal(tool.outputSchema?.type, 'object', tool.name);
+    }
+    // Write tools can also answer with a dry run's planned changes
+    const update = tools.find(tool => tool.name === 'update-assignment')!;
+    assert.ok(update.outputSchema?.properties?.plannedChanges);
+    assert.deepEqual(update.outputSchema?.required ?? [], []);
+  });
+
+  it('formatted tools return their entities next to the text', async () => {
+    const result = await h.call('list-courses');
+    assert.match(result.text, /^Available Courses:/);
+    assert.deepEqual(result.structured.courses.map((course: any) => course.id), [1]);
+    assert.equal(result.structured.courses[0].term.name, 'Fall 2026');
+  });
+
+  it('list-students only returns emails when asked for', async () => {
+    const without = (await h.call('list-students', { courseId: '1' })).structured.students;
+    assert.ok(without.every((student: any) => !('email' in student)));
+    const withEmail = (await h.call('list-students', { courseId: '1', includeEmail: true })).structured.students;
+    assert.equal(withEmail[0].email, 'student1@example.com');
+  });
+
+  it('JSON tools lead with a summary', async () => {
+    const result = await h.call('list-assignment-submissions', { courseId: '1', assignmentId: '201' });
+    assert.match(result.text, /^3 submissions: 2 submitted, 2 graded, 1 late, 1 missing\n\{/);
+    assert.equal(result.structured.submissions.length, 3);
+  });
+
+  it('get-rubric-statistics returns the numbers it formats', async () => {
+    const { overall, criteria } = (await h.call('get-rubric-statistics', { courseId: '1', assignmentId: '201' })).structured;
+    assert.equal(overall.total_submissions, 3);
+    assert.equal(overall.submissions_with_assessment, 2);
+    const structure = criteria.find((criterion: any) => criterion.description === 'Structure');
+    assert.equal(structure.average_score, 3);
+    assert.deepEqual(structure.point_distribution, { 2: 1, 4: 1 });
+  });
+
+  it('dry runs return the planned changes', async () => {
+    const result = await h.call('update-assignment', { courseId: '1', assignmentId: '201', points_possible: 10, dryRun: true });
+    assert.equal(result.structured.dryRun, true);
+    assert.deepEqual(result.structured.plannedChanges, [{
+      method: 'PUT',
+      path: '/api/v1/courses/1/assignments/201',
+      action: 'update',
+      fields: [{ field: 'points_possible', before: 8, after: 10 }]
+    }]);
+    assert.equal(result.structured.assignment, undefined);
+  });
+
+  it('errors have no structured content', async () => {
+    const result = await h.call('get-assignment', { courseId: '1', assignmentId: '999' });
+    assert.equal(result.isError, true);
+    assert.equal(result.structured, undefined);
+  });
+});
@@ -0,0 +1,70 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Harness, startHarness } from './harness.js';
+
+describe('submission tools', () => {
+  let h: Harness;
+  before(async () => { h = await startHarness(); });
+  after(() => h.close());
+
+  it('list-assignment-submissions anonymizes student comment authors', async () => {
+    const submissions = (await h.call('list-assignment-submissions', { courseId: '1', assignmentId: '201' })).structured.submissions;
+    assert.equal(submissions.length, 3);
+    const comments = submissions[0].submission_comments;
+    assert.equal(comments[0].author.display_name, 'Student 1');
+    assert.equal(comments[1].author.display_name, 'Ms. Teacher');
+  });
+
+  it('list-assignment-submissions returns raw data when anonymous is false', async () => {
+    const submissions = (await h.call('list-assignment-submissions', { courseId: '1', assignmentId: '201', anonymous: false })).structured.submissions;
+    assert.equal(submissions[0].submission_comments[0].author.display_name, 'Alice Johnson');
+  });
+
+  it('grade-submission writes the grade and comment', async () => {
+    const graded = (await h.call('grade-submission', {
+      courseId: '1', assignmentId: '201', userId: '102', posted_grade: '6', comment: 'Better styling next time'
+    })).structured.submission;
+    assert.equal(graded.grade, '6');
+    assert.equal(graded.submission_comments.at(-1).comment, 'Better styling next time');
+  });
+
+  it('post-submission-comment adds a comment', async () => {
+    const submission = (await h.call('post-submission-comment', {
+      courseId: '1', assignmentId: '201', userId: '104', comment: 'Please submit soon'
+    })).structured.submission;
+    assert.equal(submission.submission_comments.at(-1).comment, 'Please submit soon');
+  });
+
+  it('get-submission-documents returns text submissions and hides the user id', async () => {
+    const result = (await h.call('get-submission-documents', { courseId: '1', assignmentId: '201', userId: '102' })).structured;
+    assert.equal(result.submission.user_id, '[ANONYMIZED]');
+    assert.equal(result.text_content, '<p>My portfolio is at example.com</p>');
+    assert.deepEqual(result.attachments, []);
+  });
+
+  it('get-submission-documents downloads attachments on request', async () => {
+    const result = (await h.call('get-submission-documents', { courseId: '1', assignmentId: '201', userId: '101', downloadFiles: true })).structured;
+    assert.equal(result.attachments[0].url, '[DOWNLOADED_BELOW]');
+    // Anonymous by default, so the student's name in the file is replaced too
+    assert.match(Buffer.from(result.downloaded_files[0].content_base64, 'base64').toString(), /^Hello from Student \d+!\n$/);
+  });
+
+  it('get-submission-file-info returns file metadata', async () => {
+    const result = await h.call('get-submission-file-info', { courseId: '1', fileId: '501' });
+    assert.match(result.text, /^File 501: portfolio\.txt \(text\/plain, 20 bytes\)/);
+    const info = result.structured.file;
+    assert.equal(info.filename, 'portfolio.txt');
+    assert.equal(info['content-type'], 'text/plain');
+    assert.match(info.url, /\/files\/501\/download$/);
+  });
+
+  it('download-submission-file decodes text files', async () => {
+    const file = (await h.call('download-submission-file', { courseId: '1', fileId: '501', anonymous: false })).structured;
+    assert.equal(file.content_encoding, 'text');
+    assert.equal(file.content, 'Hello from Alice!\n');
+
+    const forced = (await h.call('download-submission-file', { courseId: '1', fileId: '501', forceBase64: true, anonymous: false })).structured;
+    assert.equal(forced.content_encoding, 'base64');
+    assert.equal(Buffer.from(forced.content, 'base64').toString(), 'Hello from Alice!\n');
+  });
+});
@@ -0,0 +1,173 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { strToU8, zipSync } from 'fflate';
+import { TextExtractionError, detectFormat, extractDocumentText, htmlToText, loadTextExtractionOptions } from '../src/textExtraction.js';
+import { Harness, startHarness } from './harness.js';
+
+const DOCX = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+const ODT = 'application/vnd.oasis.opendocument.text';
+const zip = (files: Record<string, string>) => zipSync(Object.fromEntries(Object.entries(files).map(([name, text]) => [name, strToU8(text)])));
+
+const docx = zip({
+  'word/document.xml': `<w:document><w:body>
+    <w:p><w:pPr><w:pStyle w:val="Heading1"/></w:pPr><w:r><w:t>Reflection</w:t></w:r></w:p>
+    <w:p><w:r><w:t xml:space="preserve">I learned </w:t></w:r><w:r><w:t>flexbox &amp; grid.</w:t></w:r></w:p>
+    <w:p><w:r><w:br w:type="page"/></w:r><w:r><w:t>Written by Alice Johnson</w:t></w:r></w:p>
+  </w:body></w:document>`
+});
+
+const odt = zip({
+  'content.xml': '<office:document-content><office:body><office:text><text:h text:outline-level="1">Essay</text:h><text:p>By Alice Johnson</text:p></office:text></office:body></office:document-content>'
+});
+
+// A one-font PDF with a page per string, with a correct cross-reference table
+function pdf(pages: string[]): Uint8Array {
+  const objects = [
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    `<< /Type /Pages /Kids [${pages.map((_, i) => `${4 + i * 2} 0 R`).join(' ')}] /Count ${pages.length} >>`,
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica >>',
+    ...pages.flatMap((text, i) => {
+      const stream = `BT /F1 12 Tf 72 720 Td (${text}) Tj ET`;
+      return [
+        `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 612 792] /Resources << /Font << /F1 3 0 R >> >> /Contents ${5 + i * 2} 0 R >>`,
+        `<< /Length ${stream.length} >>\nstream\n${stream}\nendstream`
+      ];
+    })
+  ];
+  let body = '%PDF-1.4\n';
+  const offsets = objects.map((object, i) => {
+    const offset = body.length;
+    body += `${i + 1} 0 obj\n${object}\nendobj\n`;
+    return offset;
+  });
+  const xref = body.length;
+  body += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n${offsets.map(o => `${String(o).padStart(10, '0')} 00000 n \n`).join('')}`;
+  body += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+  return strToU8(body);
+}
+
+describe('text extraction', () => {
+  const options = loadTextExtractionOptions({});
+
+  it('detects formats from the content type, then the extension', () => {
+    assert.equal(detectFormat(DOCX, 'essay'), 'docx');
+    assert.equal(detectFormat('application/octet-stream', 'notes.MD'), 'markdown');
+    assert.equal(detectFormat('application/octet-stream', 'main.py'), 'text');
+    assert.equal(detectFormat('image/png', 'photo.png'), undefined);
+  });
+
+  it('reads PDFs page by page', async () => {
+    const result = await extractDocumentText(pdf(['First page', 'Second page']), 'application/pdf', 'essay.pdf', options);
+    assert.equal(result?.format, 'pdf');
+    assert.match(result!.text, /--- Page 1 ---\nFirst page\n\n--- Page 2 ---\nSecond page/);
+  });
+
+  it('keeps Word headings and page breaks', async () => {
+    const result = await extractDocumentText(docx, DOCX, 'essay.docx', options);
+    assert.equal(result?.text, '# Reflection\nI learned flexbox & grid.\n--- Page 2 ---\nWritten by Alice Johnson');
+  });
+
+  it('marks slides, sheets and OpenDocument headings', async () => {
+    const slides = zip({
+      'ppt/slides/slide10.xml': '<p:sld><a:p><a:r><a:t>Last</a:t></a:r></a:p></p:sld>',
+      'ppt/slides/slide2.xml': '<p:sld><a:p><a:r><a:t>Agenda</a:t></a:r></a:p><a:p><a:r><a:t>Goals</a:t></a:r></a:p></p:sld>'
+    });
+    assert.equal((await extractDocumentText(slides, undefined, 'talk.pptx', options))?.text, '--- Slide 2 ---\nAgenda\nGoals\n\n--- Slide 10 ---\nLast');
+
+    const workbook = zip({
+      'xl/workbook.xml': '<workbook><sheets><sheet name="Grades" sheetId="1" r:id="rId1"/></sheets></workbook>',
+      'xl/_rels/workbook.xml.rels': '<Relationships><Relationship Id="rId1" Target="worksheets/sheet1.xml"/></Relationships>',
+      'xl/sharedStrings.xml': '<sst><si><t>Name</t></si><si><t>Score</t></si></sst>',
+      'xl/worksheets/sheet1.xml': '<worksheet><sheetData><row r="1"><c r="A1" t="s"><v>0</v></c><c r="C1" t="s"><v>1</v></c></row><row r="2"><c r="A2" t="inlineStr"><is><t>Ann</t></is></c><c r="C2"><v>9.5</v></c></row></sheetData></worksheet>'
+    });
+    assert.equal((await extractDocumentText(workbook, undefined, 'grades.xlsx', options))?.text, '--- Sheet: Grades ---\nName\t\tScore\nAnn\t\t9.5');
+
+    const odt = zip({
+      'content.xml': '<office:document-content><office:body><office:text><text:h text:outline-level="2">Intro</text:h><text:p>One<text:s text:c="2"/>two</text:p></office:text></office:body></office:document-content>'
+    });
+    assert.equal((await extractDocumentText(odt, ODT, 'essay.odt', options))?.text, '## Intro\nOne  two');
+  });
+
+  it('lists source archives file by file and skips binaries and metadata', async () => {
+    const archive = zipSync({
+      'project/src/main.py': strToU8('print("hi")\n'),
+      'project/logo.png': new Uint8Array([137, 80, 78, 71, 0, 0]),
+      '__MACOSX/project/._main.py': strToU8('junk')
+    });
+    const result = await extractDocumentText(archive, 'application/zip', 'project.zip', options);
+    assert.equal(result?.text, '--- File: project/logo.png (binary, 6 bytes, not shown) ---\n\n--- File: project/src/main.py ---\nprint("hi")');
+  });
+
+  it('turns HTML into text with headings', () => {
+    assert.equal(htmlToText('<style>p{}</style><h2>Title</h2><p>A &amp; B</p><ul><li>one</li></ul>'), '## Title\n\nA & B\n\n- one');
+  });
+
+  it('enforces the size limits', async () => {
+    const truncated = await extractDocumentText(strToU8('x'.repeat(50)), 'text/markdown', 'notes.md', { maxInputBytes: 1000, maxChars: 10 });
+    assert.equal(truncated?.truncated, true);
+    assert.equal(truncated?.totalChars, 50);
+    assert.match(truncated!.text, /^x{10}\n\n\[Truncated: showing 10 of 50 characters\]$/);
+
+    await assert.rejects(extractDocumentText(docx, DOCX, 'essay.docx', { maxInputBytes: 10, maxChars: 100 }), TextExtractionError);
+    // The uncompressed size counts too, so a small zip can't expand into a huge one
+    const bomb = zipSync({ 'word/document.xml': new Uint8Array(5000) });
+    await assert.rejects(extractDocumentText(bomb, DOCX, 'bomb.docx', { maxInputBytes: 1000, maxChars: 100 }), /Missing word\/document.xml/);
+  });
+});
+
+describe('text extraction in tool output', () => {
+  let h: Harness;
+  before(async () => {
+    h = await startHarness();
+    h.canvas.state.files.push(
+      { id: 502, filename: 'essay.docx', display_name: 'essay.docx', 'content-type': DOCX, size: docx.length, content: Buffer.from(docx) } as any,
+      { id: 503, filename: 'scan.pdf', display_name: 'scan.pdf', 'content-type': 'application/pdf', size: 9, content: 'not a pdf' },
+      { id: 505, filename: 'essay.odt', display_name: 'essay.odt', 'content-type': ODT, size: odt.length, content: Buffer.from(odt) } as any
+    );
+    const submission: any = h.canvas.state.submissions.find(s => s.user_id === 101);
+    submission.attachments.push(
+      { id: 502, filename: 'essay.docx', display_name: 'essay.docx', 'content-type': DOCX, size: docx.length },
+      { id: 505, filename: 'essay.odt', display_name: 'essay.odt', 'content-type': ODT, size: odt.length }
+    );
+  });
+  after(() => h.close());
+
+  it('download-submission-file returns extracted text, redacted for the course', async () => {
+    const file = (await h.call('download-submission-file', { fileId: '502', courseId: '1' })).structured;
+    assert.equal(file.content_encoding, 'text');
+    assert.equal(file.extracted_from, 'docx');
+    assert.match(file.content, /^# Reflection\n/);
+    assert.match(file.content, /Written by Student \d+$/);
+
+    const raw = (await h.call('download-submission-file', { fileId: '502', extractText: false, courseId: '1' })).structured;
+    assert.equal(raw.content_encoding, 'base64');
+  });
+
+  it('download-submission-file extracts OpenDocument text instead of treating it as plain text', async () => {
+    const file = (await h.call('download-submission-file', { fileId: '505', courseId: '1' })).structured;
+    assert.equal(file.content_encoding, 'text');
+    assert.equal(file.extracted_from, 'odt');
+    assert.equal(file.content, '# Essay\nBy Student 1');
+
+    const raw = (await h.call('download-submission-file', { fileId: '505', extractText: false, courseId: '1' })).structured;
+    assert.equal(raw.content_encoding, 'base64');
+    assert.deepEqual(Buffer.from(raw.content, 'base64'), Buffer.from(odt));
+  });
+
+  it('get-submission-documents returns extracted text instead of base64', async () => {
+    const result = (await h.call('get-submission-documents', { courseId: '1', assignmentId: '201', userId: '101', downloadFiles: true })).structured;
+    const essay = result.downloaded_files.find((file: any) => file.id === 502);
+    assert.equal(essay.content_base64, '[EXTRACTED_AS_TEXT]');
+    assert.equal(essay.text_format, 'docx');
+    assert.match(essay.text, /Written by Student \d+$/);
+    const odtEssay = result.downloaded_files.find((file: any) => file.id === 505);
+    assert.equal(odtEssay.content_base64, '[EXTRACTED_AS_TEXT]');
+    assert.equal(odtEssay.text, '# Essay\nBy Student 1');
+  });
+
+  it('falls back to base64 for files it cannot read', async () => {
+    const file = (await h.call('download-submission-file', { fileId: '503', courseId: '1' })).structured;
+    assert.equal(file.content_encoding, 'base64');
+    assert.match(file.extraction_error, /Could not read PDF/);
+  });
+});
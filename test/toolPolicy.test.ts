@@ -0,0 +1,56 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync } from 'node:fs';
+import { TOOL_CATALOG, ToolPolicy, loadToolPolicy } from '../src/toolCatalog.js';
+import { startHarness } from './harness.js';
+
+async function registeredTools(toolPolicy: ToolPolicy): Promise<string[]> {
+  const h = await startHarness({ toolPolicy });
+  try {
+    const { tools } = await h.client.listTools();
+    return tools.map(tool => tool.name).sort();
+  } finally {
+    await h.close();
+  }
+}
+
+const names = (filter: (tool: typeof TOOL_CATALOG[number]) => boolean) =>
+  TOOL_CATALOG.filter(filter).map(tool => tool.name).sort();
+
+describe('tool policy', () => {
+  it('registers exactly the catalog by default', async () => {
+    assert.deepEqual(await registeredTools(loadToolPolicy({})), names(() => true));
+  });
+
+  it('leaves out every write tool in read-only mode', async () => {
+    const tools = await registeredTools(loadToolPolicy({ CANVAS_MCP_MODE: 'readonly' }));
+    assert.deepEqual(tools, names(tool => tool.access === 'read'));
+    for (const name of ['delete-assignment', 'delete-quiz', 'grade-submission', 'apply-page-changes', 'bulk-update-assignment-dates']) {
+      assert.ok(!tools.includes(name), `${name} is not registered`);
+    }
+  });
+
+  it('includes and excludes by category or tool name', async () => {
+    const tools = await registeredTools(loadToolPolicy({
+      CANVAS_MCP_TOOLS: 'pages, get-rubric-statistics',
+      CANVAS_MCP_EXCLUDE_TOOLS: 'revert-page-revision'
+    }));
+    assert.deepEqual(tools, names(tool =>
+      (tool.category === 'pages' || tool.name === 'get-rubric-statistics') && tool.name !== 'revert-page-revision'));
+  });
+
+  it('keeps write tools out of read-only mode even when included', async () => {
+    const tools = await registeredTools(loadToolPolicy({ CANVAS_MCP_MODE: 'readonly', CANVAS_MCP_TOOLS: 'quizzes' }));
+    assert.deepEqual(tools, names(tool => tool.category === 'quizzes' && tool.access === 'read'));
+  });
+
+  it('rejects unknown modes, tools and categories', () => {
+    assert.throws(() => loadToolPolicy({ CANVAS_MCP_MODE: 'safe' }), /CANVAS_MCP_MODE must be/);
+    assert.throws(() => loadToolPolicy({ CANVAS_MCP_EXCLUDE_TOOLS: 'delete-assignments' }), /Unknown tool or category.*delete-assignments/);
+  });
+
+  it('manifest.json lists the same tools as the catalog', () => {
+    const manifest = JSON.parse(readFileSync(new URL('../manifest.json', import.meta.url), 'utf-8'));
+    assert.deepEqual(manifest.tools.map((tool: any) => tool.name).sort(), names(() => true));
+  });
+});
@@ -0,0 +1,116 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Harness, startHarness } from './harness.js';
+
+describe('undo journal', () => {
+  let h: Harness;
+  before(async () => { h = await startHarness(); });
+  after(() => h.close());
+
+  const assignment = (id: number): any => h.canvas.state.assignments.find(a => a.id === id);
+  const latestChangeId = async () => (await h.call('list-undoable-changes')).text.match(/change-\d+/)![0];
+
+  it('undo-change restores an update-assignment change', async () => {
+    await h.call('update-assignment', { courseId: '1', assignmentId: '201', points_possible: 10 });
+    assert.equal(assignment(201).points_possible, 10);
+
+    const listed = await h.call('list-undoable-changes');
+    assert.match(listed.text, /change-1: update-assignment at /);
+    assert.match(listed.text, /\/api\/v1\/courses\/1\/assignments\/201\n    points_possible: 10 → 8/);
+
+    const result = await h.call('undo-change', { changeId: 'change-1' });
+    assert.equal(result.isError, false);
+    assert.match(result.text, /^Undid change-1 \(update-assignment\)/);
+    assert.equal(assignment(201).points_possible, 8);
+    assert.doesNotMatch((await h.call('list-undoable-changes')).text, /change-1/);
+
+    const again = await h.call('undo-change', { changeId: 'change-1' });
+    assert.equal(again.isError, true);
+    assert.match(again.text, /already undone/);
+  });
+
+  it('restores every assignment of a bulk date update', async () => {
+    await h.call('bulk-update-assignment-dates', {
+      courseId: '1',
+      assignmentDates: [
+        { assignment_id: '201', due_at: '2026-09-15T21:59:00Z' },
+        { assignment_id: '202', due_at: '2026-09-20T21:59:00Z' }
+      ]
+    });
+    const id = await latestChangeId();
+    const listed = await h.call('list-undoable-changes');
+    assert.match(listed.text, new RegExp(`${id}: bulk-update-assignment-dates`));
+
+    await h.call('undo-change', { changeId: id });
+    assert.equal(assignment(201).due_at, '2026-09-01T21:59:00Z');
+    assert.equal(assignment(202).due_at ?? null, null);
+  });
+
+  it('doesn\'t mistake Canvas\' UTC copy of a bulk-updated date for a conflict', async () => {
+    await h.call('bulk-update-assignment-dates', {
+      courseId: '1',
+      assignmentDates: [
+        { assignment_id: '201', due_at: '2026-09-15T23:59:00+02:00' },
+        { assignment_id: '202', due_at: '2026-09-20T23:59:00+02:00' }
+      ]
+    });
+    assert.equal(assignment(201).due_at, '2026-09-15T21:59:00Z');
+
+    const result = await h.call('undo-change', { changeId: await latestChangeId() });
+    assert.equal(result.isError, false, result.text);
+    assert.equal(assignment(201).due_at, '2026-09-01T21:59:00Z');
+    assert.equal(assignment(202).due_at ?? null, null);
+  });
+
+  it('restores module publishing, quizzes and quiz questions', async () => {
+    await h.call('toggle-module-publish', { courseId: '1', moduleId: '601' });
+    assert.equal(h.canvas.state.modules.find(m => m.id === 601)?.published, false);
+    await h.call('undo-change', { changeId: await latestChangeId() });
+    assert.equal(h.canvas.state.modules.find(m => m.id === 601)?.published, true);
+
+    await h.call('update-quiz', { courseId: '1', quizId: '1001', title: 'HTML Fundamentals' });
+    await h.call('undo-change', { changeId: await latestChangeId() });
+    assert.equal(h.canvas.state.quizzes.find(q => q.id === 1001)?.title, 'HTML Basics');
+
+    await h.call('update-quiz-question', {
+      courseId: '1', quizId: '1001', questionId: '1101',
+      question: { question_text: 'What is HTML?', question_type: 'multiple_choice_question', points_possible: 1 }
+    });
+    await h.call('undo-change', { changeId: await latestChangeId() });
+    assert.equal(h.canvas.state.quizQuestions[1001].find(q => q.id === 1101)?.question_text, 'What does HTML stand for?');
+  });
+
+  it('refuses with a conflict report when Canvas changed since the snapshot', async () => {
+    await h.call('update-assignment', { courseId: '1', assignmentId: '201', name: 'Portfolio Site' });
+    const id = await latestChangeId();
+    // Someone else edits the assignment in Canvas afterwards
+    assignment(201).name = 'Portfolio (final)';
+
+    const writes = h.canvas.requests.filter(r => r.method === 'PUT').length;
+    const result = await h.call('undo-change', { changeId: id });
+    assert.equal(result.isError, true);
+    assert.match(result.text, new RegExp(`Refusing to undo ${id}`));
+    assert.match(result.text, /\/api\/v1\/courses\/1\/assignments\/201 name: expected "Portfolio Site", Canvas now has "Portfolio \(final\)"/);
+    assert.equal(h.canvas.requests.filter(r => r.method === 'PUT').length, writes);
+    assert.equal(assignment(201).name, 'Portfolio (final)');
+  });
+
+  it('a dry run previews the undo without using it up', async () => {
+    await h.call('update-quiz', { courseId: '1', quizId: '1001', points_possible: 7 });
+    const id = await latestChangeId();
+    const preview = await h.call('undo-change', { changeId: id, dryRun: true });
+    assert.match(preview.text, /points_possible: 7 → 5/);
+    assert.equal(h.canvas.state.quizzes.find(q => q.id === 1001)?.points_possible, 7);
+    assert.match((await h.call('list-undoable-changes')).text, new RegExp(id));
+  });
+
+  it('only journals undoable tools', async () => {
+    const before = (await h.call('list-undoable-changes')).text;
+    await h.call('grade-submission', { courseId: '1', assignmentId: '201', userId: '102', posted_grade: '6' });
+    assert.equal((await h.call('list-undoable-changes')).text, before);
+
+    const unknown = await h.call('undo-change', { changeId: 'change-999' });
+    assert.equal(unknown.isError, true);
+    assert.match(unknown.text, /No undoable change with id change-999/);
+  });
+});